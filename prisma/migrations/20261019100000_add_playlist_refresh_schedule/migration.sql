@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "Playlist" ADD COLUMN "refreshSchedule" JSONB;
+
+-- CreateTable
+CREATE TABLE "PlaylistRefresh" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "playlistId" TEXT NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "success" BOOLEAN NOT NULL,
+    "added" INTEGER NOT NULL DEFAULT 0,
+    "removed" INTEGER NOT NULL DEFAULT 0,
+    "total" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "duration" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "PlaylistRefresh_playlistId_fkey" FOREIGN KEY ("playlistId") REFERENCES "Playlist" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "PlaylistRefresh_playlistId_createdAt_idx" ON "PlaylistRefresh"("playlistId", "createdAt");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "PlaylistItem" ADD COLUMN "pinned" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "PlaybackSession" (
+    "playlistId" TEXT NOT NULL PRIMARY KEY,
+    "itemId" TEXT,
+    "position" REAL NOT NULL DEFAULT 0,
+    "playOrder" JSONB NOT NULL,
+    "playedItemIds" JSONB NOT NULL,
+    "shuffled" BOOLEAN NOT NULL DEFAULT false,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "PlaybackSession_playlistId_fkey" FOREIGN KEY ("playlistId") REFERENCES "Playlist" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "WallConfig" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "playlistId" TEXT NOT NULL,
+    "layout" TEXT NOT NULL,
+    "tiles" JSONB NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "WallConfig_playlistId_fkey" FOREIGN KEY ("playlistId") REFERENCES "Playlist" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "WallConfig_playlistId_idx" ON "WallConfig"("playlistId");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Item" ADD COLUMN "skipCount" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Item" ADD COLUMN "lastSkippedAt" DATETIME;
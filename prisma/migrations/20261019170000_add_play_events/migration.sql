@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "PlayEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "itemId" TEXT NOT NULL,
+    "playlistId" TEXT,
+    "outcome" TEXT NOT NULL,
+    "watchedSeconds" REAL NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "PlayEvent_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "Item" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "PlayEvent_playlistId_fkey" FOREIGN KEY ("playlistId") REFERENCES "Playlist" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "PlayEvent_itemId_createdAt_idx" ON "PlayEvent"("itemId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "PlayEvent_playlistId_createdAt_idx" ON "PlayEvent"("playlistId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "PlayEvent_createdAt_idx" ON "PlayEvent"("createdAt");
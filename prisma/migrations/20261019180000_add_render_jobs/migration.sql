@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "RenderJob" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "mode" TEXT NOT NULL,
+    "concat" BOOLEAN NOT NULL DEFAULT false,
+    "playlistId" TEXT,
+    "clips" JSONB NOT NULL,
+    "outputDir" TEXT NOT NULL,
+    "outputs" JSONB,
+    "progress" REAL NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" DATETIME,
+    "finishedAt" DATETIME
+);
+
+-- CreateIndex
+CREATE INDEX "RenderJob_status_createdAt_idx" ON "RenderJob"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "RenderJob_createdAt_idx" ON "RenderJob"("createdAt");
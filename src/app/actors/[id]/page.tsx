@@ -11,6 +11,7 @@ import { usePathname } from "next/navigation";
 import Link from "next/link";
 import { makeStashUrl } from "@/lib/urlUtils";
 import { invalidatePlaylists } from "@/lib/playlistsCache";
+import { addToQueue } from "@/lib/playQueueClient";
 
 import {
   Sheet,
@@ -39,7 +40,7 @@ import {
   IconButton,
 } from "@mui/joy";
 
-import { Search, ArrowUpDown, Plus, CheckSquare, Square, Film } from "lucide-react";
+import { Search, ArrowUpDown, Plus, CheckSquare, Square, Film, ListPlus } from "lucide-react";
 import FFmpegClipGenerator from "@/components/FFmpegClipGenerator";
 
 import StarRating from "@/components/StarRating";
@@ -558,6 +559,16 @@ export default function Page() {
   };
 
 
+  // Queue markers for the play queue; Stash markers become items server-side.
+  const queueMarkers = async (markerIds: string[]) => {
+    try {
+      await addToQueue({ markerIds }, "end");
+    } catch (err) {
+      console.error("Add to queue failed:", err);
+      alert(err instanceof Error ? err.message : "Failed to add to queue.");
+    }
+  };
+
   const anyLoading = loading || tagsLoading || playlistsLoading;
 
   return (
@@ -783,6 +794,17 @@ export default function Page() {
             >
               Generate FFmpeg
             </Button>
+
+            <Button
+              size="sm"
+              variant="soft"
+              color="primary"
+              startDecorator={<ListPlus size={16} />}
+              disabled={selectedMarkerIds.size === 0}
+              onClick={() => queueMarkers(selectedMarkers.map((m) => m.id))}
+            >
+              Add to Queue
+            </Button>
           </>
         )}
       </Stack>
@@ -1100,6 +1122,18 @@ export default function Page() {
             <Button variant="plain" onClick={() => setIsSingleDialogOpen(false)}>
               Cancel
             </Button>
+            <Button
+              variant="soft"
+              startDecorator={<ListPlus size={16} />}
+              disabled={!singleMarker}
+              onClick={async () => {
+                if (!singleMarker) return;
+                await queueMarkers([singleMarker.id]);
+                setIsSingleDialogOpen(false);
+              }}
+            >
+              Add to Queue
+            </Button>
             <Button disabled={!singlePlaylistId} onClick={confirmSingleAdd}>
               Add to Playlist
             </Button>
@@ -1,7 +1,7 @@
 // src/app/api/actors/[id]/build-playlists/route.ts
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
-import { buildItemsForPlaylist } from '@/lib/smartPlaylistServer';
+import { refreshSmartPlaylist } from '@/lib/playlistSyncService';
 
 const prisma = new PrismaClient();
 
@@ -117,74 +117,8 @@ export async function POST(
         // Refresh the playlist to populate items
         let itemCount = 0;
         try {
-          const items = await buildItemsForPlaylist(playlist.id);
-          itemCount = items.length;
-
-          // Sync items to the playlist
-          if (items.length > 0) {
-            // Use a transaction for better performance
-            await prisma.$transaction(async (tx) => {
-              // Clear any existing playlist items
-              await tx.playlistItem.deleteMany({
-                where: { playlistId: playlist.id },
-              });
-
-              // Check which items already exist
-              const itemIds = items.map(item => item.id);
-              const existingItems = await tx.item.findMany({
-                where: { id: { in: itemIds } },
-                select: { id: true },
-              });
-              const existingIds = new Set(existingItems.map(i => i.id));
-
-              // Separate into new items and existing items
-              const newItems = items.filter(item => !existingIds.has(item.id));
-              const updateItems = items.filter(item => existingIds.has(item.id));
-
-              // Bulk create new items
-              if (newItems.length > 0) {
-                await tx.item.createMany({
-                  data: newItems.map(item => ({
-                    id: item.id,
-                    title: item.title ?? 'Untitled',
-                    startTime: item.startTime ?? 0,
-                    endTime: item.endTime ?? 0,
-                    screenshot: item.screenshot,
-                    stream: item.stream,
-                    preview: item.preview,
-                    sceneId: item.sceneId,
-                  })),
-                });
-              }
-
-              // Update existing items in parallel
-              if (updateItems.length > 0) {
-                await Promise.all(updateItems.map(item =>
-                  tx.item.update({
-                    where: { id: item.id },
-                    data: {
-                      title: item.title ?? 'Untitled',
-                      startTime: item.startTime ?? 0,
-                      endTime: item.endTime ?? 0,
-                      screenshot: item.screenshot,
-                      stream: item.stream,
-                      preview: item.preview,
-                      sceneId: item.sceneId,
-                    },
-                  })
-                ));
-              }
-
-              // Bulk create playlist item links
-              await tx.playlistItem.createMany({
-                data: items.map((item, i) => ({
-                  playlistId: playlist.id,
-                  itemId: item.id,
-                  itemOrder: i,
-                })),
-              });
-            });
-          }
+          const synced = await refreshSmartPlaylist(playlist.id, { allowEmpty: true, trigger: 'template' });
+          itemCount = synced.totalLinkedNow;
         } catch (refreshError) {
           // Playlist created but refresh failed - still count as created
           console.error(`Failed to refresh playlist ${playlist.id}:`, refreshError);
@@ -0,0 +1,18 @@
+// src/app/api/dashboard-stats/activity/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { loadPlayActivity } from "@/lib/playHistoryService";
+import { parseHistoryDays } from "@/lib/playHistory";
+
+// The play log over the last `?days=` days (default 30): plays per day and
+// the most played items, playlists and performers. Kept apart from the stat
+// tiles because performers come from Stash, which can be slow to answer.
+export async function GET(request: NextRequest) {
+  const days = parseHistoryDays(request.nextUrl.searchParams.get("days"));
+  try {
+    const activity = await loadPlayActivity(days);
+    return NextResponse.json(activity);
+  } catch (err) {
+    console.error("[GET /api/dashboard-stats/activity] error:", err);
+    return NextResponse.json({ error: "Failed to load play activity" }, { status: 500 });
+  }
+}
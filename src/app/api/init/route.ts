@@ -6,6 +6,7 @@ import { initializeRefreshService } from '@/lib/smartPlaylistRefreshService';
 import { maintenanceService } from '@/lib/maintenanceService';
 import { actorPlaylistGenerationService } from '@/lib/actorPlaylistGenerationService';
 import { actorMarkerCountService } from '@/lib/actorMarkerCountService';
+import { renderJobService } from '@/lib/renderJobService';
 
 let initialized = false;
 
@@ -17,6 +18,7 @@ export async function GET() {
       await maintenanceService.startScheduler();
       await actorPlaylistGenerationService.startScheduler();
       await actorMarkerCountService.startScheduler();
+      await renderJobService.initialize();
       initialized = true;
       console.log('Application initialized successfully');
       return NextResponse.json({
@@ -1,13 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/lib/prisma';
+import { readPlayReport, recordPlayEvent } from '@/lib/playEventService';
 
 function jsonError(status: number, message: string) {
   return NextResponse.json({ error: message }, { status });
 }
 
 // POST /api/items/[id]/play
-// Increment the marker's play count (called when a clip finishes playing in a
-// playlist) and stamp lastPlayedAt.
+// Record a completed play (called when a clip finishes playing): logs a
+// PlayEvent, increments the marker's play count and stamps lastPlayedAt.
+// Optional body: { playlistId, watchedSeconds }.
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -19,22 +20,14 @@ export async function POST(
   }
 
   try {
-    const updated = await prisma.item.update({
-      where: { id: itemId },
-      data: {
-        playCount: { increment: 1 },
-        lastPlayedAt: new Date(),
-      },
-      select: { id: true, playCount: true, lastPlayedAt: true },
-    });
-
-    return NextResponse.json({ success: true, item: updated });
-  } catch (error) {
-    // P2025 = record not found; treat as a no-op rather than a hard error so a
-    // stray play event never breaks playback.
-    if (typeof error === 'object' && error && 'code' in error && (error as { code?: string }).code === 'P2025') {
+    const result = await recordPlayEvent(itemId, { ...(await readPlayReport(request)), ended: true });
+    // Not found is a 404 rather than a hard error so a stray play event
+    // never breaks playback.
+    if (!result) {
       return jsonError(404, 'Item not found');
     }
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
     console.error('Failed to increment item play count:', error);
     return jsonError(500, 'Failed to record play');
   }
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readPlayReport, recordPlayEvent } from '@/lib/playEventService';
+
+function jsonError(status: number, message: string) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+// POST /api/items/[id]/skip
+// The player moved on before the clip finished. Body: { playlistId,
+// watchedSeconds }. Below SKIP_THRESHOLD_PERCENT of the clip this is a skip
+// (skipCount, lastSkippedAt); past it, a play. Either way a PlayEvent is
+// logged, and the response's `outcome` says which it was.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: itemId } = await params;
+
+  if (!itemId) {
+    return jsonError(400, 'Item ID is required');
+  }
+
+  try {
+    const result = await recordPlayEvent(itemId, { ...(await readPlayReport(request)), ended: false });
+    // A stray skip event must never break playback.
+    if (!result) {
+      return jsonError(404, 'Item not found');
+    }
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Failed to record item skip:', error);
+    return jsonError(500, 'Failed to record skip');
+  }
+}
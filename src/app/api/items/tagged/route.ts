@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { buildItemsForConditions } from '@/lib/smartPlaylistServer';
+import { storeBuiltItems } from '@/lib/playQueueService';
+
+function jsonError(status: number, message: string, extra?: Record<string, unknown>) {
+  return NextResponse.json({ error: message, ...extra }, { status });
+}
+
+// A tag-filter wall tile only needs enough clips to keep rotating.
+const MAX_TAGGED_ITEMS = 500;
+
+// GET /api/items/tagged?tagIds=1,2&match=all|any
+//
+// Markers carrying all (or any) of the tags, as Items. Markers that aren't
+// stored yet are created, like queued markers, so they can be rated.
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const tagIds = (searchParams.get('tagIds') ?? '').split(',').map((id) => id.trim()).filter(Boolean);
+  const match = searchParams.get('match') === 'any' ? 'any' : 'all';
+
+  if (tagIds.length === 0) {
+    return jsonError(400, 'At least one tag ID is required');
+  }
+
+  try {
+    const built = await buildItemsForConditions({
+      ...(match === 'all' ? { requiredTagIds: tagIds } : { optionalTagIds: tagIds }),
+      maxMarkers: MAX_TAGGED_ITEMS,
+    });
+    const ids = built.map((it) => it.id);
+
+    const existing = await prisma.item.findMany({
+      where: { id: { in: ids } },
+      select: { id: true },
+    });
+    const have = new Set(existing.map((i) => i.id));
+    // Wall tiles load in parallel, so another tile may store the same markers first.
+    await storeBuiltItems(built.filter((it) => !have.has(it.id)));
+
+    const items = await prisma.item.findMany({
+      where: { id: { in: ids }, orphaned: false },
+    });
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error('Failed to get tagged items:', error);
+    return jsonError(500, 'Failed to get tagged items');
+  }
+}
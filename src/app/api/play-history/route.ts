@@ -0,0 +1,35 @@
+// src/app/api/play-history/route.ts
+//
+// GET /api/play-history?itemId=&playlistId=&before=&limit=
+//
+// Recent play events grouped into sessions, newest first, with all-time
+// totals for the same filter. `before` (an ISO time, from `nextBefore`)
+// pages back through older events.
+import { NextRequest, NextResponse } from "next/server";
+import { listPlayHistory } from "@/lib/playHistoryService";
+
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 1000;
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const limitParam = Number(searchParams.get("limit"));
+  const limit = Number.isFinite(limitParam) && limitParam > 0 ? Math.min(Math.floor(limitParam), MAX_LIMIT) : DEFAULT_LIMIT;
+
+  const beforeParam = searchParams.get("before");
+  const before = beforeParam ? new Date(beforeParam) : null;
+  if (before && Number.isNaN(before.getTime())) {
+    return NextResponse.json({ error: "before must be an ISO date" }, { status: 400 });
+  }
+
+  try {
+    const page = await listPlayHistory(
+      { itemId: searchParams.get("itemId"), playlistId: searchParams.get("playlistId") },
+      { before, limit },
+    );
+    return NextResponse.json(page, { status: 200 });
+  } catch (err) {
+    console.error("[GET /api/play-history] error:", err);
+    return NextResponse.json({ error: "Failed to load play history" }, { status: 500 });
+  }
+}
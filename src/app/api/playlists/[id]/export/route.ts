@@ -0,0 +1,119 @@
+// src/app/api/playlists/[id]/export/route.ts
+//
+// GET ?format=m3u8|xspf downloads the playlist for VLC, mpv or Kodi (see
+// playlistExport.ts). Stream and screenshot URLs carry the Stash API key,
+// so the file works without the web UI but should be kept private.
+// GET ?format=edl|ffmetadata|vtt writes it for editors instead, with the
+// clips laid end to end and pointing at the scene files (see editExport.ts).
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { makeStashUrl } from "@/lib/urlUtils";
+import { getStashMediaSettings } from "@/lib/settingsDefinitions";
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  buildPlaylistExport,
+  exportFileName,
+  parseExportFormat,
+  type ExportClip,
+} from "@/lib/playlistExport";
+import {
+  EDIT_EXPORT_CONTENT_TYPES,
+  EDIT_EXPORT_FORMATS,
+  buildEditExport,
+  editExportFileName,
+  parseEditExportFormat,
+} from "@/lib/editExport";
+import { loadPlaylistEditClips } from "@/lib/editExportService";
+
+function attachment(body: string, contentType: string, fileName: string) {
+  return new NextResponse(body, {
+    status: 200,
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${fileName.replace(/[^\x20-\x7e]/g, "_")}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+function playlistIdFrom(request: NextRequest): string | undefined {
+  const parts = request.nextUrl.pathname.split("/").filter(Boolean); // ["api","playlists",":id","export"]
+  return parts[2];
+}
+
+export async function GET(request: NextRequest) {
+  const playlistId = playlistIdFrom(request);
+  if (!playlistId) {
+    return NextResponse.json({ error: "Playlist ID is required in the URL" }, { status: 400 });
+  }
+  const formatParam = request.nextUrl.searchParams.get("format") ?? "m3u8";
+  const editFormat = parseEditExportFormat(formatParam);
+  if (editFormat) {
+    try {
+      const loaded = await loadPlaylistEditClips(playlistId);
+      if (!loaded) {
+        return NextResponse.json({ error: "Playlist not found" }, { status: 404 });
+      }
+      if (loaded.missing) {
+        console.warn(`[Export] ${loaded.missing} clip(s) of playlist ${playlistId} have no scene file in Stash`);
+      }
+      return attachment(
+        buildEditExport(editFormat, loaded.title, loaded.clips, "sequence"),
+        EDIT_EXPORT_CONTENT_TYPES[editFormat],
+        editExportFileName(loaded.title, editFormat),
+      );
+    } catch (err) {
+      console.error("[GET /api/playlists/:id/export] error:", err);
+      return NextResponse.json({ error: "Failed to export playlist" }, { status: 500 });
+    }
+  }
+
+  const format = parseExportFormat(formatParam);
+  if (!format) {
+    return NextResponse.json(
+      { error: `format must be one of ${[...EXPORT_FORMATS, ...EDIT_EXPORT_FORMATS].join(", ")}` },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const playlist = await prisma.playlist.findUnique({
+      where: { id: playlistId },
+      select: {
+        name: true,
+        items: {
+          orderBy: { itemOrder: "asc" },
+          select: { item: { select: { title: true, stream: true, screenshot: true, startTime: true, endTime: true } } },
+        },
+      },
+    });
+    if (!playlist) {
+      return NextResponse.json({ error: "Playlist not found" }, { status: 404 });
+    }
+
+    const { stashServer, apiKey } = await getStashMediaSettings();
+    if (!stashServer) {
+      return NextResponse.json({ error: "Stash server URL is not configured" }, { status: 400 });
+    }
+
+    const clips: ExportClip[] = playlist.items
+      .filter(({ item }) => item.stream)
+      .map(({ item }) => ({
+        title: item.title,
+        url: makeStashUrl(item.stream, stashServer, apiKey),
+        image: makeStashUrl(item.screenshot, stashServer, apiKey),
+        startTime: item.startTime,
+        endTime: item.endTime,
+      }));
+
+    return attachment(
+      buildPlaylistExport(format, playlist.name, clips),
+      EXPORT_CONTENT_TYPES[format],
+      exportFileName(playlist.name, format),
+    );
+  } catch (err) {
+    console.error("[GET /api/playlists/:id/export] error:", err);
+    return NextResponse.json({ error: "Failed to export playlist" }, { status: 500 });
+  }
+}
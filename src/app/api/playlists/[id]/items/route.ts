@@ -2,232 +2,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
-import { buildItemsForPlaylist } from "@/lib/smartPlaylistServer";
-
-type IncomingItem = {
-  id: string;
-  title?: string;
-  startTime?: number;
-  endTime?: number;
-  screenshot?: string | null;
-  stream?: string | null;
-  preview?: string | null;
-  rating?: number | null;
-  sceneId?: string | null;
-  itemOrder?: number;
-};
-
-function pickDefined<T extends Record<string, any>>(obj: T) {
-  const out: Partial<T> = {};
-  for (const [k, v] of Object.entries(obj)) {
-    if (v !== undefined) (out as any)[k] = v; // keep nulls to intentionally clear
-  }
-  return out;
-}
+import { diffSmartPlaylist, normalizeIncoming, syncItems } from "@/lib/playlistSyncService";
+import { enqueuePlaylistRefresh } from "@/lib/smartPlaylistRefreshService";
 
 function jsonError(status: number, message: string, extra?: any) {
   return NextResponse.json({ error: message, ...extra }, { status });
 }
 
-/**
- * Normalize any array of items coming either from the editor or the builder.
- * IMPORTANT: Only include optional media fields if they actually exist on the payload.
- * - absent  => undefined  (DB untouched)
- * - null    => clear DB column
- * - string  => set DB column
- */
-function normalizeIncoming(items: any[]): IncomingItem[] {
-  const seen = new Set<string>();
-  const incoming: IncomingItem[] = [];
-
-  for (let i = 0; i < items.length; i++) {
-    const raw = items[i]?.item ?? items[i];
-    if (!raw || typeof raw.id !== "string" || !raw.id.trim()) continue;
-
-    if (seen.has(raw.id)) continue;
-    seen.add(raw.id);
-
-    const start = raw.startTime ?? raw.seconds ?? raw.start ?? raw.start_time;
-    const end = raw.endTime ?? raw.end ?? raw.end_time;
-    if (start == null || end == null) continue;
-
-    incoming.push({
-      id: raw.id,
-      title: raw.title ?? "",
-      startTime: typeof start === "number" ? start : Number(start),
-      endTime: typeof end === "number" ? end : Number(end),
-
-      screenshot: Object.prototype.hasOwnProperty.call(raw, "screenshot")
-        ? (raw.screenshot as string | null | undefined) ?? null
-        : undefined,
-      stream: Object.prototype.hasOwnProperty.call(raw, "stream")
-        ? (raw.stream as string | null | undefined) ?? null
-        : undefined,
-      preview: Object.prototype.hasOwnProperty.call(raw, "preview")
-        ? (raw.preview as string | null | undefined) ?? null
-        : undefined,
-      rating: Object.prototype.hasOwnProperty.call(raw, "rating")
-        ? (raw.rating as number | null | undefined) ?? null
-        : undefined,
-      sceneId: Object.prototype.hasOwnProperty.call(raw, "sceneId")
-        ? (raw.sceneId as string | null | undefined) ?? null
-        : undefined,
-
-      itemOrder: typeof items[i]?.order === "number" ? items[i].order :
-                 typeof raw.itemOrder === "number" ? raw.itemOrder : undefined,
-    });
-  }
-  return incoming;
-}
-
-async function syncItems(
-  playlistId: string,
-  incoming: IncomingItem[],
-  opts: { preserveTimings?: boolean } = {}
-) {
-  const preserveTimings = !!opts.preserveTimings;
-
-  // Use longer timeout for large playlists (5 minutes)
-  const timeout = incoming.length > 1000 ? 300000 : 60000;
-
-  return prisma.$transaction(async (tx) => {
-    const existingLinks = await tx.playlistItem.findMany({
-      where: { playlistId },
-      select: { id: true, itemId: true, itemOrder: true },
-    });
-    const existingByItemId = new Map(existingLinks.map((e) => [e.itemId, e]));
-    const incomingIds = incoming.map((i) => i.id);
-
-    const existingItems = await tx.item.findMany({
-      where: { id: { in: incomingIds } },
-      select: { id: true },
-    });
-    const existingItemIds = new Set(existingItems.map((x) => x.id));
-
-    // Separate into new items (need create) and existing items (need update)
-    const newItems: IncomingItem[] = [];
-    const updateItems: IncomingItem[] = [];
-
-    for (const it of incoming) {
-      if (existingItemIds.has(it.id)) {
-        updateItems.push(it);
-      } else {
-        newItems.push(it);
-      }
-    }
-
-    // Bulk create new items in batches (SQLite has limits on single createMany)
-    // Note: skipDuplicates not supported in SQLite, but newItems already filtered to non-existing
-    const CREATE_BATCH_SIZE = 50;
-    for (let i = 0; i < newItems.length; i += CREATE_BATCH_SIZE) {
-      const batch = newItems.slice(i, i + CREATE_BATCH_SIZE);
-      await tx.item.createMany({
-        data: batch.map((it) => ({
-          id: it.id,
-          title: it.title ?? "",
-          startTime: it.startTime ?? 0,
-          endTime: it.endTime ?? 0,
-          screenshot: it.screenshot ?? null,
-          stream: it.stream ?? null,
-          preview: it.preview ?? null,
-          rating: it.rating ?? null,
-          sceneId: it.sceneId ?? null,
-        })),
-      });
-    }
-
-    // Update existing items in batches (parallel within batch, sequential between batches)
-    const BATCH_SIZE = 100;
-    let updatedCount = 0;
-    for (let i = 0; i < updateItems.length; i += BATCH_SIZE) {
-      const batch = updateItems.slice(i, i + BATCH_SIZE);
-      await Promise.all(
-        batch.map((it) => {
-          const shouldWriteTimings = !preserveTimings;
-          const updateData = pickDefined({
-            title: it.title,
-            startTime: shouldWriteTimings ? it.startTime : undefined,
-            endTime: shouldWriteTimings ? it.endTime : undefined,
-            screenshot: it.screenshot,
-            stream: it.stream,
-            preview: it.preview,
-            rating: it.rating,
-            sceneId: it.sceneId,
-          });
-          return tx.item.update({
-            where: { id: it.id },
-            data: updateData,
-          });
-        })
-      );
-      updatedCount += batch.length;
-    }
-
-    // Prepare playlist links - separate new links from order updates
-    const newLinks: { itemId: string; itemOrder: number }[] = [];
-    const orderUpdates: { linkId: string; itemOrder: number }[] = [];
-
-    for (let index = 0; index < incoming.length; index++) {
-      const it = incoming[index];
-      const desiredOrder = typeof it.itemOrder === "number" ? it.itemOrder : index;
-      const link = existingByItemId.get(it.id);
-
-      if (link) {
-        if (link.itemOrder !== desiredOrder) {
-          orderUpdates.push({ linkId: link.id, itemOrder: desiredOrder });
-        }
-      } else {
-        newLinks.push({ itemId: it.id, itemOrder: desiredOrder });
-      }
-    }
-
-    // Bulk create new playlist links in batches
-    for (let i = 0; i < newLinks.length; i += CREATE_BATCH_SIZE) {
-      const batch = newLinks.slice(i, i + CREATE_BATCH_SIZE);
-      await tx.playlistItem.createMany({
-        data: batch.map((l) => ({
-          playlistId,
-          itemId: l.itemId,
-          itemOrder: l.itemOrder,
-        })),
-      });
-    }
-
-    // Update link orders in batches
-    for (let i = 0; i < orderUpdates.length; i += BATCH_SIZE) {
-      const batch = orderUpdates.slice(i, i + BATCH_SIZE);
-      await Promise.all(
-        batch.map((u) =>
-          tx.playlistItem.update({
-            where: { id: u.linkId },
-            data: { itemOrder: u.itemOrder },
-          })
-        )
-      );
-    }
-
-    // Prune removed links
-    const incomingSet = new Set(incomingIds);
-    const toDelete = existingLinks
-      .filter((e) => !incomingSet.has(e.itemId))
-      .map((e) => e.id);
-    let deleted = 0;
-    if (toDelete.length) {
-      const res = await tx.playlistItem.deleteMany({
-        where: { id: { in: toDelete } },
-      });
-      deleted = res.count;
-    }
-
-    return {
-      upsertedItems: newItems.length + updatedCount,
-      linkedCreated: newLinks.length,
-      linkedUpdated: orderUpdates.length,
-      deleted,
-    };
-  }, { timeout });
-}
-
 // POST /api/playlists/[id]/items
 export async function POST(request: NextRequest) {
   const { pathname } = request.nextUrl;
@@ -253,58 +34,25 @@ export async function POST(request: NextRequest) {
   // Refresh/regenerate path (or missing items array)
   if (payload?.refresh === true || payload?.regenerate === true || !Array.isArray(payload?.items)) {
     try {
-      const built = await buildItemsForPlaylist(playlistId);
-      const incoming = normalizeIncoming(built ?? []);
-
-      console.log(`[PlaylistItems] Refreshing playlist ${playlistId}: ${incoming.length} items from Stash`);
-
-      // Check if this is a smart playlist with rating filter that returned no results.
-      // For auto/scheduled refresh, preserve existing items so a transient empty match
-      // doesn't wipe the playlist. For explicit editor Save (allowEmpty: true), respect
-      // the user's intent and sync to empty.
-      const allowEmpty = payload?.allowEmpty === true;
-      if (incoming.length === 0 && !allowEmpty) {
-        const playlist = await prisma.playlist.findUnique({
-          where: { id: playlistId },
-          select: { type: true, conditions: true }
-        });
-
-        if (playlist?.type === "SMART") {
-          const conditions = (playlist.conditions as any) || {};
-          const hasRatingFilter = (conditions.minRating && [1, 2, 3].includes(conditions.minRating))
-            || (conditions.exactRating && [1, 2, 3].includes(conditions.exactRating));
-
-          if (hasRatingFilter) {
-            // Don't clear playlist when rating filter returns no results
-            // This preserves existing items until markers are actually rated
-            const totalLinkedNow = await prisma.playlistItem.count({ where: { playlistId } });
-            return NextResponse.json(
-              {
-                message: "No items match rating filter - playlist unchanged",
-                upsertedItems: 0,
-                linkedCreated: 0,
-                linkedUpdated: 0,
-                deleted: 0,
-                totalLinkedNow,
-              },
-              { status: 200 }
-            );
-          }
-        }
+      // Dry run: report added/removed/retimed items without writing. The
+      // editor passes its unsaved `conditions` to review them before saving.
+      if (payload?.dryRun === true) {
+        const conditions = payload?.conditions && typeof payload.conditions === "object" ? payload.conditions : undefined;
+        const diff = await diffSmartPlaylist(playlistId, { allowEmpty: payload?.allowEmpty === true, conditions });
+        return NextResponse.json(diff, { status: 200 });
       }
 
-      const result = await syncItems(playlistId, incoming, {
+      const result = await enqueuePlaylistRefresh(playlistId, {
         preserveTimings: payload?.refresh === true && payload?.regenerate !== true,
+        // For auto/scheduled refresh, preserve existing items so a transient empty
+        // match doesn't wipe the playlist. For explicit editor Save (allowEmpty: true),
+        // respect the user's intent and sync to empty.
+        allowEmpty: payload?.allowEmpty === true,
+        // Scheduled refreshes pass `reroll` to draw a fresh random selection.
+        reroll: payload?.reroll === true,
+        trigger: payload?.allowEmpty === true ? "editor" : "manual",
       });
-      const totalLinkedNow = await prisma.playlistItem.count({ where: { playlistId } });
-      return NextResponse.json(
-        {
-          message: payload?.regenerate ? "Regenerated from rules" : "Refreshed from rules",
-          ...result,
-          totalLinkedNow,
-        },
-        { status: 200 }
-      );
+      return NextResponse.json(result, { status: 200 });
     } catch (error: any) {
       console.error(`[PlaylistItems] Error refreshing playlist ${playlistId}:`, error);
       let code: string | undefined;
@@ -367,6 +115,7 @@ export async function GET(request: NextRequest) {
           rating: true,
         },
       },
+      pinned: true,
     },
   });
 
@@ -380,6 +129,7 @@ export async function GET(request: NextRequest) {
     preview: pi.item.preview ?? undefined,
     rating: pi.item.rating ?? undefined,
     itemOrder: pi.itemOrder,
+    pinned: pi.pinned,
   }));
 
   return NextResponse.json({ items }, { status: 200 });
@@ -406,3 +156,30 @@ export async function DELETE(request: NextRequest) {
     return jsonError(500, "Failed to remove item from playlist", { details: String(error) });
   }
 }
+
+// PATCH /api/playlists/[id]/items — pin or unpin an item. Smart playlist
+// refreshes never remove pinned items.
+export async function PATCH(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const parts = pathname.split("/").filter(Boolean);
+  const playlistId = parts[2];
+  if (!playlistId) return jsonError(400, "Playlist ID is required in the URL");
+
+  let body: { itemId?: string; itemIds?: string[]; pinned?: boolean };
+  try { body = await request.json(); } catch { return jsonError(400, "Invalid JSON"); }
+
+  const itemIds = Array.isArray(body?.itemIds) ? body.itemIds : body?.itemId ? [body.itemId] : [];
+  if (!itemIds.length) return jsonError(400, "itemId or itemIds is required");
+  if (typeof body.pinned !== "boolean") return jsonError(400, "pinned must be a boolean");
+
+  try {
+    const res = await prisma.playlistItem.updateMany({
+      where: { playlistId, itemId: { in: itemIds } },
+      data: { pinned: body.pinned },
+    });
+    return NextResponse.json({ success: true, updated: res.count }, { status: 200 });
+  } catch (error) {
+    console.error(error);
+    return jsonError(500, "Failed to update pinned items", { details: String(error) });
+  }
+}
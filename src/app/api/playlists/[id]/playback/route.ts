@@ -0,0 +1,74 @@
+// src/app/api/playlists/[id]/playback/route.ts
+//
+// A playlist's own playback preferences (see playlistPlayback.ts).
+// GET returns { options }; PUT { options } merges the given sections over
+// the stored ones, so callers can change one preference at a time.
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { parsePlaybackOptions } from "@/lib/playlistPlayback";
+
+function playlistIdFrom(request: NextRequest): string | undefined {
+  const parts = request.nextUrl.pathname.split("/").filter(Boolean); // ["api","playlists",":id","playback"]
+  return parts[2];
+}
+
+export async function GET(request: NextRequest) {
+  const playlistId = playlistIdFrom(request);
+  if (!playlistId) {
+    return NextResponse.json({ error: "Playlist ID is required in the URL" }, { status: 400 });
+  }
+
+  try {
+    const playlist = await prisma.playlist.findUnique({
+      where: { id: playlistId },
+      select: { playbackOptions: true },
+    });
+    if (!playlist) {
+      return NextResponse.json({ error: "Playlist not found" }, { status: 404 });
+    }
+    return NextResponse.json({ options: parsePlaybackOptions(playlist.playbackOptions) }, { status: 200 });
+  } catch (err) {
+    console.error("[GET /api/playlists/:id/playback] error:", err);
+    return NextResponse.json({ error: "Failed to load playback options" }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const playlistId = playlistIdFrom(request);
+  if (!playlistId) {
+    return NextResponse.json({ error: "Playlist ID is required in the URL" }, { status: 400 });
+  }
+
+  let body: { options?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  if (!body?.options || typeof body.options !== "object") {
+    return NextResponse.json({ error: "options is required" }, { status: 400 });
+  }
+
+  try {
+    const playlist = await prisma.playlist.findUnique({
+      where: { id: playlistId },
+      select: { playbackOptions: true },
+    });
+    if (!playlist) {
+      return NextResponse.json({ error: "Playlist not found" }, { status: 404 });
+    }
+
+    const options = parsePlaybackOptions({
+      ...parsePlaybackOptions(playlist.playbackOptions),
+      ...(body.options as Record<string, unknown>),
+    });
+    await prisma.playlist.update({
+      where: { id: playlistId },
+      data: { playbackOptions: options },
+    });
+    return NextResponse.json({ options }, { status: 200 });
+  } catch (err) {
+    console.error("[PUT /api/playlists/:id/playback] error:", err);
+    return NextResponse.json({ error: "Failed to update playback options" }, { status: 500 });
+  }
+}
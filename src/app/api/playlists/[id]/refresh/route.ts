@@ -0,0 +1,95 @@
+// src/app/api/playlists/[id]/refresh/route.ts
+//
+// A smart playlist's own refresh schedule and refresh history.
+// GET returns both; PUT { schedule } replaces the schedule.
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { parseRefreshSchedule } from "@/lib/playlistSchedule";
+
+const HISTORY_LIMIT = 20;
+
+function playlistIdFrom(request: NextRequest): string | undefined {
+  const parts = request.nextUrl.pathname.split("/").filter(Boolean); // ["api","playlists",":id","refresh"]
+  return parts[2];
+}
+
+export async function GET(request: NextRequest) {
+  const playlistId = playlistIdFrom(request);
+  if (!playlistId) {
+    return NextResponse.json({ error: "Playlist ID is required in the URL" }, { status: 400 });
+  }
+
+  try {
+    const playlist = await prisma.playlist.findUnique({
+      where: { id: playlistId },
+      select: { refreshSchedule: true },
+    });
+    if (!playlist) {
+      return NextResponse.json({ error: "Playlist not found" }, { status: 404 });
+    }
+
+    const history = await prisma.playlistRefresh.findMany({
+      where: { playlistId },
+      orderBy: { createdAt: "desc" },
+      take: HISTORY_LIMIT,
+      select: {
+        id: true,
+        trigger: true,
+        success: true,
+        added: true,
+        removed: true,
+        total: true,
+        error: true,
+        duration: true,
+        createdAt: true,
+      },
+    });
+
+    return NextResponse.json(
+      { schedule: parseRefreshSchedule(playlist.refreshSchedule), history },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("[GET /api/playlists/:id/refresh] error:", err);
+    return NextResponse.json({ error: "Failed to load refresh info" }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const playlistId = playlistIdFrom(request);
+  if (!playlistId) {
+    return NextResponse.json({ error: "Playlist ID is required in the URL" }, { status: 400 });
+  }
+
+  let body: { schedule?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const schedule = parseRefreshSchedule(body?.schedule);
+  try {
+    const playlist = await prisma.playlist.findUnique({
+      where: { id: playlistId },
+      select: { type: true },
+    });
+    if (!playlist) {
+      return NextResponse.json({ error: "Playlist not found" }, { status: 404 });
+    }
+    if (playlist.type !== "SMART") {
+      return NextResponse.json({ error: "Only smart playlists can be scheduled" }, { status: 400 });
+    }
+
+    await prisma.playlist.update({
+      where: { id: playlistId },
+      // "global" is the default; store it as null like never-scheduled playlists
+      data: { refreshSchedule: schedule.mode === "global" ? Prisma.DbNull : schedule },
+    });
+    return NextResponse.json({ schedule }, { status: 200 });
+  } catch (err) {
+    console.error("[PUT /api/playlists/:id/refresh] error:", err);
+    return NextResponse.json({ error: "Failed to update refresh schedule" }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+// src/app/api/playlists/[id]/session/route.ts
+//
+// Where playback of a playlist left off (see playbackSession.ts).
+// GET returns { session } (null when there is none), PUT saves it and
+// DELETE forgets it ("start over").
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { parsePlaybackSession } from "@/lib/playbackSession";
+
+function playlistIdFrom(request: NextRequest): string | undefined {
+  const parts = request.nextUrl.pathname.split("/").filter(Boolean); // ["api","playlists",":id","session"]
+  return parts[2];
+}
+
+export async function GET(request: NextRequest) {
+  const playlistId = playlistIdFrom(request);
+  if (!playlistId) {
+    return NextResponse.json({ error: "Playlist ID is required in the URL" }, { status: 400 });
+  }
+
+  try {
+    const row = await prisma.playbackSession.findUnique({ where: { playlistId } });
+    const session = row ? parsePlaybackSession(row) : null;
+    return NextResponse.json({ session, updatedAt: row?.updatedAt ?? null }, { status: 200 });
+  } catch (err) {
+    console.error("[GET /api/playlists/:id/session] error:", err);
+    return NextResponse.json({ error: "Failed to load playback session" }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const playlistId = playlistIdFrom(request);
+  if (!playlistId) {
+    return NextResponse.json({ error: "Playlist ID is required in the URL" }, { status: 400 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const session = parsePlaybackSession(body);
+  if (!session?.itemId) {
+    return NextResponse.json({ error: "itemId is required" }, { status: 400 });
+  }
+
+  try {
+    const playlist = await prisma.playlist.findUnique({ where: { id: playlistId }, select: { id: true } });
+    if (!playlist) {
+      return NextResponse.json({ error: "Playlist not found" }, { status: 404 });
+    }
+
+    await prisma.playbackSession.upsert({
+      where: { playlistId },
+      create: { playlistId, ...session },
+      update: session,
+    });
+    return NextResponse.json({ session }, { status: 200 });
+  } catch (err) {
+    console.error("[PUT /api/playlists/:id/session] error:", err);
+    return NextResponse.json({ error: "Failed to save playback session" }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const playlistId = playlistIdFrom(request);
+  if (!playlistId) {
+    return NextResponse.json({ error: "Playlist ID is required in the URL" }, { status: 400 });
+  }
+
+  try {
+    await prisma.playbackSession.deleteMany({ where: { playlistId } });
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (err) {
+    console.error("[DELETE /api/playlists/:id/session] error:", err);
+    return NextResponse.json({ error: "Failed to clear playback session" }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+// src/app/api/playlists/[id]/shuffle/route.ts
+//
+// GET ?mode=&spread=&seed= returns { mode, spread, seed, order } where
+// order is the playlist's item ids in shuffled play order. Without a seed
+// a new one is drawn; passing it back reproduces the same order.
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { parseShuffleOptions } from "@/lib/playlistShuffle";
+import { randomSeed } from "@/lib/seededRandom";
+import { shufflePlaylist } from "@/lib/shuffleService";
+
+export async function GET(request: NextRequest) {
+  const { pathname, searchParams } = request.nextUrl;
+  const playlistId = pathname.split("/").filter(Boolean)[2]; // ["api","playlists",":id","shuffle"]
+  if (!playlistId) {
+    return NextResponse.json({ error: "Playlist ID is required in the URL" }, { status: 400 });
+  }
+
+  const options = parseShuffleOptions({
+    mode: searchParams.get("mode"),
+    spread: searchParams.get("spread"),
+    seed: searchParams.get("seed") ?? randomSeed(),
+  });
+
+  try {
+    const playlist = await prisma.playlist.findUnique({ where: { id: playlistId }, select: { id: true } });
+    if (!playlist) {
+      return NextResponse.json({ error: "Playlist not found" }, { status: 404 });
+    }
+    return NextResponse.json(await shufflePlaylist(playlistId, options), { status: 200 });
+  } catch (err) {
+    console.error("[GET /api/playlists/:id/shuffle] error:", err);
+    return NextResponse.json({ error: "Failed to shuffle playlist" }, { status: 500 });
+  }
+}
@@ -1,9 +1,15 @@
 // app/api/playlists/[id]/stats/route.ts
 import { NextRequest, NextResponse } from "next/server";
 import { PrismaClient } from "@prisma/client";
+import { skipRatio } from "@/lib/playEvents";
 
 const prisma = new PrismaClient();
 
+// Clips stopped fewer times than this are left out of `mostSkipped`; one
+// early skip says little about a clip.
+const MIN_STOPS_FOR_SKIP_RATIO = 3;
+const MOST_SKIPPED_LIMIT = 10;
+
 export async function GET(request: NextRequest) {
   try {
     // /api/playlists/:id/stats
@@ -26,7 +32,11 @@ export async function GET(request: NextRequest) {
     // Pull only the needed fields from related items
     const rows = await prisma.playlistItem.findMany({
       where: { playlistId },
-      select: { item: { select: { startTime: true, endTime: true } } },
+      select: {
+        item: {
+          select: { id: true, title: true, startTime: true, endTime: true, playCount: true, skipCount: true },
+        },
+      },
     });
 
     const itemCount = rows.length;
@@ -39,11 +49,40 @@ export async function GET(request: NextRequest) {
       if (st != null && et != null && et > st) total += (et - st);
     }
 
+    // Plays vs skips, and the clips most often skipped (prune candidates)
+    let plays = 0;
+    let skips = 0;
+    const seen = new Set<string>();
+    const mostSkipped: Array<{ id: string; title: string; playCount: number; skipCount: number; skipRatio: number }> = [];
+    for (const r of rows) {
+      if (!r.item || seen.has(r.item.id)) continue;
+      seen.add(r.item.id);
+      plays += r.item.playCount;
+      skips += r.item.skipCount;
+      if (r.item.skipCount > 0 && r.item.playCount + r.item.skipCount >= MIN_STOPS_FOR_SKIP_RATIO) {
+        mostSkipped.push({
+          id: r.item.id,
+          title: r.item.title,
+          playCount: r.item.playCount,
+          skipCount: r.item.skipCount,
+          skipRatio: skipRatio(r.item.playCount, r.item.skipCount),
+        });
+      }
+    }
+    mostSkipped.sort((a, b) => b.skipRatio - a.skipRatio || b.skipCount - a.skipCount);
+
     // If your times are in SECONDS, keep *1000; if already ms, remove it.
     const durationMs = Math.max(0, Math.round(total * 1000));
 
     return NextResponse.json(
-      { itemCount, durationMs },
+      {
+        itemCount,
+        durationMs,
+        plays,
+        skips,
+        skipRatio: skipRatio(plays, skips),
+        mostSkipped: mostSkipped.slice(0, MOST_SKIPPED_LIMIT),
+      },
       { status: 200, headers: { "Cache-Control": "private, max-age=5" } }
     );
   } catch (err) {
@@ -0,0 +1,86 @@
+// src/app/api/playlists/[id]/walls/[configId]/route.ts
+//
+// One saved video wall setup. GET returns { config }; PUT { name?, layout?,
+// tiles? } replaces the given fields; DELETE removes it.
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { parseWallSetup } from "@/lib/videoWallLayout";
+
+type Params = { params: Promise<{ id: string; configId: string }> };
+
+async function findConfig(playlistId: string, configId: string) {
+  const row = await prisma.wallConfig.findUnique({ where: { id: configId } });
+  return row && row.playlistId === playlistId ? row : null;
+}
+
+export async function GET(_request: NextRequest, { params }: Params) {
+  const { id: playlistId, configId } = await params;
+
+  try {
+    const row = await findConfig(playlistId, configId);
+    if (!row) {
+      return NextResponse.json({ error: "Wall setup not found" }, { status: 404 });
+    }
+    return NextResponse.json(
+      { config: { id: row.id, name: row.name, ...parseWallSetup(row.layout, row.tiles), updatedAt: row.updatedAt } },
+      { status: 200 },
+    );
+  } catch (err) {
+    console.error("[GET /api/playlists/:id/walls/:configId] error:", err);
+    return NextResponse.json({ error: "Failed to load wall setup" }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: Params) {
+  const { id: playlistId, configId } = await params;
+
+  let body: { name?: unknown; layout?: unknown; tiles?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  if (body?.name !== undefined && (typeof body.name !== "string" || !body.name.trim())) {
+    return NextResponse.json({ error: "name cannot be empty" }, { status: 400 });
+  }
+
+  try {
+    const row = await findConfig(playlistId, configId);
+    if (!row) {
+      return NextResponse.json({ error: "Wall setup not found" }, { status: 404 });
+    }
+
+    const setup = parseWallSetup(body.layout ?? row.layout, body.tiles ?? row.tiles);
+    const updated = await prisma.wallConfig.update({
+      where: { id: configId },
+      data: {
+        ...(typeof body.name === "string" ? { name: body.name.trim() } : {}),
+        layout: setup.layout,
+        tiles: setup.tiles,
+      },
+    });
+    return NextResponse.json(
+      { config: { id: updated.id, name: updated.name, ...setup, updatedAt: updated.updatedAt } },
+      { status: 200 },
+    );
+  } catch (err) {
+    console.error("[PUT /api/playlists/:id/walls/:configId] error:", err);
+    return NextResponse.json({ error: "Failed to update wall setup" }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: Params) {
+  const { id: playlistId, configId } = await params;
+
+  try {
+    const row = await findConfig(playlistId, configId);
+    if (!row) {
+      return NextResponse.json({ error: "Wall setup not found" }, { status: 404 });
+    }
+    await prisma.wallConfig.delete({ where: { id: configId } });
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (err) {
+    console.error("[DELETE /api/playlists/:id/walls/:configId] error:", err);
+    return NextResponse.json({ error: "Failed to delete wall setup" }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+// src/app/api/playlists/[id]/walls/route.ts
+//
+// Saved video wall setups for a playlist (see videoWallLayout.ts).
+// GET returns { configs }; POST { name, layout, tiles } saves a new one.
+// Tiles are normalised to the layout before they are stored.
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { parseWallSetup } from "@/lib/videoWallLayout";
+
+function playlistIdFrom(request: NextRequest): string | undefined {
+  const parts = request.nextUrl.pathname.split("/").filter(Boolean); // ["api","playlists",":id","walls"]
+  return parts[2];
+}
+
+export async function GET(request: NextRequest) {
+  const playlistId = playlistIdFrom(request);
+  if (!playlistId) {
+    return NextResponse.json({ error: "Playlist ID is required in the URL" }, { status: 400 });
+  }
+
+  try {
+    const rows = await prisma.wallConfig.findMany({
+      where: { playlistId },
+      orderBy: { name: "asc" },
+    });
+    const configs = rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      ...parseWallSetup(row.layout, row.tiles),
+      updatedAt: row.updatedAt,
+    }));
+    return NextResponse.json({ configs }, { status: 200 });
+  } catch (err) {
+    console.error("[GET /api/playlists/:id/walls] error:", err);
+    return NextResponse.json({ error: "Failed to load wall setups" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const playlistId = playlistIdFrom(request);
+  if (!playlistId) {
+    return NextResponse.json({ error: "Playlist ID is required in the URL" }, { status: 400 });
+  }
+
+  let body: { name?: unknown; layout?: unknown; tiles?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  const name = typeof body?.name === "string" ? body.name.trim() : "";
+  if (!name) {
+    return NextResponse.json({ error: "name is required" }, { status: 400 });
+  }
+
+  try {
+    const playlist = await prisma.playlist.findUnique({ where: { id: playlistId }, select: { id: true } });
+    if (!playlist) {
+      return NextResponse.json({ error: "Playlist not found" }, { status: 404 });
+    }
+
+    const setup = parseWallSetup(body.layout, body.tiles);
+    const row = await prisma.wallConfig.create({
+      data: { playlistId, name, layout: setup.layout, tiles: setup.tiles },
+    });
+    return NextResponse.json(
+      { config: { id: row.id, name: row.name, ...setup, updatedAt: row.updatedAt } },
+      { status: 201 },
+    );
+  } catch (err) {
+    console.error("[POST /api/playlists/:id/walls] error:", err);
+    return NextResponse.json({ error: "Failed to save wall setup" }, { status: 500 });
+  }
+}
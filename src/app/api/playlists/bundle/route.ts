@@ -0,0 +1,57 @@
+// src/app/api/playlists/bundle/route.ts
+//
+// Portable playlist export/import (see playlistBundle.ts).
+// GET ?ids=a,b downloads the playlists as one JSON bundle.
+// POST { bundle, mode: "merge" | "rename" | "skip" } imports one and returns
+// { report } saying what happened to each playlist.
+import { NextRequest, NextResponse } from "next/server";
+import { buildPlaylistBundle, importPlaylistBundle } from "@/lib/playlistBundleService";
+import { bundleFileName, parseConflictMode, parsePlaylistBundle } from "@/lib/playlistBundle";
+
+export async function GET(request: NextRequest) {
+  const ids = (request.nextUrl.searchParams.get("ids") ?? "").split(",").map((id) => id.trim()).filter(Boolean);
+  if (!ids.length) {
+    return NextResponse.json({ error: "At least one playlist ID is required" }, { status: 400 });
+  }
+
+  try {
+    const bundle = await buildPlaylistBundle(ids);
+    if (!bundle.playlists.length) {
+      return NextResponse.json({ error: "Playlist not found" }, { status: 404 });
+    }
+    const fileName = bundleFileName(bundle.playlists.map((p) => p.name));
+    return new NextResponse(JSON.stringify(bundle, null, 2), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${fileName.replace(/[^\x20-\x7e]/g, "_")}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    console.error("[GET /api/playlists/bundle] error:", err);
+    return NextResponse.json({ error: "Failed to export playlists" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let body: { bundle?: unknown; mode?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const parsed = parsePlaylistBundle(body?.bundle);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const report = await importPlaylistBundle(parsed.bundle, parseConflictMode(body.mode));
+    return NextResponse.json({ report }, { status: 200 });
+  } catch (err) {
+    console.error("[POST /api/playlists/bundle] error:", err);
+    return NextResponse.json({ error: "Failed to import playlists" }, { status: 500 });
+  }
+}
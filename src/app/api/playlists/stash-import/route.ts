@@ -0,0 +1,47 @@
+// src/app/api/playlists/stash-import/route.ts
+//
+// Playlists from Stash (see stashImportService.ts).
+// GET returns { filters, groups }: the saved scene-marker filters and the
+// groups that can be imported.
+// POST { source: "filter" | "group", id } creates the playlist and returns
+// { report } with the mapping notes.
+import { NextRequest, NextResponse } from "next/server";
+import { importGroup, importSavedFilter, listStashImportSources } from "@/lib/stashImportService";
+
+export async function GET() {
+  try {
+    const sources = await listStashImportSources();
+    return NextResponse.json(sources, { status: 200 });
+  } catch (err) {
+    console.error("[GET /api/playlists/stash-import] error:", err);
+    return NextResponse.json({ error: "Failed to load saved filters and groups from Stash" }, { status: 502 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let body: { source?: unknown; id?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const id = body?.id != null ? String(body.id).trim() : "";
+  if ((body?.source !== "filter" && body?.source !== "group") || !id) {
+    return NextResponse.json({ error: 'A source of "filter" or "group" and an id are required' }, { status: 400 });
+  }
+
+  try {
+    const report = body.source === "filter" ? await importSavedFilter(id) : await importGroup(id);
+    if (!report) {
+      return NextResponse.json(
+        { error: body.source === "filter" ? "Saved filter not found" : "Group not found" },
+        { status: 404 },
+      );
+    }
+    return NextResponse.json({ report }, { status: 201 });
+  } catch (err) {
+    console.error("[POST /api/playlists/stash-import] error:", err);
+    return NextResponse.json({ error: "Failed to import from Stash" }, { status: 500 });
+  }
+}
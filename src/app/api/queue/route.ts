@@ -0,0 +1,102 @@
+// src/app/api/queue/route.ts
+//
+// The play queue (see playQueueService).
+// GET                                        -> { entries }
+// POST { playlistId | itemIds | markerIds,
+//        placement: "next" | "end" }         -> queue them; { added, entries }
+// PUT { order: entryId[] }                   -> reorder; { entries }
+// DELETE { entryId } | { all: true }         -> remove one or clear; { entries }
+import { NextRequest, NextResponse } from "next/server";
+import {
+  clearQueue,
+  enqueue,
+  getQueue,
+  removeFromQueue,
+  reorderQueue,
+  type QueueSource,
+} from "@/lib/playQueueService";
+
+function stringList(raw: unknown): string[] | null {
+  if (!Array.isArray(raw)) return null;
+  const list = raw.filter((v): v is string => typeof v === "string" && v.length > 0);
+  return list.length ? list : null;
+}
+
+function parseSource(body: Record<string, unknown>): QueueSource | null {
+  if (typeof body.playlistId === "string" && body.playlistId) return { playlistId: body.playlistId };
+  const itemIds = stringList(body.itemIds);
+  if (itemIds) return { itemIds };
+  const markerIds = stringList(body.markerIds);
+  if (markerIds) return { markerIds };
+  return null;
+}
+
+async function readBody(request: NextRequest): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await request.json();
+    return body && typeof body === "object" ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function GET() {
+  try {
+    return NextResponse.json({ entries: await getQueue() }, { status: 200 });
+  } catch (err) {
+    console.error("[GET /api/queue] error:", err);
+    return NextResponse.json({ error: "Failed to load queue" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const body = await readBody(request);
+  if (!body) return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+
+  const source = parseSource(body);
+  if (!source) {
+    return NextResponse.json({ error: "playlistId, itemIds or markerIds is required" }, { status: 400 });
+  }
+  const placement = body.placement === "next" ? "next" : "end";
+
+  try {
+    const added = await enqueue(source, placement);
+    return NextResponse.json({ added, entries: await getQueue() }, { status: 200 });
+  } catch (err) {
+    console.error("[POST /api/queue] error:", err);
+    return NextResponse.json({ error: "Failed to add to queue" }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const body = await readBody(request);
+  const order = body ? stringList(body.order) : null;
+  if (!order) return NextResponse.json({ error: "order must be a list of entry ids" }, { status: 400 });
+
+  try {
+    await reorderQueue(order);
+    return NextResponse.json({ entries: await getQueue() }, { status: 200 });
+  } catch (err) {
+    console.error("[PUT /api/queue] error:", err);
+    return NextResponse.json({ error: "Failed to reorder queue" }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const body = await readBody(request);
+  if (!body) return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+
+  try {
+    if (body.all === true) {
+      await clearQueue();
+    } else if (typeof body.entryId === "string" && body.entryId) {
+      await removeFromQueue(body.entryId);
+    } else {
+      return NextResponse.json({ error: "entryId or all: true is required" }, { status: 400 });
+    }
+    return NextResponse.json({ entries: await getQueue() }, { status: 200 });
+  } catch (err) {
+    console.error("[DELETE /api/queue] error:", err);
+    return NextResponse.json({ error: "Failed to update queue" }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+// src/app/api/render-jobs/[id]/route.ts
+//
+// GET returns { job }.
+// DELETE cancels a queued or running job, or removes a finished one from the
+// list (its files stay on disk).
+import { NextRequest, NextResponse } from "next/server";
+import { renderJobService } from "@/lib/renderJobService";
+import { isActiveStatus } from "@/lib/renderJobs";
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  try {
+    const job = await renderJobService.getJob(id);
+    if (!job) {
+      return NextResponse.json({ error: "Render job not found" }, { status: 404 });
+    }
+    return NextResponse.json({ job }, { status: 200 });
+  } catch (err) {
+    console.error("[GET /api/render-jobs/[id]] error:", err);
+    return NextResponse.json({ error: "Failed to load render job" }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  try {
+    const job = await renderJobService.getJob(id);
+    if (!job) {
+      return NextResponse.json({ error: "Render job not found" }, { status: 404 });
+    }
+    if (isActiveStatus(job.status)) {
+      const cancelled = await renderJobService.cancel(id);
+      return NextResponse.json({ job: cancelled }, { status: 200 });
+    }
+    await renderJobService.remove(id);
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (err) {
+    console.error("[DELETE /api/render-jobs/[id]] error:", err);
+    return NextResponse.json({ error: "Failed to cancel render job" }, { status: 500 });
+  }
+}
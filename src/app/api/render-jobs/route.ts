@@ -0,0 +1,68 @@
+// src/app/api/render-jobs/route.ts
+//
+// Server-side clip rendering (see renderJobs.ts and renderJobService.ts).
+// GET returns { jobs, enabled }, newest first.
+// POST { name?, mode: "copy" | "reencode", concat, playlistId? | clips? }
+// queues a job for a whole playlist or for the given marker clips.
+import { NextRequest, NextResponse } from "next/server";
+import { renderJobService } from "@/lib/renderJobService";
+import { getDefaultClipSettings, getRenderSettings } from "@/lib/settingsDefinitions";
+import { parseRenderClips, parseRenderMode, type RenderClip } from "@/lib/renderJobs";
+
+export async function GET() {
+  try {
+    const [jobs, settings] = await Promise.all([renderJobService.listJobs(), getRenderSettings()]);
+    return NextResponse.json({ jobs, enabled: settings.enabled }, { status: 200 });
+  } catch (err) {
+    console.error("[GET /api/render-jobs] error:", err);
+    return NextResponse.json({ error: "Failed to load render jobs" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let body: { name?: unknown; mode?: unknown; concat?: unknown; playlistId?: unknown; clips?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    const settings = await getRenderSettings();
+    if (!settings.enabled) {
+      return NextResponse.json({ error: "Server rendering is turned off in Settings" }, { status: 403 });
+    }
+
+    let name = typeof body.name === "string" ? body.name.trim() : "";
+    let clips: RenderClip[];
+    const playlistId = typeof body.playlistId === "string" && body.playlistId ? body.playlistId : null;
+
+    if (playlistId) {
+      const playlist = await renderJobService.clipsForPlaylist(playlistId);
+      if (!playlist) {
+        return NextResponse.json({ error: "Playlist not found" }, { status: 404 });
+      }
+      clips = playlist.clips;
+      name ||= playlist.name;
+    } else {
+      const { fallbackLength } = await getDefaultClipSettings();
+      clips = parseRenderClips(body.clips, fallbackLength);
+    }
+
+    if (!clips.length) {
+      return NextResponse.json({ error: "No clips to render" }, { status: 400 });
+    }
+
+    const job = await renderJobService.enqueue({
+      name: name || `Render ${new Date().toISOString().slice(0, 10)}`,
+      mode: parseRenderMode(body.mode),
+      concat: body.concat === true,
+      clips,
+      playlistId,
+    });
+    return NextResponse.json({ job }, { status: 201 });
+  } catch (err) {
+    console.error("[POST /api/render-jobs] error:", err);
+    return NextResponse.json({ error: "Failed to queue render job" }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  EDIT_EXPORT_CONTENT_TYPES,
+  EDIT_EXPORT_FORMATS,
+  buildEditExport,
+  editExportFileName,
+  parseEditExportFormat,
+} from '@/lib/editExport';
+import { loadSceneEditClips } from '@/lib/editExportService';
+
+function jsonError(status: number, message: string) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+// GET /api/scenes/[id]/export?format=edl|ffmetadata|vtt
+// The scene's markers for editors, or as chapters to mux back into the
+// scene's own file (marker times are kept as they are in the file).
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: sceneId } = await params;
+
+  if (!sceneId) {
+    return jsonError(400, 'Scene ID is required');
+  }
+  const format = parseEditExportFormat(request.nextUrl.searchParams.get('format'));
+  if (!format) {
+    return jsonError(400, `format must be one of ${EDIT_EXPORT_FORMATS.join(', ')}`);
+  }
+
+  try {
+    const loaded = await loadSceneEditClips(sceneId);
+    if (!loaded) {
+      return jsonError(404, 'Scene not found');
+    }
+    if (!loaded.clips.length) {
+      return jsonError(404, 'The scene has no markers or no file');
+    }
+
+    const fileName = editExportFileName(loaded.title, format);
+    return new NextResponse(buildEditExport(format, loaded.title, loaded.clips, 'source'), {
+      status: 200,
+      headers: {
+        'Content-Type': EDIT_EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${fileName.replace(/[^\x20-\x7e]/g, '_')}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Failed to export scene markers:', error);
+    return jsonError(500, 'Failed to export scene markers');
+  }
+}
@@ -9,8 +9,11 @@
 // because the editor previews unsaved conditions.
 
 import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
 import {
+  applySelection,
   fetchFilteredStashMarkers,
+  getExclusions,
   type SmartPlaylistConditions,
 } from "@/lib/smartPlaylistServer";
 
@@ -31,8 +34,33 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const markers = await fetchFilteredStashMarkers(conditions);
-    return NextResponse.json({ markers, count: markers.length }, { status: 200 });
+    const filtered = await fetchFilteredStashMarkers(conditions);
+    const { total, truncated } = filtered;
+    // `matched` counts every marker the rules matched; `markers` is the
+    // subset the selection keeps, i.e. what a refresh would store.
+    const markers = await applySelection(filtered.markers, conditions);
+
+    // Echo the exclusions that were applied; performer names resolve from
+    // the local Actor table, tag names are resolved client-side.
+    const { excludedTagIds, excludedActorIds } = getExclusions(conditions);
+    const excludedActors = excludedActorIds.length
+      ? await prisma.actor.findMany({
+          where: { id: { in: excludedActorIds } },
+          select: { id: true, name: true },
+        })
+      : [];
+
+    return NextResponse.json(
+      {
+        markers,
+        count: markers.length,
+        matched: filtered.markers.length,
+        total,
+        truncated,
+        excluded: { tagIds: excludedTagIds, actors: excludedActors },
+      },
+      { status: 200 },
+    );
   } catch (error: any) {
     console.error("[/api/smart-playlists/preview] error:", error);
     return NextResponse.json(
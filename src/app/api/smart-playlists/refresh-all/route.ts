@@ -29,6 +29,7 @@ export async function POST(request: NextRequest) {
           refreshedPlaylists: result.refreshedPlaylists,
           duration: result.duration,
           errors: result.errors,
+          warnings: result.warnings,
         }
       });
     } else {
@@ -39,6 +40,7 @@ export async function POST(request: NextRequest) {
           refreshedPlaylists: result.refreshedPlaylists,
           duration: result.duration,
           errors: result.errors,
+          warnings: result.warnings,
         }
       }, { status: 207 }); // 207 Multi-Status for partial success
     }
@@ -0,0 +1,221 @@
+// src/app/history/page.tsx
+"use client";
+
+// The play log, newest first, grouped into sessions. ?itemId= or
+// ?playlistId= narrows it to one clip or one playlist, with its totals.
+import { useCallback, useEffect, useState, Suspense } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { X } from "lucide-react";
+import { useSettings } from "@/app/context/SettingsContext";
+import { makeStashUrl } from "@/lib/urlUtils";
+import { formatLength, formatSecondsToMMSS } from "@/lib/formatLength";
+import { formatSkipRatio, skipRatio } from "@/lib/playEvents";
+import type { PlayHistoryEvent, PlaySession } from "@/lib/playHistory";
+import type { PlayHistoryPage } from "@/lib/playHistoryService";
+
+const PAGE_SIZE = 200;
+
+function formatTime(iso: string) {
+  return new Date(iso).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+}
+
+function formatDay(iso: string) {
+  return new Date(iso).toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric", year: "numeric" });
+}
+
+function EventRow({ event, shot }: { event: PlayHistoryEvent; shot: string }) {
+  const clipSeconds = Math.max(0, event.item.endTime - event.item.startTime);
+  const skipped = event.outcome === "skipped";
+  return (
+    <li className="flex items-center gap-3 py-[6px]">
+      <div className="h-[36px] w-[64px] shrink-0 overflow-hidden rounded-[4px]" style={{ background: "var(--surface)" }}>
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        {shot && <img src={shot} alt="" className="h-full w-full object-cover" loading="lazy" />}
+      </div>
+      <Link
+        href={`/history?itemId=${encodeURIComponent(event.item.id)}`}
+        className="min-w-0 flex-1 truncate text-[13px] no-underline"
+        style={{ color: "var(--con-text)" }}
+        title="Show this clip's history"
+      >
+        {event.item.title}
+      </Link>
+      <span
+        className="con-micro rounded-[4px] px-[6px] py-[2px]"
+        style={{
+          color: skipped ? "var(--rating)" : "var(--success)",
+          border: `1px solid ${skipped ? "var(--rating-tint-bd)" : "var(--success-bd)"}`,
+        }}
+      >
+        {skipped ? "Skipped" : "Played"}
+      </span>
+      <span className="w-[90px] text-right text-[12px] tabular-nums" style={{ color: "var(--con-muted)" }}>
+        {formatSecondsToMMSS(event.watchedSeconds)} / {formatSecondsToMMSS(clipSeconds)}
+      </span>
+      <span className="w-[52px] text-right text-[12px] tabular-nums" style={{ color: "var(--con-faint)" }}>
+        {formatTime(event.createdAt)}
+      </span>
+    </li>
+  );
+}
+
+function SessionCard({ session, shotFor }: { session: PlaySession; shotFor: (path: string | null) => string }) {
+  return (
+    <div className="stat-card p-[14px]" style={{ minHeight: 0 }}>
+      <div className="mb-1 flex flex-wrap items-baseline justify-between gap-2">
+        <div className="text-[14px] font-semibold">
+          {session.playlist ? (
+            <Link href={`/playlists/${session.playlist.id}`} className="no-underline" style={{ color: "var(--con-text)" }}>
+              {session.playlist.name}
+            </Link>
+          ) : (
+            <span style={{ color: "var(--con-muted)" }}>No playlist</span>
+          )}
+        </div>
+        <div className="con-count">
+          {formatDay(session.startedAt)} · {formatTime(session.startedAt)}–{formatTime(session.endedAt)} ·{" "}
+          {session.completed} PLAYED · {session.skipped} SKIPPED
+        </div>
+      </div>
+      {/* Oldest first inside a session, in the order they played */}
+      <ul className="m-0 list-none p-0">
+        {[...session.events].reverse().map((event) => (
+          <EventRow key={event.id} event={event} shot={shotFor(event.item.screenshot)} />
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function HistoryContent() {
+  const searchParams = useSearchParams();
+  const itemId = searchParams.get("itemId");
+  const playlistId = searchParams.get("playlistId");
+
+  const settings = useSettings();
+  const stashServer = settings["STASH_SERVER"];
+  const stashAPI = settings["STASH_API"];
+  const shotFor = useCallback(
+    (path: string | null) => makeStashUrl(path, stashServer, stashAPI) || "",
+    [stashServer, stashAPI],
+  );
+
+  const [pages, setPages] = useState<PlayHistoryPage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(
+    async (before: string | null) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+        if (itemId) params.set("itemId", itemId);
+        if (playlistId) params.set("playlistId", playlistId);
+        if (before) params.set("before", before);
+        const res = await fetch(`/api/play-history?${params}`, { cache: "no-store" });
+        if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || "Failed to load play history");
+        const page: PlayHistoryPage = await res.json();
+        setPages((prev) => (before ? [...prev, page] : [page]));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load play history");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [itemId, playlistId],
+  );
+
+  useEffect(() => {
+    setPages([]);
+    load(null);
+  }, [load]);
+
+  const sessions = pages.flatMap((p) => p.sessions);
+  const totals = pages[0]?.totals;
+  const nextBefore = pages[pages.length - 1]?.nextBefore ?? null;
+
+  // Name the filter from the events themselves.
+  const firstEvent = sessions[0]?.events[0];
+  const filterLabel = itemId
+    ? `Clip: ${firstEvent?.item.title ?? itemId}`
+    : playlistId
+      ? `Playlist: ${sessions.find((s) => s.playlist)?.playlist?.name ?? playlistId}`
+      : null;
+
+  const countLine = totals
+    ? `${totals.completed.toLocaleString()} PLAYED · ${totals.skipped.toLocaleString()} SKIPPED · ${formatSkipRatio(
+        skipRatio(totals.completed, totals.skipped),
+      )} SKIP RATIO · ${formatLength(totals.watchedSeconds).toUpperCase()} WATCHED`
+    : "…";
+
+  return (
+    <div className="flex min-h-full flex-col">
+      <div className="flex flex-wrap items-start justify-between gap-3 px-[26px] pt-[22px]">
+        <div>
+          <h2 className="m-0 text-[22px] font-semibold tracking-[-0.01em]">History</h2>
+          <div className="con-count mt-1">{countLine}</div>
+        </div>
+        {filterLabel && (
+          <Link
+            href="/history"
+            className="flex items-center gap-2 rounded-[7px] px-[10px] py-[5px] text-[13px] no-underline"
+            style={{ color: "var(--con-text)", background: "var(--accent-tint-bg)", border: "1px solid var(--accent-tint-bd)" }}
+            title="Show all history"
+          >
+            {filterLabel}
+            <X size={13} />
+          </Link>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-3 px-[26px] pb-[26px] pt-[18px]">
+        {error && (
+          <p className="text-[13px]" style={{ color: "var(--danger)" }}>
+            {error}
+          </p>
+        )}
+
+        {!loading && !error && sessions.length === 0 && (
+          <div className="rounded-[7px] p-6 text-center" style={{ background: "var(--surface)", border: "1px dashed var(--con-border-strong)" }}>
+            <div className="text-[14px] font-semibold">Nothing played yet</div>
+            <div className="mt-1 text-[13px]" style={{ color: "var(--con-muted)" }}>
+              Clips show up here once they finish playing or are skipped.
+            </div>
+          </div>
+        )}
+
+        {sessions.map((session) => (
+          <SessionCard key={session.id} session={session} shotFor={shotFor} />
+        ))}
+
+        {loading && <div className="con-count">LOADING…</div>}
+
+        {!loading && nextBefore && (
+          <button
+            onClick={() => load(nextBefore)}
+            className="self-center rounded-[7px] px-[14px] py-[6px] text-[13px]"
+            style={{ color: "var(--accent-cyan)", border: "1px solid var(--con-border)" }}
+          >
+            Load older
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function HistoryPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex min-h-full flex-col px-[26px] pt-[22px]">
+          <h2 className="m-0 text-[22px] font-semibold tracking-[-0.01em]">History</h2>
+        </div>
+      }
+    >
+      <HistoryContent />
+    </Suspense>
+  );
+}
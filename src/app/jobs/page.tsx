@@ -0,0 +1,250 @@
+// src/app/jobs/page.tsx
+"use client";
+
+// Server render jobs (see renderJobs.ts), newest first. ?playlistId= opens
+// the form for rendering that playlist; marker selections are queued from
+// an actor's FFmpeg clip generator. The list polls while anything is queued
+// or running.
+import { FormEvent, Suspense, useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import useSWR from "swr";
+import { X } from "lucide-react";
+import { RENDER_MODES, RENDER_MODE_LABELS, isActiveStatus, type RenderJob, type RenderMode } from "@/lib/renderJobs";
+
+const JOBS_KEY = "/api/render-jobs";
+const POLL_MS = 2000;
+
+const jobsFetcher = (url: string) => fetch(url, { cache: "no-store" }).then((r) => r.json());
+
+type JobsResponse = { jobs: RenderJob[]; enabled: boolean };
+
+const STATUS_COLORS: Record<RenderJob["status"], string> = {
+  queued: "var(--con-muted)",
+  running: "var(--accent-cyan)",
+  completed: "var(--success)",
+  failed: "var(--danger)",
+  cancelled: "var(--rating)",
+};
+
+function formatWhen(iso: string) {
+  return new Date(iso).toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+}
+
+function JobCard({ job, onAction }: { job: RenderJob; onAction: (job: RenderJob) => void }) {
+  const active = isActiveStatus(job.status);
+  return (
+    <div className="stat-card p-[14px]" style={{ minHeight: 0 }}>
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <div className="min-w-0 truncate text-[14px] font-semibold">
+          {job.playlistId ? (
+            <Link href={`/playlists/${job.playlistId}`} className="no-underline" style={{ color: "var(--con-text)" }}>
+              {job.name}
+            </Link>
+          ) : (
+            job.name
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          <span
+            className="con-micro rounded-[4px] px-[6px] py-[2px]"
+            style={{ color: STATUS_COLORS[job.status], border: "1px solid var(--con-border)" }}
+          >
+            {job.status}
+          </span>
+          <button onClick={() => onAction(job)} className="con-btn-ghost">
+            {active ? "Cancel" : "Remove"}
+          </button>
+        </div>
+      </div>
+
+      <div className="con-count mt-1">
+        {job.clipCount} CLIP{job.clipCount === 1 ? "" : "S"} · {job.mode === "copy" ? "COPY" : "RE-ENCODE"}
+        {job.concat ? " · JOINED" : ""} · QUEUED {formatWhen(job.createdAt).toUpperCase()}
+      </div>
+
+      {job.status === "running" && (
+        <div className="mt-2 h-[6px] overflow-hidden rounded-full" style={{ background: "var(--well)" }}>
+          <div
+            className="h-full rounded-full"
+            style={{ width: `${Math.round(job.progress * 100)}%`, background: "var(--accent-cyan)", transition: "width 0.5s" }}
+          />
+        </div>
+      )}
+
+      {job.error && (
+        <p className="mb-0 mt-2 text-[13px]" style={{ color: "var(--danger)" }}>
+          {job.error}
+        </p>
+      )}
+
+      {job.outputDir && (
+        <div className="mt-2 text-[12px]" style={{ color: "var(--con-muted)" }}>
+          <span className="font-mono">{job.outputDir}</span>
+          {job.outputs.length > 0 && (
+            <span>
+              {" "}
+              · {job.outputs.length === 1 ? job.outputs[0] : `${job.outputs.length} files`}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function NewPlaylistRender({ playlistId, onQueued }: { playlistId: string; onQueued: () => void }) {
+  const router = useRouter();
+  const [name, setName] = useState("");
+  const [mode, setMode] = useState<RenderMode>("copy");
+  const [concat, setConcat] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/playlists/${playlistId}`)
+      .then((r) => (r.ok ? r.json() : null))
+      .then((data) => data?.name && setName(data.name))
+      .catch(() => {});
+  }, [playlistId]);
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch(JOBS_KEY, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, mode, concat, playlistId }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
+      onQueued();
+      router.replace("/jobs");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to queue render job");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="stat-card flex flex-col gap-3 p-[14px]" style={{ minHeight: 0 }}>
+      <div className="flex items-center justify-between">
+        <span className="con-micro">Render playlist</span>
+        <Link href="/jobs" title="Close" style={{ color: "var(--con-muted)" }}>
+          <X size={14} />
+        </Link>
+      </div>
+      <label className="flex flex-col gap-1.5">
+        <span className="con-micro">Name</span>
+        <input value={name} onChange={(e) => setName(e.target.value)} className="con-input" placeholder="Playlist name" />
+      </label>
+      <div className="flex flex-wrap gap-4">
+        {RENDER_MODES.map((m) => (
+          <label key={m} className="flex items-center gap-2 text-[13px]" style={{ color: "var(--con-text-2)" }}>
+            <input type="radio" name="render-mode" checked={mode === m} onChange={() => setMode(m)} />
+            {RENDER_MODE_LABELS[m]}
+          </label>
+        ))}
+      </div>
+      <label className="flex items-center gap-2 text-[13px]" style={{ color: "var(--con-text-2)" }}>
+        <input type="checkbox" checked={concat} onChange={(e) => setConcat(e.target.checked)} />
+        Join the clips into one compilation file
+      </label>
+      {error && (
+        <p className="m-0 text-[13px]" style={{ color: "var(--danger)" }}>
+          {error}
+        </p>
+      )}
+      <div>
+        <button type="submit" disabled={submitting} className="con-btn-primary disabled:opacity-50">
+          {submitting ? "Queueing…" : "Queue render"}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function JobsContent() {
+  const playlistId = useSearchParams().get("playlistId");
+  const { data, error, mutate } = useSWR<JobsResponse>(JOBS_KEY, jobsFetcher, {
+    refreshInterval: (latest) => (latest?.jobs?.some((j) => isActiveStatus(j.status)) ? POLL_MS : 0),
+  });
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const jobs = data?.jobs ?? [];
+  const activeCount = jobs.filter((j) => isActiveStatus(j.status)).length;
+
+  const cancelOrRemove = async (job: RenderJob) => {
+    setActionError(null);
+    try {
+      const res = await fetch(`${JOBS_KEY}/${job.id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || `HTTP ${res.status}`);
+      await mutate();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : "Failed to update render job");
+    }
+  };
+
+  return (
+    <div className="flex min-h-full flex-col">
+      <div className="px-[26px] pt-[22px]">
+        <h2 className="m-0 text-[22px] font-semibold tracking-[-0.01em]">Jobs</h2>
+        <div className="con-count mt-1">
+          {data ? `${jobs.length} RENDER${jobs.length === 1 ? "" : "S"} · ${activeCount} ACTIVE` : "…"}
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-3 px-[26px] pb-[26px] pt-[18px]">
+        {data && !data.enabled && (
+          <div className="rounded-[7px] p-4 text-[13px]" style={{ background: "var(--surface)", border: "1px dashed var(--con-border-strong)" }}>
+            Server rendering is off. Turn it on under{" "}
+            <Link href="/settings" style={{ color: "var(--accent-cyan)" }}>
+              Settings → Clip Rendering
+            </Link>{" "}
+            to run ffmpeg on this server.
+          </div>
+        )}
+
+        {playlistId && data?.enabled && <NewPlaylistRender playlistId={playlistId} onQueued={() => mutate()} />}
+
+        {(error || actionError) && (
+          <p className="text-[13px]" style={{ color: "var(--danger)" }}>
+            {actionError || "Failed to load render jobs"}
+          </p>
+        )}
+
+        {data && jobs.length === 0 && (
+          <div className="rounded-[7px] p-6 text-center" style={{ background: "var(--surface)", border: "1px dashed var(--con-border-strong)" }}>
+            <div className="text-[14px] font-semibold">No render jobs</div>
+            <div className="mt-1 text-[13px]" style={{ color: "var(--con-muted)" }}>
+              Render a playlist from its menu, or an actor&apos;s markers from the FFmpeg clip generator.
+            </div>
+          </div>
+        )}
+
+        {jobs.map((job) => (
+          <JobCard key={job.id} job={job} onAction={cancelOrRemove} />
+        ))}
+
+        {!data && !error && <div className="con-count">LOADING…</div>}
+      </div>
+    </div>
+  );
+}
+
+export default function JobsPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex min-h-full flex-col px-[26px] pt-[22px]">
+          <h2 className="m-0 text-[22px] font-semibold tracking-[-0.01em]">Jobs</h2>
+        </div>
+      }
+    >
+      <JobsContent />
+    </Suspense>
+  );
+}
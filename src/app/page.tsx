@@ -1,11 +1,14 @@
 // src/app/page.tsx
 "use client";
 
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 import Link from "next/link";
 import useSWR from "swr";
 import { useQuery, gql } from "@apollo/client";
 import { useStashTags } from "@/context/StashTagsContext";
+import { PlayActivity } from "@/components/PlayActivity";
+import { DEFAULT_HISTORY_DAYS } from "@/lib/playHistory";
+import type { PlayActivity as PlayActivityData } from "@/lib/playHistoryService";
 
 type DashboardStats = {
   playlists: number;
@@ -103,7 +106,13 @@ export default function Dashboard() {
   const unorganisedLoading =
     tagsLoading || !actorsReady || (!!markersOrganisedTagId && !noActors && countLoading);
 
+  const [activityDays, setActivityDays] = useState(DEFAULT_HISTORY_DAYS);
   const { data: stats } = useSWR<DashboardStats>("/api/dashboard-stats", statsFetcher);
+  const { data: activity } = useSWR<PlayActivityData>(
+    `/api/dashboard-stats/activity?days=${activityDays}`,
+    statsFetcher,
+    { keepPreviousData: true },
+  );
   const statsLoading = !stats;
 
   return (
@@ -133,9 +142,14 @@ export default function Dashboard() {
         />
       </div>
 
-      <div className="stat-grid px-[26px] pb-[26px] pt-[12px]">
+      <div className="stat-grid px-[26px] pt-[12px]">
         <StatCard label="Actors" value={stats?.actors} loading={statsLoading} href="/actors" />
       </div>
+
+      {/* Play log: plays per day and the most played */}
+      <div className="pb-[26px]">
+        <PlayActivity activity={activity} days={activityDays} onDaysChange={setActivityDays} />
+      </div>
     </div>
   );
 }
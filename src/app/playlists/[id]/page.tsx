@@ -1,15 +1,37 @@
 'use client'
 import * as React from 'react';
-import { useEffect, useRef, useState, useCallback, useMemo } from "react";
-import { useParams, useSearchParams } from "next/navigation";
+import { useEffect, useLayoutEffect, useRef, useState, useCallback, useMemo } from "react";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
 import { useQuery, useMutation, gql } from "@apollo/client";
-import { Grid, Container, Sheet, Box, Typography, Button, Chip } from '@mui/joy';
+import { Grid, Container, Box, Typography, Button, Chip, ChipDelete, Alert, IconButton } from '@mui/joy';
+import { Keyboard } from 'lucide-react';
 import VideoJS from "@/components/videojs/VideoJS";
+import { ClipTransition, type TransitionClip, type TransitionPlayer } from "@/components/videojs/ClipTransition";
 import { PlaylistDetail } from '@/components/PlaylistDetail';
+import { PlaylistRefreshPanel } from '@/components/PlaylistRefreshPanel';
+import { PlaylistTransitionMenu } from '@/components/PlaylistTransitionMenu';
+import { KeyboardShortcutsHelp } from '@/components/KeyboardShortcutsHelp';
+import { PlaybackModesMenu } from '@/components/PlaybackModesMenu';
 import StarRating from '@/components/StarRating';
 import MarkerTagEditor from '@/components/MarkerTagEditor';
 import { useSettings } from "@/app/context/SettingsContext";
 import { makeStashUrl } from "@/lib/urlUtils";
+import { formatSecondsToMMSS } from "@/lib/formatLength";
+import { parseShuffleOptions, type ShuffleMode, type ShuffleSpread } from "@/lib/playlistShuffle";
+import { randomSeed } from "@/lib/seededRandom";
+import { parsePlaybackSession, restorePlaybackSession, type PlaybackSessionState } from "@/lib/playbackSession";
+import { formatSkipRatio, skipRatio } from "@/lib/playEvents";
+import {
+  PLAYBACK_RATES,
+  parsePlaybackOptions,
+  resolveTransition,
+  sleepTimerLabel,
+  type PlaybackModes,
+  type PlaylistPlaybackOptions,
+  type PlaylistTransition,
+  type SleepTimer,
+} from "@/lib/playlistPlayback";
+import { useKeybindings } from "@/hooks/useKeybindings";
 
 // GraphQL queries and mutations for marker tag editing
 const GET_SCENE_MARKER_DETAILS = gql`
@@ -54,11 +76,13 @@ type PlaylistItem = {
     screenshot?: string;
     rating?: number | null;
     playCount?: number;
+    skipCount?: number;
   };
 };
 
 type Playlist = {
   name: string;
+  type?: 'MANUAL' | 'SMART';
   items: PlaylistItem[];
 };
 
@@ -85,6 +109,7 @@ type SceneMarkerDetailsData = {
 export default function PlaylistPlayer() {
   const { id } = useParams();
   const searchParams = useSearchParams();
+  const router = useRouter();
   const settings = useSettings();
   const [playlist, setPlaylist] = useState<Playlist | null>(null);
   const [currentIndex, setCurrentIndex] = useState(0); // index within playOrder
@@ -101,6 +126,27 @@ export default function PlaylistPlayer() {
   // Dedupes the play-count increment against an accidental double 'ended' event.
   const lastPlayRecordedRef = useRef<{ id: string; at: number } | null>(null);
 
+  // Saved play session from the server, offered as "resume where you left off"
+  const [savedSession, setSavedSession] = useState<PlaybackSessionState | null>(null);
+  // Start the clip at playOrder[index] this many seconds in (set by Resume)
+  const [resumeFrom, setResumeFrom] = useState<{ index: number; position: number } | null>(null);
+  // Only save a session once something has actually played, so opening the
+  // playlist without watching doesn't overwrite where another device left off.
+  const playbackStartedRef = useRef(false);
+
+  // This playlist's playback preferences, and the player once it is ready
+  // (for the transition overlay and the playback modes)
+  const [playbackOptions, setPlaybackOptions] = useState(() => parsePlaybackOptions(null));
+  const [videoPlayer, setVideoPlayer] = useState<TransitionPlayer | null>(null);
+
+  // Completed plays of the clip at playOrder[index], for "play each clip N times"
+  const [clipPlays, setClipPlays] = useState({ index: 0, count: 0 });
+  // A-B repeat range in the clip at playOrder[index], in clip-relative
+  // seconds; b is null until the second point is set
+  const [abRepeat, setAbRepeat] = useState<{ index: number; a: number; b: number | null } | null>(null);
+  // Session-only sleep timer: a deadline, or the clips left to finish
+  const [sleep, setSleep] = useState<{ timer: SleepTimer; endsAt: number | null; clipsLeft: number | null } | null>(null);
+
   // Tag editing state
   const [currentMarkerDetails, setCurrentMarkerDetails] = useState<MarkerDetails | null>(null);
 
@@ -142,12 +188,92 @@ export default function PlaylistPlayer() {
   }, []);
 
   // Fetch playlist
-  useEffect(() => {
+  const loadPlaylist = useCallback(() => {
     fetch(`/api/playlists?id=${id}`)
       .then((res) => res.json())
       .then((data) => setPlaylist(data));
   }, [id]);
 
+  useEffect(() => {
+    loadPlaylist();
+  }, [loadPlaylist]);
+
+  useEffect(() => {
+    fetch(`/api/playlists/${id}/session`, { cache: 'no-store' })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setSavedSession(parsePlaybackSession(data?.session)))
+      .catch((e) => console.error('Failed to load playback session', e));
+  }, [id]);
+
+  useEffect(() => {
+    fetch(`/api/playlists/${id}/playback`, { cache: 'no-store' })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setPlaybackOptions(parsePlaybackOptions(data?.options)))
+      .catch((e) => console.error('Failed to load playback options', e));
+  }, [id]);
+
+  const savePlaybackOptions = useCallback(async (patch: Partial<PlaylistPlaybackOptions>) => {
+    const previous = playbackOptions;
+    setPlaybackOptions((prev) => ({ ...prev, ...patch }));
+    try {
+      const res = await fetch(`/api/playlists/${id}/playback`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ options: patch }),
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const data = await res.json();
+      setPlaybackOptions(parsePlaybackOptions(data.options));
+    } catch (e) {
+      console.error('Failed to save playback options', e);
+      setPlaybackOptions(previous);
+    }
+  }, [id, playbackOptions]);
+
+  const handleTransitionChange = useCallback(
+    (transition: PlaylistTransition) => savePlaybackOptions({ transition }),
+    [savePlaybackOptions],
+  );
+  const handleModesChange = useCallback(
+    (modes: PlaybackModes) => savePlaybackOptions({ modes }),
+    [savePlaybackOptions],
+  );
+
+  // A new source resets the media element's speed, so reapply it per load.
+  const playbackRate = playbackOptions.modes.rate;
+  useEffect(() => {
+    if (!videoPlayer) return;
+    const applyRate = () => {
+      if (!videoPlayer.isDisposed()) videoPlayer.playbackRate(playbackRate);
+    };
+    applyRate();
+    videoPlayer.on('loadedmetadata', applyRate);
+    return () => videoPlayer.off('loadedmetadata', applyRate);
+  }, [videoPlayer, playbackRate]);
+
+  const handleSleepTimerChange = useCallback((timer: SleepTimer | null) => {
+    setSleep(timer && {
+      timer,
+      endsAt: timer.kind === 'minutes' ? Date.now() + timer.amount * 60_000 : null,
+      clipsLeft: timer.kind === 'clips' ? timer.amount : null,
+    });
+  }, []);
+
+  const sleepEndsAt = sleep?.endsAt;
+  useEffect(() => {
+    if (sleepEndsAt == null) return;
+    const timer = setTimeout(() => {
+      playerRef.current?.pause();
+      setSleep(null);
+    }, Math.max(0, sleepEndsAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [sleepEndsAt]);
+
+  const transition = useMemo(
+    () => resolveTransition(playbackOptions.transition, settings),
+    [playbackOptions.transition, settings],
+  );
+
   const items = useMemo(() => playlist?.items ?? [], [playlist?.items]);
 
   // Extract scene ID from current item stream URL
@@ -248,43 +374,208 @@ export default function PlaylistPlayer() {
     }
   }, [updateSceneMarker, currentSceneId]);
 
-  // Helper function to shuffle an array
-  const shuffleArray = useCallback(<T,>(array: T[]): T[] => {
-    const arr = [...array];
-    for (let i = arr.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [arr[i], arr[j]] = [arr[j], arr[i]];
-    }
-    return arr;
-  }, []);
+  // ?shuffle=true plays in a server-side seeded order. The seed is written
+  // back into the URL so the link reproduces the same order.
+  const shuffleParams = useMemo(() => {
+    if (searchParams.get('shuffle') !== 'true') return null;
+    return {
+      mode: searchParams.get('mode'),
+      spread: searchParams.get('spread'),
+      seed: searchParams.get('seed'),
+    };
+  }, [searchParams]);
+  const shuffleChoice = useMemo(() => {
+    const { mode, spread } = parseShuffleOptions(shuffleParams ?? {});
+    return { mode, spread };
+  }, [shuffleParams]);
+  const appliedShuffleRef = useRef<string | null>(null);
+
+  // The play order depends only on which items are listed, so edits to an
+  // item (a rating, say) keep the current order and position.
+  const itemIdsKey = useMemo(() => items.map((pi) => pi.item.id).join('\n'), [items]);
 
   // Reset index/order when items change
   useEffect(() => {
+    const itemIds = itemIdsKey ? itemIdsKey.split('\n') : [];
     // Only proceed if we have items loaded
-    if (items.length === 0) {
+    if (itemIds.length === 0) {
       setPlayOrder([]);
       return;
     }
-    
-    const shouldShuffle = searchParams.get('shuffle') === 'true';
-    const initialOrder = items.map((_, i) => i);
-    
-    if (shouldShuffle) {
-      const shuffled = shuffleArray(initialOrder);
-      setPlayOrder(shuffled);
-    } else {
-      setPlayOrder(initialOrder);
+
+    const resetPlayback = (order: number[]) => {
+      setPlayOrder(order);
+      setCurrentIndex(0);
+      setHasStarted(false);
+      setPlayedItemIndices(new Set()); // Reset played items when playlist changes
+    };
+
+    const initialOrder = itemIds.map((_, i) => i);
+    if (!shuffleParams) {
+      appliedShuffleRef.current = null;
+      resetPlayback(initialOrder);
+      return;
     }
-    
-    setCurrentIndex(0);
-    setHasStarted(false);
-    setPlayedItemIndices(new Set()); // Reset played items when playlist changes
-  }, [items.length, searchParams, shuffleArray]);
+
+    // Writing the drawn seed into the URL re-runs this effect; skip that run.
+    const key = `${itemIds.length}|${shuffleParams.mode}|${shuffleParams.spread}|${shuffleParams.seed}`;
+    if (appliedShuffleRef.current === key) return;
+
+    const query = new URLSearchParams();
+    if (shuffleParams.mode) query.set('mode', shuffleParams.mode);
+    if (shuffleParams.spread) query.set('spread', shuffleParams.spread);
+    if (shuffleParams.seed) query.set('seed', shuffleParams.seed);
+
+    let cancelled = false;
+    fetch(`/api/playlists/${id}/shuffle?${query}`)
+      .then((res) => (res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`))))
+      .then((data: { seed: number; order: string[] }) => {
+        if (cancelled) return;
+        const indexOf = new Map(itemIds.map((itemId, i) => [itemId, i]));
+        const order = data.order.map((itemId) => indexOf.get(itemId)).filter((i): i is number => i != null);
+        resetPlayback(order.length === itemIds.length ? order : initialOrder);
+
+        const url = new URLSearchParams(window.location.search);
+        url.set('seed', String(data.seed));
+        appliedShuffleRef.current = `${itemIds.length}|${shuffleParams.mode}|${shuffleParams.spread}|${data.seed}`;
+        window.history.replaceState(null, '', `?${url}`);
+      })
+      .catch((e) => {
+        console.error('Failed to shuffle playlist', e);
+        if (!cancelled) resetPlayback(initialOrder);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [itemIdsKey, shuffleParams, id]);
+
+  // Reshuffle with a new seed (and possibly a new mode) via the URL.
+  const handleShuffle = useCallback((choice: { mode: ShuffleMode; spread: ShuffleSpread }) => {
+    const query = new URLSearchParams({
+      shuffle: 'true',
+      mode: choice.mode,
+      spread: choice.spread,
+      seed: String(randomSeed()),
+    });
+    router.replace(`/playlists/${id}?${query}`, { scroll: false });
+  }, [id, router]);
 
   // Current item derived from playOrder
   const currentItemIndex = playOrder[currentIndex] ?? 0;
   const currentItem = items[currentItemIndex];
 
+  const restoredSession = useMemo(
+    () => (savedSession ? restorePlaybackSession(savedSession, items.map((pi) => pi.item.id)) : null),
+    [savedSession, items],
+  );
+
+  const handleResume = useCallback(() => {
+    if (!restoredSession) return;
+    setPlayOrder(restoredSession.playOrder);
+    setCurrentIndex(restoredSession.currentIndex);
+    setPlayedItemIndices(restoredSession.playedItemIndices);
+    // A position in the clip's last seconds would end it straight away.
+    const item = items[restoredSession.playOrder[restoredSession.currentIndex]]?.item;
+    const clipLength = item ? item.endTime - item.startTime : 0;
+    const position = restoredSession.position < clipLength - 2 ? restoredSession.position : 0;
+    setResumeFrom({ index: restoredSession.currentIndex, position });
+    setSavedSession(null);
+  }, [restoredSession, items]);
+
+  const handleStartOver = useCallback(() => {
+    setSavedSession(null);
+    fetch(`/api/playlists/${id}/session`, { method: 'DELETE' }).catch(() => {});
+  }, [id]);
+
+  // The resume position only applies to the clip it was saved for.
+  useEffect(() => {
+    if (resumeFrom && resumeFrom.index !== currentIndex) setResumeFrom(null);
+  }, [currentIndex, resumeFrom]);
+  const resumePosition = resumeFrom && resumeFrom.index === currentIndex ? resumeFrom.position : 0;
+
+  // Like the resume position, loop counts and A-B ranges belong to one clip.
+  const playsOfCurrent = clipPlays.index === currentIndex ? clipPlays.count : 0;
+  const activeAbRepeat = abRepeat && abRepeat.index === currentIndex ? abRepeat : null;
+  const abStart = activeAbRepeat?.a;
+  const abEnd = activeAbRepeat?.b;
+
+  useEffect(() => {
+    if (!videoPlayer || abStart == null || abEnd == null) return;
+    const handleTimeUpdate = () => {
+      if (Number(videoPlayer.currentTime()) >= abEnd) videoPlayer.currentTime(abStart);
+    };
+    videoPlayer.on('timeupdate', handleTimeUpdate);
+    return () => videoPlayer.off('timeupdate', handleTimeUpdate);
+  }, [videoPlayer, abStart, abEnd]);
+
+  // First press sets A, the second sets B (or moves A if it is earlier),
+  // the third clears the range.
+  const cycleAbRepeat = useCallback(() => {
+    const time = Number(playerRef.current?.currentTime()) || 0;
+    setAbRepeat((prev) => {
+      const current = prev && prev.index === currentIndex ? prev : null;
+      if (!current) return { index: currentIndex, a: time, b: null };
+      if (current.b == null) {
+        return time > current.a + 0.5 ? { ...current, b: time } : { index: currentIndex, a: time, b: null };
+      }
+      return null;
+    });
+  }, [currentIndex]);
+
+  // Start the current clip over without reloading the source.
+  const replayCurrent = useCallback(() => {
+    const player = playerRef.current;
+    if (!player || player.isDisposed?.()) return;
+    player.currentTime(0);
+    player.play()?.catch(() => {});
+  }, []);
+
+  // Latest playback state for the save callbacks below, which also run from
+  // timers and page-hide listeners.
+  const sessionStateRef = useRef({ items, playOrder, currentIndex, playedItemIndices, resumePosition });
+  sessionStateRef.current = { items, playOrder, currentIndex, playedItemIndices, resumePosition };
+
+  const saveSession = useCallback((keepalive = false) => {
+    if (!playbackStartedRef.current) return;
+    const state = sessionStateRef.current;
+    const itemId = state.items[state.playOrder[state.currentIndex]]?.item.id;
+    if (!itemId) return;
+
+    const player = playerRef.current;
+    const elapsed = player && !player.isDisposed?.() ? Number(player.currentTime()) || 0 : 0;
+    const body: PlaybackSessionState = {
+      itemId,
+      position: state.resumePosition + elapsed,
+      playOrder: state.playOrder.map((i) => state.items[i]?.item.id).filter((v): v is string => !!v),
+      playedItemIds: [...state.playedItemIndices].map((i) => state.items[i]?.item.id).filter((v): v is string => !!v),
+      shuffled: state.playOrder.some((v, i) => v !== i),
+    };
+    fetch(`/api/playlists/${id}/session`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      keepalive,
+    }).catch((e) => console.error('Failed to save playback session', e));
+  }, [id]);
+
+  // Save on track changes, every 15s while playing, and when the page is left.
+  useEffect(() => {
+    saveSession();
+  }, [currentIndex, playOrder, playedItemIndices, saveSession]);
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      if (playerRef.current && !playerRef.current.paused?.()) saveSession();
+    }, 15000);
+    const onPageHide = () => saveSession(true);
+    window.addEventListener('pagehide', onPageHide);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('pagehide', onPageHide);
+      saveSession(true);
+    };
+  }, [saveSession]);
+
   // Rating handler bound to the current clip, for the in-player overlay.
   const currentItemId = currentItem?.item?.id;
   const handleOverlayRatingChange = useCallback(
@@ -316,9 +607,62 @@ export default function PlaylistPlayer() {
 
   const handlePlayerReady = useCallback((player: any) => {
     playerRef.current = player;
+    setVideoPlayer(player);
     player.muted(true);
+    player.on('playing', () => {
+      playbackStartedRef.current = true;
+      if (leftClipRef.current) leftClipRef.current.started = true;
+    });
   }, []);
 
+  // The clip on screen, until the player moves off it. Leaving a clip that
+  // started but never ended (next/previous, the list, a shortcut) is reported
+  // to /skip, which counts it as a skip if too little of it played. A layout
+  // effect, so the player still has the old clip's position. The player
+  // counts from where the clip was resumed, so that position is kept with it.
+  const leftClipRef = useRef<{
+    index: number;
+    itemId: string;
+    resumePosition: number;
+    started: boolean;
+    ended: boolean;
+  } | null>(null);
+  useLayoutEffect(() => {
+    const prev = leftClipRef.current;
+    const itemId = currentItem?.item?.id;
+    if (prev && prev.index === currentIndex && prev.itemId === itemId) {
+      prev.resumePosition = resumePosition;
+      return;
+    }
+    if (prev && prev.started && !prev.ended) {
+      const player = playerRef.current;
+      const watchedSeconds =
+        player && !player.isDisposed() ? prev.resumePosition + (Number(player.currentTime()) || 0) : null;
+      fetch(`/api/items/${prev.itemId}/skip`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ playlistId: id, watchedSeconds }),
+      })
+        .then((r) => (r.ok ? r.json() : null))
+        .then((data) => {
+          const skipCount = data?.item?.skipCount;
+          if (typeof skipCount !== "number") return;
+          setPlaylist((p) =>
+            p
+              ? {
+                  ...p,
+                  items: p.items.map((pi) => (pi.item.id === prev.itemId ? { ...pi, item: { ...pi.item, skipCount } } : pi)),
+                }
+              : p
+          );
+        })
+        .catch(() => {});
+    }
+    leftClipRef.current = itemId
+      ? { index: currentIndex, itemId, resumePosition, started: false, ended: false }
+      : null;
+  }, [currentIndex, currentItem?.item?.id, id, resumePosition]);
+
   const handleVideoEnded = useCallback(() => {
     setHasStarted(true);
     // Mark current item as played
@@ -327,12 +671,17 @@ export default function PlaylistPlayer() {
     // Record a completed play for this marker (fire-and-forget). Guard against
     // a rare double 'ended' event; genuine replays are >1s apart so still count.
     const finishedId = items[currentItemIndex]?.item?.id;
+    if (leftClipRef.current) leftClipRef.current.ended = true;
     if (finishedId) {
       const now = Date.now();
       const last = lastPlayRecordedRef.current;
       if (!last || last.id !== finishedId || now - last.at > 1000) {
         lastPlayRecordedRef.current = { id: finishedId, at: now };
-        fetch(`/api/items/${finishedId}/play`, { method: "POST" })
+        fetch(`/api/items/${finishedId}/play`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ playlistId: id }),
+        })
           .then((r) => (r.ok ? r.json() : null))
           .then((data) => {
             const newCount = data?.item?.playCount;
@@ -353,22 +702,123 @@ export default function PlaylistPlayer() {
       }
     }
 
+    // A clip-count sleep timer stops once its last clip has finished.
+    const sleepNow = sleep?.clipsLeft != null && sleep.clipsLeft <= 1;
+    if (sleep?.clipsLeft != null) {
+      setSleep(sleepNow ? null : { ...sleep, clipsLeft: sleep.clipsLeft - 1 });
+    }
+
+    // Play the clip again while it has loops left.
+    if (!sleepNow && playsOfCurrent + 1 < playbackOptions.modes.clipPlays) {
+      setClipPlays({ index: currentIndex, count: playsOfCurrent + 1 });
+      replayCurrent();
+      return;
+    }
+    setClipPlays({ index: currentIndex, count: 0 });
+
     setPlayedItemIndices(prev => new Set(prev).add(currentItemIndex));
+    if (sleepNow) return;
     // Move to next item
-    if (currentIndex < playOrder.length - 1) setCurrentIndex(i => i + 1);
-  }, [playOrder, currentIndex, items, setCurrentIndex]);
+    if (currentIndex < playOrder.length - 1) {
+      setCurrentIndex(i => i + 1);
+    } else if (playbackOptions.modes.loopPlaylist) {
+      // Start over from the top, with a clean "played" list.
+      setPlayedItemIndices(new Set());
+      if (playOrder.length > 1) setCurrentIndex(0);
+      else replayCurrent();
+    } else {
+      // Finished the playlist: next time starts from the top.
+      playbackStartedRef.current = false;
+      fetch(`/api/playlists/${id}/session`, { method: 'DELETE' }).catch(() => {});
+    }
+  }, [playOrder, currentIndex, items, setCurrentIndex, id, sleep, playsOfCurrent, playbackOptions.modes, replayCurrent]);
 
-  // Memoize offset to prevent video restarts when only scene data changes
+  // Memoize offset to prevent video restarts when only scene data changes;
+  // it's keyed on the clip's times, not the item, which changes on a rating.
+  const clipStart = currentItem?.item?.startTime;
+  const clipEnd = currentItem?.item?.endTime;
   const offset = useMemo(() => {
-    const result = currentItem
+    const result = clipStart != null
       ? {
-          start: currentItem.item.startTime,
-          end: currentItem.item.endTime,
+          start: clipStart + resumePosition,
+          end: clipEnd,
           restart_beginning: false,
         }
       : undefined;
     return result;
-  }, [currentItem?.item?.startTime, currentItem?.item?.endTime, currentIndex, currentItem?.item?.title]);
+  }, [clipStart, clipEnd, resumePosition]);
+
+  // The clip playing now and the one after it, for the transition overlay.
+  // There is no next clip to transition to while this one will loop, or
+  // when the sleep timer stops after it.
+  const nextIndex = currentIndex < playOrder.length - 1
+    ? currentIndex + 1
+    : playbackOptions.modes.loopPlaylist && playOrder.length > 1 ? 0 : null;
+  const staysOnClip =
+    playsOfCurrent + 1 < playbackOptions.modes.clipPlays ||
+    abEnd != null ||
+    sleep?.clipsLeft === 1;
+  const nextItem = nextIndex != null && !staysOnClip ? items[playOrder[nextIndex]] : undefined;
+  const currentClip = useMemo<TransitionClip | null>(() => {
+    if (!currentItem?.item?.stream || !offset) return null;
+    return {
+      key: `${currentIndex}:${currentItem.item.id}`,
+      src: String(videoJsOptions.sources[0]?.src ?? ''),
+      startTime: offset.start,
+      endTime: offset.end,
+    };
+  }, [currentIndex, currentItem?.item?.id, currentItem?.item?.stream, offset, videoJsOptions.sources]);
+  const nextClip = useMemo<TransitionClip | null>(() => {
+    if (!nextItem?.item?.stream || nextIndex == null) return null;
+    return {
+      key: `${nextIndex}:${nextItem.item.id}`,
+      src: makeStashUrl(nextItem.item.stream, String(settings["STASH_SERVER"] || ""), String(settings["STASH_API"] || "")),
+      startTime: nextItem.item.startTime,
+      endTime: nextItem.item.endTime,
+    };
+  }, [nextIndex, nextItem?.item?.id, nextItem?.item?.stream, nextItem?.item?.startTime, nextItem?.item?.endTime, settings]);
+  const transitionActive = transition.mode !== 'off' && !!nextClip;
+
+  // Keyboard shortcuts (see lib/keybindings); ratings toggle like the buttons.
+  const seekBy = (delta: number) => {
+    const player = playerRef.current;
+    if (!player || player.isDisposed?.()) return;
+    const duration = Number(player.duration()) || Infinity;
+    player.currentTime(Math.max(0, Math.min(duration, Number(player.currentTime()) + delta)));
+  };
+  const changeRate = (step: number) => {
+    const at = PLAYBACK_RATES.findIndex((r) => r >= playbackRate);
+    const next = PLAYBACK_RATES[Math.max(0, Math.min(PLAYBACK_RATES.length - 1, (at === -1 ? PLAYBACK_RATES.length - 1 : at) + step))];
+    if (next !== playbackRate) handleModesChange({ ...playbackOptions.modes, rate: next });
+  };
+  const rateCurrent = (level: number) => {
+    if (currentItem) handleRatingChange(currentItem.item.id, currentItem.item.rating === level ? null : level);
+  };
+  const shortcuts = useKeybindings('player', {
+    'player.playPause': () => {
+      const player = playerRef.current;
+      if (!player) return;
+      if (player.paused()) player.play()?.catch(() => {});
+      else player.pause();
+    },
+    'player.next': () => setCurrentIndex((i) => Math.min(i + 1, Math.max(0, playOrder.length - 1))),
+    'player.previous': () => setCurrentIndex((i) => Math.max(0, i - 1)),
+    'player.seekBack': () => seekBy(-5),
+    'player.seekForward': () => seekBy(5),
+    'player.mute': () => playerRef.current?.muted(!playerRef.current.muted()),
+    'player.fullscreen': () => {
+      const player = playerRef.current;
+      if (!player) return;
+      if (player.isFullscreen()) player.exitFullscreen();
+      else player.requestFullscreen();
+    },
+    'player.slower': () => changeRate(-1),
+    'player.faster': () => changeRate(1),
+    'player.abRepeat': cycleAbRepeat,
+    'player.rateDislike': () => rateCurrent(1),
+    'player.rateLike': () => rateCurrent(2),
+    'player.rateLove': () => rateCurrent(3),
+  });
 
   // Don't render until playlist is loaded and playOrder is properly set
   if (!playlist) return <div>Loading...</div>;
@@ -410,13 +860,37 @@ export default function PlaylistPlayer() {
                 offset={offset}
                 onReady={handlePlayerReady}
                 onEnded={handleVideoEnded}
+                fadeOut={!transitionActive}
                 ratingValue={currentItem?.item?.rating ?? null}
                 onRatingChange={handleOverlayRatingChange}
                 sceneTitle={sceneData?.findScene?.title || currentItem?.item?.title || ''}
                 performers={sceneData?.findScene?.performers ?? []}
               />
+              <ClipTransition
+                player={videoPlayer}
+                current={currentClip}
+                next={nextClip}
+                transition={transition}
+              />
             </Box>
 
+            {restoredSession && (
+              <Alert
+                variant="soft"
+                color="primary"
+                sx={{ mt: 1.5 }}
+                endDecorator={
+                  <Box sx={{ display: 'flex', gap: 1 }}>
+                    <Button size="sm" onClick={handleResume}>Resume</Button>
+                    <Button size="sm" variant="plain" color="neutral" onClick={handleStartOver}>Start over</Button>
+                  </Box>
+                }
+              >
+                Resume where you left off: clip {restoredSession.currentIndex + 1} of {restoredSession.playOrder.length}
+                {restoredSession.position > 0 && `, ${formatSecondsToMMSS(restoredSession.position)} in`}
+              </Alert>
+            )}
+
             {/* Current Item Info */}
             {currentItem && (
               <Box
@@ -433,6 +907,35 @@ export default function PlaylistPlayer() {
                     {currentItem.item.title}
                   </Typography>
                   <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <IconButton
+                      size="sm"
+                      variant="plain"
+                      aria-label="Keyboard shortcuts"
+                      title="Keyboard shortcuts (?)"
+                      onClick={() => shortcuts.setHelpOpen(true)}
+                    >
+                      <Keyboard size={16} />
+                    </IconButton>
+                    <Button
+                      size="sm"
+                      variant={activeAbRepeat ? 'soft' : 'plain'}
+                      color="neutral"
+                      title={activeAbRepeat?.b != null ? 'Clear A-B repeat (R)' : activeAbRepeat ? 'Set B here (R)' : 'Set A here for A-B repeat (R)'}
+                      onClick={cycleAbRepeat}
+                    >
+                      A-B
+                    </Button>
+                    <PlaybackModesMenu
+                      modes={playbackOptions.modes}
+                      onChange={handleModesChange}
+                      sleepTimer={sleep?.timer ?? null}
+                      onSleepTimerChange={handleSleepTimerChange}
+                    />
+                    <PlaylistTransitionMenu
+                      value={playbackOptions.transition}
+                      resolved={transition}
+                      onChange={handleTransitionChange}
+                    />
                     <Chip
                       size="sm"
                       variant="soft"
@@ -441,6 +944,16 @@ export default function PlaylistPlayer() {
                     >
                       ▶ {(currentItem.item.playCount ?? 0).toLocaleString()} played
                     </Chip>
+                    {(currentItem.item.skipCount ?? 0) > 0 && (
+                      <Chip
+                        size="sm"
+                        variant="soft"
+                        color="warning"
+                        title={`Skipped ${currentItem.item.skipCount} time${currentItem.item.skipCount === 1 ? '' : 's'} (skip ratio ${formatSkipRatio(skipRatio(currentItem.item.playCount ?? 0, currentItem.item.skipCount ?? 0))})`}
+                      >
+                        ⏭ {(currentItem.item.skipCount ?? 0).toLocaleString()} skipped
+                      </Chip>
+                    )}
                     <Typography level="body-sm" sx={{ color: 'text.secondary' }}>
                       Rate:
                     </Typography>
@@ -454,6 +967,36 @@ export default function PlaylistPlayer() {
                   </Box>
                 </Box>
 
+                {/* Session modes that are running: A-B repeat and the sleep timer */}
+                {(activeAbRepeat || sleep) && (
+                  <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mb: 1 }}>
+                    {activeAbRepeat && (
+                      <Chip
+                        size="sm"
+                        variant="soft"
+                        color="primary"
+                        endDecorator={<ChipDelete onDelete={() => setAbRepeat(null)} />}
+                      >
+                        {activeAbRepeat.b == null
+                          ? `A-B repeat: A at ${formatSecondsToMMSS(activeAbRepeat.a)}, set B`
+                          : `A-B repeat ${formatSecondsToMMSS(activeAbRepeat.a)} – ${formatSecondsToMMSS(activeAbRepeat.b)}`}
+                      </Chip>
+                    )}
+                    {sleep && (
+                      <Chip
+                        size="sm"
+                        variant="soft"
+                        color="warning"
+                        endDecorator={<ChipDelete onDelete={() => setSleep(null)} />}
+                      >
+                        {sleep.endsAt != null
+                          ? `Sleep at ${new Date(sleep.endsAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+                          : `Sleep: ${sleepTimerLabel({ kind: 'clips', amount: sleep.clipsLeft ?? 1 }).toLowerCase()}`}
+                      </Chip>
+                    )}
+                  </Box>
+                )}
+
                 {/* Performers in the current clip's scene (read-only) */}
                 {sceneData?.findScene?.performers && sceneData.findScene.performers.length > 0 && (
                   <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 0.5, mb: 1 }}>
@@ -496,6 +1039,9 @@ export default function PlaylistPlayer() {
         </Grid>
 
         <Grid xs={12} md={4} sx={{ minHeight: 0, height: '100%', display: 'flex', flexDirection: 'column', overflow: 'hidden' }}>
+          {playlist?.type === 'SMART' && typeof id === 'string' && (
+            <PlaylistRefreshPanel playlistId={id} onRefreshed={loadPlaylist} />
+          )}
           <PlaylistDetail
             title={playlist?.name}
             showCounts
@@ -506,6 +1052,8 @@ export default function PlaylistPlayer() {
               setPlayOrder(order);
               setCurrentIndex(0); // start from first in the new order
             }}
+            shuffleChoice={shuffleChoice}
+            onShuffle={handleShuffle}
             currentIndex={currentIndex}
             setCurrentIndex={setCurrentIndex} // interpreted as index within playOrder
             onDoubleClickPlay={(i) => setCurrentIndex(i)}
@@ -516,6 +1064,12 @@ export default function PlaylistPlayer() {
           />
         </Grid>
       </Grid>
+      <KeyboardShortcutsHelp
+        open={shortcuts.helpOpen}
+        onClose={() => shortcuts.setHelpOpen(false)}
+        scope="player"
+        bindings={shortcuts.bindings}
+      />
     </Container>
   );
 }
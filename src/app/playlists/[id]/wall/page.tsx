@@ -2,15 +2,21 @@
 "use client";
 
 import React, { useEffect, useState, useCallback, useRef, useMemo } from "react";
-import { useParams, useRouter } from "next/navigation";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
 import { useQuery, useMutation, gql } from "@apollo/client";
 import {
   Box,
   Button,
   Chip,
   Container,
+  Dropdown,
   Grid,
   IconButton,
+  ListDivider,
+  ListItemDecorator,
+  Menu,
+  MenuButton,
+  MenuItem,
   Stack,
   Tooltip,
   Typography,
@@ -21,11 +27,28 @@ import {
   Play,
   Maximize2,
   Minimize2,
+  Keyboard,
+  LayoutGrid,
+  Check,
 } from "lucide-react";
-import VideoWallQuadrant from "@/components/VideoWallQuadrant";
+import VideoWallQuadrant, { type WallTilePlayer } from "@/components/VideoWallQuadrant";
 import VideoWallSummaryTile from "@/components/VideoWallSummaryTile";
+import { VideoWallSetupDialog } from "@/components/VideoWallSetupDialog";
 import MarkerTagEditor from "@/components/MarkerTagEditor";
+import { KeyboardShortcutsHelp } from "@/components/KeyboardShortcutsHelp";
 import { useSettings } from "@/app/context/SettingsContext";
+import { parseShuffleOptions, shuffleOrder } from "@/lib/playlistShuffle";
+import { randomSeed } from "@/lib/seededRandom";
+import { useKeybindings } from "@/hooks/useKeybindings";
+import { formatCombo } from "@/lib/keybindings";
+import {
+  WALL_LAYOUT_LABELS,
+  WALL_LAYOUT_SPECS,
+  parseWallSetup,
+  sourceKey,
+  type WallSetup,
+  type WallTileSource,
+} from "@/lib/videoWallLayout";
 
 // GraphQL queries and mutations for marker tag editing
 const GET_SCENE_MARKER_DETAILS = gql`
@@ -76,6 +99,11 @@ type Playlist = {
   items: PlaylistItem[];
 };
 
+type SavedWallConfig = WallSetup & {
+  id: string;
+  name: string;
+};
+
 type MarkerDetails = {
   id: string;
   title: string;
@@ -92,15 +120,66 @@ type SceneMarkerDetailsData = {
   } | null;
 };
 
-// Fisher-Yates shuffle algorithm
-const shuffleArray = <T,>(array: T[]): T[] => {
-  const shuffled = [...array];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+// The wall always plays shuffled: server-side, so ?mode=, ?spread= and
+// ?seed= work as they do on the player. Falls back to a local random order
+// if the shuffle endpoint fails.
+async function fetchShuffledItems(
+  playlistId: string,
+  items: PlaylistItem[],
+  params: URLSearchParams,
+): Promise<PlaylistItem[]> {
+  const query = new URLSearchParams();
+  for (const key of ["mode", "spread", "seed"]) {
+    const value = params.get(key);
+    if (value) query.set(key, value);
   }
-  return shuffled;
-};
+  try {
+    const res = await fetch(`/api/playlists/${playlistId}/shuffle?${query}`);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const data: { order: string[] } = await res.json();
+    const byId = new Map(items.map((it) => [it.item.id, it]));
+    const ordered = data.order.map((itemId) => byId.get(itemId)).filter((it): it is PlaylistItem => !!it);
+    if (ordered.length === items.length) return ordered;
+  } catch (error) {
+    console.error("Failed to shuffle playlist:", error);
+  }
+  return shuffleLocally(items, params);
+}
+
+// Random order without the server, honouring ?mode=.
+function shuffleLocally(items: PlaylistItem[], params: URLSearchParams): PlaylistItem[] {
+  const options = parseShuffleOptions({ mode: params.get("mode"), spread: "none", seed: randomSeed() });
+  return shuffleOrder(items.map((it) => ({ id: it.item.id, rating: it.item.rating })), options).map((i) => items[i]);
+}
+
+// The shuffled clips a tile source draws from. Other playlists shuffle the
+// same way as the wall's own; tag filters come back from the server in
+// Stash order and are shuffled here.
+async function loadTileSource(
+  source: WallTileSource,
+  playlist: Playlist,
+  params: URLSearchParams,
+): Promise<PlaylistItem[]> {
+  try {
+    if (source.kind === "playlist") {
+      return await fetchShuffledItems(playlist.id, playlist.items, params);
+    }
+    if (source.kind === "otherPlaylist") {
+      const res = await fetch(`/api/playlists?id=${source.playlistId}`);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const other: Playlist = await res.json();
+      return await fetchShuffledItems(other.id, other.items, params);
+    }
+    const query = new URLSearchParams({ tagIds: source.tags.map((t) => t.id).join(","), match: source.match });
+    const res = await fetch(`/api/items/tagged?${query}`);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const data: { items: PlaylistItem["item"][] } = await res.json();
+    return shuffleLocally(data.items.map((item) => ({ id: item.id, item })), params);
+  } catch (error) {
+    console.error("Failed to load wall tile source:", error);
+    return [];
+  }
+}
 
 // Extract scene ID from stream URL
 const extractSceneId = (stream: string | undefined): string | null => {
@@ -112,34 +191,57 @@ const extractSceneId = (stream: string | undefined): string | null => {
 export default function VideoWallPage() {
   const { id } = useParams();
   const router = useRouter();
+  const searchParams = useSearchParams();
   const settings = useSettings();
 
   // Playlist state
   const [playlist, setPlaylist] = useState<Playlist | null>(null);
   const [loading, setLoading] = useState(true);
 
-  // Shuffled queue - all items in random order
-  const [shuffledItems, setShuffledItems] = useState<PlaylistItem[]>([]);
-
-  // Current items for each quadrant (0-3)
-  const [quadrantItems, setQuadrantItems] = useState<(PlaylistItem | null)[]>([
-    null,
-    null,
-    null,
-    null,
-  ]);
-
-  // Next index to pull from the shuffled queue
-  const nextIndexRef = useRef(4); // Start at 4 since 0-3 are initial items
-
-  // Track played item IDs to avoid replaying until all have been shown
-  const playedItemIdsRef = useRef<Set<string>>(new Set());
-
-  // Audio state - which quadrant is unmuted (null = all muted)
-  const [unmutedQuadrant, setUnmutedQuadrant] = useState<number | null>(null);
-
-  // Which quadrant's marker is shown in the focused tag editor
-  const [selectedQuadrant, setSelectedQuadrant] = useState(0);
+  // Layout and per-tile rules; from ?config= (a saved setup) or ?layout=
+  const configId = searchParams.get("config");
+  const [setup, setSetup] = useState<WallSetup>(() => parseWallSetup(searchParams.get("layout"), []));
+  const [savedConfig, setSavedConfig] = useState<SavedWallConfig | null>(null);
+  const [setupOpen, setSetupOpen] = useState(false);
+  const layoutSpec = WALL_LAYOUT_SPECS[setup.layout];
+  const tileKeys = useMemo(() => setup.tiles.map((t) => sourceKey(t.source)), [setup]);
+  const tileKeysRef = useRef(tileKeys);
+  tileKeysRef.current = tileKeys;
+  const setupRef = useRef(setup);
+  setupRef.current = setup;
+
+  // Only these params change the shuffle; ?config= and ?layout= don't.
+  const shuffleQuery = ["mode", "spread", "seed"]
+    .map((key) => `${key}=${searchParams.get(key) ?? ""}`)
+    .join("&");
+
+  // Shuffled clips per tile source (see sourceKey); tiles sharing a source
+  // share its queue.
+  const poolsRef = useRef<Record<string, PlaylistItem[]>>({});
+
+  // Per source: next index to pull, and item IDs already shown so nothing
+  // replays until the whole source has been through
+  const cursorsRef = useRef<Record<string, { next: number; played: Set<string> }>>({});
+
+  // Current item of each tile, and the source it came from
+  const [tileItems, setTileItems] = useState<(PlaylistItem | null)[]>([]);
+  const tileItemKeysRef = useRef<string[]>([]);
+  // Tiles hold on to old callbacks (they only re-render on a new clip), so
+  // the current items are read through a ref
+  const tileItemsRef = useRef(tileItems);
+  tileItemsRef.current = tileItems;
+
+  // Last play or skip recorded per tile, to drop a doubled 'ended' event
+  const lastRecordedRef = useRef<Record<number, { id: string; at: number }>>({});
+
+  // Each tile's current player, for how far a skipped clip got
+  const tilePlayersRef = useRef<Record<number, WallTilePlayer>>({});
+
+  // Audio state - which tile is unmuted (null = all muted)
+  const [unmutedTile, setUnmutedTile] = useState<number | null>(null);
+
+  // Which tile's marker is shown in the focused tag editor
+  const [selectedTile, setSelectedTile] = useState(0);
 
   // Pause state
   const [isPaused, setIsPaused] = useState(false);
@@ -181,45 +283,112 @@ export default function VideoWallPage() {
     fetchPlaylist();
   }, [id]);
 
-  // Redirect if playlist has less than 4 items
+  // Open the saved setup named in the URL
+  useEffect(() => {
+    if (!configId || savedConfig?.id === configId) return;
+    let cancelled = false;
+    fetch(`/api/playlists/${id}/walls/${configId}`)
+      .then((res) => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return res.json();
+      })
+      .then((data: { config: SavedWallConfig }) => {
+        if (cancelled) return;
+        setSavedConfig(data.config);
+        setSetup({ layout: data.config.layout, tiles: data.config.tiles });
+      })
+      .catch((error) => console.error("Failed to load wall setup:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [id, configId, savedConfig?.id]);
+
+  // Redirect if the playlist has nothing to play
   useEffect(() => {
     if (!loading && playlist) {
-      if (playlist.items.length < 4) {
+      if (playlist.items.length === 0) {
         router.replace(`/playlists/${id}`);
       }
     }
   }, [loading, playlist, id, router]);
 
-  // Initialize shuffled items and quadrants
-  useEffect(() => {
-    if (!playlist || playlist.items.length < 4) return;
-
-    const shuffled = shuffleArray(playlist.items);
-    setShuffledItems(shuffled);
-
-    // Assign first 4 UNIQUE items to quadrants (in case playlist has duplicate markers)
-    const initial: PlaylistItem[] = [];
-    const usedItemIds = new Set<string>();
-
-    for (const item of shuffled) {
-      if (!usedItemIds.has(item.item.id)) {
-        initial.push(item);
-        usedItemIds.add(item.item.id);
-        if (initial.length === 4) break;
+  // Next clip for a tile from its source's queue, skipping clips already
+  // shown and clips on screen in other tiles. Once everything has been
+  // shown the source starts over.
+  const pickNext = useCallback((key: string, showingIds: Set<string>): PlaylistItem | null => {
+    const pool = poolsRef.current[key];
+    if (!pool || pool.length === 0) return null;
+    const cursor = (cursorsRef.current[key] ??= { next: 0, played: new Set() });
+
+    for (let i = 0; i < pool.length; i++) {
+      const candidate = pool[cursor.next % pool.length];
+      cursor.next++;
+      if (!cursor.played.has(candidate.item.id) && !showingIds.has(candidate.item.id)) {
+        cursor.played.add(candidate.item.id);
+        return candidate;
       }
     }
 
-    // Fallback if we don't have 4 unique items
-    while (initial.length < 4 && shuffled.length >= 4) {
-      initial.push(shuffled[initial.length]);
+    console.log(`[VideoWall] All items of ${key} played, reshuffling...`);
+    // Reset played items to just what's currently showing
+    cursor.played = new Set(showingIds);
+    for (let i = 0; i < pool.length; i++) {
+      if (!showingIds.has(pool[i].item.id)) {
+        cursor.played.add(pool[i].item.id);
+        cursor.next = i + 1;
+        return pool[i];
+      }
     }
 
-    // Mark initial items as played
-    playedItemIdsRef.current = new Set(initial.map((item) => item.item.id));
+    // Ultimate fallback: the source is smaller than the wall
+    cursor.next = 1;
+    return pool[0];
+  }, []);
 
-    setQuadrantItems(initial);
-    nextIndexRef.current = initial.length;
-  }, [playlist]);
+  // Give every tile a clip from its source: new tiles, and tiles whose
+  // source changed. Tiles that keep their source keep playing.
+  const fillTiles = useCallback(() => {
+    const keys = tileKeysRef.current;
+    setTileItems((prev) => {
+      const next = keys.map((key, i) => (tileItemKeysRef.current[i] === key ? prev[i] ?? null : null));
+      keys.forEach((key, i) => {
+        if (next[i]) return;
+        const showing = new Set(next.filter((it): it is PlaylistItem => !!it).map((it) => it.item.id));
+        next[i] = pickNext(key, showing);
+      });
+      tileItemKeysRef.current = keys.map((key, i) => (next[i] ? key : ""));
+      return next;
+    });
+  }, [pickNext]);
+
+  // The shuffle itself changed: start every source over
+  useEffect(() => {
+    poolsRef.current = {};
+    cursorsRef.current = {};
+    tileItemKeysRef.current = [];
+  }, [playlist, shuffleQuery]);
+
+  // Load the sources the tiles need, then fill the tiles
+  useEffect(() => {
+    if (!playlist || playlist.items.length === 0) return;
+
+    const wanted = new Map<string, WallTileSource>();
+    setup.tiles.forEach((tile, i) => wanted.set(tileKeys[i], tile.source));
+    const missing = [...wanted].filter(([key]) => !(key in poolsRef.current));
+
+    let cancelled = false;
+    const params = new URLSearchParams(shuffleQuery);
+    Promise.all(missing.map(async ([key, source]) => [key, await loadTileSource(source, playlist, params)] as const)).then(
+      (loaded) => {
+        if (cancelled) return;
+        for (const [key, items] of loaded) poolsRef.current[key] = items;
+        fillTiles();
+      },
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [playlist, setup, tileKeys, shuffleQuery, fillTiles]);
 
   // Fetch marker details for a scene
   const fetchMarkerDetails = useCallback(
@@ -269,9 +438,9 @@ export default function VideoWallPage() {
     [markerDetailsCache]
   );
 
-  // Fetch marker details for all current quadrant items
+  // Fetch marker details for all current tile items
   useEffect(() => {
-    quadrantItems.forEach((item) => {
+    tileItems.forEach((item) => {
       if (item) {
         const sceneId = extractSceneId(item.item.stream);
         if (sceneId) {
@@ -279,79 +448,63 @@ export default function VideoWallPage() {
         }
       }
     });
-  }, [quadrantItems, fetchMarkerDetails]);
+  }, [tileItems, fetchMarkerDetails]);
+
+  // Record how a tile's clip finished (fire-and-forget), so the wall feeds
+  // the same play-count filters as the player. A clip that ran to its end,
+  // or to the tile's time limit, counts as played; skipping it goes to
+  // /skip, which counts a skip if too little of it played.
+  const recordTileOutcome = useCallback((tileIndex: number, outcome: "played" | "skipped") => {
+    const itemId = tileItemsRef.current[tileIndex]?.item.id;
+    if (!itemId) return;
+    const now = Date.now();
+    const last = lastRecordedRef.current[tileIndex];
+    if (last && last.id === itemId && now - last.at < 1000) return;
+    lastRecordedRef.current[tileIndex] = { id: itemId, at: now };
+
+    const player = tilePlayersRef.current[tileIndex];
+    const watchedSeconds =
+      outcome === "skipped" && player && !player.isDisposed() ? Number(player.currentTime()) || 0 : null;
+    // Logged against the playlist the clip came from, if any
+    const source = setupRef.current.tiles[tileIndex]?.source;
+    const playlistId =
+      source?.kind === "playlist" ? String(id) : source?.kind === "otherPlaylist" ? source.playlistId : null;
+    fetch(`/api/items/${itemId}/${outcome === "played" ? "play" : "skip"}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ playlistId, watchedSeconds }),
+    }).catch(() => {});
+  }, [id]);
 
-  // Handle when a quadrant video ends
-  const handleQuadrantEnded = useCallback(
-    (quadrantIndex: number) => {
-      if (shuffledItems.length === 0) return;
+  // Handle when a tile's video ends (or its time is up), or it's skipped
+  const handleTileEnded = useCallback(
+    (tileIndex: number, outcome: "played" | "skipped" = "played") => {
+      const key = tileKeysRef.current[tileIndex];
+      if (!key || !poolsRef.current[key]?.length) return;
+      recordTileOutcome(tileIndex, outcome);
 
-      setQuadrantItems((prev) => {
+      setTileItems((prev) => {
         const next = [...prev];
 
-        // Get IDs of items currently showing in OTHER quadrants
+        // IDs of items currently showing in OTHER tiles
         const currentlyShowingIds = new Set(
           prev
-            .filter((_, idx) => idx !== quadrantIndex)
+            .filter((_, idx) => idx !== tileIndex)
             .map((item) => item?.item?.id)
-            .filter(Boolean)
+            .filter(Boolean) as string[]
         );
 
-        // Find next item that hasn't been played AND isn't currently showing
-        let nextItem = null;
-        for (let i = 0; i < shuffledItems.length; i++) {
-          const candidate = shuffledItems[nextIndexRef.current % shuffledItems.length];
-          nextIndexRef.current++;
-
-          const notPlayed = !playedItemIdsRef.current.has(candidate.item.id);
-          const notShowing = !currentlyShowingIds.has(candidate.item.id);
-
-          if (notPlayed && notShowing) {
-            nextItem = candidate;
-            break;
-          }
-        }
-
-        // If all items have been played, reshuffle and reset
-        if (!nextItem) {
-          console.log('[VideoWall] All items played, reshuffling...');
-          // Reset played items to just what's currently showing
-          playedItemIdsRef.current = new Set(
-            prev.map((item) => item?.item?.id).filter(Boolean) as string[]
-          );
-          nextIndexRef.current = 0;
-
-          // Find first unplayed item after reset
-          for (let i = 0; i < shuffledItems.length; i++) {
-            const candidate = shuffledItems[i];
-            if (!playedItemIdsRef.current.has(candidate.item.id)) {
-              nextItem = candidate;
-              nextIndexRef.current = i + 1;
-              break;
-            }
-          }
-
-          // Ultimate fallback
-          if (!nextItem) {
-            nextItem = shuffledItems[0];
-            nextIndexRef.current = 1;
-          }
-        }
-
-        // Mark as played
-        playedItemIdsRef.current.add(nextItem.item.id);
-
-        next[quadrantIndex] = nextItem;
+        next[tileIndex] = pickNext(key, currentlyShowingIds) ?? prev[tileIndex];
         return next;
       });
     },
-    [shuffledItems]
+    [pickNext, recordTileOutcome]
   );
 
-  // Handle mute toggle - clicking a quadrant unmutes it and mutes others
-  const handleMuteToggle = useCallback((quadrantIndex: number) => {
-    setUnmutedQuadrant((prev) =>
-      prev === quadrantIndex ? null : quadrantIndex
+  // Handle mute toggle - clicking a tile unmutes it and mutes others
+  const handleMuteToggle = useCallback((tileIndex: number) => {
+    setUnmutedTile((prev) =>
+      prev === tileIndex ? null : tileIndex
     );
   }, []);
 
@@ -395,7 +548,7 @@ export default function VideoWallPage() {
         if (!response.ok) throw new Error("Failed to update rating");
 
         // Update local state
-        setQuadrantItems((prev) =>
+        setTileItems((prev) =>
           prev.map((item) => {
             if (item && item.item.id === itemId) {
               return { ...item, item: { ...item.item, rating } };
@@ -404,15 +557,15 @@ export default function VideoWallPage() {
           })
         );
 
-        // Also update shuffled items
-        setShuffledItems((prev) =>
-          prev.map((item) => {
+        // Also update the source queues
+        for (const [key, pool] of Object.entries(poolsRef.current)) {
+          poolsRef.current[key] = pool.map((item) => {
             if (item.item.id === itemId) {
               return { ...item, item: { ...item.item, rating } };
             }
             return item;
-          })
-        );
+          });
+        }
       } catch (error) {
         console.error("Failed to update rating:", error);
       }
@@ -449,13 +602,122 @@ export default function VideoWallPage() {
     [updateSceneMarker]
   );
 
-  // Resolve the quadrant shown in the focused editor: fall back to the first
-  // non-empty quadrant if the selected one is empty (e.g. a video rotated out).
-  const effectiveQuadrant = useMemo(() => {
-    if (quadrantItems[selectedQuadrant]) return selectedQuadrant;
-    const firstFilled = quadrantItems.findIndex((it) => it !== null);
-    return firstFilled === -1 ? selectedQuadrant : firstFilled;
-  }, [quadrantItems, selectedQuadrant]);
+  // Resolve the tile shown in the focused editor: fall back to the first
+  // non-empty tile if the selected one is empty (e.g. a video rotated out,
+  // or a smaller layout was picked).
+  const effectiveTile = useMemo(() => {
+    if (tileItems[selectedTile]) return selectedTile;
+    const firstFilled = tileItems.findIndex((it) => it !== null);
+    return firstFilled === -1 ? selectedTile : firstFilled;
+  }, [tileItems, selectedTile]);
+
+  // Keyboard shortcuts act on the selected tile (see lib/keybindings).
+  const rateSelected = (level: number) => {
+    const selected = tileItems[effectiveTile];
+    if (!selected) return;
+    handleRatingChange(selected.item.id, selected.item.rating === level ? null : level);
+  };
+  const selectTile = (tileIndex: number) => {
+    if (tileIndex < setup.tiles.length) setSelectedTile(tileIndex);
+  };
+  const shortcuts = useKeybindings("wall", {
+    "wall.pauseAll": togglePauseAll,
+    "wall.fullscreen": toggleFullscreen,
+    "wall.select1": () => selectTile(0),
+    "wall.select2": () => selectTile(1),
+    "wall.select3": () => selectTile(2),
+    "wall.select4": () => selectTile(3),
+    "wall.select5": () => selectTile(4),
+    "wall.select6": () => selectTile(5),
+    "wall.select7": () => selectTile(6),
+    "wall.select8": () => selectTile(7),
+    "wall.select9": () => selectTile(8),
+    "wall.mute": () => handleMuteToggle(effectiveTile),
+    "wall.swap": () => handleTileEnded(effectiveTile, "skipped"),
+    "wall.rateDislike": () => rateSelected(1),
+    "wall.rateLike": () => rateSelected(2),
+    "wall.rateLove": () => rateSelected(3),
+  });
+
+  // The one-key ratings for the selected tile, shown above its tag editor
+  const ratingKeysHint = shortcuts.bindings
+    .filter((b) => b.id === "wall.rateDislike" || b.id === "wall.rateLike" || b.id === "wall.rateLove")
+    .map((b) => b.keys[0])
+    .filter(Boolean)
+    .map(formatCombo)
+    .join(" / ");
+
+  // Saved setups for this playlist, for the setup menu
+  const [savedConfigs, setSavedConfigs] = useState<SavedWallConfig[]>([]);
+  const loadSavedConfigs = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/playlists/${id}/walls`);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const data: { configs: SavedWallConfig[] } = await res.json();
+      setSavedConfigs(data.configs);
+    } catch (error) {
+      console.error("Failed to load wall setups:", error);
+    }
+  }, [id]);
+  useEffect(() => {
+    loadSavedConfigs();
+  }, [loadSavedConfigs]);
+
+  // Point the URL at a saved setup, or at a bare layout, keeping the
+  // shuffle params.
+  const replaceWallQuery = (change: { config?: string; layout?: string }) => {
+    const query = new URLSearchParams(searchParams.toString());
+    query.delete("config");
+    query.delete("layout");
+    if (change.config) query.set("config", change.config);
+    if (change.layout) query.set("layout", change.layout);
+    const qs = query.toString();
+    router.replace(`/playlists/${id}/wall${qs ? `?${qs}` : ""}`, { scroll: false });
+  };
+
+  // Applied changes stay with the open wall; without a saved setup the
+  // layout still goes into the URL so a reload keeps it.
+  const applySetup = (next: WallSetup) => {
+    setSetup(next);
+    if (!savedConfig) replaceWallQuery({ layout: next.layout });
+  };
+
+  const saveSetup = async (next: WallSetup, name: string, asNew: boolean) => {
+    const updating = !asNew && savedConfig;
+    const res = await fetch(
+      updating ? `/api/playlists/${id}/walls/${savedConfig.id}` : `/api/playlists/${id}/walls`,
+      {
+        method: updating ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, layout: next.layout, tiles: next.tiles }),
+      }
+    );
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || "Failed to save wall setup");
+    const config: SavedWallConfig = data.config;
+    setSavedConfig(config);
+    setSetup({ layout: config.layout, tiles: config.tiles });
+    replaceWallQuery({ config: config.id });
+    loadSavedConfigs();
+  };
+
+  const deleteSetup = async () => {
+    if (!savedConfig) return;
+    const res = await fetch(`/api/playlists/${id}/walls/${savedConfig.id}`, { method: "DELETE" });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      throw new Error(data.error || "Failed to delete wall setup");
+    }
+    setSavedConfig(null);
+    replaceWallQuery({ layout: setup.layout });
+    loadSavedConfigs();
+  };
+
+  const openDefaultSetup = () => {
+    setSavedConfig(null);
+    setSetup(parseWallSetup("2x2", []));
+    replaceWallQuery({});
+  };
 
   // Loading state
   if (loading) {
@@ -476,7 +738,7 @@ export default function VideoWallPage() {
   }
 
   // Redirect handled in useEffect, show nothing while redirecting
-  if (!playlist || playlist.items.length < 4) {
+  if (!playlist || playlist.items.length === 0) {
     return null;
   }
 
@@ -513,9 +775,38 @@ export default function VideoWallPage() {
           <Chip size="sm" variant="soft" color="primary">
             Wall Mode
           </Chip>
+          <Chip size="sm" variant="outlined">
+            {savedConfig ? savedConfig.name : WALL_LAYOUT_LABELS[setup.layout]}
+          </Chip>
         </Stack>
 
         <Stack direction="row" spacing={1}>
+          <Dropdown>
+            <Tooltip title="Wall setup">
+              <MenuButton slots={{ root: IconButton }} slotProps={{ root: { variant: "soft" } }}>
+                <LayoutGrid size={20} />
+              </MenuButton>
+            </Tooltip>
+            <Menu placement="bottom-end" size="sm">
+              <MenuItem onClick={() => setSetupOpen(true)}>Layout and tiles…</MenuItem>
+              <ListDivider />
+              <MenuItem onClick={openDefaultSetup}>
+                <ListItemDecorator>{!savedConfig && <Check size={16} />}</ListItemDecorator>
+                Unsaved setup
+              </MenuItem>
+              {savedConfigs.map((config) => (
+                <MenuItem key={config.id} onClick={() => replaceWallQuery({ config: config.id })}>
+                  <ListItemDecorator>{savedConfig?.id === config.id && <Check size={16} />}</ListItemDecorator>
+                  {config.name}
+                </MenuItem>
+              ))}
+            </Menu>
+          </Dropdown>
+          <Tooltip title="Keyboard shortcuts (?)">
+            <IconButton variant="soft" onClick={() => shortcuts.setHelpOpen(true)}>
+              <Keyboard size={20} />
+            </IconButton>
+          </Tooltip>
           <Tooltip title={isPaused ? "Play all" : "Pause all"}>
             <IconButton variant="soft" onClick={togglePauseAll}>
               {isPaused ? <Play size={20} /> : <Pause size={20} />}
@@ -540,30 +831,45 @@ export default function VideoWallPage() {
           bgcolor: isFullscreen ? "black" : "transparent",
         }}
       >
-        {/* 2x2 Video Grid */}
+        {/* Video grid, laid out by the current layout */}
         <Box
           sx={{
             display: "grid",
-            gridTemplateColumns: "1fr 1fr",
-            gridTemplateRows: "1fr 1fr",
+            gridTemplateColumns: layoutSpec.columns,
+            gridTemplateRows: layoutSpec.rows,
             gap: isFullscreen ? 0.5 : 0.5,
             flex: isFullscreen ? 1 : "0 0 auto",
             height: isFullscreen ? "100%" : "calc(100vh - 250px)",
             minHeight: 400,
           }}
         >
-          {[0, 1, 2, 3].map((quadrantIndex) => (
-            <Box key={quadrantIndex} sx={{ position: "relative", minHeight: 0 }}>
+          {setup.tiles.map((tile, tileIndex) => (
+            <Box
+              key={tileIndex}
+              sx={{
+                position: "relative",
+                minHeight: 0,
+                gridArea: layoutSpec.areas[tileIndex],
+                // The picture-in-picture tile floats over the main one
+                ...(layoutSpec.overlay === tileIndex
+                  ? { zIndex: 2, m: 1.5, boxShadow: "lg", borderRadius: "md" }
+                  : {}),
+              }}
+            >
               <VideoWallQuadrant
-                item={quadrantItems[quadrantIndex]}
-                quadrantIndex={quadrantIndex}
-                isMuted={unmutedQuadrant !== quadrantIndex}
-                onMuteToggle={() => handleMuteToggle(quadrantIndex)}
-                onSkip={() => handleQuadrantEnded(quadrantIndex)}
-                onEnded={() => handleQuadrantEnded(quadrantIndex)}
+                item={tileItems[tileIndex] ?? null}
+                quadrantIndex={tileIndex}
+                isMuted={unmutedTile !== tileIndex}
+                onMuteToggle={() => handleMuteToggle(tileIndex)}
+                onSkip={() => handleTileEnded(tileIndex, "skipped")}
+                onEnded={() => handleTileEnded(tileIndex)}
                 isPaused={isPaused}
                 stashServer={stashServer}
                 stashApiKey={stashApiKey}
+                advanceAfter={tile.advanceAfter}
+                onPlayer={(player) => {
+                  tilePlayersRef.current[tileIndex] = player;
+                }}
               />
             </Box>
           ))}
@@ -572,22 +878,22 @@ export default function VideoWallPage() {
         {/* Marker Info Grid - hide in fullscreen */}
         {!isFullscreen && (
           <Box sx={{ mt: 2, flexShrink: 0 }}>
-            {/* Summary tiles — one per quadrant, click to focus the editor */}
+            {/* Summary tiles — one per video tile, click to focus the editor */}
             <Grid container spacing={1}>
-              {[0, 1, 2, 3].map((quadrantIndex) => {
-                const item = quadrantItems[quadrantIndex];
+              {setup.tiles.map((_, tileIndex) => {
+                const item = tileItems[tileIndex] ?? null;
                 const markerDetails = item
                   ? markerDetailsCache[item.item.id]
                   : null;
 
                 return (
-                  <Grid key={quadrantIndex} xs={6} md={3}>
+                  <Grid key={tileIndex} xs={6} md={setup.tiles.length === 2 ? 6 : 3}>
                     <VideoWallSummaryTile
                       item={item}
-                      quadrantIndex={quadrantIndex}
+                      quadrantIndex={tileIndex}
                       markerDetails={markerDetails || null}
-                      selected={quadrantIndex === effectiveQuadrant}
-                      onSelect={setSelectedQuadrant}
+                      selected={tileIndex === effectiveTile}
+                      onSelect={setSelectedTile}
                       onRatingChange={handleRatingChange}
                     />
                   </Grid>
@@ -595,9 +901,9 @@ export default function VideoWallPage() {
               })}
             </Grid>
 
-            {/* Focused tag editor for the selected quadrant */}
+            {/* Focused tag editor for the selected tile */}
             {(() => {
-              const selItem = quadrantItems[effectiveQuadrant];
+              const selItem = tileItems[effectiveTile];
               if (!selItem) {
                 return (
                   <Typography
@@ -614,7 +920,12 @@ export default function VideoWallPage() {
               return (
                 <Box sx={{ mt: 2 }}>
                   <Typography level="title-sm" sx={{ mb: 1 }}>
-                    Editing {effectiveQuadrant + 1} — {selItem.item.title}
+                    Editing {effectiveTile + 1} — {selItem.item.title}
+                    {ratingKeysHint && (
+                      <Typography level="body-xs" sx={{ ml: 1, color: "text.tertiary" }}>
+                        Rate with {ratingKeysHint}
+                      </Typography>
+                    )}
                   </Typography>
                   {selDetails ? (
                     <MarkerTagEditor
@@ -641,6 +952,22 @@ export default function VideoWallPage() {
           </Box>
         )}
       </Box>
+      <VideoWallSetupDialog
+        open={setupOpen}
+        onClose={() => setSetupOpen(false)}
+        playlistId={playlist.id}
+        setup={setup}
+        onApply={applySetup}
+        savedName={savedConfig?.name ?? null}
+        onSave={saveSetup}
+        onDelete={savedConfig ? deleteSetup : null}
+      />
+      <KeyboardShortcutsHelp
+        open={shortcuts.helpOpen}
+        onClose={() => shortcuts.setHelpOpen(false)}
+        scope="wall"
+        bindings={shortcuts.bindings}
+      />
     </Container>
   );
 }
@@ -25,9 +25,15 @@ import { makeStashUrl } from "@/lib/urlUtils";
 import SmartPlaylistRuleBuilder from '@/components/SmartPlaylistRuleBuilder';
 import StarRating from '@/components/StarRating';
 import PlaylistImageUpload from '@/components/PlaylistImageUpload';
+import RefreshDiffDialog, { hasRefreshChanges, type RefreshDiff, type RefreshDiffDecision } from '@/components/RefreshDiffDialog';
 import { useSettings } from '@/app/context/SettingsContext';
 import { useStashTags } from '@/context/StashTagsContext';
 import { invalidatePlaylists } from '@/lib/playlistsCache';
+import { parseRuleGroup, type RuleGroup } from '@/lib/conditionTree';
+import { parsePlaylistSort, type PlaylistSort } from '@/lib/playlistSort';
+import { parseSceneConditions, type SceneConditions } from '@/lib/sceneConditions';
+import { parseClipConditions, parseDurationBounds, type ClipConditions } from '@/lib/clipLength';
+import { parsePlaylistSelection, type PlaylistSelection } from '@/lib/playlistSelection';
 
 // Local shape mirroring the server's SmartPlaylistConditions — kept here
 // so the editor doesn't need to import a server-only type.
@@ -36,10 +42,23 @@ type Rules = {
   tagIds?: string[];
   requiredTagIds?: string[];
   optionalTagIds?: string[];
+  excludedTagIds?: string[];
+  excludedActorIds?: string[];
   minRating?: number | null;
   exactRating?: number | null;
   playCountMode?: 'atLeast' | 'atMost' | null;
   playCountValue?: number | null;
+  skipCountMode?: 'atLeast' | 'atMost' | null;
+  skipCountValue?: number | null;
+  skipRatioMode?: 'atLeast' | 'atMost' | null;
+  skipRatioValue?: number | null;
+  rules?: RuleGroup | null;
+  scene?: SceneConditions | null;
+  minDuration?: number | null;
+  maxDuration?: number | null;
+  clip?: ClipConditions | null;
+  selection?: PlaylistSelection | null;
+  sort?: PlaylistSort | null;
 };
 
 // Marker shape returned by /api/smart-playlists/preview. Matches the
@@ -60,6 +79,12 @@ type PreviewMarker = {
   tags?: Array<{ id: string; name: string }>;
 };
 
+// Exclusions the preview endpoint applied, echoed back for display.
+type PreviewExcluded = {
+  tagIds: string[];
+  actors: Array<{ id: string; name: string }>;
+};
+
 export default function EditAutomaticPlaylistPage() {
   const { id } = useParams<{ id: string }>();
   const router = useRouter();
@@ -86,7 +111,14 @@ export default function EditAutomaticPlaylistPage() {
   const [filteredMarkers, setFilteredMarkers] = useState<PreviewMarker[]>([]);
   const [previewLoading, setPreviewLoading] = useState(false);
   const [previewError, setPreviewError] = useState<string | null>(null);
+  const [previewExcluded, setPreviewExcluded] = useState<PreviewExcluded | null>(null);
+  // Set when Stash had more candidate markers than the fetch cap allows.
+  const [previewTruncation, setPreviewTruncation] = useState<{ total: number } | null>(null);
+  // How many markers the rules matched before the selection limit, if it cut any.
+  const [previewMatched, setPreviewMatched] = useState<number | null>(null);
   const [markerRatings, setMarkerRatings] = useState<Record<string, number>>({});
+  // Dry-run diff awaiting review before Save writes anything
+  const [pendingDiff, setPendingDiff] = useState<RefreshDiff | null>(null);
 
   // Load playlist meta + rules
   useEffect(() => {
@@ -131,10 +163,22 @@ export default function EditAutomaticPlaylistPage() {
           tagIds: legacyTagIds,
           requiredTagIds,
           optionalTagIds,
+          excludedTagIds: Array.isArray(cond.excludedTagIds) ? cond.excludedTagIds.map(String) : [],
+          excludedActorIds: Array.isArray(cond.excludedActorIds) ? cond.excludedActorIds.map(String) : [],
           minRating: typeof cond.minRating === 'number' ? cond.minRating : null,
           exactRating: typeof cond.exactRating === 'number' ? cond.exactRating : null,
           playCountMode: cond.playCountMode === 'atLeast' || cond.playCountMode === 'atMost' ? cond.playCountMode : null,
           playCountValue: typeof cond.playCountValue === 'number' ? cond.playCountValue : null,
+          skipCountMode: cond.skipCountMode === 'atLeast' || cond.skipCountMode === 'atMost' ? cond.skipCountMode : null,
+          skipCountValue: typeof cond.skipCountValue === 'number' ? cond.skipCountValue : null,
+          skipRatioMode: cond.skipRatioMode === 'atLeast' || cond.skipRatioMode === 'atMost' ? cond.skipRatioMode : null,
+          skipRatioValue: typeof cond.skipRatioValue === 'number' ? cond.skipRatioValue : null,
+          rules: parseRuleGroup(cond.rules),
+          scene: parseSceneConditions(cond.scene),
+          ...parseDurationBounds(cond.minDuration, cond.maxDuration),
+          clip: parseClipConditions(cond.clip),
+          selection: parsePlaylistSelection(cond.selection),
+          sort: parsePlaylistSort(cond.sort),
         });
       } catch (e) {
         console.error(e);
@@ -167,14 +211,29 @@ export default function EditAutomaticPlaylistPage() {
         }
         return res.json();
       })
-      .then((data: { markers: PreviewMarker[]; count: number }) => {
+      .then((data: {
+        markers: PreviewMarker[];
+        count: number;
+        matched?: number;
+        total?: number;
+        truncated?: boolean;
+        excluded?: PreviewExcluded;
+      }) => {
         setFilteredMarkers(data.markers ?? []);
+        setPreviewExcluded(data.excluded ?? null);
+        setPreviewTruncation(data.truncated ? { total: data.total ?? 0 } : null);
+        setPreviewMatched(
+          data.matched != null && data.matched !== (data.markers ?? []).length ? data.matched : null
+        );
       })
       .catch((err) => {
         if (err?.name === 'AbortError') return;
         console.error('[preview]', err);
         setPreviewError(err?.message ?? 'Failed to load preview');
         setFilteredMarkers([]);
+        setPreviewExcluded(null);
+        setPreviewTruncation(null);
+        setPreviewMatched(null);
       })
       .finally(() => setPreviewLoading(false));
     return () => ctrl.abort();
@@ -194,7 +253,41 @@ export default function EditAutomaticPlaylistPage() {
       .catch(console.error);
   }, [filteredMarkers]);
 
+  async function readError(res: Response, fallback: string): Promise<string> {
+    try {
+      const data = await res.json();
+      if (data?.error) return data.error;
+    } catch { /* ignore */ }
+    return fallback;
+  }
+
+  // Save first asks the server what the new rules would change (a dry run
+  // against the unsaved conditions) and only writes once the diff is accepted.
   async function handleSave() {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/playlists/${id}/items`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refresh: true, dryRun: true, allowEmpty: true, conditions: rules }),
+      });
+      if (!res.ok) throw new Error(await readError(res, `Failed to preview changes (HTTP ${res.status})`));
+
+      const diff: RefreshDiff = await res.json();
+      if (hasRefreshChanges(diff)) {
+        setPendingDiff(diff);
+        setLoading(false);
+        return;
+      }
+      await applySave({ pinIds: [], applyTimings: false });
+    } catch (e) {
+      console.error(e);
+      alert(e instanceof Error ? e.message : 'Failed to save playlist.');
+      setLoading(false);
+    }
+  }
+
+  async function applySave(decision: RefreshDiffDecision) {
     setLoading(true);
     try {
       // 1) Save name/description/image/conditions
@@ -207,23 +300,30 @@ export default function EditAutomaticPlaylistPage() {
         if (!res.ok) throw new Error('Failed to save playlist metadata.');
       }
 
-      // 2) Trigger a server-side refresh against the just-saved conditions.
+      // 2) Pin the removed items the user chose to keep, before the refresh
+      //    would drop them.
+      if (decision.pinIds.length) {
+        const res = await fetch(`/api/playlists/${id}/items`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ itemIds: decision.pinIds, pinned: true }),
+        });
+        if (!res.ok) throw new Error(await readError(res, 'Failed to pin items.'));
+      }
+
+      // 3) Trigger a server-side refresh against the just-saved conditions.
       //    allowEmpty: true tells the route this is an explicit Save — if
       //    the conditions match nothing, sync to empty rather than preserving
       //    stale items (the preserve-existing branch is for auto-refresh only).
+      //    regenerate writes the new timings when the user accepted them.
       const res = await fetch(`/api/playlists/${id}/items`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ refresh: true, allowEmpty: true }),
+        body: JSON.stringify({ refresh: true, allowEmpty: true, regenerate: decision.applyTimings }),
       });
 
       if (!res.ok) {
-        let msg = `Failed to sync playlist items (HTTP ${res.status})`;
-        try {
-          const data = await res.json();
-          if (data?.error) msg = data.error;
-        } catch { /* ignore */ }
-        throw new Error(msg);
+        throw new Error(await readError(res, `Failed to sync playlist items (HTTP ${res.status})`));
       }
 
       await invalidatePlaylists();
@@ -373,7 +473,23 @@ export default function EditAutomaticPlaylistPage() {
                 </Stack>
                 <Typography level="body-sm" color="neutral" sx={{ mt: 0.5 }}>
                   Preview shows up to 50 results that will be included in your playlist.
+                  {previewMatched != null && ` The selection keeps ${filteredMarkers.length} of ${previewMatched} matching markers.`}
                 </Typography>
+                {previewExcluded && (previewExcluded.tagIds.length > 0 || previewExcluded.actors.length > 0) && (
+                  <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 0.5, mt: 1 }}>
+                    <Typography level="body-xs" color="neutral">Excluding:</Typography>
+                    {previewExcluded.tagIds.map((tagId) => (
+                      <Chip key={`t-${tagId}`} size="sm" variant="soft" color="danger">
+                        {tags.find((t: { id: string; name: string }) => String(t.id) === tagId)?.name ?? tagId}
+                      </Chip>
+                    ))}
+                    {previewExcluded.actors.map((a) => (
+                      <Chip key={`a-${a.id}`} size="sm" variant="outlined" color="danger">
+                        {a.name}
+                      </Chip>
+                    ))}
+                  </Box>
+                )}
               </Box>
 
               {/* Preview Content */}
@@ -383,6 +499,13 @@ export default function EditAutomaticPlaylistPage() {
                     Failed to load preview. Please check your Stash connection.
                   </Alert>
                 )}
+                {!previewError && previewTruncation && (
+                  <Alert color="warning" variant="soft" sx={{ mb: 2 }}>
+                    Stash has {previewTruncation.total} candidate markers for these rules, more than
+                    can be fetched at once. The playlist will be incomplete — narrow the rules to
+                    include everything.
+                  </Alert>
+                )}
                 {!previewError && (
                   <Box>
                     {filteredMarkers.length === 0 ? (
@@ -523,6 +646,14 @@ export default function EditAutomaticPlaylistPage() {
           </Card>
         </Grid>
       </Grid>
+
+      <RefreshDiffDialog
+        open={pendingDiff !== null}
+        diff={pendingDiff}
+        accepting={loading}
+        onCancel={() => setPendingDiff(null)}
+        onAccept={(decision) => applySave(decision)}
+      />
     </Sheet>
   );
 }
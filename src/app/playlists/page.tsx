@@ -13,6 +13,9 @@ import {
   X,
   Trash2,
   Check,
+  Download,
+  Upload,
+  Database,
 } from "lucide-react";
 import { useStashTags } from "@/context/StashTagsContext";
 import PlaylistCard, {
@@ -28,6 +31,8 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import PlaylistImportDialog from "@/components/PlaylistImportDialog";
+import StashImportDialog from "@/components/StashImportDialog";
 import {
   Select,
   SelectContent,
@@ -140,6 +145,8 @@ export default function PlaylistsPage() {
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [isBulkDeleteOpen, setIsBulkDeleteOpen] = useState(false);
   const [bulkDeleting, setBulkDeleting] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isStashImportOpen, setIsStashImportOpen] = useState(false);
 
   const playlists: Playlist[] = useMemo(
     () => (rawPlaylists ?? []).map((p) => ({
@@ -356,6 +363,15 @@ export default function PlaylistsPage() {
               <button onClick={deselectAll} disabled={selectedIds.size === 0} className="con-btn-ghost disabled:opacity-50">
                 Deselect All
               </button>
+              {selectedIds.size > 0 && (
+                <a
+                  href={`/api/playlists/bundle?ids=${Array.from(selectedIds).map(encodeURIComponent).join(",")}`}
+                  download
+                  className="con-btn-ghost no-underline"
+                >
+                  <Download size={14} /> Export ({selectedIds.size})
+                </a>
+              )}
               {selectedIds.size > 0 && (
                 <button
                   onClick={() => setIsBulkDeleteOpen(true)}
@@ -374,6 +390,12 @@ export default function PlaylistsPage() {
               <button onClick={() => setSelectionMode(true)} className="con-btn-ghost">
                 <CheckSquare size={14} /> Select
               </button>
+              <button onClick={() => setIsImportOpen(true)} className="con-btn-ghost">
+                <Upload size={14} /> Import
+              </button>
+              <button onClick={() => setIsStashImportOpen(true)} className="con-btn-ghost">
+                <Database size={14} /> From Stash
+              </button>
               {hasSmart && (
                 <button onClick={refreshAllSmart} disabled={bulkRefreshing} className="con-btn-ghost disabled:opacity-60">
                   <RefreshCcw size={14} className={bulkRefreshing ? "animate-spin" : ""} />
@@ -555,6 +577,19 @@ export default function PlaylistsPage() {
         </DialogContent>
       </Dialog>
 
+      <PlaylistImportDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        existingNames={playlists.map((p) => p.name)}
+        onImported={invalidatePlaylists}
+      />
+
+      <StashImportDialog
+        open={isStashImportOpen}
+        onOpenChange={setIsStashImportOpen}
+        onImported={invalidatePlaylists}
+      />
+
       {/* Bulk delete dialog */}
       <Dialog open={isBulkDeleteOpen} onOpenChange={(o) => !bulkDeleting && setIsBulkDeleteOpen(o)}>
         <DialogContent className="sm:max-w-[500px]">
@@ -0,0 +1,316 @@
+'use client'
+// src/app/queue/page.tsx
+//
+// Plays the server-side play queue: the first entry plays, and once it
+// finishes (or is skipped) it leaves the queue and the next one starts.
+import * as React from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import useSWR from "swr";
+import { Grid, Container, Sheet, Box, Typography, Button, Chip, IconButton, Tooltip, AspectRatio } from '@mui/joy';
+import { ArrowUp, ArrowDown, Trash2, SkipForward, ListPlus, ListX } from "lucide-react";
+import VideoJS from "@/components/videojs/VideoJS";
+import StarRating from '@/components/StarRating';
+import { useSettings } from "@/app/context/SettingsContext";
+import { makeStashUrl } from "@/lib/urlUtils";
+import { formatLength } from "@/lib/formatLength";
+import { playlistsFetcher } from "@/lib/playlistsCache";
+import { QUEUE_KEY } from "@/lib/playQueueClient";
+
+type QueueEntry = {
+  id: string;
+  position: number;
+  item: {
+    id: string;
+    title: string;
+    startTime: number;
+    endTime: number;
+    screenshot: string | null;
+    stream: string | null;
+    rating: number | null;
+    playCount: number;
+  };
+  sourcePlaylist: { id: string; name: string } | null;
+};
+
+type QueueResponse = { entries: QueueEntry[] };
+
+type QueuePlayer = {
+  muted: (muted: boolean) => void;
+  on: (event: string, handler: () => void) => void;
+  currentTime: () => number;
+  isDisposed: () => boolean;
+};
+
+export default function QueuePage() {
+  const settings = useSettings();
+  const stashServer = String(settings["STASH_SERVER"] || "");
+  const stashApiKey = String(settings["STASH_API"] || "");
+
+  const { data, mutate, isLoading } = useSWR<QueueResponse>(QUEUE_KEY, playlistsFetcher);
+  const entries = useMemo(() => data?.entries ?? [], [data]);
+  const current = entries[0];
+
+  const [hasStarted, setHasStarted] = useState(false);
+  // Bumped to remount the player when the next entry is the same clip again,
+  // since an unchanged source and offset would not restart playback.
+  const [replayKey, setReplayKey] = useState(0);
+
+  const send = useCallback(async (method: 'PUT' | 'DELETE', body: unknown) => {
+    const res = await fetch(QUEUE_KEY, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) {
+      console.error(`Queue ${method} failed`, res.status);
+      await mutate();
+      return;
+    }
+    await mutate(await res.json(), { revalidate: false });
+  }, [mutate]);
+
+  const moveTo = useCallback((from: number, to: number) => {
+    if (to < 0 || to >= entries.length || from === to) return;
+    const order = entries.map((e) => e.id);
+    const [moved] = order.splice(from, 1);
+    order.splice(to, 0, moved);
+    mutate({ entries: order.map((id) => entries.find((e) => e.id === id)!) }, { revalidate: false });
+    send('PUT', { order });
+  }, [entries, mutate, send]);
+
+  const removeEntry = useCallback((entryId: string) => send('DELETE', { entryId }), [send]);
+
+  const playerRef = useRef<QueuePlayer | null>(null);
+  // Whether the current entry has started playing, so leaving it can be
+  // reported to /skip as the player page does.
+  const startedRef = useRef(false);
+  const currentEntryId = current?.id;
+  useEffect(() => {
+    startedRef.current = false;
+  }, [currentEntryId]);
+
+  const advance = useCallback(() => {
+    if (!current) return;
+    if (entries[1]?.item.id === current.item.id) setReplayKey((k) => k + 1);
+    removeEntry(current.id);
+  }, [current, entries, removeEntry]);
+
+  // Leaving the entry before it ends: /skip counts it as a skip if too
+  // little of it played, and as a play otherwise.
+  const skip = useCallback(() => {
+    if (!current) return;
+    const player = playerRef.current;
+    if (startedRef.current && player && !player.isDisposed()) {
+      fetch(`/api/items/${current.item.id}/skip`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          playlistId: current.sourcePlaylist?.id ?? null,
+          watchedSeconds: Number(player.currentTime()) || 0,
+        }),
+      }).catch(() => {});
+    }
+    advance();
+  }, [current, advance]);
+
+  const handleEnded = useCallback(() => {
+    setHasStarted(true);
+    if (current) {
+      fetch(`/api/items/${current.item.id}/play`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ playlistId: current.sourcePlaylist?.id ?? null }),
+      }).catch(() => {});
+    }
+    advance();
+  }, [current, advance]);
+
+  const handleRatingChange = useCallback(async (itemId: string, rating: number | null) => {
+    try {
+      const res = await fetch(`/api/items/${itemId}/rating`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rating }),
+      });
+      if (!res.ok) throw new Error('Failed to update rating');
+      mutate(
+        { entries: entries.map((e) => (e.item.id === itemId ? { ...e, item: { ...e.item, rating } } : e)) },
+        { revalidate: false },
+      );
+    } catch (error) {
+      console.error('Failed to update rating:', error);
+    }
+  }, [entries, mutate]);
+
+  const currentItemId = current?.item.id;
+  const handleOverlayRatingChange = useCallback(
+    (rating: number | null) => {
+      if (currentItemId) handleRatingChange(currentItemId, rating);
+    },
+    [currentItemId, handleRatingChange],
+  );
+
+  const videoJsOptions = useMemo(() => ({
+    autoplay: hasStarted,
+    controls: true,
+    responsive: true,
+    fluid: true,
+    aspectRatio: '16:9',
+    sources: current?.item.stream
+      ? [{ src: makeStashUrl(current.item.stream, stashServer, stashApiKey), type: "video/mp4" }]
+      : [],
+  }), [current?.item.stream, stashServer, stashApiKey, hasStarted]);
+
+  const startTime = current?.item.startTime;
+  const endTime = current?.item.endTime;
+  const offset = useMemo(
+    () => (startTime != null && endTime != null ? { start: startTime, end: endTime, restart_beginning: false } : undefined),
+    [startTime, endTime],
+  );
+
+  const handlePlayerReady = useCallback((player: QueuePlayer) => {
+    playerRef.current = player;
+    player.muted(true);
+    player.on('playing', () => {
+      startedRef.current = true;
+    });
+  }, []);
+
+  if (isLoading && !data) return <div>Loading...</div>;
+
+  return (
+    <Container maxWidth={false} sx={{ py: 1, px: { xs: 1, sm: 1.5, lg: 2 }, height: '100vh', display: 'flex', flexDirection: 'column' }}>
+      <Grid container spacing={2} sx={{ flexGrow: 1, height: '100%', overflow: 'hidden' }}>
+        <Grid xs={12} md={8} sx={{ display: 'flex', flexDirection: 'column', minHeight: 0 }}>
+          {current ? (
+            <>
+              <Box
+                sx={{
+                  width: '100%',
+                  borderRadius: 'md',
+                  overflow: 'hidden',
+                  bgcolor: 'neutral.900',
+                  '& .video-js': { width: '100%', height: 'auto', borderRadius: 'md', overflow: 'hidden' },
+                }}
+              >
+                <VideoJS
+                  key={replayKey}
+                  options={videoJsOptions}
+                  offset={offset}
+                  onReady={handlePlayerReady}
+                  onEnded={handleEnded}
+                  ratingValue={current.item.rating ?? null}
+                  onRatingChange={handleOverlayRatingChange}
+                  sceneTitle={current.item.title}
+                  performers={[]}
+                />
+              </Box>
+              <Box sx={{ mt: 1.5, p: 1.5, borderRadius: 'md', bgcolor: 'background.level1' }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1 }}>
+                  <Box sx={{ flex: 1, minWidth: 0 }}>
+                    <Typography level="title-lg" sx={{ fontWeight: 600 }} noWrap>
+                      {current.item.title}
+                    </Typography>
+                    {current.sourcePlaylist && (
+                      <Typography level="body-xs" sx={{ color: 'text.secondary' }}>
+                        From {current.sourcePlaylist.name}
+                      </Typography>
+                    )}
+                  </Box>
+                  <StarRating
+                    value={current.item.rating}
+                    onChange={(rating) => handleRatingChange(current.item.id, rating)}
+                    size="md"
+                  />
+                  <Button size="sm" variant="soft" startDecorator={<SkipForward size={16} />} onClick={skip}>
+                    Skip
+                  </Button>
+                </Box>
+              </Box>
+            </>
+          ) : (
+            <Sheet variant="soft" sx={{ p: 4, borderRadius: 'md', textAlign: 'center' }}>
+              <ListPlus size={32} />
+              <Typography level="title-md" sx={{ mt: 1 }}>The queue is empty</Typography>
+              <Typography level="body-sm" sx={{ color: 'text.secondary' }}>
+                Queue playlists from the Playlists page, or markers from an actor or scene.
+              </Typography>
+            </Sheet>
+          )}
+        </Grid>
+
+        <Grid xs={12} md={4} sx={{ minHeight: 0, height: '100%', display: 'flex', flexDirection: 'column', overflow: 'hidden' }}>
+          <Box sx={{ display: 'flex', alignItems: 'baseline', justifyContent: 'space-between', mb: 1 }}>
+            <Typography level="title-md">Play Queue</Typography>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Typography level="body-sm" sx={{ opacity: 0.8 }}>{entries.length} clips</Typography>
+              <Button
+                size="sm"
+                variant="plain"
+                color="danger"
+                startDecorator={<ListX size={16} />}
+                disabled={entries.length === 0}
+                onClick={() => send('DELETE', { all: true })}
+              >
+                Clear
+              </Button>
+            </Box>
+          </Box>
+
+          <Box sx={{ flex: 1, minHeight: 0, overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: 0.75 }}>
+            {entries.map((entry, idx) => (
+              <Sheet
+                key={entry.id}
+                variant={idx === 0 ? 'soft' : 'outlined'}
+                color={idx === 0 ? 'primary' : 'neutral'}
+                sx={{ p: 1, borderRadius: 'md', display: 'flex', alignItems: 'center', gap: 1 }}
+              >
+                <AspectRatio ratio="16/9" sx={{ width: 96, flexShrink: 0, borderRadius: 'sm' }}>
+                  {entry.item.screenshot ? (
+                    <img src={makeStashUrl(entry.item.screenshot, stashServer, stashApiKey)} alt="" loading="lazy" />
+                  ) : (
+                    <Box sx={{ bgcolor: 'neutral.800' }} />
+                  )}
+                </AspectRatio>
+                <Box sx={{ flex: 1, minWidth: 0 }}>
+                  <Typography level="body-sm" noWrap title={entry.item.title}>
+                    {entry.item.title}
+                  </Typography>
+                  <Box sx={{ display: 'flex', gap: 0.5, alignItems: 'center' }}>
+                    <Typography level="body-xs" sx={{ color: 'text.secondary' }}>
+                      {formatLength(entry.item.endTime - entry.item.startTime)}
+                    </Typography>
+                    {idx === 0 && <Chip size="sm" variant="solid" color="primary">Now playing</Chip>}
+                    {entry.sourcePlaylist && idx > 0 && (
+                      <Typography level="body-xs" sx={{ color: 'text.tertiary' }} noWrap>
+                        · {entry.sourcePlaylist.name}
+                      </Typography>
+                    )}
+                  </Box>
+                </Box>
+                {idx > 1 && (
+                  <Tooltip title="Play next">
+                    <IconButton size="sm" variant="plain" onClick={() => moveTo(idx, 1)}>
+                      <SkipForward size={16} />
+                    </IconButton>
+                  </Tooltip>
+                )}
+                <IconButton size="sm" variant="plain" disabled={idx <= 1} onClick={() => moveTo(idx, idx - 1)}>
+                  <ArrowUp size={16} />
+                </IconButton>
+                <IconButton size="sm" variant="plain" disabled={idx === 0 || idx === entries.length - 1} onClick={() => moveTo(idx, idx + 1)}>
+                  <ArrowDown size={16} />
+                </IconButton>
+                <Tooltip title="Remove from queue">
+                  <IconButton size="sm" variant="plain" color="danger" onClick={() => (idx === 0 ? skip() : removeEntry(entry.id))}>
+                    <Trash2 size={16} />
+                  </IconButton>
+                </Tooltip>
+              </Sheet>
+            ))}
+          </Box>
+        </Grid>
+      </Grid>
+    </Container>
+  );
+}
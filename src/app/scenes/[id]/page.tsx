@@ -17,19 +17,30 @@ import {
     DialogContent,
     DialogActions,
     Snackbar,
+    Dropdown,
+    MenuButton,
+    Menu,
+    MenuItem,
 } from "@mui/joy";
 import ArrowBackIcon from "@mui/icons-material/ArrowBack";
 import SaveIcon from "@mui/icons-material/Save";
 import ViewListIcon from "@mui/icons-material/ViewList";
 import CheckCircleOutlineIcon from "@mui/icons-material/CheckCircleOutline";
+import QueuePlayNextIcon from "@mui/icons-material/QueuePlayNext";
+import KeyboardIcon from "@mui/icons-material/Keyboard";
+import FileDownloadIcon from "@mui/icons-material/FileDownload";
 import { useSceneMarkers } from "@/hooks/useSceneMarkers";
+import { useKeybindings } from "@/hooks/useKeybindings";
 import { useStashTags } from "@/context/StashTagsContext";
 import { useSettings } from "@/app/context/SettingsContext";
 import VideoJS from "@/components/videojs/VideoJS";
 import { TimelineEditor } from "@/components/timeline";
 import { MarkerDetailPanel } from "@/components/timeline/MarkerDetailPanel";
 import { BulkTagsPanel } from "@/components/timeline/BulkTagsPanel";
+import { KeyboardShortcutsHelp } from "@/components/KeyboardShortcutsHelp";
 import type { Tag, MarkerForTimeline, Draft, SelectionRect } from "@/types/markers";
+import { addToQueue } from "@/lib/playQueueClient";
+import { EDIT_EXPORT_FORMATS, EDIT_EXPORT_LABELS } from "@/lib/editExport";
 
 export default function TimelineEditorPage() {
     const params = useParams<{ id: string }>();
@@ -175,6 +186,23 @@ export default function TimelineEditorPage() {
         color: "neutral",
     });
 
+    // Saved markers to add to the play queue: the selection, or all of them
+    const queueableMarkerIds = useMemo(() => {
+        const saved = markers.map((m) => m.id);
+        const selected = saved.filter((id) => selectedMarkerIds.has(id));
+        return selected.length ? selected : saved;
+    }, [markers, selectedMarkerIds]);
+
+    const handleQueueMarkers = useCallback(async () => {
+        try {
+            const added = await addToQueue({ markerIds: queueableMarkerIds }, "end");
+            setSnack({ open: true, msg: `Added ${added} marker${added === 1 ? "" : "s"} to the queue`, color: "success" });
+        } catch (err) {
+            console.error("Add to queue failed:", err);
+            setSnack({ open: true, msg: "Failed to add to queue", color: "neutral" });
+        }
+    }, [queueableMarkerIds]);
+
     // Time clipboard for copy/paste between markers
     const [timeClipboard, setTimeClipboard] = useState<number | null>(null);
 
@@ -639,81 +667,45 @@ export default function TimelineEditorPage() {
         }
     }, [selectedMarkerIds, markers, drafts, setDraft, handleSaveRow, handleDeleteMultiple]);
 
-    // Keyboard shortcuts
-    useEffect(() => {
-        const handleKeyDown = (e: KeyboardEvent) => {
-            // Don't handle shortcuts when typing in input fields
-            const target = e.target as HTMLElement;
-            if (
-                target.tagName === "INPUT" ||
-                target.tagName === "TEXTAREA" ||
-                target.isContentEditable ||
-                target.role === "combobox" ||
-                target.role === "listbox" ||
-                target.role === "textbox" ||
-                target.closest('[role="combobox"]') ||
-                target.closest('[role="listbox"]') ||
-                target.closest('.MuiAutocomplete-root')
-            ) {
-                return;
+    // Keyboard shortcuts (see lib/keybindings)
+    const shortcuts = useKeybindings("timeline", {
+        "timeline.seekBack": () => {
+            if (playerRef.current && playerReady) {
+                playerRef.current.currentTime(Math.max(0, currentTime - 5));
             }
-
-            switch (e.key) {
-                case "ArrowLeft":
-                    e.preventDefault();
-                    if (playerRef.current && playerReady) {
-                        const newTime = Math.max(0, currentTime - 5);
-                        playerRef.current.currentTime(newTime);
-                    }
-                    break;
-                case "ArrowRight":
-                    e.preventDefault();
-                    if (playerRef.current && playerReady) {
-                        const newTime = Math.min(duration, currentTime + 5);
-                        playerRef.current.currentTime(newTime);
-                    }
-                    break;
-                case "Delete":
-                case "Backspace":
-                    if (selectedMarkerIds.size > 0 && !deleteDialogOpen && !bulkDeleteDialogOpen) {
-                        e.preventDefault();
-                        if (selectedMarkerIds.size === 1) {
-                            // Single selection - use existing single delete dialog
-                            setPendingDeleteId(Array.from(selectedMarkerIds)[0]);
-                            setDeleteDialogOpen(true);
-                        } else {
-                            // Multiple selection - use bulk delete dialog
-                            setBulkDeleteDialogOpen(true);
-                        }
-                    }
-                    break;
-                case "m":
-                case "M":
-                    if (selectedMarkerIds.size > 1 && !bulkMergeDialogOpen && !bulkDeleteDialogOpen) {
-                        e.preventDefault();
-                        setBulkMergeDialogOpen(true);
-                    }
-                    break;
-                case "Escape":
-                    e.preventDefault();
-                    setSelectedMarkerIds(new Set());
-                    break;
-                case " ": // Space bar for play/pause
-                    e.preventDefault();
-                    if (playerRef.current && playerReady) {
-                        if (playerRef.current.paused()) {
-                            playerRef.current.play();
-                        } else {
-                            playerRef.current.pause();
-                        }
-                    }
-                    break;
+        },
+        "timeline.seekForward": () => {
+            if (playerRef.current && playerReady) {
+                playerRef.current.currentTime(Math.min(duration, currentTime + 5));
             }
-        };
-
-        window.addEventListener("keydown", handleKeyDown);
-        return () => window.removeEventListener("keydown", handleKeyDown);
-    }, [playerReady, currentTime, duration, selectedMarkerIds, deleteDialogOpen, bulkDeleteDialogOpen, bulkMergeDialogOpen]);
+        },
+        "timeline.deleteSelected": () => {
+            if (selectedMarkerIds.size === 0 || deleteDialogOpen || bulkDeleteDialogOpen) return;
+            if (selectedMarkerIds.size === 1) {
+                // Single selection - use existing single delete dialog
+                setPendingDeleteId(Array.from(selectedMarkerIds)[0]);
+                setDeleteDialogOpen(true);
+            } else {
+                // Multiple selection - use bulk delete dialog
+                setBulkDeleteDialogOpen(true);
+            }
+        },
+        "timeline.mergeSelected": () => {
+            if (selectedMarkerIds.size > 1 && !bulkMergeDialogOpen && !bulkDeleteDialogOpen) {
+                setBulkMergeDialogOpen(true);
+            }
+        },
+        "timeline.clearSelection": () => setSelectedMarkerIds(new Set()),
+        "timeline.playPause": () => {
+            if (playerRef.current && playerReady) {
+                if (playerRef.current.paused()) {
+                    playerRef.current.play();
+                } else {
+                    playerRef.current.pause();
+                }
+            }
+        },
+    });
 
     // Loading state
     if (loading && !scene) {
@@ -774,6 +766,33 @@ export default function TimelineEditorPage() {
                     Mark Organised
                 </Button>
 
+                <Tooltip title="Add the selected markers (or all saved markers) to the play queue">
+                    <Button
+                        size="sm"
+                        variant="soft"
+                        startDecorator={<QueuePlayNextIcon />}
+                        onClick={handleQueueMarkers}
+                        disabled={queueableMarkerIds.length === 0}
+                    >
+                        Queue {queueableMarkerIds.length < markers.length ? `Selected (${queueableMarkerIds.length})` : "Markers"}
+                    </Button>
+                </Tooltip>
+
+                <Dropdown>
+                    <Tooltip title="Download the saved markers for an editor, or as chapters for this scene's file">
+                        <MenuButton size="sm" variant="soft" startDecorator={<FileDownloadIcon />}>
+                            Export
+                        </MenuButton>
+                    </Tooltip>
+                    <Menu placement="bottom-start" size="sm">
+                        {EDIT_EXPORT_FORMATS.map((format) => (
+                            <MenuItem key={format} component="a" href={`/api/scenes/${sceneId}/export?format=${format}`} download>
+                                {EDIT_EXPORT_LABELS[format]}
+                            </MenuItem>
+                        ))}
+                    </Menu>
+                </Dropdown>
+
                 {/* Performers */}
                 {scene?.performers && scene.performers.length > 0 && (
                     <Box sx={{ display: "flex", flexWrap: "wrap", gap: 0.5 }}>
@@ -814,6 +833,12 @@ export default function TimelineEditorPage() {
                     Refresh Tags
                 </Button>
 
+                <Tooltip title="Keyboard shortcuts (?)">
+                    <IconButton size="sm" variant="soft" onClick={() => shortcuts.setHelpOpen(true)}>
+                        <KeyboardIcon />
+                    </IconButton>
+                </Tooltip>
+
                 <Tooltip title="Switch to list view">
                     <Button
                         size="sm"
@@ -1046,6 +1071,13 @@ export default function TimelineEditorPage() {
             >
                 {snack.msg}
             </Snackbar>
+
+            <KeyboardShortcutsHelp
+                open={shortcuts.helpOpen}
+                onClose={() => shortcuts.setHelpOpen(false)}
+                scope="timeline"
+                bindings={shortcuts.bindings}
+            />
         </Box>
     );
 }
@@ -31,7 +31,9 @@ import {
 import { useColorScheme } from "@mui/joy/styles";
 import { Check, RotateCcw, Save, RefreshCw, RefreshCcw, ChevronDown, AlertCircle, Wifi, WifiOff, Database, Download, Trash2, Upload, CheckCircle, XCircle, Eye, EyeOff } from "lucide-react";
 import PerformerCountTagSettings from "@/components/PerformerCountTagSettings";
+import KeyboardShortcutSettings from "@/components/KeyboardShortcutSettings";
 import TemplateManager from "@/components/TemplateManager";
+import type { RefreshErrorRecord } from "@/lib/smartPlaylistRefreshService";
 import { 
   getSettingsByCategory, 
   getSettingDefinition, 
@@ -93,7 +95,7 @@ export default function SettingsPage() {
     refreshType: string;
     success: boolean;
     refreshedPlaylists: number;
-    errors: string[] | null;
+    errors: Array<RefreshErrorRecord | string> | null;
     duration: number;
     createdAt: string;
   }[]>([]);
@@ -788,6 +790,16 @@ export default function SettingsPage() {
       );
     }
 
+    if (definition.type === 'json' && definition.key === 'KEYBOARD_SHORTCUTS') {
+      return (
+        <KeyboardShortcutSettings
+          value={s.value ?? definition.defaultValue}
+          onChange={(value) => updateOne(s.key, value)}
+          error={hasError}
+        />
+      );
+    }
+
     // Special handling for API key - obscure when saved
     if (s.key === 'STASH_API') {
       const origVal = original?.find((o) => o.key === s.key)?.value ?? "";
@@ -862,7 +874,8 @@ export default function SettingsPage() {
         'Smart Playlist Refresh',
         'Template Generation',
         'Actor Marker Counts',
-        'Database Maintenance'
+        'Database Maintenance',
+        'Clip Rendering'
       ],
       backup: [
         'Database Backup'
@@ -1325,6 +1338,13 @@ export default function SettingsPage() {
                                     {new Date(log.createdAt).toLocaleString()} • {log.duration}ms
                                     {log.errors && log.errors.length > 0 && ` • ${log.errors.length} error(s)`}
                                   </Typography>
+                                  {log.errors?.map((err, idx) => (
+                                    <Typography key={idx} level="body-xs" color="danger">
+                                      {typeof err === 'string'
+                                        ? err
+                                        : `${err.playlistName ?? 'Refresh'}: ${err.error}`}
+                                    </Typography>
+                                  ))}
                                 </Box>
                               </Box>
                             ))}
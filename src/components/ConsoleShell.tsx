@@ -12,6 +12,8 @@ import {
   Play,
   PanelLeft,
   Inbox,
+  History,
+  Film,
 } from "lucide-react";
 
 type NavItem = {
@@ -26,9 +28,13 @@ const LIBRARY: NavItem[] = [
   { href: "/playlists", label: "Playlists", icon: List },
   { href: "/actors", label: "Actors", icon: Users },
   { href: "/scenes", label: "Scenes", icon: Clapperboard },
+  { href: "/history", label: "History", icon: History },
 ];
 
-const SYSTEM: NavItem[] = [{ href: "/settings", label: "Settings", icon: Sliders }];
+const SYSTEM: NavItem[] = [
+  { href: "/jobs", label: "Jobs", icon: Film },
+  { href: "/settings", label: "Settings", icon: Sliders },
+];
 
 const STORAGE_KEY = "sidebarCollapsed";
 
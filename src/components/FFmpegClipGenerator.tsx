@@ -19,7 +19,7 @@ import {
   Tooltip,
   Typography,
 } from "@mui/joy";
-import { Check, Clipboard, Download, Clock } from "lucide-react";
+import { Check, Clipboard, Download, Clock, Film } from "lucide-react";
 import {
   MarkerClipData,
   generateSingleCommand,
@@ -59,6 +59,11 @@ export default function FFmpegClipGenerator({
   const [snackbarMessage, setSnackbarMessage] = useState("");
   const [useNvenc, setUseNvenc] = useState(false);
   const [nvencQuality, setNvencQuality] = useState<number>(23); // CQ 23 is a good default
+  const [snackbarColor, setSnackbarColor] = useState<"success" | "danger">("success");
+  // Server rendering (see renderJobs.ts): queued on /jobs instead of run here
+  const [renderReencode, setRenderReencode] = useState(false);
+  const [renderJoin, setRenderJoin] = useState(false);
+  const [rendering, setRendering] = useState(false);
 
   // Convert markers to clip data with full URLs
   // Use the scene's stream URL (not the marker's pre-cut stream) so we can apply timestamps
@@ -94,12 +99,45 @@ export default function FFmpegClipGenerator({
     }
   };
 
+  const showSnackbar = (message: string, color: "success" | "danger" = "success") => {
+    setSnackbarMessage(message);
+    setSnackbarColor(color);
+    setSnackbarOpen(true);
+  };
+
+  const handleRenderOnServer = async () => {
+    setRendering(true);
+    try {
+      const res = await fetch("/api/render-jobs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          mode: renderReencode ? "reencode" : "copy",
+          concat: renderJoin,
+          clips: markers.map((marker, index) => ({
+            id: marker.id,
+            title: clipData[index].title,
+            sceneId: marker.scene.id,
+            startTime: clipData[index].startTime,
+            endTime: clipData[index].endTime,
+          })),
+        }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
+      showSnackbar(`Queued "${data.job.name}" – follow it on the Jobs page`);
+    } catch (err) {
+      showSnackbar(err instanceof Error ? err.message : "Failed to queue render job", "danger");
+    } finally {
+      setRendering(false);
+    }
+  };
+
   const handleCopyAll = async () => {
     const commands = clipData.map((clip) => generateSingleCommand(clip, ffmpegOptions)).join("\n\n");
     const success = await copyToClipboard(commands);
     if (success) {
-      setSnackbarMessage(`Copied ${clipData.length} command${clipData.length === 1 ? "" : "s"} to clipboard`);
-      setSnackbarOpen(true);
+      showSnackbar(`Copied ${clipData.length} command${clipData.length === 1 ? "" : "s"} to clipboard`);
     }
   };
 
@@ -108,8 +146,7 @@ export default function FFmpegClipGenerator({
     const timestamp = new Date().toISOString().substring(0, 10);
     const filename = `ffmpeg_clips_${timestamp}.sh`;
     downloadAsFile(script, filename);
-    setSnackbarMessage(`Downloaded ${filename}`);
-    setSnackbarOpen(true);
+    showSnackbar(`Downloaded ${filename}`);
   };
 
   const formatDuration = (startTime: number, endTime: number) => {
@@ -231,7 +268,32 @@ export default function FFmpegClipGenerator({
           <Divider />
 
           {/* Footer actions */}
-          <Stack direction="row" spacing={1} sx={{ mt: 2, justifyContent: "flex-end" }}>
+          <Stack direction="row" spacing={1} sx={{ mt: 2, justifyContent: "flex-end", alignItems: "center", flexWrap: "wrap" }}>
+            <Checkbox
+              size="sm"
+              label="Re-encode"
+              checked={renderReencode}
+              onChange={(e) => setRenderReencode(e.target.checked)}
+            />
+            {clipData.length > 1 && (
+              <Checkbox
+                size="sm"
+                label="Join into one file"
+                checked={renderJoin}
+                onChange={(e) => setRenderJoin(e.target.checked)}
+              />
+            )}
+            <Button
+              variant="outlined"
+              color="neutral"
+              startDecorator={<Film size={16} />}
+              loading={rendering}
+              disabled={clipData.length === 0}
+              onClick={handleRenderOnServer}
+            >
+              Render on Server
+            </Button>
+            <Box sx={{ flex: 1 }} />
             <Button variant="soft" color="neutral" onClick={onClose}>
               Close
             </Button>
@@ -263,9 +325,9 @@ export default function FFmpegClipGenerator({
         open={snackbarOpen}
         autoHideDuration={3000}
         onClose={() => setSnackbarOpen(false)}
-        color="success"
+        color={snackbarColor}
         variant="soft"
-        startDecorator={<Check size={18} />}
+        startDecorator={snackbarColor === "success" ? <Check size={18} /> : undefined}
       >
         {snackbarMessage}
       </Snackbar>
@@ -0,0 +1,165 @@
+// src/components/KeyboardShortcutSettings.tsx
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  Box,
+  Typography,
+  Button,
+  IconButton,
+  Chip,
+  Tooltip,
+} from "@mui/joy";
+import { Keyboard, RotateCcw } from "lucide-react";
+import {
+  KEYBINDING_SCOPES,
+  KEYBINDING_SCOPE_LABELS,
+  comboFromEvent,
+  formatCombo,
+  parseKeybindingOverrides,
+  resolveKeybindings,
+  type KeybindingActionId,
+  type KeybindingOverrides,
+} from "@/lib/keybindings";
+
+interface KeyboardShortcutSettingsProps {
+  value: string; // JSON string
+  onChange: (value: string) => void;
+  error?: boolean;
+}
+
+export default function KeyboardShortcutSettings({
+  value,
+  onChange,
+  error
+}: KeyboardShortcutSettingsProps) {
+  const overrides = useMemo(() => parseKeybindingOverrides(value), [value]);
+  // The action waiting for a key press, if any
+  const [recording, setRecording] = useState<KeybindingActionId | null>(null);
+
+  const updateValue = (next: KeybindingOverrides) => {
+    onChange(JSON.stringify(next));
+  };
+
+  // Capture the next key press for the action being recorded. Escape
+  // cancels; the capture phase keeps the key from reaching anything else.
+  useEffect(() => {
+    if (!recording) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const combo = comboFromEvent(e);
+      if (!combo) return;
+      e.preventDefault();
+      e.stopPropagation();
+      if (combo !== "Escape") {
+        onChange(JSON.stringify({ ...overrides, [recording]: [combo] }));
+      }
+      setRecording(null);
+    };
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [recording, overrides, onChange]);
+
+  const resetAction = (id: KeybindingActionId) => {
+    const next = { ...overrides };
+    delete next[id];
+    updateValue(next);
+  };
+
+  return (
+    <Box
+      sx={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 2,
+        ...(error ? { outline: '1px solid', outlineColor: 'danger.outlinedBorder', borderRadius: 'md' } : {}),
+      }}
+    >
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <Typography level="body-sm" sx={{ color: 'text.secondary' }}>
+          Click Record, then press the new key. Escape cancels.
+        </Typography>
+        <Button
+          size="sm"
+          variant="outlined"
+          startDecorator={<RotateCcw size={14} />}
+          onClick={() => updateValue({})}
+          disabled={Object.keys(overrides).length === 0}
+        >
+          Reset All
+        </Button>
+      </Box>
+
+      {KEYBINDING_SCOPES.map((scope) => (
+        <Box key={scope}>
+          <Typography level="body-sm" sx={{ fontWeight: 'lg', mb: 1 }}>
+            {KEYBINDING_SCOPE_LABELS[scope]}
+          </Typography>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+            {resolveKeybindings(scope, overrides).map((binding) => {
+              const isRecording = recording === binding.id;
+              const isCustom = binding.id in overrides;
+              return (
+                <Box
+                  key={binding.id}
+                  sx={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 1,
+                    px: 1.5,
+                    py: 0.75,
+                    borderRadius: 'md',
+                    bgcolor: 'background.level1'
+                  }}
+                >
+                  <Typography level="body-sm" sx={{ flex: 1 }}>
+                    {binding.label}
+                  </Typography>
+                  <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                    {isRecording ? (
+                      <Chip size="sm" color="primary" variant="solid">Press a key…</Chip>
+                    ) : binding.keys.length === 0 ? (
+                      <Chip size="sm" variant="plain">Unbound</Chip>
+                    ) : (
+                      binding.keys.map((key) => (
+                        <Chip
+                          key={key}
+                          size="sm"
+                          variant={isCustom ? 'soft' : 'outlined'}
+                          color={isCustom ? 'primary' : 'neutral'}
+                          sx={{ fontFamily: 'monospace' }}
+                        >
+                          {formatCombo(key)}
+                        </Chip>
+                      ))
+                    )}
+                  </Box>
+                  <Button
+                    size="sm"
+                    variant="plain"
+                    startDecorator={<Keyboard size={14} />}
+                    onClick={() => setRecording(isRecording ? null : binding.id)}
+                  >
+                    {isRecording ? 'Cancel' : 'Record'}
+                  </Button>
+                  <Tooltip title="Back to the default keys">
+                    <span>
+                      <IconButton
+                        size="sm"
+                        variant="plain"
+                        color="neutral"
+                        disabled={!isCustom}
+                        onClick={() => resetAction(binding.id)}
+                      >
+                        <RotateCcw size={14} />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                </Box>
+              );
+            })}
+          </Box>
+        </Box>
+      ))}
+    </Box>
+  );
+}
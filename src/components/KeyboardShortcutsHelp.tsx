@@ -0,0 +1,69 @@
+"use client";
+
+// Lists a page's keyboard shortcuts (see useKeybindings). Opened with "?" or
+// the keyboard button next to the page's other controls.
+import * as React from "react";
+import Box from "@mui/joy/Box";
+import Chip from "@mui/joy/Chip";
+import Modal from "@mui/joy/Modal";
+import ModalClose from "@mui/joy/ModalClose";
+import ModalDialog from "@mui/joy/ModalDialog";
+import Table from "@mui/joy/Table";
+import Typography from "@mui/joy/Typography";
+import {
+  HELP_KEY,
+  KEYBINDING_SCOPE_LABELS,
+  formatCombo,
+  type KeybindingScope,
+  type ResolvedKeybinding,
+} from "@/lib/keybindings";
+
+type Props = {
+  open: boolean;
+  onClose: () => void;
+  scope: KeybindingScope;
+  bindings: ResolvedKeybinding[];
+};
+
+function Keys({ keys }: { keys: string[] }) {
+  if (keys.length === 0) {
+    return <Typography level="body-xs" sx={{ color: "text.tertiary" }}>Unbound</Typography>;
+  }
+  return (
+    <Box sx={{ display: "flex", gap: 0.5, flexWrap: "wrap" }}>
+      {keys.map((key) => (
+        <Chip key={key} size="sm" variant="outlined" sx={{ fontFamily: "monospace" }}>
+          {formatCombo(key)}
+        </Chip>
+      ))}
+    </Box>
+  );
+}
+
+export function KeyboardShortcutsHelp({ open, onClose, scope, bindings }: Props) {
+  return (
+    <Modal open={open} onClose={onClose}>
+      <ModalDialog sx={{ minWidth: 380, maxWidth: 520 }}>
+        <ModalClose />
+        <Typography level="title-lg">Keyboard shortcuts</Typography>
+        <Typography level="body-sm" sx={{ color: "text.secondary" }}>
+          {KEYBINDING_SCOPE_LABELS[scope]} · change them under Settings → Playback
+        </Typography>
+        <Table size="sm" sx={{ mt: 1 }}>
+          <tbody>
+            {bindings.map((binding) => (
+              <tr key={binding.id}>
+                <td>{binding.label}</td>
+                <td style={{ width: "45%" }}><Keys keys={binding.keys} /></td>
+              </tr>
+            ))}
+            <tr>
+              <td>Show this help</td>
+              <td><Keys keys={[HELP_KEY]} /></td>
+            </tr>
+          </tbody>
+        </Table>
+      </ModalDialog>
+    </Modal>
+  );
+}
@@ -9,6 +9,9 @@ const navItems = [
   { href: "/playlists", label: "Playlists" },
   { href: "/actors", label: "Actors" },
   { href: "/scenes", label: "Scenes" },
+  { href: "/queue", label: "Queue" },
+  { href: "/history", label: "History" },
+  { href: "/jobs", label: "Jobs" },
   { href: "/settings", label: "Settings" },
 ];
 
@@ -0,0 +1,171 @@
+"use client";
+
+// Dashboard activity: plays per day as a stacked bar chart (completed under
+// skipped) and the most played clips, playlists and performers over the
+// chosen window (see playHistoryService).
+import Link from "next/link";
+import type { PlayActivity as PlayActivityData } from "@/lib/playHistoryService";
+import { HISTORY_DAY_CHOICES } from "@/lib/playHistory";
+import { formatLength } from "@/lib/formatLength";
+
+const CHART_HEIGHT = 120;
+
+function shortDate(key: string) {
+  const [y, m, d] = key.split("-").map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+function PlaysChart({ perDay }: { perDay: PlayActivityData["perDay"] }) {
+  const max = Math.max(1, ...perDay.map((d) => d.completed + d.skipped));
+  return (
+    <div>
+      <div className="flex items-end gap-[2px]" style={{ height: CHART_HEIGHT }}>
+        {perDay.map((day) => {
+          const total = day.completed + day.skipped;
+          return (
+            <div
+              key={day.date}
+              className="flex h-full min-w-0 flex-1 flex-col justify-end"
+              title={`${shortDate(day.date)}: ${day.completed} played, ${day.skipped} skipped`}
+            >
+              {day.skipped > 0 && (
+                <div style={{ height: (day.skipped / max) * CHART_HEIGHT, background: "var(--rating)", opacity: 0.7 }} />
+              )}
+              {day.completed > 0 && (
+                <div style={{ height: (day.completed / max) * CHART_HEIGHT, background: "var(--accent-cyan)" }} />
+              )}
+              {total === 0 && <div style={{ height: 1, background: "var(--con-border-faint)" }} />}
+            </div>
+          );
+        })}
+      </div>
+      {perDay.length > 0 && (
+        <div className="con-micro mt-1 flex justify-between">
+          <span>{shortDate(perDay[0].date)}</span>
+          <span>{shortDate(perDay[perDay.length - 1].date)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TopList({
+  title,
+  rows,
+  empty,
+}: {
+  title: string;
+  rows: Array<{ key: string; label: string; href?: string; count: number; detail?: string }>;
+  empty: string;
+}) {
+  return (
+    <div className="stat-card p-[14px]" style={{ minHeight: 0 }}>
+      <div className="con-micro mb-2">{title}</div>
+      {rows.length === 0 ? (
+        <div className="text-[13px]" style={{ color: "var(--con-muted)" }}>
+          {empty}
+        </div>
+      ) : (
+        <ol className="m-0 list-none p-0">
+          {rows.map((row) => (
+            <li key={row.key} className="flex items-baseline gap-2 py-[3px] text-[13px]" title={row.detail}>
+              {row.href ? (
+                <Link href={row.href} className="min-w-0 flex-1 truncate no-underline" style={{ color: "var(--con-text)" }}>
+                  {row.label}
+                </Link>
+              ) : (
+                <span className="min-w-0 flex-1 truncate">{row.label}</span>
+              )}
+              <span className="tabular-nums" style={{ color: "var(--con-muted)" }}>
+                {row.count.toLocaleString()}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+export function PlayActivity({
+  activity,
+  days,
+  onDaysChange,
+}: {
+  activity: PlayActivityData | undefined;
+  days: number;
+  onDaysChange: (days: number) => void;
+}) {
+  const totals = activity?.totals;
+  const summary = totals
+    ? `${totals.completed.toLocaleString()} PLAYED · ${totals.skipped.toLocaleString()} SKIPPED · ${formatLength(totals.watchedSeconds).toUpperCase()} WATCHED`
+    : "…";
+
+  return (
+    <div className="px-[26px] pt-[18px]">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <div className="text-[15px] font-semibold">Activity</div>
+          <div className="con-count mt-1">{summary}</div>
+        </div>
+        <div className="flex items-center gap-1">
+          {HISTORY_DAY_CHOICES.map((choice) => (
+            <button
+              key={choice}
+              onClick={() => onDaysChange(choice)}
+              className="rounded-[6px] px-[10px] py-[4px] text-[12px]"
+              style={{
+                color: choice === days ? "var(--con-text)" : "var(--con-muted)",
+                background: choice === days ? "var(--surface)" : "transparent",
+                border: "1px solid var(--con-border)",
+              }}
+            >
+              {choice}d
+            </button>
+          ))}
+          <Link href="/history" className="ml-2 text-[12px] no-underline" style={{ color: "var(--accent-cyan)" }}>
+            History →
+          </Link>
+        </div>
+      </div>
+
+      <div className="stat-card mt-3 p-[14px]" style={{ minHeight: 0 }}>
+        <div className="con-micro mb-2">Plays per day</div>
+        {activity ? <PlaysChart perDay={activity.perDay} /> : <div style={{ height: CHART_HEIGHT }} />}
+      </div>
+
+      <div className="mt-3 grid gap-3 md:grid-cols-3">
+        <TopList
+          title="Top clips"
+          empty="Nothing played yet"
+          rows={(activity?.topItems ?? []).map((item) => ({
+            key: item.id,
+            label: item.title,
+            href: `/history?itemId=${encodeURIComponent(item.id)}`,
+            count: item.plays,
+            detail: `${item.plays} played, ${item.skips} skipped`,
+          }))}
+        />
+        <TopList
+          title="Top playlists"
+          empty="Nothing played yet"
+          rows={(activity?.topPlaylists ?? []).map((playlist) => ({
+            key: playlist.id,
+            label: playlist.name,
+            href: `/history?playlistId=${encodeURIComponent(playlist.id)}`,
+            count: playlist.plays,
+          }))}
+        />
+        <TopList
+          title="Top performers"
+          empty="No performers found"
+          rows={(activity?.topPerformers ?? []).map((performer) => ({
+            key: performer.id,
+            label: performer.name,
+            count: performer.plays,
+          }))}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+"use client";
+
+// Playback speed, clip and playlist looping, and the sleep timer for the
+// playlist player. Speed and looping are saved with the playlist; the sleep
+// timer only lasts for the session.
+import * as React from "react";
+import Dropdown from "@mui/joy/Dropdown";
+import IconButton from "@mui/joy/IconButton";
+import ListDivider from "@mui/joy/ListDivider";
+import ListItemDecorator from "@mui/joy/ListItemDecorator";
+import Menu from "@mui/joy/Menu";
+import MenuButton from "@mui/joy/MenuButton";
+import MenuItem from "@mui/joy/MenuItem";
+import Typography from "@mui/joy/Typography";
+import { Check, Repeat } from "lucide-react";
+import {
+  CLIP_PLAYS_CHOICES,
+  PLAYBACK_RATES,
+  SLEEP_TIMER_CHOICES,
+  sleepTimerLabel,
+  type PlaybackModes,
+  type SleepTimer,
+} from "@/lib/playlistPlayback";
+
+type Props = {
+  modes: PlaybackModes;
+  onChange: (next: PlaybackModes) => void;
+  sleepTimer: SleepTimer | null;
+  onSleepTimerChange: (timer: SleepTimer | null) => void;
+};
+
+function MenuHeading({ children }: { children: React.ReactNode }) {
+  return (
+    <Typography level="body-xs" sx={{ px: 1.5, pt: 0.75, pb: 0.25, color: "text.tertiary", fontWeight: "lg" }}>
+      {children}
+    </Typography>
+  );
+}
+
+const sameTimer = (a: SleepTimer | null, b: SleepTimer) => !!a && a.kind === b.kind && a.amount === b.amount;
+
+export function PlaybackModesMenu({ modes, onChange, sleepTimer, onSleepTimerChange }: Props) {
+  const active = modes.rate !== 1 || modes.clipPlays > 1 || modes.loopPlaylist || !!sleepTimer;
+
+  return (
+    <Dropdown>
+      <MenuButton
+        slots={{ root: IconButton }}
+        slotProps={{
+          root: {
+            size: "sm",
+            variant: active ? "soft" : "plain",
+            "aria-label": "Playback modes",
+            title: "Speed, looping and sleep timer",
+          },
+        }}
+      >
+        <Repeat size={16} />
+      </MenuButton>
+      <Menu placement="bottom-end" size="sm" sx={{ maxHeight: 480, overflowY: "auto" }}>
+        <MenuHeading>Speed</MenuHeading>
+        {PLAYBACK_RATES.map((rate) => (
+          <MenuItem key={rate} onClick={() => onChange({ ...modes, rate })}>
+            <ListItemDecorator>{modes.rate === rate && <Check size={16} />}</ListItemDecorator>
+            {rate === 1 ? "Normal" : `${rate}×`}
+          </MenuItem>
+        ))}
+        <ListDivider />
+        <MenuHeading>Play each clip</MenuHeading>
+        {CLIP_PLAYS_CHOICES.map((clipPlays) => (
+          <MenuItem key={clipPlays} onClick={() => onChange({ ...modes, clipPlays })}>
+            <ListItemDecorator>{modes.clipPlays === clipPlays && <Check size={16} />}</ListItemDecorator>
+            {clipPlays === 1 ? "Once" : `${clipPlays} times`}
+          </MenuItem>
+        ))}
+        <MenuItem onClick={() => onChange({ ...modes, loopPlaylist: !modes.loopPlaylist })}>
+          <ListItemDecorator>{modes.loopPlaylist && <Check size={16} />}</ListItemDecorator>
+          Loop the whole playlist
+        </MenuItem>
+        <ListDivider />
+        <MenuHeading>Sleep timer</MenuHeading>
+        <MenuItem onClick={() => onSleepTimerChange(null)}>
+          <ListItemDecorator>{!sleepTimer && <Check size={16} />}</ListItemDecorator>
+          Off
+        </MenuItem>
+        {SLEEP_TIMER_CHOICES.map((timer) => (
+          <MenuItem key={`${timer.kind}-${timer.amount}`} onClick={() => onSleepTimerChange(timer)}>
+            <ListItemDecorator>{sameTimer(sleepTimer, timer) && <Check size={16} />}</ListItemDecorator>
+            {sleepTimerLabel(timer)}
+          </MenuItem>
+        ))}
+      </Menu>
+    </Dropdown>
+  );
+}
@@ -13,13 +13,23 @@ import {
   Shuffle,
   LayoutGrid,
   MoreHorizontal,
+  ListPlus,
+  ListStart,
+  Download,
+  Film,
 } from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { addToQueue } from "@/lib/playQueueClient";
+import { EXPORT_FORMATS, EXPORT_FORMAT_LABELS } from "@/lib/playlistExport";
+import { EDIT_EXPORT_FORMATS, EDIT_EXPORT_LABELS } from "@/lib/editExport";
 
 export type PlaylistType = "MANUAL" | "SMART";
 
@@ -101,6 +111,15 @@ export default function PlaylistCard({
     return `/playlists/edit/${editType}/${playlist.id}${returnParam}`;
   };
 
+  const queuePlaylist = async (placement: "next" | "end") => {
+    try {
+      await addToQueue({ playlistId: playlist.id }, placement);
+    } catch (error) {
+      console.error("Failed to queue playlist:", error);
+      alert(error instanceof Error ? error.message : "Failed to queue playlist.");
+    }
+  };
+
   return (
     <div
       onClick={selectionMode ? () => onToggleSelect?.(playlist.id) : undefined}
@@ -251,6 +270,41 @@ export default function PlaylistCard({
               <DropdownMenuItem onClick={() => router.push(editPath())}>
                 <Pencil size={14} /> Edit
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => queuePlaylist("next")}>
+                <ListStart size={14} /> Play next
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => queuePlaylist("end")}>
+                <ListPlus size={14} /> Add to queue
+              </DropdownMenuItem>
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>
+                  <Download size={14} /> Export
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  {EXPORT_FORMATS.map((format) => (
+                    <DropdownMenuItem key={format} asChild>
+                      <a href={`/api/playlists/${playlist.id}/export?format=${format}`} download>
+                        {EXPORT_FORMAT_LABELS[format]}
+                      </a>
+                    </DropdownMenuItem>
+                  ))}
+                  {EDIT_EXPORT_FORMATS.map((format) => (
+                    <DropdownMenuItem key={format} asChild>
+                      <a href={`/api/playlists/${playlist.id}/export?format=${format}`} download>
+                        {EDIT_EXPORT_LABELS[format]}
+                      </a>
+                    </DropdownMenuItem>
+                  ))}
+                  <DropdownMenuItem asChild>
+                    <a href={`/api/playlists/bundle?ids=${encodeURIComponent(playlist.id)}`} download>
+                      JSON (to import elsewhere)
+                    </a>
+                  </DropdownMenuItem>
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+              <DropdownMenuItem onClick={() => router.push(`/jobs?playlistId=${encodeURIComponent(playlist.id)}`)}>
+                <Film size={14} /> Render…
+              </DropdownMenuItem>
               {isSmart && onRefresh && (
                 <DropdownMenuItem
                   onClick={() => onRefresh(playlist.id)}
@@ -3,13 +3,25 @@ import { useVirtualizer } from '@tanstack/react-virtual';
 import {
   Sheet, Box, Input, ListItemButton,
   ListItemDecorator, ListItemContent, Typography,
-  AspectRatio, IconButton
+  AspectRatio, IconButton, Dropdown, MenuButton, Menu, MenuItem, ListDivider
 } from '@mui/joy';
 import DeleteForeverRounded from '@mui/icons-material/DeleteForeverRounded';
 import SearchRounded from '@mui/icons-material/SearchRounded';
 import ShuffleRounded from '@mui/icons-material/ShuffleRounded';
+import TuneRounded from '@mui/icons-material/TuneRounded';
+import CheckRounded from '@mui/icons-material/CheckRounded';
 import { formatLength } from "@/lib/formatLength";
 import { makeStashUrl } from "@/lib/urlUtils";
+import {
+  SHUFFLE_MODES,
+  SHUFFLE_MODE_LABELS,
+  SHUFFLE_SPREADS,
+  SHUFFLE_SPREAD_LABELS,
+  shuffleOrder,
+  type ShuffleMode,
+  type ShuffleSpread,
+} from "@/lib/playlistShuffle";
+import { randomSeed } from "@/lib/seededRandom";
 
 type PlaylistItem = {
   id: string; // content item id
@@ -24,14 +36,7 @@ type PlaylistItem = {
   };
 };
 
-function shuffleArray<T>(array: T[]): T[] {
-  const arr = [...array];
-  for (let i = arr.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [arr[i], arr[j]] = [arr[j], arr[i]];
-  }
-  return arr;
-}
+type ShuffleChoice = { mode: ShuffleMode; spread: ShuffleSpread };
 
 export function PlaylistDetail({
   items,
@@ -44,6 +49,8 @@ export function PlaylistDetail({
   // NEW: parent-controlled play order (array of indices into `items`)
   playOrder,
   onOrderChange,           // called with new order (indices) on shuffle
+  shuffleChoice,           // current shuffle mode/spread, shown in the shuffle menu
+  onShuffle,               // parent shuffles (server-side) instead of shuffling locally
   playedItemIndices,       // set of indices for items that have been played
   // Stash server settings for URL construction
   stashServer,
@@ -58,6 +65,8 @@ export function PlaylistDetail({
   showCounts?: boolean;
   playOrder?: number[];
   onOrderChange?: (order: number[]) => void;
+  shuffleChoice?: ShuffleChoice;
+  onShuffle?: (choice: ShuffleChoice) => void;
   playedItemIndices?: Set<number>;
   stashServer?: string;
   stashApiKey?: string;
@@ -107,8 +116,18 @@ export function PlaylistDetail({
     overscan: 8,
   });
 
-  const handleShuffle = () => {
-    const newOrder = shuffleArray(order);
+  const currentChoice: ShuffleChoice = shuffleChoice ?? { mode: 'random', spread: 'none' };
+
+  const handleShuffle = (choice: ShuffleChoice = currentChoice) => {
+    if (onShuffle) {
+      onShuffle(choice);
+      return;
+    }
+    const shuffled = shuffleOrder(
+      order.map((idx) => ({ id: items[idx].item.id, rating: items[idx].item.rating })),
+      { ...choice, seed: randomSeed() },
+    );
+    const newOrder = shuffled.map((i) => order[i]);
     if (onOrderChange) {
       onOrderChange(newOrder);
       // parent should also setCurrentIndex(0) and update player source
@@ -162,12 +181,37 @@ export function PlaylistDetail({
           <IconButton
             size="sm"
             variant="soft"
-            onClick={handleShuffle}
+            onClick={() => handleShuffle()}
             aria-label="Shuffle playlist order"
-            title="Shuffle"
+            title={`Shuffle: ${SHUFFLE_MODE_LABELS[currentChoice.mode]}`}
           >
             <ShuffleRounded />
           </IconButton>
+          {onShuffle && (
+            <Dropdown>
+              <MenuButton
+                slots={{ root: IconButton }}
+                slotProps={{ root: { size: 'sm', variant: 'soft', 'aria-label': 'Shuffle options', title: 'Shuffle options' } }}
+              >
+                <TuneRounded />
+              </MenuButton>
+              <Menu placement="bottom-end" size="sm">
+                {SHUFFLE_MODES.map((mode) => (
+                  <MenuItem key={mode} onClick={() => handleShuffle({ ...currentChoice, mode })}>
+                    <ListItemDecorator>{currentChoice.mode === mode && <CheckRounded />}</ListItemDecorator>
+                    {SHUFFLE_MODE_LABELS[mode]}
+                  </MenuItem>
+                ))}
+                <ListDivider />
+                {SHUFFLE_SPREADS.map((spread) => (
+                  <MenuItem key={spread} onClick={() => handleShuffle({ ...currentChoice, spread })}>
+                    <ListItemDecorator>{currentChoice.spread === spread && <CheckRounded />}</ListItemDecorator>
+                    {SHUFFLE_SPREAD_LABELS[spread]}
+                  </MenuItem>
+                ))}
+              </Menu>
+            </Dropdown>
+          )}
         </Box>
       </Box>
 
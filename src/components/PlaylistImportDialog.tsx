@@ -0,0 +1,183 @@
+// src/components/PlaylistImportDialog.tsx
+"use client";
+
+// Imports a playlist bundle (see playlistBundle.ts). The file is read and
+// checked here first so name clashes can be shown before choosing what to
+// do with them; the report afterwards says what happened to each playlist.
+import { ChangeEvent, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  IMPORT_CONFLICT_LABELS,
+  IMPORT_CONFLICT_MODES,
+  parsePlaylistBundle,
+  type ImportConflictMode,
+  type ImportReport,
+  type PlaylistBundle,
+} from "@/lib/playlistBundle";
+
+const ACTION_LABELS: Record<ImportReport["playlists"][number]["action"], string> = {
+  created: "Created",
+  merged: "Merged into",
+  renamed: "Imported as",
+  skipped: "Skipped",
+};
+
+export default function PlaylistImportDialog({
+  open,
+  onOpenChange,
+  existingNames,
+  onImported,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  existingNames: string[];
+  onImported: () => void | Promise<void>;
+}) {
+  const [bundle, setBundle] = useState<PlaylistBundle | null>(null);
+  const [mode, setMode] = useState<ImportConflictMode>("rename");
+  const [error, setError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const reset = () => {
+    setBundle(null);
+    setError(null);
+    setReport(null);
+  };
+
+  const close = (next: boolean) => {
+    if (importing) return;
+    onOpenChange(next);
+    if (!next) reset();
+  };
+
+  const chooseFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    reset();
+    if (!file) return;
+    try {
+      const parsed = parsePlaylistBundle(JSON.parse(await file.text()));
+      if ("error" in parsed) setError(parsed.error);
+      else setBundle(parsed.bundle);
+    } catch {
+      setError("The file isn't valid JSON");
+    }
+  };
+
+  const runImport = async () => {
+    if (!bundle) return;
+    setImporting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/playlists/bundle", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ bundle, mode }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
+      setReport(data.report);
+      await onImported();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import playlists");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const taken = new Set(existingNames);
+  const clashes = bundle ? bundle.playlists.filter((p) => taken.has(p.name)).map((p) => p.name) : [];
+
+  return (
+    <Dialog open={open} onOpenChange={close}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Import playlists</DialogTitle>
+        </DialogHeader>
+
+        {report ? (
+          <div className="flex flex-col gap-3">
+            <p className="text-[13px]" style={{ color: "var(--con-text-2)" }}>
+              {report.items.created.toLocaleString()} new clip{report.items.created === 1 ? "" : "s"} added,{" "}
+              {report.items.existing.toLocaleString()} already here.
+            </p>
+            <div className="max-h-[240px] overflow-y-auto rounded-[6px] p-3" style={{ background: "var(--well)" }}>
+              {report.playlists.map((p, idx) => (
+                <div key={idx} className="py-[2px] text-[13px]" style={{ color: "var(--con-text-2)" }}>
+                  • {p.name}: {ACTION_LABELS[p.action]}
+                  {(p.action === "merged" || p.action === "renamed") && ` “${p.importedAs}”`}
+                  {p.action !== "skipped" && ` (${p.itemsAdded} clip${p.itemsAdded === 1 ? "" : "s"})`}
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-col gap-4">
+            <label className="flex flex-col gap-1.5">
+              <span className="con-micro">Export file</span>
+              <input type="file" accept="application/json,.json" onChange={chooseFile} className="text-[13px]" />
+            </label>
+
+            {bundle && (
+              <div className="max-h-[200px] overflow-y-auto rounded-[6px] p-3" style={{ background: "var(--well)" }}>
+                <div className="mb-1 text-[11px] font-bold" style={{ color: "var(--con-text-2)" }}>
+                  {bundle.playlists.length} playlist{bundle.playlists.length === 1 ? "" : "s"},{" "}
+                  {bundle.items.length.toLocaleString()} clips:
+                </div>
+                {bundle.playlists.map((p, idx) => (
+                  <div key={idx} className="py-[2px] text-[13px]" style={{ color: "var(--con-text-2)" }}>
+                    • {p.name}
+                    {taken.has(p.name) && <span style={{ color: "var(--rating)" }}> (name already used)</span>}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {clashes.length > 0 && (
+              <div className="flex flex-col gap-1.5">
+                <span className="con-micro">When a playlist name is already used</span>
+                <div className="flex flex-col gap-1">
+                  {IMPORT_CONFLICT_MODES.map((m) => (
+                    <label key={m} className="flex items-center gap-2 text-[13px]" style={{ color: "var(--con-text-2)" }}>
+                      <input type="radio" name="conflict-mode" checked={mode === m} onChange={() => setMode(m)} />
+                      {IMPORT_CONFLICT_LABELS[m]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <p className="text-[13px]" style={{ color: "var(--danger)" }}>
+            {error}
+          </p>
+        )}
+
+        <DialogFooter>
+          {report ? (
+            <button onClick={() => close(false)} className="con-btn-primary">
+              Done
+            </button>
+          ) : (
+            <>
+              <button onClick={() => close(false)} disabled={importing} className="con-btn-ghost disabled:opacity-50">
+                Cancel
+              </button>
+              <button onClick={runImport} disabled={!bundle || importing} className="con-btn-primary disabled:opacity-50">
+                {importing ? "Importing…" : "Import"}
+              </button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,185 @@
+"use client";
+
+// Refresh controls for a smart playlist: the refresh button, the playlist's
+// own refresh schedule, and its refresh history (items added/removed and
+// errors per run).
+import * as React from "react";
+import Box from "@mui/joy/Box";
+import Button from "@mui/joy/Button";
+import Chip from "@mui/joy/Chip";
+import Select from "@mui/joy/Select";
+import Option from "@mui/joy/Option";
+import Typography from "@mui/joy/Typography";
+import { History } from "lucide-react";
+import { RefreshSmartButton } from "@/components/RefreshSmartButton";
+import {
+  REFRESH_SCHEDULE_LABELS,
+  REFRESH_SCHEDULE_MODES,
+  WEEKDAY_LABELS,
+  type PlaylistRefreshSchedule,
+  type RefreshScheduleMode,
+} from "@/lib/playlistSchedule";
+
+type RefreshEntry = {
+  id: string;
+  trigger: string;
+  success: boolean;
+  added: number;
+  removed: number;
+  total: number;
+  error: string | null;
+  duration: number;
+  createdAt: string;
+};
+
+type Props = {
+  playlistId: string;
+  onRefreshed?: () => void;
+};
+
+export function PlaylistRefreshPanel({ playlistId, onRefreshed }: Props) {
+  const [schedule, setSchedule] = React.useState<PlaylistRefreshSchedule>({ mode: "global" });
+  const [history, setHistory] = React.useState<RefreshEntry[]>([]);
+  const [showHistory, setShowHistory] = React.useState(false);
+  const [saving, setSaving] = React.useState(false);
+
+  const load = React.useCallback(async () => {
+    try {
+      const res = await fetch(`/api/playlists/${playlistId}/refresh`, { cache: "no-store" });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const data = await res.json();
+      setSchedule(data.schedule ?? { mode: "global" });
+      setHistory(data.history ?? []);
+    } catch (e) {
+      console.error("Failed to load refresh info", e);
+    }
+  }, [playlistId]);
+
+  React.useEffect(() => {
+    load();
+  }, [load]);
+
+  const saveSchedule = async (next: PlaylistRefreshSchedule) => {
+    const previous = schedule;
+    setSchedule(next);
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/playlists/${playlistId}/refresh`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ schedule: next }),
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const data = await res.json();
+      setSchedule(data.schedule ?? next);
+    } catch (e) {
+      console.error("Failed to save refresh schedule", e);
+      setSchedule(previous);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const changeMode = (mode: RefreshScheduleMode) => {
+    if (mode === "daily") saveSchedule({ mode, hour: schedule.hour ?? 3 });
+    else if (mode === "weekly") saveSchedule({ mode, hour: schedule.hour ?? 3, day: schedule.day ?? 0 });
+    else saveSchedule({ mode });
+  };
+
+  return (
+    <Box sx={{ mb: 1.5 }}>
+      <Box sx={{ display: "flex", alignItems: "center", gap: 1, flexWrap: "wrap" }}>
+        <RefreshSmartButton
+          playlistId={playlistId}
+          onRefreshed={() => {
+            load();
+            onRefreshed?.();
+          }}
+        />
+        <Select
+          size="sm"
+          value={schedule.mode}
+          disabled={saving}
+          onChange={(_, value) => value && changeMode(value as RefreshScheduleMode)}
+          sx={{ minWidth: 150 }}
+        >
+          {REFRESH_SCHEDULE_MODES.map((mode) => (
+            <Option key={mode} value={mode}>{REFRESH_SCHEDULE_LABELS[mode]}</Option>
+          ))}
+        </Select>
+        {schedule.mode === "weekly" && (
+          <Select
+            size="sm"
+            value={schedule.day ?? 0}
+            disabled={saving}
+            onChange={(_, value) => value != null && saveSchedule({ ...schedule, day: Number(value) })}
+          >
+            {WEEKDAY_LABELS.map((label, day) => (
+              <Option key={day} value={day}>{label}</Option>
+            ))}
+          </Select>
+        )}
+        {(schedule.mode === "daily" || schedule.mode === "weekly") && (
+          <Select
+            size="sm"
+            value={schedule.hour ?? 3}
+            disabled={saving}
+            onChange={(_, value) => value != null && saveSchedule({ ...schedule, hour: Number(value) })}
+          >
+            {Array.from({ length: 24 }, (_, h) => (
+              <Option key={h} value={h}>{`${String(h).padStart(2, "0")}:00 UTC`}</Option>
+            ))}
+          </Select>
+        )}
+        <Button
+          size="sm"
+          variant="plain"
+          color="neutral"
+          startDecorator={<History size={16} />}
+          onClick={() => setShowHistory((v) => !v)}
+        >
+          History ({history.length})
+        </Button>
+      </Box>
+
+      {showHistory && (
+        <Box sx={{ mt: 1, display: "flex", flexDirection: "column", gap: 0.75, maxHeight: 240, overflowY: "auto" }}>
+          {history.length === 0 && (
+            <Typography level="body-xs" sx={{ color: "text.secondary" }}>
+              No refreshes recorded yet.
+            </Typography>
+          )}
+          {history.map((entry) => (
+            <Box
+              key={entry.id}
+              sx={{
+                p: 1,
+                border: "1px solid",
+                borderColor: "neutral.outlinedBorder",
+                borderRadius: "sm",
+              }}
+            >
+              <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+                <Chip size="sm" variant="soft" color={entry.success ? "neutral" : "danger"}>
+                  {entry.trigger}
+                </Chip>
+                <Typography level="body-xs" sx={{ color: "text.secondary" }}>
+                  {new Date(entry.createdAt).toLocaleString()} • {entry.duration}ms
+                </Typography>
+              </Box>
+              {entry.success ? (
+                <Typography level="body-xs" sx={{ mt: 0.5 }}>
+                  +{entry.added} added, −{entry.removed} removed • {entry.total} items
+                </Typography>
+              ) : (
+                <Typography level="body-xs" color="danger" sx={{ mt: 0.5 }}>
+                  {entry.error ?? "Refresh failed"}
+                </Typography>
+              )}
+            </Box>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+// Per-playlist clip transition picker for the player: mode, crossfade length
+// and audio ducking. "Use default setting" follows the Playback settings.
+import * as React from "react";
+import Dropdown from "@mui/joy/Dropdown";
+import IconButton from "@mui/joy/IconButton";
+import ListDivider from "@mui/joy/ListDivider";
+import ListItemDecorator from "@mui/joy/ListItemDecorator";
+import Menu from "@mui/joy/Menu";
+import MenuButton from "@mui/joy/MenuButton";
+import MenuItem from "@mui/joy/MenuItem";
+import { Blend, Check } from "lucide-react";
+import {
+  FADE_SECONDS_CHOICES,
+  TRANSITION_MODE_LABELS,
+  TRANSITION_MODES,
+  type PlaylistTransition,
+  type ResolvedTransition,
+} from "@/lib/playlistPlayback";
+
+type Props = {
+  value: PlaylistTransition;
+  resolved: ResolvedTransition;
+  onChange: (next: PlaylistTransition) => void;
+};
+
+export function PlaylistTransitionMenu({ value, resolved, onChange }: Props) {
+  const isCrossfade = resolved.mode === "crossfade";
+
+  return (
+    <Dropdown>
+      <MenuButton
+        slots={{ root: IconButton }}
+        slotProps={{
+          root: {
+            size: "sm",
+            variant: resolved.mode === "off" ? "plain" : "soft",
+            "aria-label": "Clip transition",
+            title: `Transition: ${TRANSITION_MODE_LABELS[resolved.mode]}`,
+          },
+        }}
+      >
+        <Blend size={16} />
+      </MenuButton>
+      <Menu placement="bottom-end" size="sm">
+        {TRANSITION_MODES.map((mode) => (
+          <MenuItem key={mode} onClick={() => onChange({ ...value, mode })}>
+            <ListItemDecorator>{value.mode === mode && <Check size={16} />}</ListItemDecorator>
+            {TRANSITION_MODE_LABELS[mode]}
+          </MenuItem>
+        ))}
+        <ListDivider />
+        {FADE_SECONDS_CHOICES.map((seconds) => (
+          <MenuItem
+            key={seconds}
+            disabled={!isCrossfade}
+            onClick={() => onChange({ ...value, fadeSeconds: seconds })}
+          >
+            <ListItemDecorator>{isCrossfade && resolved.fadeSeconds === seconds && <Check size={16} />}</ListItemDecorator>
+            {seconds}s crossfade
+          </MenuItem>
+        ))}
+        <ListDivider />
+        <MenuItem disabled={!isCrossfade} onClick={() => onChange({ ...value, duckAudio: !value.duckAudio })}>
+          <ListItemDecorator>{value.duckAudio && <Check size={16} />}</ListItemDecorator>
+          Duck outgoing audio
+        </MenuItem>
+      </Menu>
+    </Dropdown>
+  );
+}
@@ -0,0 +1,191 @@
+// src/components/RefreshDiffDialog.tsx
+"use client";
+
+import { useEffect, useState, type ReactNode } from "react";
+import {
+  Box,
+  Typography,
+  Button,
+  Modal,
+  ModalDialog,
+  ModalClose,
+  Divider,
+  Stack,
+  Checkbox,
+  Chip,
+} from "@mui/joy";
+import { GitCompare, Pin } from "lucide-react";
+import { formatSecondsToMMSS } from "@/lib/formatLength";
+
+// Mirrors RefreshDiff from playlistSyncService (the dry-run response of
+// POST /api/playlists/[id]/items) without importing server code.
+type DiffItem = {
+  id: string;
+  title: string;
+  startTime: number;
+  endTime: number;
+};
+
+type RetimedItem = DiffItem & {
+  previousStartTime: number;
+  previousEndTime: number;
+};
+
+export type RefreshDiff = {
+  message: string;
+  added: DiffItem[];
+  removed: DiffItem[];
+  retimed: RetimedItem[];
+  pinned: DiffItem[];
+  unchanged: number;
+  total: number;
+  truncated: boolean;
+  totalAvailable: number;
+};
+
+export type RefreshDiffDecision = {
+  pinIds: string[];       // Removed items to pin instead, so they stay
+  applyTimings: boolean;  // Write the retimed start/end times
+};
+
+type Props = {
+  open: boolean;
+  diff: RefreshDiff | null;
+  accepting?: boolean;
+  onCancel: () => void;
+  onAccept: (decision: RefreshDiffDecision) => void;
+};
+
+export function hasRefreshChanges(diff: RefreshDiff): boolean {
+  return diff.added.length > 0 || diff.removed.length > 0 || diff.retimed.length > 0;
+}
+
+function span(start: number, end: number) {
+  return `${formatSecondsToMMSS(start)}–${formatSecondsToMMSS(end)}`;
+}
+
+function DiffSection({ title, color, count, children }: {
+  title: string;
+  color: "success" | "danger" | "warning" | "neutral";
+  count: number;
+  children: ReactNode;
+}) {
+  if (count === 0) return null;
+  return (
+    <Box>
+      <Typography level="title-sm" sx={{ mb: 0.5 }} endDecorator={<Chip size="sm" variant="soft" color={color}>{count}</Chip>}>
+        {title}
+      </Typography>
+      <Box sx={{ display: "flex", flexDirection: "column", gap: 0.25, maxHeight: 180, overflowY: "auto", pl: 1 }}>
+        {children}
+      </Box>
+    </Box>
+  );
+}
+
+export default function RefreshDiffDialog({ open, diff, accepting, onCancel, onAccept }: Props) {
+  const [pinIds, setPinIds] = useState<Set<string>>(new Set());
+  const [applyTimings, setApplyTimings] = useState(false);
+
+  // Each review starts clean.
+  useEffect(() => {
+    setPinIds(new Set());
+    setApplyTimings(false);
+  }, [diff]);
+
+  const togglePin = (id: string) => {
+    setPinIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <Modal open={open} onClose={() => !accepting && onCancel()}>
+      <ModalDialog sx={{ minWidth: 500, maxWidth: 640, bgcolor: "background.surface" }}>
+        <ModalClose disabled={accepting} />
+        <Typography level="title-lg" startDecorator={<GitCompare size={20} />}>
+          Review Changes
+        </Typography>
+        <Divider />
+
+        {diff && (
+          <Stack spacing={2} sx={{ pt: 1, overflowY: "auto" }}>
+            <Typography level="body-sm" sx={{ color: "text.secondary" }}>
+              {diff.unchanged} unchanged • {diff.total} items after saving
+              {diff.truncated && ` • Stash reported ${diff.totalAvailable} candidates, over the cap`}
+            </Typography>
+
+            <DiffSection title="Added" color="success" count={diff.added.length}>
+              {diff.added.map((it) => (
+                <Typography key={it.id} level="body-xs">
+                  + {it.title || it.id} <Typography sx={{ color: "text.tertiary" }}>{span(it.startTime, it.endTime)}</Typography>
+                </Typography>
+              ))}
+            </DiffSection>
+
+            <DiffSection title="Removed" color="danger" count={diff.removed.length}>
+              {diff.removed.map((it) => (
+                <Checkbox
+                  key={it.id}
+                  size="sm"
+                  checked={pinIds.has(it.id)}
+                  onChange={() => togglePin(it.id)}
+                  label={
+                    <Typography level="body-xs">
+                      − {it.title || it.id}
+                      {pinIds.has(it.id) && <Typography sx={{ color: "primary.500" }}> (pinned, kept)</Typography>}
+                    </Typography>
+                  }
+                />
+              ))}
+              <Typography level="body-xs" sx={{ color: "text.tertiary", mt: 0.5 }}>
+                Tick an item to pin it: pinned items are never removed by a refresh.
+              </Typography>
+            </DiffSection>
+
+            <DiffSection title="Retimed" color="warning" count={diff.retimed.length}>
+              {diff.retimed.map((it) => (
+                <Typography key={it.id} level="body-xs">
+                  {it.title || it.id}{" "}
+                  <Typography sx={{ color: "text.tertiary" }}>
+                    {span(it.previousStartTime, it.previousEndTime)} → {span(it.startTime, it.endTime)}
+                  </Typography>
+                </Typography>
+              ))}
+              <Checkbox
+                size="sm"
+                sx={{ mt: 0.5 }}
+                checked={applyTimings}
+                onChange={(e) => setApplyTimings(e.target.checked)}
+                label="Apply the new timings (otherwise existing items keep their start/end times)"
+              />
+            </DiffSection>
+
+            <DiffSection title="Kept because pinned" color="neutral" count={diff.pinned.length}>
+              {diff.pinned.map((it) => (
+                <Typography key={it.id} level="body-xs" startDecorator={<Pin size={12} />}>
+                  {it.title || it.id}
+                </Typography>
+              ))}
+            </DiffSection>
+
+            <Stack direction="row" gap={1.5} justifyContent="flex-end" sx={{ pt: 1 }}>
+              <Button variant="plain" onClick={onCancel} disabled={accepting}>
+                Cancel
+              </Button>
+              <Button
+                loading={accepting}
+                onClick={() => onAccept({ pinIds: [...pinIds], applyTimings })}
+              >
+                Accept and Save
+              </Button>
+            </Stack>
+          </Stack>
+        )}
+      </ModalDialog>
+    </Modal>
+  );
+}
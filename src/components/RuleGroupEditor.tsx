@@ -0,0 +1,199 @@
+// src/components/RuleGroupEditor.tsx
+//
+// Recursive editor for a smart playlist rule group (see conditionTree.ts).
+// Each group picks an operator, holds actor/tag leaves via two
+// Autocompletes, and can nest sub-groups up to MAX_RULE_DEPTH.
+import { useMemo } from 'react';
+import Box from '@mui/joy/Box';
+import Typography from '@mui/joy/Typography';
+import Chip from '@mui/joy/Chip';
+import Autocomplete from '@mui/joy/Autocomplete';
+import Select from '@mui/joy/Select';
+import Option from '@mui/joy/Option';
+import Button from '@mui/joy/Button';
+import IconButton from '@mui/joy/IconButton';
+import Sheet from '@mui/joy/Sheet';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  emptyRuleGroup,
+  MAX_RULE_DEPTH,
+  type RuleGroup,
+  type RuleGroupOp,
+  type RuleLeaf,
+  type RuleNode,
+} from '@/lib/conditionTree';
+
+interface Actor {
+  id: string;
+  name: string;
+}
+interface Tag {
+  id: string;
+  label: string;
+}
+
+interface RuleGroupEditorProps {
+  group: RuleGroup;
+  onChange: (group: RuleGroup) => void;
+  onRemove?: () => void;
+  actors: Actor[];
+  tags: Tag[];
+  depth?: number;
+}
+
+const OP_LABELS: Record<RuleGroupOp, string> = {
+  and: 'ALL of',
+  or: 'ANY of',
+  not: 'NONE of',
+};
+
+const OP_COLORS: Record<RuleGroupOp, 'primary' | 'success' | 'danger'> = {
+  and: 'primary',
+  or: 'success',
+  not: 'danger',
+};
+
+export default function RuleGroupEditor({
+  group,
+  onChange,
+  onRemove,
+  actors,
+  tags,
+  depth = 0,
+}: RuleGroupEditorProps) {
+  const actorIds = useMemo(
+    () => group.children.filter((c): c is RuleLeaf => c.kind === 'actor').map((c) => c.id),
+    [group.children]
+  );
+  const tagIds = useMemo(
+    () => group.children.filter((c): c is RuleLeaf => c.kind === 'tag').map((c) => c.id),
+    [group.children]
+  );
+  const subGroups = group.children.filter((c): c is RuleGroup => c.kind === 'group');
+
+  const selectedActors = useMemo(
+    () => actors.filter((a) => actorIds.includes(String(a.id))),
+    [actors, actorIds]
+  );
+  const selectedTags = useMemo(
+    () => tags.filter((t) => tagIds.includes(String(t.id))),
+    [tags, tagIds]
+  );
+
+  // Leaves are kept ahead of sub-groups so the stored order matches the layout.
+  const rebuild = (nextActorIds: string[], nextTagIds: string[], nextGroups: RuleGroup[]) => {
+    const children: RuleNode[] = [
+      ...nextActorIds.map((id) => ({ kind: 'actor' as const, id })),
+      ...nextTagIds.map((id) => ({ kind: 'tag' as const, id })),
+      ...nextGroups,
+    ];
+    onChange({ ...group, children });
+  };
+
+  const color = OP_COLORS[group.op];
+
+  return (
+    <Sheet
+      variant="outlined"
+      color={color}
+      sx={{ p: 1.5, borderRadius: 'md', display: 'flex', flexDirection: 'column', gap: 1.5 }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Typography level="body-sm">Match</Typography>
+        <Select
+          value={group.op}
+          onChange={(_, value) => value && onChange({ ...group, op: value })}
+          size="sm"
+          color={color}
+          sx={{ width: 120 }}
+        >
+          {(Object.keys(OP_LABELS) as RuleGroupOp[]).map((op) => (
+            <Option key={op} value={op}>{OP_LABELS[op]}</Option>
+          ))}
+        </Select>
+        <Typography level="body-sm">the following</Typography>
+        {onRemove && (
+          <IconButton
+            size="sm"
+            variant="plain"
+            color="danger"
+            onClick={onRemove}
+            sx={{ ml: 'auto' }}
+            aria-label="Remove group"
+          >
+            <Trash2 size={16} />
+          </IconButton>
+        )}
+      </Box>
+
+      <Autocomplete
+        multiple
+        options={actors}
+        value={selectedActors}
+        isOptionEqualToValue={(opt, val) => String(opt.id) === String(val.id)}
+        getOptionLabel={(opt) => opt.name}
+        onChange={(_, value) => rebuild(value.map((a) => String(a.id)), tagIds, subGroups)}
+        renderTags={(value, getTagProps) =>
+          value.map((option, index) => {
+            const { key, ...tagProps } = getTagProps({ index });
+            return (
+              <Chip key={`${option.id}-${index}`} {...tagProps} size="sm">
+                {option.name}
+              </Chip>
+            );
+          })
+        }
+        placeholder="Actors..."
+        size="sm"
+      />
+
+      <Autocomplete<Tag, true, false, false>
+        multiple
+        options={tags}
+        value={selectedTags}
+        isOptionEqualToValue={(opt, val) => String(opt.id) === String(val.id)}
+        getOptionLabel={(opt) => opt.label}
+        onChange={(_, value) => rebuild(actorIds, value.map((t) => String(t.id)), subGroups)}
+        renderTags={(value, getTagProps) =>
+          value.map((option, index) => {
+            const { key, ...tagProps } = getTagProps({ index });
+            return (
+              <Chip key={`${option.id}-${index}`} {...tagProps} size="sm" color={color}>
+                {option.label}
+              </Chip>
+            );
+          })
+        }
+        placeholder="Tags..."
+        size="sm"
+      />
+
+      {subGroups.map((sub, idx) => (
+        <RuleGroupEditor
+          key={idx}
+          group={sub}
+          actors={actors}
+          tags={tags}
+          depth={depth + 1}
+          onChange={(next) =>
+            rebuild(actorIds, tagIds, subGroups.map((g, i) => (i === idx ? next : g)))
+          }
+          onRemove={() => rebuild(actorIds, tagIds, subGroups.filter((_, i) => i !== idx))}
+        />
+      ))}
+
+      {depth + 1 < MAX_RULE_DEPTH && (
+        <Box>
+          <Button
+            size="sm"
+            variant="plain"
+            startDecorator={<Plus size={14} />}
+            onClick={() => rebuild(actorIds, tagIds, [...subGroups, emptyRuleGroup('or')])}
+          >
+            Add group
+          </Button>
+        </Box>
+      )}
+    </Sheet>
+  );
+}
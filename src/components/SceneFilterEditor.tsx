@@ -0,0 +1,185 @@
+// src/components/SceneFilterEditor.tsx
+//
+// Editor for a smart playlist's scene-level criteria (see sceneConditions.ts):
+// studios, scene tags, scene date range, Stash scene rating, minimum
+// resolution and the organised flag. Holds no state of its own; studios are
+// loaded from Stash for the picker.
+import { useMemo } from 'react';
+import { useQuery, gql } from '@apollo/client';
+import Box from '@mui/joy/Box';
+import Typography from '@mui/joy/Typography';
+import Chip from '@mui/joy/Chip';
+import Autocomplete from '@mui/joy/Autocomplete';
+import Grid from '@mui/joy/Grid';
+import Select from '@mui/joy/Select';
+import Option from '@mui/joy/Option';
+import Input from '@mui/joy/Input';
+import { MIN_RESOLUTION_OPTIONS, type SceneConditions, type StashResolution } from '@/lib/sceneConditions';
+
+const GET_STUDIOS = gql`
+  query getStudiosForSceneFilter {
+    findStudios(filter: { per_page: -1, sort: "name", direction: ASC }) {
+      studios {
+        id
+        name
+      }
+    }
+  }
+`;
+
+interface Studio {
+  id: string;
+  name: string;
+}
+interface Tag {
+  id: string;
+  label: string;
+}
+
+interface SceneFilterEditorProps {
+  value: SceneConditions;
+  onChange: (value: SceneConditions) => void;
+  tags: Tag[];
+}
+
+export default function SceneFilterEditor({ value, onChange, tags }: SceneFilterEditorProps) {
+  const { data, loading } = useQuery(GET_STUDIOS);
+  const studios: Studio[] = useMemo(
+    () => (data?.findStudios?.studios ?? []).map((s: Studio) => ({ id: String(s.id), name: s.name })),
+    [data]
+  );
+
+  const selectedStudios = useMemo(
+    () => studios.filter((s) => (value.studioIds ?? []).includes(s.id)),
+    [studios, value.studioIds]
+  );
+  const selectedTags = useMemo(
+    () => tags.filter((t) => (value.tagIds ?? []).includes(String(t.id))),
+    [tags, value.tagIds]
+  );
+
+  const set = (patch: Partial<SceneConditions>) => onChange({ ...value, ...patch });
+
+  return (
+    <Grid container spacing={2}>
+      <Grid xs={12} md={6}>
+        <Typography level="body-sm" mb={0.5}>Studios</Typography>
+        <Autocomplete
+          multiple
+          placeholder={loading ? 'Loading studios…' : 'Any studio'}
+          options={studios}
+          getOptionLabel={(s) => s.name}
+          isOptionEqualToValue={(a, b) => a.id === b.id}
+          value={selectedStudios}
+          onChange={(_, v) => set({ studioIds: v.map((s) => s.id) })}
+          renderTags={(selected, getTagProps) =>
+            selected.map((option, index) => {
+              const { key, ...tagProps } = getTagProps({ index });
+              return (
+                <Chip key={key} {...tagProps} variant="soft" color="neutral">
+                  {option.name}
+                </Chip>
+              );
+            })
+          }
+        />
+        <Typography level="body-xs" sx={{ color: 'neutral.500', mt: 0.5 }}>
+          Scene is from any of these
+        </Typography>
+      </Grid>
+
+      <Grid xs={12} md={6}>
+        <Typography level="body-sm" mb={0.5}>Scene Tags</Typography>
+        <Autocomplete
+          multiple
+          placeholder="Any scene tags"
+          options={tags}
+          getOptionLabel={(t) => t.label}
+          isOptionEqualToValue={(a, b) => String(a.id) === String(b.id)}
+          value={selectedTags}
+          onChange={(_, v) => set({ tagIds: v.map((t) => String(t.id)) })}
+          renderTags={(selected, getTagProps) =>
+            selected.map((option, index) => {
+              const { key, ...tagProps } = getTagProps({ index });
+              return (
+                <Chip key={key} {...tagProps} variant="soft" color="neutral">
+                  {option.label}
+                </Chip>
+              );
+            })
+          }
+        />
+        <Typography level="body-xs" sx={{ color: 'neutral.500', mt: 0.5 }}>
+          Tags on the scene itself, not its markers; all must match
+        </Typography>
+      </Grid>
+
+      <Grid xs={12} md={6}>
+        <Typography level="body-sm" mb={0.5}>Scene Date</Typography>
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+          <Input
+            type="date"
+            size="sm"
+            value={value.dateFrom ?? ''}
+            onChange={(e) => set({ dateFrom: e.target.value || null })}
+            sx={{ flex: 1 }}
+          />
+          <Typography level="body-sm">to</Typography>
+          <Input
+            type="date"
+            size="sm"
+            value={value.dateTo ?? ''}
+            onChange={(e) => set({ dateTo: e.target.value || null })}
+            sx={{ flex: 1 }}
+          />
+        </Box>
+      </Grid>
+
+      <Grid xs={12} md={6}>
+        <Box sx={{ display: 'flex', gap: 1.5, flexWrap: 'wrap' }}>
+          <Box>
+            <Typography level="body-sm" mb={0.5}>Scene Rating</Typography>
+            <Select
+              size="sm"
+              value={value.minRating ?? 0}
+              onChange={(_, v) => set({ minRating: v ? Number(v) : null })}
+              sx={{ width: 120 }}
+            >
+              <Option value={0}>Any</Option>
+              {[1, 2, 3, 4, 5].map((n) => (
+                <Option key={n} value={n}>{n}★ or more</Option>
+              ))}
+            </Select>
+          </Box>
+          <Box>
+            <Typography level="body-sm" mb={0.5}>Resolution</Typography>
+            <Select
+              size="sm"
+              value={value.minResolution ?? 'any'}
+              onChange={(_, v) => set({ minResolution: !v || v === 'any' ? null : (v as StashResolution) })}
+              sx={{ width: 120 }}
+            >
+              <Option value="any">Any</Option>
+              {MIN_RESOLUTION_OPTIONS.map((r) => (
+                <Option key={r.value} value={r.value}>{r.label}+</Option>
+              ))}
+            </Select>
+          </Box>
+          <Box>
+            <Typography level="body-sm" mb={0.5}>Organised</Typography>
+            <Select
+              size="sm"
+              value={value.organized == null ? 'any' : value.organized ? 'yes' : 'no'}
+              onChange={(_, v) => set({ organized: v === 'yes' ? true : v === 'no' ? false : null })}
+              sx={{ width: 110 }}
+            >
+              <Option value="any">Either</Option>
+              <Option value="yes">Yes</Option>
+              <Option value="no">No</Option>
+            </Select>
+          </Box>
+        </Box>
+      </Grid>
+    </Grid>
+  );
+}
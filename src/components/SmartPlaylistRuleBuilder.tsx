@@ -7,6 +7,27 @@ import Grid from '@mui/joy/Grid';
 import Select from '@mui/joy/Select';
 import Option from '@mui/joy/Option';
 import Input from '@mui/joy/Input';
+import RuleGroupEditor from '@/components/RuleGroupEditor';
+import SceneFilterEditor from '@/components/SceneFilterEditor';
+import { emptyRuleGroup, parseRuleGroup, type RuleGroup } from '@/lib/conditionTree';
+import {
+  parsePlaylistSort,
+  PLAYLIST_SORT_FIELDS,
+  PLAYLIST_SORT_LABELS,
+  type PlaylistSort,
+  type PlaylistSortField,
+} from '@/lib/playlistSort';
+import { randomSeed } from '@/lib/seededRandom';
+import { hasSceneConditions, parseSceneConditions, type SceneConditions } from '@/lib/sceneConditions';
+import { parseClipConditions, parseDurationBounds, type ClipConditions, type FixedClipMode } from '@/lib/clipLength';
+import {
+  parsePlaylistSelection,
+  SELECTION_STRATEGIES,
+  SELECTION_STRATEGY_LABELS,
+  type PlaylistSelection,
+  type SelectionStrategy,
+} from '@/lib/playlistSelection';
+import Button from '@mui/joy/Button';
 
 interface Actor {
   id: string;
@@ -20,15 +41,38 @@ interface Tag {
 // New flexible rules format
 type PlayCountMode = 'atLeast' | 'atMost';
 
+// Skip filters travel as one block; keys match the saved conditions.
+type SkipFilters = {
+  skipCountMode: PlayCountMode | null;
+  skipCountValue: number | null;
+  skipRatioMode: PlayCountMode | null;
+  skipRatioValue: number | null; // percent
+};
+
+const NO_SKIP_FILTERS: SkipFilters = { skipCountMode: null, skipCountValue: null, skipRatioMode: null, skipRatioValue: null };
+
 interface SmartRulesOutput {
   actorIds: string[];
   tagIds?: string[];           // Legacy format (kept for backward compat)
   requiredTagIds?: string[];   // ALL must match
   optionalTagIds?: string[];   // ANY must match
+  excludedTagIds?: string[];   // NONE may match
+  excludedActorIds?: string[]; // Skip scenes featuring these performers
   minRating?: number | null;
   exactRating?: number | null;
   playCountMode?: PlayCountMode | null;
   playCountValue?: number | null;
+  skipCountMode?: PlayCountMode | null;
+  skipCountValue?: number | null;
+  skipRatioMode?: PlayCountMode | null;
+  skipRatioValue?: number | null;
+  rules?: RuleGroup | null;      // Nested AND/OR/NOT groups, ANDed with the above
+  scene?: SceneConditions | null; // Studio / date / rating / resolution etc. of the scene
+  minDuration?: number | null;   // Marker length bounds, seconds
+  maxDuration?: number | null;
+  clip?: ClipConditions | null;  // Padding and fixed clip length
+  selection?: PlaylistSelection | null; // Limit + which matches to keep
+  sort?: PlaylistSort | null;    // Item order; null keeps Stash's order
 }
 
 interface SmartPlaylistRuleBuilderProps {
@@ -39,10 +83,23 @@ interface SmartPlaylistRuleBuilderProps {
     tagIds?: string[];
     requiredTagIds?: string[];
     optionalTagIds?: string[];
+    excludedTagIds?: string[];
+    excludedActorIds?: string[];
     minRating?: number | null;
     exactRating?: number | null;
     playCountMode?: PlayCountMode | null;
     playCountValue?: number | null;
+    skipCountMode?: PlayCountMode | null;
+    skipCountValue?: number | null;
+    skipRatioMode?: PlayCountMode | null;
+    skipRatioValue?: number | null;
+    rules?: RuleGroup | null;
+    scene?: SceneConditions | null;
+    minDuration?: number | null;
+    maxDuration?: number | null;
+    clip?: ClipConditions | null;
+    selection?: PlaylistSelection | null;
+    sort?: PlaylistSort | null;
   };
 }
 
@@ -64,10 +121,20 @@ function initializeSelections(
   setSelectedActors: React.Dispatch<React.SetStateAction<Actor[]>>,
   setRequiredTags: React.Dispatch<React.SetStateAction<Tag[]>>,
   setOptionalTags: React.Dispatch<React.SetStateAction<Tag[]>>,
+  setExcludedTags: React.Dispatch<React.SetStateAction<Tag[]>>,
+  setExcludedActors: React.Dispatch<React.SetStateAction<Actor[]>>,
   setRatingMode: React.Dispatch<React.SetStateAction<'any' | 'min' | 'exact'>>,
   setRatingValue: React.Dispatch<React.SetStateAction<number | null>>,
   setPlayCountMode: React.Dispatch<React.SetStateAction<'any' | PlayCountMode>>,
   setPlayCountValue: React.Dispatch<React.SetStateAction<number>>,
+  setSkips: React.Dispatch<React.SetStateAction<SkipFilters>>,
+  setRuleGroup: React.Dispatch<React.SetStateAction<RuleGroup>>,
+  setScene: React.Dispatch<React.SetStateAction<SceneConditions>>,
+  setMinDuration: React.Dispatch<React.SetStateAction<number | null>>,
+  setMaxDuration: React.Dispatch<React.SetStateAction<number | null>>,
+  setClip: React.Dispatch<React.SetStateAction<ClipConditions>>,
+  setSelection: React.Dispatch<React.SetStateAction<PlaylistSelection | null>>,
+  setSort: React.Dispatch<React.SetStateAction<PlaylistSort | null>>,
 ) {
   if (!initialRules) return;
 
@@ -84,16 +151,20 @@ function initializeSelections(
     ? (initialRules.requiredTagIds ?? []).map(String)
     : legacyTagIds; // Fallback to legacy when new format arrays are both empty
   const optionalTagIds = (initialRules.optionalTagIds ?? []).map(String);
+  const excludedTagIds = (initialRules.excludedTagIds ?? []).map(String);
+  const excludedActorIds = (initialRules.excludedActorIds ?? []).map(String);
 
   if (actors.length) {
     const presetActors = actors.filter((a) => actorIds.includes(String(a.id)));
     setSelectedActors(presetActors);
+    setExcludedActors(actors.filter((a) => excludedActorIds.includes(String(a.id))));
   }
   if (tags.length) {
     const presetRequiredTags = tags.filter((t) => requiredTagIds.includes(String(t.id)));
     const presetOptionalTags = tags.filter((t) => optionalTagIds.includes(String(t.id)));
     setRequiredTags(presetRequiredTags);
     setOptionalTags(presetOptionalTags);
+    setExcludedTags(tags.filter((t) => excludedTagIds.includes(String(t.id))));
   }
   if (typeof initialRules.exactRating === 'number' && initialRules.exactRating >= 1) {
     setRatingMode('exact');
@@ -117,6 +188,26 @@ function initializeSelections(
     setPlayCountMode('any');
     setPlayCountValue(0);
   }
+
+  const skipMode = (mode: unknown, value: unknown): PlayCountMode | null =>
+    (mode === 'atLeast' || mode === 'atMost') && typeof value === 'number' && value >= 0 ? mode : null;
+  const skipCountMode = skipMode(initialRules.skipCountMode, initialRules.skipCountValue);
+  const skipRatioMode = skipMode(initialRules.skipRatioMode, initialRules.skipRatioValue);
+  setSkips({
+    skipCountMode,
+    skipCountValue: skipCountMode ? Math.floor(initialRules.skipCountValue as number) : null,
+    skipRatioMode,
+    skipRatioValue: skipRatioMode ? Math.min(100, initialRules.skipRatioValue as number) : null,
+  });
+
+  setRuleGroup(parseRuleGroup(initialRules.rules) ?? emptyRuleGroup());
+  setScene(parseSceneConditions(initialRules.scene) ?? {});
+  const { minDuration, maxDuration } = parseDurationBounds(initialRules.minDuration, initialRules.maxDuration);
+  setMinDuration(minDuration);
+  setMaxDuration(maxDuration);
+  setClip(parseClipConditions(initialRules.clip) ?? {});
+  setSelection(parsePlaylistSelection(initialRules.selection));
+  setSort(parsePlaylistSort(initialRules.sort));
 }
 
 export default function SmartPlaylistRuleBuilder({
@@ -128,10 +219,21 @@ export default function SmartPlaylistRuleBuilder({
   const [selectedActors, setSelectedActors] = useState<Actor[]>([]);
   const [requiredTags, setRequiredTags] = useState<Tag[]>([]);
   const [optionalTags, setOptionalTags] = useState<Tag[]>([]);
+  const [excludedTags, setExcludedTags] = useState<Tag[]>([]);
+  const [excludedActors, setExcludedActors] = useState<Actor[]>([]);
   const [ratingMode, setRatingMode] = useState<'any' | 'min' | 'exact'>('any');
   const [ratingValue, setRatingValue] = useState<number | null>(null);
   const [playCountMode, setPlayCountMode] = useState<'any' | PlayCountMode>('any');
   const [playCountValue, setPlayCountValue] = useState<number>(0);
+  const [skips, setSkips] = useState<SkipFilters>(NO_SKIP_FILTERS);
+  const [ruleGroup, setRuleGroup] = useState<RuleGroup>(() => emptyRuleGroup());
+  const [scene, setScene] = useState<SceneConditions>({});
+  const [minDuration, setMinDuration] = useState<number | null>(null);
+  const [maxDuration, setMaxDuration] = useState<number | null>(null);
+  // Whole clip block, so before/after set elsewhere survive a save from here
+  const [clip, setClip] = useState<ClipConditions>({});
+  const [selection, setSelection] = useState<PlaylistSelection | null>(null);
+  const [sort, setSort] = useState<PlaylistSort | null>(null);
 
   // Track whether we've applied the initial selections
   const hasInitializedRef = useRef(false);
@@ -144,11 +246,22 @@ export default function SmartPlaylistRuleBuilder({
     const rtRaw = initialRules?.requiredTagIds;
     const rt = (rtRaw && rtRaw.length > 0 ? rtRaw : (initialRules?.tagIds ?? [])).map(String).join(',');
     const ot = (initialRules?.optionalTagIds ?? []).map(String).join(',');
+    const xt = (initialRules?.excludedTagIds ?? []).map(String).join(',');
+    const xa = (initialRules?.excludedActorIds ?? []).map(String).join(',');
     const r = String(initialRules?.minRating ?? '');
     const er = String(initialRules?.exactRating ?? '');
     const pcm = String(initialRules?.playCountMode ?? '');
     const pcv = String(initialRules?.playCountValue ?? '');
-    return `${a}|${rt}|${ot}|${r}|${er}|${pcm}|${pcv}`;
+    const sk = [initialRules?.skipCountMode, initialRules?.skipCountValue, initialRules?.skipRatioMode, initialRules?.skipRatioValue]
+      .map((v) => String(v ?? ''))
+      .join(',');
+    const rg = JSON.stringify(initialRules?.rules ?? null);
+    const sc = JSON.stringify(initialRules?.scene ?? null);
+    const du = `${initialRules?.minDuration ?? ''}-${initialRules?.maxDuration ?? ''}`;
+    const cl = JSON.stringify(initialRules?.clip ?? null);
+    const se = JSON.stringify(initialRules?.selection ?? null);
+    const so = JSON.stringify(initialRules?.sort ?? null);
+    return `${a}|${rt}|${ot}|${xt}|${xa}|${r}|${er}|${pcm}|${pcv}|${sk}|${rg}|${sc}|${du}|${cl}|${se}|${so}`;
   }, [initialRules]);
   const lastInitKeyRef = useRef<string | null>(null);
   useEffect(() => {
@@ -190,7 +303,7 @@ export default function SmartPlaylistRuleBuilder({
     if (!actors.length) return;           // wait for actors
     if (!tags.length) return;             // wait for tags
 
-    initializeSelections(initialRules, actors, tags, setSelectedActors, setRequiredTags, setOptionalTags, setRatingMode, setRatingValue, setPlayCountMode, setPlayCountValue);
+    initializeSelections(initialRules, actors, tags, setSelectedActors, setRequiredTags, setOptionalTags, setExcludedTags, setExcludedActors, setRatingMode, setRatingValue, setPlayCountMode, setPlayCountValue, setSkips, setRuleGroup, setScene, setMinDuration, setMaxDuration, setClip, setSelection, setSort);
     hasInitializedRef.current = true;
   }, [initialRules, actors, tags]);
 
@@ -216,27 +329,47 @@ export default function SmartPlaylistRuleBuilder({
       optionalTagIds,
       // Keep legacy tagIds for backward compatibility (combine both for display purposes)
       tagIds: [...requiredTagIds, ...optionalTagIds],
+      excludedTagIds: excludedTags.map((t) => String(t.id)),
+      excludedActorIds: excludedActors.map((a) => String(a.id)),
       minRating: ratingMode === 'min' ? ratingValue : null,
       exactRating: ratingMode === 'exact' ? ratingValue : null,
       playCountMode: playCountMode === 'any' ? null : playCountMode,
       playCountValue: playCountMode === 'any' ? null : playCountValue,
+      ...skips,
+      // Empty sub-groups are kept so the editor round-trips them; the
+      // server prunes them before evaluating.
+      rules: ruleGroup.children.length ? ruleGroup : null,
+      scene: hasSceneConditions(scene) ? scene : null,
+      minDuration,
+      maxDuration,
+      clip: parseClipConditions(clip),
+      selection: parsePlaylistSelection(selection),
+      sort,
     });
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [selectedActors, requiredTags, optionalTags, ratingMode, ratingValue, playCountMode, playCountValue]);
+  }, [selectedActors, requiredTags, optionalTags, excludedTags, excludedActors, ratingMode, ratingValue, playCountMode, playCountValue, skips, ruleGroup, scene, minDuration, maxDuration, clip, selection, sort]);
 
   const sortedActors = useMemo(
     () => [...actors].sort((a, b) => a.name.localeCompare(b.name)),
     [actors]
   );
 
-  // Filter out tags that are already selected in the other group
+  // Filter out tags that are already selected in another group
   const availableRequiredTags = useMemo(
-    () => tags.filter(t => !optionalTags.some(ot => ot.id === t.id)),
-    [tags, optionalTags]
+    () => tags.filter(t => !optionalTags.some(ot => ot.id === t.id) && !excludedTags.some(xt => xt.id === t.id)),
+    [tags, optionalTags, excludedTags]
   );
   const availableOptionalTags = useMemo(
-    () => tags.filter(t => !requiredTags.some(rt => rt.id === t.id)),
-    [tags, requiredTags]
+    () => tags.filter(t => !requiredTags.some(rt => rt.id === t.id) && !excludedTags.some(xt => xt.id === t.id)),
+    [tags, requiredTags, excludedTags]
+  );
+  const availableExcludedTags = useMemo(
+    () => tags.filter(t => !requiredTags.some(rt => rt.id === t.id) && !optionalTags.some(ot => ot.id === t.id)),
+    [tags, requiredTags, optionalTags]
+  );
+  const availableExcludedActors = useMemo(
+    () => sortedActors.filter(a => !selectedActors.some(sa => sa.id === a.id)),
+    [sortedActors, selectedActors]
   );
 
   return (
@@ -353,6 +486,104 @@ export default function SmartPlaylistRuleBuilder({
           </Box>
         </Grid>
 
+        {/* Excluded Tags (NONE may match) */}
+        <Grid xs={12} sm={6}>
+          <Box>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1.5 }}>
+              <Typography level="title-sm" sx={{ fontWeight: 600 }}>
+                Excluded Tags
+              </Typography>
+              <Chip size="sm" variant="soft" color="danger">
+                NONE may match
+              </Chip>
+            </Box>
+            <Autocomplete<Tag, true, false, false>
+              multiple
+              options={availableExcludedTags}
+              getOptionLabel={(option) => option.label}
+              isOptionEqualToValue={(opt, val) => String(opt.id) === String(val.id)}
+              value={excludedTags}
+              onChange={(_, newValue) => setExcludedTags(newValue)}
+              renderTags={(value, getTagProps) =>
+                value.map((option, index) => {
+                  const { key, ...tagProps } = getTagProps({ index });
+                  return (
+                    <Chip key={`${option.id}-${index}`} {...tagProps} size="sm" color="danger">
+                      {option.label}
+                    </Chip>
+                  );
+                })
+              }
+              placeholder="Never include these tags..."
+              size="sm"
+            />
+            <Typography level="body-xs" sx={{ color: 'neutral.500', mt: 0.5 }}>
+              Markers with any of these tags are left out
+            </Typography>
+          </Box>
+        </Grid>
+
+        {/* Excluded Actors */}
+        <Grid xs={12} sm={6}>
+          <Box>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1.5 }}>
+              <Typography level="title-sm" sx={{ fontWeight: 600 }}>
+                Excluded Actors
+              </Typography>
+              <Chip size="sm" variant="soft" color="danger">
+                NONE may appear
+              </Chip>
+            </Box>
+            <Autocomplete
+              multiple
+              options={availableExcludedActors}
+              value={excludedActors}
+              isOptionEqualToValue={(opt, val) => String(opt.id) === String(val.id)}
+              getOptionLabel={(opt) => opt.name}
+              onChange={(_, value) => setExcludedActors(value)}
+              renderTags={(value, getTagProps) =>
+                value.map((option, index) => {
+                  const { key, ...tagProps } = getTagProps({ index });
+                  return (
+                    <Chip key={`${option.id}-${index}`} {...tagProps} size="sm" color="danger">
+                      {option.name}
+                    </Chip>
+                  );
+                })
+              }
+              placeholder="Skip scenes featuring..."
+              size="sm"
+            />
+            <Typography level="body-xs" sx={{ color: 'neutral.500', mt: 0.5 }}>
+              Markers from scenes featuring any of these actors are left out
+            </Typography>
+          </Box>
+        </Grid>
+
+        {/* Nested rule groups, ANDed with the actor/tag fields above */}
+        <Grid xs={12}>
+          <Box>
+            <Typography level="title-sm" mb={1.5} sx={{ fontWeight: 600 }}>Rule groups</Typography>
+            <RuleGroupEditor
+              group={ruleGroup}
+              onChange={setRuleGroup}
+              actors={sortedActors}
+              tags={tags}
+            />
+            <Typography level="body-xs" sx={{ color: 'neutral.500', mt: 0.5 }}>
+              Combine actors and tags with ALL / ANY / NONE, e.g. (Actor A or Actor B) and not tag Y
+            </Typography>
+          </Box>
+        </Grid>
+
+        {/* Scene-level criteria, matched by Stash's scene filter */}
+        <Grid xs={12}>
+          <Box>
+            <Typography level="title-sm" mb={1.5} sx={{ fontWeight: 600 }}>Scene filters</Typography>
+            <SceneFilterEditor value={scene} onChange={setScene} tags={tags} />
+          </Box>
+        </Grid>
+
         {/* Rating in bottom row, full width */}
         <Grid xs={12}>
           <Box sx={{ mt: 1 }}>
@@ -429,6 +660,287 @@ export default function SmartPlaylistRuleBuilder({
             </Box>
           </Box>
         </Grid>
+
+        {/* Skip filters, full width: prune clips that always get skipped */}
+        <Grid xs={12}>
+          <Box sx={{ mt: 1 }}>
+            <Typography level="title-sm" mb={1.5} sx={{ fontWeight: 600 }}>Skips</Typography>
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+              <Box sx={{ display: 'flex', gap: 1.5, alignItems: 'center', flexWrap: 'wrap' }}>
+                <Select
+                  value={skips.skipCountMode ?? 'any'}
+                  onChange={(_, value) => {
+                    if (!value) return;
+                    setSkips((prev) =>
+                      value === 'any'
+                        ? { ...prev, skipCountMode: null, skipCountValue: null }
+                        : { ...prev, skipCountMode: value as PlayCountMode, skipCountValue: prev.skipCountValue ?? 0 }
+                    );
+                  }}
+                  size="sm"
+                  sx={{ width: 170 }}
+                >
+                  <Option value="any">Any skip count</Option>
+                  <Option value="atLeast">Skipped at least</Option>
+                  <Option value="atMost">Skipped at most</Option>
+                </Select>
+                {skips.skipCountMode && (
+                  <>
+                    <Input
+                      type="number"
+                      size="sm"
+                      value={skips.skipCountValue ?? 0}
+                      onChange={(e) => {
+                        const v = Math.max(0, Math.floor(Number(e.target.value) || 0));
+                        setSkips((prev) => ({ ...prev, skipCountValue: v }));
+                      }}
+                      slotProps={{ input: { min: 0, step: 1 } }}
+                      sx={{ width: 100 }}
+                    />
+                    <Typography level="body-sm" sx={{ color: 'text.tertiary' }}>
+                      time{skips.skipCountValue === 1 ? '' : 's'}
+                    </Typography>
+                  </>
+                )}
+              </Box>
+              <Box sx={{ display: 'flex', gap: 1.5, alignItems: 'center', flexWrap: 'wrap' }}>
+                <Select
+                  value={skips.skipRatioMode ?? 'any'}
+                  onChange={(_, value) => {
+                    if (!value) return;
+                    setSkips((prev) =>
+                      value === 'any'
+                        ? { ...prev, skipRatioMode: null, skipRatioValue: null }
+                        : { ...prev, skipRatioMode: value as PlayCountMode, skipRatioValue: prev.skipRatioValue ?? 50 }
+                    );
+                  }}
+                  size="sm"
+                  sx={{ width: 170 }}
+                >
+                  <Option value="any">Any skip ratio</Option>
+                  <Option value="atLeast">Skip ratio at least</Option>
+                  <Option value="atMost">Skip ratio at most</Option>
+                </Select>
+                {skips.skipRatioMode && (
+                  <>
+                    <Input
+                      type="number"
+                      size="sm"
+                      value={skips.skipRatioValue ?? 0}
+                      onChange={(e) => {
+                        const v = Math.max(0, Math.min(100, Number(e.target.value) || 0));
+                        setSkips((prev) => ({ ...prev, skipRatioValue: v }));
+                      }}
+                      slotProps={{ input: { min: 0, max: 100, step: 5 } }}
+                      sx={{ width: 100 }}
+                    />
+                    <Typography level="body-sm" sx={{ color: 'text.tertiary' }}>
+                      % of plays skipped
+                    </Typography>
+                  </>
+                )}
+              </Box>
+            </Box>
+          </Box>
+        </Grid>
+
+        {/* Clip length: duration bounds and fixed-length mode */}
+        <Grid xs={12}>
+          <Box sx={{ mt: 1 }}>
+            <Typography level="title-sm" mb={1.5} sx={{ fontWeight: 600 }}>Clip length</Typography>
+            <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap' }}>
+              <Box>
+                <Typography level="body-sm" mb={0.5}>Marker duration (seconds)</Typography>
+                <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                  <Input
+                    type="number"
+                    size="sm"
+                    placeholder="Min"
+                    value={minDuration ?? ''}
+                    onChange={(e) => setMinDuration(e.target.value === '' ? null : Math.max(0, Number(e.target.value)))}
+                    slotProps={{ input: { min: 0 } }}
+                    sx={{ width: 90 }}
+                  />
+                  <Typography level="body-sm">to</Typography>
+                  <Input
+                    type="number"
+                    size="sm"
+                    placeholder="Max"
+                    value={maxDuration ?? ''}
+                    onChange={(e) => setMaxDuration(e.target.value === '' ? null : Math.max(0, Number(e.target.value)))}
+                    slotProps={{ input: { min: 0 } }}
+                    sx={{ width: 90 }}
+                  />
+                </Box>
+              </Box>
+              <Box>
+                <Typography level="body-sm" mb={0.5}>Fixed clip length</Typography>
+                <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                  <Select
+                    size="sm"
+                    value={clip.fixedLength ? (clip.fixedMode ?? 'centre') : 'off'}
+                    onChange={(_, value) => {
+                      if (!value) return;
+                      if (value === 'off') {
+                        setClip({ before: clip.before, after: clip.after });
+                      } else {
+                        setClip({ ...clip, fixedLength: clip.fixedLength || 30, fixedMode: value as FixedClipMode });
+                      }
+                    }}
+                    sx={{ width: 170 }}
+                  >
+                    <Option value="off">Off (marker length)</Option>
+                    <Option value="centre">Centre on marker</Option>
+                    <Option value="trim">From marker start</Option>
+                  </Select>
+                  {!!clip.fixedLength && (
+                    <>
+                      <Input
+                        type="number"
+                        size="sm"
+                        value={clip.fixedLength}
+                        onChange={(e) => setClip({ ...clip, fixedLength: Math.max(1, Math.floor(Number(e.target.value) || 1)) })}
+                        slotProps={{ input: { min: 1 } }}
+                        sx={{ width: 80 }}
+                      />
+                      <Typography level="body-sm">seconds</Typography>
+                    </>
+                  )}
+                </Box>
+              </Box>
+            </Box>
+            <Typography level="body-xs" sx={{ color: 'neutral.500', mt: 0.5 }}>
+              Markers without an end time count as the fallback clip length from Settings. A fixed length replaces the before/after padding.
+            </Typography>
+          </Box>
+        </Grid>
+
+        {/* Limit + selection strategy */}
+        <Grid xs={12}>
+          <Box sx={{ mt: 1 }}>
+            <Typography level="title-sm" mb={1.5} sx={{ fontWeight: 600 }}>Limit</Typography>
+            <Box sx={{ display: 'flex', gap: 1.5, alignItems: 'center', flexWrap: 'wrap' }}>
+              <Select
+                value={selection?.strategy ?? 'all'}
+                onChange={(_, value) => {
+                  if (!value) return;
+                  if (value === 'all') {
+                    setSelection(null);
+                    return;
+                  }
+                  const strategy = value as SelectionStrategy;
+                  const perGroup = strategy === 'perScene' || strategy === 'perPerformer';
+                  setSelection({
+                    strategy,
+                    limit: selection?.limit ?? (perGroup ? null : 50),
+                    ...(perGroup ? { perGroupMax: selection?.perGroupMax ?? 1 } : {}),
+                    ...(strategy === 'weightedRandom' ? { seed: randomSeed() } : {}),
+                  });
+                }}
+                size="sm"
+                sx={{ width: 230 }}
+              >
+                <Option value="all">All matches</Option>
+                {SELECTION_STRATEGIES.map((strategy) => (
+                  <Option key={strategy} value={strategy}>{SELECTION_STRATEGY_LABELS[strategy]}</Option>
+                ))}
+              </Select>
+              {selection && (selection.strategy === 'perScene' || selection.strategy === 'perPerformer') && (
+                <>
+                  <Typography level="body-sm">N =</Typography>
+                  <Input
+                    type="number"
+                    size="sm"
+                    value={selection.perGroupMax ?? 1}
+                    onChange={(e) => setSelection({ ...selection, perGroupMax: Math.max(1, Math.floor(Number(e.target.value) || 1)) })}
+                    slotProps={{ input: { min: 1 } }}
+                    sx={{ width: 70 }}
+                  />
+                </>
+              )}
+              {selection && (
+                <>
+                  <Typography level="body-sm">up to</Typography>
+                  <Input
+                    type="number"
+                    size="sm"
+                    placeholder="No cap"
+                    value={selection.limit ?? ''}
+                    onChange={(e) =>
+                      setSelection({
+                        ...selection,
+                        limit: e.target.value === '' ? null : Math.max(1, Math.floor(Number(e.target.value) || 1)),
+                      })
+                    }
+                    slotProps={{ input: { min: 1 } }}
+                    sx={{ width: 90 }}
+                  />
+                  <Typography level="body-sm">markers</Typography>
+                </>
+              )}
+              {selection?.strategy === 'weightedRandom' && (
+                <Button
+                  size="sm"
+                  variant="outlined"
+                  onClick={() => setSelection({ ...selection, seed: randomSeed() })}
+                >
+                  Re-roll
+                </Button>
+              )}
+            </Box>
+            <Typography level="body-xs" sx={{ color: 'neutral.500', mt: 0.5 }}>
+              Picks which matches are kept; sort order still decides their order. Random picks are re-rolled on each scheduled refresh.
+            </Typography>
+          </Box>
+        </Grid>
+
+        {/* Sort order, full width */}
+        <Grid xs={12}>
+          <Box sx={{ mt: 1 }}>
+            <Typography level="title-sm" mb={1.5} sx={{ fontWeight: 600 }}>Sort order</Typography>
+            <Box sx={{ display: 'flex', gap: 1.5, alignItems: 'center', flexWrap: 'wrap' }}>
+              <Select
+                value={sort?.by ?? 'default'}
+                onChange={(_, value) => {
+                  if (!value) return;
+                  if (value === 'default') setSort(null);
+                  else if (value === 'random') setSort({ by: 'random', seed: randomSeed() });
+                  else setSort({ by: value as PlaylistSortField, direction: sort?.direction ?? 'asc' });
+                }}
+                size="sm"
+                sx={{ width: 190 }}
+              >
+                <Option value="default">Stash order</Option>
+                {PLAYLIST_SORT_FIELDS.map((field) => (
+                  <Option key={field} value={field}>{PLAYLIST_SORT_LABELS[field]}</Option>
+                ))}
+              </Select>
+              {sort && sort.by !== 'random' && (
+                <Select
+                  value={sort.direction ?? 'asc'}
+                  onChange={(_, value) => value && setSort({ ...sort, direction: value })}
+                  size="sm"
+                  sx={{ width: 140 }}
+                >
+                  <Option value="asc">Ascending</Option>
+                  <Option value="desc">Descending</Option>
+                </Select>
+              )}
+              {sort?.by === 'random' && (
+                <Button
+                  size="sm"
+                  variant="outlined"
+                  onClick={() => setSort({ by: 'random', seed: randomSeed() })}
+                >
+                  Reshuffle
+                </Button>
+              )}
+            </Box>
+            <Typography level="body-xs" sx={{ color: 'neutral.500', mt: 0.5 }}>
+              Re-applied on every refresh; random keeps the same order until reshuffled
+            </Typography>
+          </Box>
+        </Grid>
       </Grid>
     </Box>
   );
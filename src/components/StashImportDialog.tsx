@@ -0,0 +1,210 @@
+// src/components/StashImportDialog.tsx
+"use client";
+
+// Creates a playlist from a Stash saved marker filter (smart) or a Stash
+// group (manual). A filter's mapping notes are shown before importing, so
+// criteria that won't carry over are known up front; the report afterwards
+// repeats them with the number of clips the playlist got.
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  MAPPING_STATUS_LABELS,
+  mapSavedMarkerFilter,
+  type MappingNote,
+  type StashImportReport,
+  type StashImportSource,
+} from "@/lib/stashFilterImport";
+import type { StashImportSources } from "@/lib/stashImportService";
+
+const STATUS_COLORS: Record<MappingNote["status"], string> = {
+  mapped: "var(--success)",
+  partial: "var(--rating)",
+  unsupported: "var(--danger)",
+};
+
+function MappingNotes({ notes }: { notes: MappingNote[] }) {
+  if (!notes.length) {
+    return (
+      <p className="m-0 text-[13px]" style={{ color: "var(--con-muted)" }}>
+        No criteria: the playlist matches every marker.
+      </p>
+    );
+  }
+  return (
+    <div className="max-h-[200px] overflow-y-auto rounded-[6px] p-3" style={{ background: "var(--well)" }}>
+      {notes.map((n, idx) => (
+        <div key={idx} className="py-[2px] text-[13px]" style={{ color: "var(--con-text-2)" }}>
+          <span style={{ color: STATUS_COLORS[n.status] }}>{MAPPING_STATUS_LABELS[n.status]}</span> · {n.criterion}:{" "}
+          {n.detail}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function StashImportDialog({
+  open,
+  onOpenChange,
+  onImported,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void | Promise<void>;
+}) {
+  const [sources, setSources] = useState<StashImportSources | null>(null);
+  const [source, setSource] = useState<StashImportSource>("filter");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [report, setReport] = useState<StashImportReport | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+    fetch("/api/playlists/stash-import", { cache: "no-store" })
+      .then(async (res) => {
+        const data = await res.json().catch(() => null);
+        if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
+        setSources(data);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load from Stash"));
+  }, [open]);
+
+  const close = (next: boolean) => {
+    if (importing) return;
+    onOpenChange(next);
+    if (!next) {
+      setSelectedId(null);
+      setReport(null);
+      setError(null);
+    }
+  };
+
+  const preview = useMemo(() => {
+    if (source !== "filter" || !selectedId) return null;
+    const filter = sources?.filters.find((f) => f.id === selectedId);
+    return filter ? mapSavedMarkerFilter(filter).notes : null;
+  }, [source, selectedId, sources]);
+
+  const runImport = async () => {
+    if (!selectedId) return;
+    setImporting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/playlists/stash-import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ source, id: selectedId }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
+      setReport(data.report);
+      await onImported();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import from Stash");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const options =
+    source === "filter"
+      ? (sources?.filters ?? []).map((f) => ({ id: f.id, label: f.name }))
+      : (sources?.groups ?? []).map((g) => ({ id: g.id, label: `${g.name} (${g.sceneCount} scenes)` }));
+
+  return (
+    <Dialog open={open} onOpenChange={close}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Import from Stash</DialogTitle>
+        </DialogHeader>
+
+        {report ? (
+          <div className="flex flex-col gap-3">
+            <p className="m-0 text-[13px]" style={{ color: "var(--con-text-2)" }}>
+              Created the {report.playlist.type === "SMART" ? "smart" : "manual"} playlist{" "}
+              <Link href={`/playlists/${report.playlist.id}`} style={{ color: "var(--accent-cyan)" }}>
+                {report.playlist.name}
+              </Link>{" "}
+              with {report.itemCount.toLocaleString()} clip{report.itemCount === 1 ? "" : "s"}.
+            </p>
+            <MappingNotes notes={report.notes} />
+          </div>
+        ) : (
+          <div className="flex flex-col gap-4">
+            <div className="flex gap-4">
+              {(["filter", "group"] as const).map((s) => (
+                <label key={s} className="flex items-center gap-2 text-[13px]" style={{ color: "var(--con-text-2)" }}>
+                  <input
+                    type="radio"
+                    name="stash-import-source"
+                    checked={source === s}
+                    onChange={() => {
+                      setSource(s);
+                      setSelectedId(null);
+                    }}
+                  />
+                  {s === "filter" ? "Saved marker filter → smart playlist" : "Group → manual playlist"}
+                </label>
+              ))}
+            </div>
+
+            {!sources && !error && <div className="con-count">LOADING…</div>}
+
+            {sources && (
+              <label className="flex flex-col gap-1.5">
+                <span className="con-micro">{source === "filter" ? "Saved filter" : "Group"}</span>
+                <select
+                  value={selectedId ?? ""}
+                  onChange={(e) => setSelectedId(e.target.value || null)}
+                  className="con-input"
+                >
+                  <option value="">
+                    {options.length ? "Choose…" : source === "filter" ? "No saved marker filters" : "No groups"}
+                  </option>
+                  {options.map((o) => (
+                    <option key={o.id} value={o.id}>
+                      {o.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            {preview && <MappingNotes notes={preview} />}
+          </div>
+        )}
+
+        {error && (
+          <p className="text-[13px]" style={{ color: "var(--danger)" }}>
+            {error}
+          </p>
+        )}
+
+        <DialogFooter>
+          {report ? (
+            <button onClick={() => close(false)} className="con-btn-primary">
+              Done
+            </button>
+          ) : (
+            <>
+              <button onClick={() => close(false)} disabled={importing} className="con-btn-ghost disabled:opacity-50">
+                Cancel
+              </button>
+              <button onClick={runImport} disabled={!selectedId || importing} className="con-btn-primary disabled:opacity-50">
+                {importing ? "Importing…" : "Import"}
+              </button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -21,6 +21,12 @@ interface PlaylistItem {
   };
 }
 
+// What the page may ask of a tile's player
+export type WallTilePlayer = {
+  currentTime: () => number;
+  isDisposed: () => boolean;
+};
+
 interface VideoWallQuadrantProps {
   item: PlaylistItem | null;
   quadrantIndex: number;
@@ -31,6 +37,10 @@ interface VideoWallQuadrantProps {
   isPaused: boolean;
   stashServer: string;
   stashApiKey: string;
+  // Move on after this many seconds of the clip; null plays it through.
+  advanceAfter?: number | null;
+  // Hands the page each new player, e.g. to read how far a skipped clip got
+  onPlayer?: (player: WallTilePlayer) => void;
 }
 
 function EmptyQuadrant({ quadrantIndex }: { quadrantIndex: number }) {
@@ -69,8 +79,14 @@ function VideoWallQuadrant({
   isPaused,
   stashServer,
   stashApiKey,
+  advanceAfter = null,
+  onPlayer,
 }: VideoWallQuadrantProps) {
   const playerRef = useRef<any>(null);
+  const onEndedRef = useRef(onEnded);
+  onEndedRef.current = onEnded;
+  const advanceAfterRef = useRef(advanceAfter);
+  advanceAfterRef.current = advanceAfter;
   const [showControls, setShowControls] = useState(false);
   const hideTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -120,11 +136,20 @@ function VideoWallQuadrant({
 
   const handleReady = useCallback((player: any) => {
     playerRef.current = player;
+    onPlayer?.(player);
     // Ensure muted state is set on ready
     player.muted(isMuted);
+    // Timed tiles advance early; currentTime is relative to the clip start.
+    let advanced = false;
+    player.on("timeupdate", () => {
+      const limit = advanceAfterRef.current;
+      if (advanced || limit == null || player.currentTime() < limit) return;
+      advanced = true;
+      onEndedRef.current();
+    });
     // Autoplay is handled by the VideoJS options (autoplay: true)
     // No need for manual play() call which causes "interrupted by new load" warnings
-  }, [isMuted]);
+  }, [isMuted, onPlayer]);
 
   if (!item) {
     return <EmptyQuadrant quadrantIndex={quadrantIndex} />;
@@ -282,6 +307,9 @@ const arePropsEqual = (
   // Re-render if pause state changes
   if (prevProps.isPaused !== nextProps.isPaused) return false;
 
+  // Re-render if the tile's timing changes
+  if (prevProps.advanceAfter !== nextProps.advanceAfter) return false;
+
   // Don't re-render for other prop changes (onEnded, onMuteToggle callbacks)
   return true;
 };
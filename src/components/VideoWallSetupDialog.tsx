@@ -0,0 +1,307 @@
+"use client";
+
+// Edits a video wall setup: the layout, where each tile draws its clips from
+// and how long it stays on one. Applying only changes the open wall; saving
+// stores the setup so it can be reopened from its URL (see videoWallLayout).
+import * as React from "react";
+import Autocomplete from "@mui/joy/Autocomplete";
+import Box from "@mui/joy/Box";
+import Button from "@mui/joy/Button";
+import Chip from "@mui/joy/Chip";
+import Divider from "@mui/joy/Divider";
+import FormControl from "@mui/joy/FormControl";
+import FormLabel from "@mui/joy/FormLabel";
+import Input from "@mui/joy/Input";
+import Modal from "@mui/joy/Modal";
+import ModalClose from "@mui/joy/ModalClose";
+import ModalDialog from "@mui/joy/ModalDialog";
+import Option from "@mui/joy/Option";
+import Select from "@mui/joy/Select";
+import Stack from "@mui/joy/Stack";
+import Typography from "@mui/joy/Typography";
+import { useStashTags } from "@/context/StashTagsContext";
+import {
+  ADVANCE_AFTER_CHOICES,
+  WALL_LAYOUTS,
+  WALL_LAYOUT_LABELS,
+  advanceAfterLabel,
+  withLayout,
+  type WallLayout,
+  type WallSetup,
+  type WallTile,
+  type WallTileSource,
+} from "@/lib/videoWallLayout";
+
+type Tag = { id: string; name: string };
+
+type Props = {
+  open: boolean;
+  onClose: () => void;
+  playlistId: string;
+  setup: WallSetup;
+  onApply: (setup: WallSetup) => void;
+  // The saved setup being shown, if the wall was opened from one
+  savedName: string | null;
+  onSave: (setup: WallSetup, name: string, asNew: boolean) => Promise<void>;
+  onDelete: (() => Promise<void>) | null;
+};
+
+const SOURCE_KIND_LABELS: Record<WallTileSource["kind"], string> = {
+  playlist: "This playlist",
+  otherPlaylist: "Another playlist",
+  tags: "Tag filter",
+};
+
+function TileEditor({
+  index,
+  tile,
+  onChange,
+  playlists,
+  tagOptions,
+}: {
+  index: number;
+  tile: WallTile;
+  onChange: (tile: WallTile) => void;
+  playlists: Array<{ id: string; name: string }>;
+  tagOptions: Tag[];
+}) {
+  const { source } = tile;
+
+  const changeKind = (kind: WallTileSource["kind"]) => {
+    if (kind === source.kind) return;
+    if (kind === "playlist") onChange({ ...tile, source: { kind } });
+    else if (kind === "otherPlaylist") onChange({ ...tile, source: { kind, playlistId: playlists[0]?.id ?? "" } });
+    else onChange({ ...tile, source: { kind, tags: [], match: "all" } });
+  };
+
+  return (
+    <Stack direction="row" spacing={1} alignItems="flex-start" flexWrap="wrap" useFlexGap>
+      <Chip size="sm" variant="soft" sx={{ mt: 0.5 }}>
+        {index + 1}
+      </Chip>
+      <Select
+        size="sm"
+        value={source.kind}
+        onChange={(_e, kind) => kind && changeKind(kind)}
+        sx={{ minWidth: 150 }}
+      >
+        {(Object.keys(SOURCE_KIND_LABELS) as WallTileSource["kind"][]).map((kind) => (
+          <Option key={kind} value={kind}>
+            {SOURCE_KIND_LABELS[kind]}
+          </Option>
+        ))}
+      </Select>
+
+      {source.kind === "otherPlaylist" && (
+        <Select
+          size="sm"
+          value={source.playlistId || null}
+          placeholder="Choose a playlist"
+          onChange={(_e, playlistId) => playlistId && onChange({ ...tile, source: { ...source, playlistId } })}
+          sx={{ minWidth: 200, flex: 1 }}
+        >
+          {playlists.map((p) => (
+            <Option key={p.id} value={p.id}>
+              {p.name}
+            </Option>
+          ))}
+        </Select>
+      )}
+
+      {source.kind === "tags" && (
+        <>
+          <Autocomplete
+            multiple
+            size="sm"
+            options={tagOptions}
+            value={source.tags}
+            onChange={(_e, tags) => onChange({ ...tile, source: { ...source, tags: tags.map((t) => ({ id: t.id, name: t.name })) } })}
+            getOptionLabel={(o) => o.name}
+            isOptionEqualToValue={(a, b) => a.id === b.id}
+            placeholder={source.tags.length ? "" : "Tags"}
+            sx={{ minWidth: 200, flex: 1 }}
+          />
+          <Select
+            size="sm"
+            value={source.match}
+            onChange={(_e, match) => match && onChange({ ...tile, source: { ...source, match } })}
+            sx={{ minWidth: 90 }}
+          >
+            <Option value="all">All tags</Option>
+            <Option value="any">Any tag</Option>
+          </Select>
+        </>
+      )}
+
+      <Select
+        size="sm"
+        value={tile.advanceAfter ?? 0}
+        onChange={(_e, seconds) => seconds != null && onChange({ ...tile, advanceAfter: seconds || null })}
+        sx={{ minWidth: 120 }}
+        title="How long the tile stays on one clip"
+      >
+        {ADVANCE_AFTER_CHOICES.map((seconds) => (
+          <Option key={seconds ?? 0} value={seconds ?? 0}>
+            {advanceAfterLabel(seconds)}
+          </Option>
+        ))}
+      </Select>
+    </Stack>
+  );
+}
+
+export function VideoWallSetupDialog({ open, onClose, playlistId, setup, onApply, savedName, onSave, onDelete }: Props) {
+  const { stashTags } = useStashTags();
+  const [draft, setDraft] = React.useState(setup);
+  const [name, setName] = React.useState(savedName ?? "");
+  const [playlists, setPlaylists] = React.useState<Array<{ id: string; name: string }>>([]);
+  const [saving, setSaving] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (!open) return;
+    setDraft(setup);
+    setName(savedName ?? "");
+    setError(null);
+  }, [open, setup, savedName]);
+
+  React.useEffect(() => {
+    if (!open) return;
+    fetch("/api/playlists")
+      .then((res) => (res.ok ? res.json() : []))
+      .then((data: Array<{ id: string; name: string }>) =>
+        setPlaylists(
+          data
+            .filter((p) => p.id !== playlistId)
+            .map((p) => ({ id: p.id, name: p.name }))
+            .sort((a, b) => a.name.localeCompare(b.name)),
+        ),
+      )
+      .catch((err) => console.error("Failed to load playlists:", err));
+  }, [open, playlistId]);
+
+  const tagOptions: Tag[] = React.useMemo(
+    () => ((stashTags ?? []) as Array<{ id: string; name: string }>).map((t) => ({ id: String(t.id), name: t.name })),
+    [stashTags],
+  );
+
+  // A tile that can't find any clips would sit empty, so it can't be saved.
+  const incomplete = draft.tiles.some(
+    (t) => (t.source.kind === "otherPlaylist" && !t.source.playlistId) || (t.source.kind === "tags" && t.source.tags.length === 0),
+  );
+
+  const changeTile = (index: number, tile: WallTile) => {
+    setDraft((prev) => ({ ...prev, tiles: prev.tiles.map((t, i) => (i === index ? tile : t)) }));
+  };
+
+  const save = async (asNew: boolean) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(draft, name.trim(), asNew);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!onDelete) return;
+    setSaving(true);
+    try {
+      await onDelete();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal open={open} onClose={onClose}>
+      <ModalDialog sx={{ width: 720, maxWidth: "95vw", maxHeight: "90vh", overflowY: "auto" }}>
+        <ModalClose />
+        <Typography level="title-lg">Wall setup</Typography>
+
+        <FormControl size="sm">
+          <FormLabel>Layout</FormLabel>
+          <Select
+            size="sm"
+            value={draft.layout}
+            onChange={(_e, layout) => layout && setDraft((prev) => withLayout(prev, layout as WallLayout))}
+          >
+            {WALL_LAYOUTS.map((layout) => (
+              <Option key={layout} value={layout}>
+                {WALL_LAYOUT_LABELS[layout]}
+              </Option>
+            ))}
+          </Select>
+        </FormControl>
+
+        <Box>
+          <Typography level="title-sm" sx={{ mb: 1 }}>
+            Tiles
+          </Typography>
+          <Stack spacing={1}>
+            {draft.tiles.map((tile, index) => (
+              <TileEditor
+                key={index}
+                index={index}
+                tile={tile}
+                onChange={(next) => changeTile(index, next)}
+                playlists={playlists}
+                tagOptions={tagOptions}
+              />
+            ))}
+          </Stack>
+        </Box>
+
+        <Stack direction="row" justifyContent="flex-end" spacing={1}>
+          <Button size="sm" variant="plain" color="neutral" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            disabled={incomplete}
+            onClick={() => {
+              onApply(draft);
+              onClose();
+            }}
+          >
+            Apply
+          </Button>
+        </Stack>
+
+        <Divider />
+
+        <Stack direction="row" spacing={1} alignItems="flex-end" flexWrap="wrap" useFlexGap>
+          <FormControl size="sm" sx={{ flex: 1, minWidth: 200 }}>
+            <FormLabel>Save as</FormLabel>
+            <Input size="sm" value={name} placeholder="Setup name" onChange={(e) => setName(e.target.value)} />
+          </FormControl>
+          {savedName && (
+            <Button size="sm" variant="outlined" loading={saving} disabled={incomplete || !name.trim()} onClick={() => save(false)}>
+              Update “{savedName}”
+            </Button>
+          )}
+          <Button size="sm" variant="soft" loading={saving} disabled={incomplete || !name.trim()} onClick={() => save(true)}>
+            Save new
+          </Button>
+          {onDelete && (
+            <Button size="sm" variant="plain" color="danger" disabled={saving} onClick={remove}>
+              Delete
+            </Button>
+          )}
+        </Stack>
+        {error && (
+          <Typography level="body-sm" color="danger">
+            {error}
+          </Typography>
+        )}
+      </ModalDialog>
+    </Modal>
+  );
+}
@@ -0,0 +1,222 @@
+'use client'
+
+// Gapless transitions for the playlist player. The next clip is preloaded in
+// a second, hidden <video> layered inside the Video.js player; at the end of
+// the current clip it is shown over the main player, either at once (cut) or
+// faded in over the last seconds (crossfade). When the main player has
+// loaded the next clip it is seeked to wherever the overlay got to and the
+// overlay is hidden again, so the source reload is never seen.
+import * as React from 'react';
+import { createPortal } from 'react-dom';
+import type { ResolvedTransition } from '@/lib/playlistPlayback';
+
+// The parts of the Video.js player used here.
+export type TransitionPlayer = {
+  el: () => HTMLElement;
+  controlBar?: { el: () => HTMLElement };
+  currentTime: (seconds?: number) => number;
+  volume: (level?: number) => number;
+  playbackRate: (rate?: number) => number;
+  muted: () => boolean;
+  paused: () => boolean;
+  on: (event: string, handler: () => void) => void;
+  off: (event: string, handler: () => void) => void;
+  isDisposed: () => boolean;
+};
+
+// `key` tells two plays of the same item apart; `startTime` is where the
+// main player's clip-relative time 0 is in the source.
+export type TransitionClip = {
+  key: string;
+  src: string;
+  startTime: number;
+  endTime: number;
+};
+
+type Props = {
+  player: TransitionPlayer | null;
+  current: TransitionClip | null;
+  next: TransitionClip | null;
+  transition: ResolvedTransition;
+};
+
+// How long before the transition the next clip starts loading.
+const PRELOAD_LEAD = 8;
+// VideoJS re-seeks a new source to its start shortly after loadedmetadata;
+// the handoff seek has to land after that.
+const HANDOFF_DELAY = 150;
+
+export function ClipTransition({ player, current, next, transition }: Props) {
+  const overlayRef = React.useRef<HTMLVideoElement>(null);
+  const [host, setHost] = React.useState<HTMLElement | null>(null);
+  const preloadedRef = React.useRef<TransitionClip | null>(null);
+  // The clip playing in the overlay, from the moment it starts until the
+  // main player takes over.
+  const playingRef = React.useRef<TransitionClip | null>(null);
+  // The main player's volume before the transition touched it.
+  const baseVolumeRef = React.useRef<number | null>(null);
+
+  // Layer the overlay under the control bar so the controls stay usable,
+  // inside the player root so it also shows in fullscreen.
+  React.useEffect(() => {
+    if (!player) return;
+    const layer = document.createElement('div');
+    layer.className = 'vjs-transition-layer';
+    Object.assign(layer.style, { position: 'absolute', inset: '0', pointerEvents: 'none' });
+    const root = player.el();
+    const bar = player.controlBar?.el();
+    root.insertBefore(layer, bar && bar.parentNode === root ? bar : null);
+    setHost(layer);
+    return () => {
+      layer.remove();
+      setHost(null);
+    };
+  }, [player]);
+
+  const reset = React.useCallback(() => {
+    const video = overlayRef.current;
+    playingRef.current = null;
+    if (video) {
+      video.pause();
+      video.style.opacity = '0';
+    }
+    if (baseVolumeRef.current != null && player && !player.isDisposed()) {
+      player.volume(baseVolumeRef.current);
+    }
+    baseVolumeRef.current = null;
+  }, [player]);
+
+  // Preload and start the next clip as the current one runs out.
+  React.useEffect(() => {
+    const video = overlayRef.current;
+    if (!player || !video || !current || !next || transition.mode === 'off') return;
+
+    const clipLength = current.endTime - current.startTime;
+    const nextLength = next.endTime - next.startTime;
+    const fade = transition.mode === 'crossfade'
+      ? Math.max(0, Math.min(transition.fadeSeconds, clipLength / 2, nextLength / 2))
+      : 0;
+    let frame = 0;
+
+    const remaining = () => clipLength - (Number(player.currentTime()) || 0);
+
+    const preload = () => {
+      if (preloadedRef.current?.key === next.key) return;
+      preloadedRef.current = next;
+      video.src = next.src;
+      video.addEventListener('loadedmetadata', () => { video.currentTime = next.startTime; }, { once: true });
+    };
+
+    const start = () => {
+      // Not buffered in time: let the main player reload as it always has.
+      if (preloadedRef.current?.key !== next.key || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+      playingRef.current = next;
+      baseVolumeRef.current = player.volume();
+      video.muted = player.muted();
+      video.playbackRate = player.playbackRate();
+      video.volume = fade > 0 ? 0 : baseVolumeRef.current;
+      video.style.opacity = fade > 0 ? '0' : '1';
+      video.play()?.catch(reset);
+    };
+
+    const fadeStep = () => {
+      frame = 0;
+      if (playingRef.current?.key !== next.key || player.isDisposed()) return;
+      const left = remaining();
+      const progress = Math.max(0, Math.min(1, 1 - left / fade));
+      const base = baseVolumeRef.current ?? 1;
+      video.style.opacity = String(progress);
+      video.volume = base * progress;
+      if (transition.duckAudio) player.volume(base * (1 - progress));
+      // Pausing mid-fade pauses both clips.
+      if (left > 0.1) {
+        if (player.paused() && !video.paused) video.pause();
+        else if (!player.paused() && video.paused) video.play()?.catch(() => {});
+      }
+      if (progress < 1) frame = requestAnimationFrame(fadeStep);
+    };
+
+    // The overlay may still be covering this clip's own reload.
+    const handingOff = () => !!playingRef.current && playingRef.current.key !== next.key;
+
+    const handleTimeUpdate = () => {
+      if (handingOff()) return;
+      const left = remaining();
+      if (left <= fade + PRELOAD_LEAD) preload();
+      if (fade > 0 && left <= fade && !playingRef.current) {
+        start();
+        if (playingRef.current && !frame) frame = requestAnimationFrame(fadeStep);
+      }
+    };
+
+    const handleEnded = () => {
+      if (handingOff()) return;
+      if (!playingRef.current) start();
+      if (playingRef.current) {
+        video.style.opacity = '1';
+        video.volume = baseVolumeRef.current ?? 1;
+      }
+    };
+
+    player.on('timeupdate', handleTimeUpdate);
+    player.on('ended', handleEnded);
+    return () => {
+      if (frame) cancelAnimationFrame(frame);
+      player.off('timeupdate', handleTimeUpdate);
+      player.off('ended', handleEnded);
+    };
+  }, [player, host, current, next, transition, reset]);
+
+  // Hand over to the main player once it has loaded the clip the overlay is
+  // playing. Jumping anywhere else just drops the overlay.
+  const currentKey = current?.key;
+  React.useEffect(() => {
+    const video = overlayRef.current;
+    const playing = playingRef.current;
+    if (!player || !video || !playing || playing.key === next?.key) return;
+    if (playing.key !== currentKey) {
+      reset();
+      return;
+    }
+
+    // Keep the incoming clip's audio to the overlay until the handoff.
+    player.volume(0);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const handlePlaying = () => {
+      player.off('playing', handlePlaying);
+      timer = setTimeout(() => {
+        if (player.isDisposed()) return;
+        player.currentTime(Math.max(0, video.currentTime - playing.startTime));
+        reset();
+      }, HANDOFF_DELAY);
+    };
+    player.on('playing', handlePlaying);
+    return () => {
+      player.off('playing', handlePlaying);
+      if (timer) clearTimeout(timer);
+    };
+  }, [player, currentKey, next?.key, reset]);
+
+  // Drop the overlay if the player goes away mid-transition.
+  React.useEffect(() => () => reset(), [reset]);
+
+  if (!host) return null;
+  return createPortal(
+    <video
+      ref={overlayRef}
+      muted
+      playsInline
+      preload='auto'
+      style={{
+        position: 'absolute',
+        inset: 0,
+        width: '100%',
+        height: '100%',
+        objectFit: 'contain',
+        background: '#000',
+        opacity: 0,
+      }}
+    />,
+    host,
+  );
+}
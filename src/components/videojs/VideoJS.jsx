@@ -220,6 +220,8 @@ export const VideoJS = (props) => {
   const retryCountRef = React.useRef(0);
   const MAX_RETRIES = 2;
   const { options, onReady, offset, vttPath, stashServer, stashAPI, markers, wallMode, ratingValue, onRatingChange, sceneTitle, performers } = props;
+  // Off while a ClipTransition overlay covers the end of the clip instead.
+  const fadeOut = props.fadeOut ?? true;
 
   const sourceUrl = options?.sources?.[0]?.src;
   const offsetStart = offset?.start;
@@ -430,7 +432,7 @@ export const VideoJS = (props) => {
   // Fade out in last 2 seconds before offset end
   React.useEffect(() => {
     const player = playerRef.current;
-    if (!player || !offset) return;
+    if (!player || !offset || !fadeOut) return;
 
     const handleTimeUpdate = () => {
       const clipDuration = (offset.end ?? Infinity) - (offset.start ?? 0);
@@ -439,7 +441,7 @@ export const VideoJS = (props) => {
 
     player.on('timeupdate', handleTimeUpdate);
     return () => player.off('timeupdate', handleTimeUpdate);
-  }, [offset]);
+  }, [offset, fadeOut]);
 
   // Fade in after seek (covers remount and manual seeking)
   React.useEffect(() => {
@@ -485,7 +487,8 @@ const arePropsEqual = (prevProps, nextProps) => {
   // Scene info drives the top-left overlay; refresh when title or performers change.
   const sceneTitleEqual = prevProps.sceneTitle === nextProps.sceneTitle;
   const performersEqual = JSON.stringify(prevProps.performers) === JSON.stringify(nextProps.performers);
-  return sourcesEqual && offsetEqual && onEndedEqual && wallModeEqual && ratingEqual && onRatingChangeEqual && sceneTitleEqual && performersEqual;
+  const fadeOutEqual = prevProps.fadeOut === nextProps.fadeOut;
+  return sourcesEqual && offsetEqual && onEndedEqual && wallModeEqual && ratingEqual && onRatingChangeEqual && sceneTitleEqual && performersEqual && fadeOutEqual;
 };
 
 export default React.memo(VideoJS, arePropsEqual);
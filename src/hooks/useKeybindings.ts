@@ -0,0 +1,64 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useSettings } from "@/app/context/SettingsContext";
+import {
+  HELP_KEY,
+  comboFromEvent,
+  isTypingTarget,
+  keymapFor,
+  parseKeybindingOverrides,
+  resolveKeybindings,
+  type KeybindingActionId,
+  type KeybindingScope,
+} from "@/lib/keybindings";
+
+export type KeybindingHandlers = Partial<Record<KeybindingActionId, () => void>>;
+
+// Binds a scope's shortcuts (see lib/keybindings) on window while mounted.
+// Handlers may change every render; only actions with a handler take their
+// key, so an unhandled binding leaves the key to the browser. "?" toggles
+// the help overlay, which the caller renders with KeyboardShortcutsHelp.
+export function useKeybindings(
+  scope: KeybindingScope,
+  handlers: KeybindingHandlers,
+  options: { enabled?: boolean } = {},
+) {
+  const settings = useSettings();
+  const enabled = options.enabled ?? true;
+  const [helpOpen, setHelpOpen] = useState(false);
+
+  const bindings = useMemo(
+    () => resolveKeybindings(scope, parseKeybindingOverrides(settings["KEYBOARD_SHORTCUTS"])),
+    [scope, settings],
+  );
+  const keymap = useMemo(() => keymapFor(bindings), [bindings]);
+
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || isTypingTarget(e.target)) return;
+      const combo = comboFromEvent(e);
+      if (!combo) return;
+
+      if (combo === HELP_KEY) {
+        e.preventDefault();
+        setHelpOpen((open) => !open);
+        return;
+      }
+      const action = keymap.get(combo);
+      const handler = action ? handlersRef.current[action] : undefined;
+      if (!handler) return;
+      e.preventDefault();
+      handler();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [enabled, keymap]);
+
+  return { bindings, helpOpen, setHelpOpen };
+}
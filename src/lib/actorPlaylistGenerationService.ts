@@ -1,6 +1,6 @@
 // src/lib/actorPlaylistGenerationService.ts
 import prisma from "@/lib/prisma";
-import { buildItemsForPlaylist } from "@/lib/smartPlaylistServer";
+import { refreshSmartPlaylist } from "@/lib/playlistSyncService";
 import * as cron from 'node-cron';
 
 type GenerationResult = {
@@ -251,76 +251,17 @@ export class ActorPlaylistGenerationService {
 
             // Refresh the playlist to populate items
             try {
-              const items = await buildItemsForPlaylist(playlist.id);
-
-              if (items.length > 0) {
-                await prisma.$transaction(async (tx) => {
-                  // Check which items already exist
-                  const itemIds = items.map(item => item.id);
-                  const existingItems = await tx.item.findMany({
-                    where: { id: { in: itemIds } },
-                    select: { id: true },
-                  });
-                  const existingIds = new Set(existingItems.map(i => i.id));
-
-                  // Separate into new items and existing items
-                  const newItems = items.filter(item => !existingIds.has(item.id));
-                  const updateItems = items.filter(item => existingIds.has(item.id));
-
-                  // Bulk create new items
-                  if (newItems.length > 0) {
-                    await tx.item.createMany({
-                      data: newItems.map(item => ({
-                        id: item.id,
-                        title: item.title ?? 'Untitled',
-                        startTime: item.startTime ?? 0,
-                        endTime: item.endTime ?? 0,
-                        screenshot: item.screenshot,
-                        stream: item.stream,
-                        preview: item.preview,
-                        sceneId: item.sceneId,
-                      })),
-                    });
-                  }
-
-                  // Update existing items in parallel
-                  if (updateItems.length > 0) {
-                    await Promise.all(updateItems.map(item =>
-                      tx.item.update({
-                        where: { id: item.id },
-                        data: {
-                          title: item.title ?? 'Untitled',
-                          startTime: item.startTime ?? 0,
-                          endTime: item.endTime ?? 0,
-                          screenshot: item.screenshot,
-                          stream: item.stream,
-                          preview: item.preview,
-                          sceneId: item.sceneId,
-                        },
-                      })
-                    ));
-                  }
-
-                  // Bulk create playlist item links
-                  await tx.playlistItem.createMany({
-                    data: items.map((item, i) => ({
-                      playlistId: playlist.id,
-                      itemId: item.id,
-                      itemOrder: i,
-                    })),
-                  });
-                });
-              }
+              await refreshSmartPlaylist(playlist.id, { allowEmpty: true, trigger: 'template' });
             } catch (refreshError) {
-              // Playlist created but refresh failed - still count as created
-              console.error(`⚠️ Failed to populate playlist ${playlistName}:`, refreshError);
+              // Playlist created but refresh failed - still count as created,
+              // but record it so the run's log shows which playlist is empty
+              const errorMessage = `Created playlist "${playlistName}" but failed to populate it: ${refreshError instanceof Error ? refreshError.message : 'Unknown error'}`;
+              console.error(`⚠️ ${errorMessage}`);
+              errors.push(errorMessage);
             }
 
             playlistsCreated++;
             console.log(`✅ Created playlist: ${playlistName}`);
-
-            // Add a small delay to avoid overwhelming the system
-            await new Promise(resolve => setTimeout(resolve, 100));
           } catch (error) {
             const errorMessage = `Failed to create playlist "${playlistName}": ${error instanceof Error ? error.message : 'Unknown error'}`;
             console.error(`❌ ${errorMessage}`);
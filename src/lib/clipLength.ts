@@ -0,0 +1,94 @@
+// src/lib/clipLength.ts
+//
+// Clip timing for smart playlists: the per-playlist `conditions.clip`
+// block (before/after padding and the optional fixed-length mode) and the
+// min/max marker-duration filter.
+//
+// Pure module: shared by the rule builder UI, smartPlaylistServer and the
+// editor export and render job services.
+
+// "centre" keeps the middle of the marker; "trim" keeps its start. Either
+// way every clip comes out exactly `fixedLength` seconds long, extending
+// short markers as well as cutting long ones.
+export type FixedClipMode = "centre" | "trim";
+
+export type ClipConditions = {
+  before?: number;                 // Seconds before the marker (overrides DEFAULT_CLIP_BEFORE)
+  after?: number;                  // Seconds after the marker (overrides DEFAULT_CLIP_AFTER)
+  fixedLength?: number | null;     // Seconds; null/absent = use the marker's own length
+  fixedMode?: FixedClipMode | null;
+};
+
+function nonNegative(raw: unknown): number | undefined {
+  if (raw == null || raw === "") return undefined;
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
+export function parseClipConditions(raw: unknown): ClipConditions | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+
+  const clip: ClipConditions = {};
+  const before = nonNegative(r.before);
+  const after = nonNegative(r.after);
+  if (before !== undefined) clip.before = before;
+  if (after !== undefined) clip.after = after;
+
+  const fixedLength = nonNegative(r.fixedLength);
+  if (fixedLength !== undefined && fixedLength >= 1) {
+    clip.fixedLength = Math.floor(fixedLength);
+    clip.fixedMode = r.fixedMode === "trim" ? "trim" : "centre";
+  }
+
+  return Object.keys(clip).length ? clip : null;
+}
+
+// Min/max marker duration in seconds; a bound that isn't a positive
+// number is ignored, and a max below the min is dropped.
+export function parseDurationBounds(
+  rawMin: unknown,
+  rawMax: unknown,
+): { minDuration: number | null; maxDuration: number | null } {
+  const min = nonNegative(rawMin);
+  const max = nonNegative(rawMax);
+  const minDuration = min ? min : null;
+  const maxDuration = max && (minDuration == null || max >= minDuration) ? max : null;
+  return { minDuration, maxDuration };
+}
+
+// A marker's own length, using `fallbackLength` when it has no end time.
+export function markerDuration(
+  seconds: number,
+  endSeconds: number | null | undefined,
+  fallbackLength: number,
+): number {
+  return endSeconds == null ? fallbackLength : Math.max(0, endSeconds - seconds);
+}
+
+// Where a clip cut from a marker ends: the marker's own end when it has one
+// after its start, otherwise `fallbackLength` (DEFAULT_CLIP_FALLBACK_LENGTH) later.
+export function clipEnd(startTime: number, endTime: number | null | undefined, fallbackLength: number): number {
+  return endTime != null && endTime > startTime ? endTime : startTime + fallbackLength;
+}
+
+// The [start, end) window to play for a marker, in whole seconds.
+export function clipWindow(
+  seconds: number,
+  endSeconds: number | null | undefined,
+  opts: { before: number; after: number; fallbackLength: number; fixedLength?: number | null; fixedMode?: FixedClipMode | null },
+): { start: number; end: number } {
+  const markerEnd = endSeconds ?? seconds + opts.fallbackLength;
+
+  // Fixed length replaces before/after padding: the point is a uniform length.
+  if (opts.fixedLength) {
+    const length = opts.fixedLength;
+    const anchor = opts.fixedMode === "trim" ? seconds : (seconds + markerEnd) / 2 - length / 2;
+    const start = Math.max(0, Math.floor(anchor));
+    return { start, end: start + length };
+  }
+
+  const start = Math.max(0, Math.floor(seconds - opts.before));
+  const end = Math.max(start + 1, Math.floor(markerEnd + opts.after));
+  return { start, end };
+}
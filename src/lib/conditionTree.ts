@@ -0,0 +1,138 @@
+// src/lib/conditionTree.ts
+//
+// Recursive AND / OR / NOT rule groups for smart playlist conditions, e.g.
+// "(Actor A OR Actor B) AND tag X AND NOT tag Y". Pure helpers only (no
+// Prisma or Stash access) so the rule builder UI and smartPlaylistServer
+// share one shape, one parser and one evaluator.
+//
+// The tree lives in `conditions.rules` and is ANDed with the flat
+// actor/tag fields, so playlists saved before groups existed load and
+// evaluate exactly as they did.
+
+export type RuleLeaf = { kind: 'actor' | 'tag'; id: string };
+
+// 'not' matches when NONE of its children match (NOT (a OR b ...)).
+export type RuleGroupOp = 'and' | 'or' | 'not';
+
+export type RuleGroup = { kind: 'group'; op: RuleGroupOp; children: RuleNode[] };
+
+export type RuleNode = RuleLeaf | RuleGroup;
+
+// Deep enough for any realistic rule; stops runaway JSON from recursing forever.
+export const MAX_RULE_DEPTH = 5;
+
+export function emptyRuleGroup(op: RuleGroupOp = 'and'): RuleGroup {
+  return { kind: 'group', op, children: [] };
+}
+
+function parseNode(raw: unknown, depth: number): RuleNode | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+
+  if ((r.kind === 'actor' || r.kind === 'tag') && r.id != null && String(r.id).trim()) {
+    return { kind: r.kind, id: String(r.id) };
+  }
+
+  if (r.kind === 'group' && depth < MAX_RULE_DEPTH) {
+    const op: RuleGroupOp = r.op === 'or' || r.op === 'not' ? r.op : 'and';
+    const children = Array.isArray(r.children)
+      ? r.children
+          .map((c) => parseNode(c, depth + 1))
+          .filter((c): c is RuleNode => c !== null)
+      : [];
+    return { kind: 'group', op, children };
+  }
+
+  return null;
+}
+
+// Sanitise an untrusted `conditions.rules` value. Empty groups are kept so
+// the editor can round-trip a group the user has added but not filled yet;
+// use pruneRuleGroup before evaluating.
+export function parseRuleGroup(raw: unknown): RuleGroup | null {
+  const node = parseNode(raw, 0);
+  return node && node.kind === 'group' ? node : null;
+}
+
+// Drop empty groups (recursively). Returns null when nothing constraining is left.
+export function pruneRuleGroup(group: RuleGroup | null | undefined): RuleGroup | null {
+  if (!group) return null;
+  const children: RuleNode[] = [];
+  for (const child of group.children) {
+    if (child.kind === 'group') {
+      const pruned = pruneRuleGroup(child);
+      if (pruned) children.push(pruned);
+    } else {
+      children.push(child);
+    }
+  }
+  return children.length ? { ...group, children } : null;
+}
+
+export function hasRules(group: RuleGroup | null | undefined): boolean {
+  return pruneRuleGroup(group) !== null;
+}
+
+export type RuleSubject = { actorIds: Set<string>; tagIds: Set<string> };
+
+export function evaluateRuleNode(node: RuleNode, subject: RuleSubject): boolean {
+  if (node.kind !== 'group') {
+    return (node.kind === 'actor' ? subject.actorIds : subject.tagIds).has(node.id);
+  }
+
+  // Empty groups never constrain (pruneRuleGroup normally removes them first).
+  if (node.children.length === 0) return true;
+  switch (node.op) {
+    case 'or':
+      return node.children.some((c) => evaluateRuleNode(c, subject));
+    case 'not':
+      return !node.children.some((c) => evaluateRuleNode(c, subject));
+    case 'and':
+    default:
+      return node.children.every((c) => evaluateRuleNode(c, subject));
+  }
+}
+
+// Leaves every match must have: the direct positive children of a top-level
+// AND group. These can be pushed down to Stash as INCLUDES_ALL clauses.
+export function requiredLeaves(group: RuleGroup | null): { actorIds: string[]; tagIds: string[] } {
+  const out = { actorIds: [] as string[], tagIds: [] as string[] };
+  if (!group || group.op !== 'and') return out;
+  for (const child of group.children) {
+    if (child.kind === 'actor') out.actorIds.push(child.id);
+    else if (child.kind === 'tag') out.tagIds.push(child.id);
+  }
+  return out;
+}
+
+// A set of leaves of which every match has at least one — used to narrow
+// the Stash query with an INCLUDES clause when nothing is strictly
+// required (e.g. a top-level OR). Returns null when no such set exists,
+// which is always the case under a NOT.
+export function positiveCover(node: RuleNode): { actorIds: string[]; tagIds: string[] } | null {
+  if (node.kind !== 'group') {
+    return node.kind === 'actor'
+      ? { actorIds: [node.id], tagIds: [] }
+      : { actorIds: [], tagIds: [node.id] };
+  }
+  if (node.op === 'not' || node.children.length === 0) return null;
+
+  const covers = node.children.map(positiveCover);
+  if (node.op === 'or') {
+    if (covers.some((c) => c === null)) return null;
+    return {
+      actorIds: Array.from(new Set(covers.flatMap((c) => c!.actorIds))),
+      tagIds: Array.from(new Set(covers.flatMap((c) => c!.tagIds))),
+    };
+  }
+
+  // AND: any child's cover works. Prefer single-kind covers (Stash takes one
+  // INCLUDES list per field), then the smallest, which narrows the most.
+  const rank = (c: { actorIds: string[]; tagIds: string[] }) =>
+    (c.actorIds.length && c.tagIds.length ? 1_000_000 : 0) + c.actorIds.length + c.tagIds.length;
+  let best: { actorIds: string[]; tagIds: string[] } | null = null;
+  for (const c of covers) {
+    if (c && (!best || rank(c) < rank(best))) best = c;
+  }
+  return best;
+}
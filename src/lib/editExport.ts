@@ -0,0 +1,171 @@
+// src/lib/editExport.ts
+//
+// Marker selections for editors and muxers: a CMX3600 EDL (Resolve,
+// Kdenlive, Premiere) and chapter files (FFmetadata for `ffmpeg -i in
+// -i chapters.txt -map_metadata 1`, WebVTT for players). Clips point at
+// their scene's file on the Stash server's disk, not at a stream URL.
+//
+// Chapters run on one of two timelines: "source" keeps each marker's time
+// in its own scene file (a scene's markers, muxed back into that file);
+// "sequence" lays the clips end to end (a playlist cut together).
+//
+// An EDL has a single frame rate, taken from the first clip's file and
+// rounded to whole frames per second (non-drop-frame timecode).
+//
+// Pure module: shared by the export routes and the export menus.
+
+export const EDIT_EXPORT_FORMATS = ["edl", "ffmetadata", "vtt"] as const;
+export type EditExportFormat = (typeof EDIT_EXPORT_FORMATS)[number];
+
+export const EDIT_EXPORT_LABELS: Record<EditExportFormat, string> = {
+  edl: "EDL (CMX3600)",
+  ffmetadata: "FFmetadata chapters",
+  vtt: "WebVTT chapters",
+};
+
+export const EDIT_EXPORT_EXTENSIONS: Record<EditExportFormat, string> = {
+  edl: "edl",
+  ffmetadata: "ffmetadata.txt",
+  vtt: "chapters.vtt",
+};
+
+export const EDIT_EXPORT_CONTENT_TYPES: Record<EditExportFormat, string> = {
+  edl: "text/plain; charset=utf-8",
+  ffmetadata: "text/plain; charset=utf-8",
+  vtt: "text/vtt; charset=utf-8",
+};
+
+export type ChapterTimeline = "source" | "sequence";
+
+const DEFAULT_FRAME_RATE = 30;
+
+export type EditClip = {
+  title: string;
+  sourcePath: string; // The scene file's path on the Stash server
+  startTime: number;
+  endTime: number;
+  frameRate: number | null;
+};
+
+type Chapter = { title: string; start: number; end: number };
+
+export function parseEditExportFormat(raw: unknown): EditExportFormat | null {
+  return EDIT_EXPORT_FORMATS.includes(raw as EditExportFormat) ? (raw as EditExportFormat) : null;
+}
+
+function chaptersOf(clips: EditClip[], timeline: ChapterTimeline): Chapter[] {
+  let at = 0;
+  return clips.map((clip) => {
+    const length = Math.max(0, clip.endTime - clip.startTime);
+    if (timeline === "source") return { title: clip.title, start: clip.startTime, end: clip.endTime };
+    const chapter = { title: clip.title, start: at, end: at + length };
+    at += length;
+    return chapter;
+  });
+}
+
+// --- EDL ---------------------------------------------------------------
+
+function edlFrameRate(clips: EditClip[]): number {
+  const rate = clips.find((c) => c.frameRate && c.frameRate > 0)?.frameRate;
+  return rate ? Math.max(1, Math.round(rate)) : DEFAULT_FRAME_RATE;
+}
+
+// HH:MM:SS:FF
+function timecode(seconds: number, fps: number): string {
+  const totalFrames = Math.max(0, Math.round(seconds * fps));
+  const frames = totalFrames % fps;
+  const totalSeconds = Math.floor(totalFrames / fps);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)}:${pad(frames)}`;
+}
+
+function baseName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath;
+}
+
+// EDL lines are plain ASCII-ish text; comments end at the line.
+function edlText(text: string): string {
+  return text.replace(/[\r\n]+/g, " ").trim();
+}
+
+// The record timeline starts at one hour, as editors expect.
+const RECORD_START_SECONDS = 3600;
+
+export function buildEdl(title: string, clips: EditClip[]): string {
+  const fps = edlFrameRate(clips);
+  const lines = [`TITLE: ${edlText(title).slice(0, 70)}`, "FCM: NON-DROP FRAME", ""];
+  let record = RECORD_START_SECONDS;
+  clips.forEach((clip, index) => {
+    const length = Math.max(0, clip.endTime - clip.startTime);
+    const event = String(index + 1).padStart(3, "0");
+    lines.push(
+      `${event}  AX       B     C        ${timecode(clip.startTime, fps)} ${timecode(clip.endTime, fps)} ${timecode(record, fps)} ${timecode(record + length, fps)}`,
+    );
+    lines.push(`* FROM CLIP NAME: ${edlText(baseName(clip.sourcePath))}`);
+    lines.push(`* SOURCE FILE: ${edlText(clip.sourcePath)}`);
+    lines.push(`* COMMENT: ${edlText(clip.title)}`);
+    lines.push("");
+    record += length;
+  });
+  return lines.join("\n");
+}
+
+// --- FFmetadata --------------------------------------------------------
+
+// '=', ';', '#', '\' and newlines are escaped with a backslash.
+function ffmetaText(text: string): string {
+  return text.replace(/[\\=;#\n]/g, (c) => `\\${c}`);
+}
+
+export function buildFfmetadata(title: string, clips: EditClip[], timeline: ChapterTimeline): string {
+  const lines = [";FFMETADATA1", `title=${ffmetaText(title)}`, ""];
+  for (const chapter of chaptersOf(clips, timeline)) {
+    lines.push("[CHAPTER]");
+    lines.push("TIMEBASE=1/1000");
+    lines.push(`START=${Math.round(chapter.start * 1000)}`);
+    lines.push(`END=${Math.round(chapter.end * 1000)}`);
+    lines.push(`title=${ffmetaText(chapter.title)}`);
+    lines.push("");
+  }
+  return lines.join("\n");
+}
+
+// --- WebVTT ------------------------------------------------------------
+
+// HH:MM:SS.mmm
+function vttTime(seconds: number): string {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+  const s = Math.floor(ms / 1000);
+  return `${pad(Math.floor(s / 3600))}:${pad(Math.floor(s / 60) % 60)}:${pad(s % 60)}.${pad(ms % 1000, 3)}`;
+}
+
+export function buildVttChapters(title: string, clips: EditClip[], timeline: ChapterTimeline): string {
+  // "-->" would end a cue's timing line early, and a blank line its text.
+  const lines = ["WEBVTT", "", `NOTE ${title.replace(/-->/g, "->").replace(/[\r\n]+/g, " ")}`, ""];
+  chaptersOf(clips, timeline).forEach((chapter, index) => {
+    lines.push(String(index + 1));
+    lines.push(`${vttTime(chapter.start)} --> ${vttTime(chapter.end)}`);
+    lines.push(chapter.title.replace(/-->/g, "->").replace(/[\r\n]+/g, " ") || `Chapter ${index + 1}`);
+    lines.push("");
+  });
+  return lines.join("\n");
+}
+
+export function buildEditExport(
+  format: EditExportFormat,
+  title: string,
+  clips: EditClip[],
+  timeline: ChapterTimeline,
+): string {
+  if (format === "edl") return buildEdl(title, clips);
+  if (format === "ffmetadata") return buildFfmetadata(title, clips, timeline);
+  return buildVttChapters(title, clips, timeline);
+}
+
+// "My Playlist.chapters.vtt", without characters file systems reject.
+export function editExportFileName(title: string, format: EditExportFormat): string {
+  const base = title.replace(/[\\/:*?"<>|\x00-\x1f]+/g, " ").replace(/\s+/g, " ").trim() || "markers";
+  return `${base}.${EDIT_EXPORT_EXTENSIONS[format]}`;
+}
@@ -0,0 +1,123 @@
+// src/lib/editExportService.ts
+//
+// Collects the clips for an editor export (see editExport.ts): a playlist's
+// items in play order, or one scene's markers in time order, each with its
+// scene file's path and frame rate from Stash.
+import { prisma } from "@/lib/prisma";
+import { stashGraph } from "@/lib/smartPlaylistServer";
+import { sceneIdOf } from "@/lib/shuffleService";
+import { getDefaultClipSettings } from "@/lib/settingsDefinitions";
+import { clipEnd } from "@/lib/clipLength";
+import type { EditClip } from "@/lib/editExport";
+
+type SceneFile = { path: string; frameRate: number | null; duration: number | null };
+
+type StashSceneFile = { path: string; frame_rate: number | null; duration: number | null };
+
+function primaryFile(files: StashSceneFile[] | null | undefined): SceneFile | null {
+  const file = files?.[0];
+  return file ? { path: file.path, frameRate: file.frame_rate, duration: file.duration } : null;
+}
+
+async function fetchSceneFiles(sceneIds: string[]): Promise<Map<string, SceneFile>> {
+  const result = new Map<string, SceneFile>();
+  if (!sceneIds.length) return result;
+
+  const data = await stashGraph<{
+    findScenes: { scenes: Array<{ id: string; files: StashSceneFile[] }> };
+  }>(
+    `query EditExportSceneFiles($ids: [ID!]) {
+      findScenes(ids: $ids, filter: { per_page: -1 }) {
+        scenes { id files { path frame_rate duration } }
+      }
+    }`,
+    { ids: sceneIds },
+  );
+  for (const scene of data.findScenes.scenes) {
+    const file = primaryFile(scene.files);
+    if (file) result.set(String(scene.id), file);
+  }
+  return result;
+}
+
+// Items whose scene has no file in Stash (deleted, or never backfilled with
+// a scene id) are left out and counted in `missing`.
+export async function loadPlaylistEditClips(
+  playlistId: string,
+): Promise<{ title: string; clips: EditClip[]; missing: number } | null> {
+  const playlist = await prisma.playlist.findUnique({
+    where: { id: playlistId },
+    select: {
+      name: true,
+      items: {
+        orderBy: { itemOrder: "asc" },
+        select: { item: { select: { title: true, sceneId: true, stream: true, startTime: true, endTime: true } } },
+      },
+    },
+  });
+  if (!playlist) return null;
+
+  const { fallbackLength } = await getDefaultClipSettings();
+  const items = playlist.items.map(({ item }) => ({ ...item, sceneId: sceneIdOf(item) }));
+  const files = await fetchSceneFiles([...new Set(items.map((i) => i.sceneId).filter((v): v is string => !!v))]);
+
+  const clips: EditClip[] = [];
+  for (const item of items) {
+    const file = item.sceneId ? files.get(item.sceneId) : undefined;
+    if (!file) continue;
+    clips.push({
+      title: item.title,
+      sourcePath: file.path,
+      startTime: item.startTime,
+      endTime: clipEnd(item.startTime, item.endTime, fallbackLength),
+      frameRate: file.frameRate,
+    });
+  }
+  return { title: playlist.name, clips, missing: items.length - clips.length };
+}
+
+// A marker without an end runs to the next marker, or to the end of the file.
+export async function loadSceneEditClips(sceneId: string): Promise<{ title: string; clips: EditClip[] } | null> {
+  const data = await stashGraph<{
+    findScene: {
+      id: string;
+      title: string | null;
+      files: StashSceneFile[];
+      scene_markers: Array<{ title: string; seconds: number; end_seconds: number | null; primary_tag: { name: string } | null }>;
+    } | null;
+  }>(
+    `query EditExportScene($id: ID!) {
+      findScene(id: $id) {
+        id
+        title
+        files { path frame_rate duration }
+        scene_markers { title seconds end_seconds primary_tag { name } }
+      }
+    }`,
+    { id: sceneId },
+  );
+  const scene = data.findScene;
+  if (!scene) return null;
+
+  const file = primaryFile(scene.files);
+  if (!file) return { title: scene.title || `Scene ${sceneId}`, clips: [] };
+
+  const { fallbackLength } = await getDefaultClipSettings();
+  const markers = [...scene.scene_markers].sort((a, b) => a.seconds - b.seconds);
+  const clips = markers.map((marker, index) => {
+    const next = markers.slice(index + 1).find((m) => m.seconds > marker.seconds)?.seconds;
+    const fallbackEnd = next ?? (file.duration && file.duration > marker.seconds ? file.duration : null);
+    return {
+      title: marker.title || marker.primary_tag?.name || `Marker ${index + 1}`,
+      sourcePath: file.path,
+      startTime: marker.seconds,
+      endTime: clipEnd(marker.seconds, marker.end_seconds ?? fallbackEnd, fallbackLength),
+      frameRate: file.frameRate,
+    };
+  });
+  return { title: scene.title || baseTitle(file.path), clips };
+}
+
+function baseTitle(filePath: string): string {
+  return (filePath.split(/[\\/]/).pop() || filePath).replace(/\.[^.]+$/, "");
+}
@@ -0,0 +1,212 @@
+// src/lib/keybindings.ts
+//
+// Keyboard shortcuts for the playlist player, the video wall and the scene
+// timeline editor. Every action has default keys; the KEYBOARD_SHORTCUTS
+// setting maps action ids to replacement keys, e.g.
+//   { "player.next": ["N", "Shift+ArrowRight"], "wall.swap": "Enter" }
+// Keys are written as combos: optional Ctrl+/Alt+/Meta+/Shift+ prefixes and
+// a base key ("A", "7", "Space", "ArrowLeft", "Delete", "?"). Letters and
+// digits are matched by physical key, so Shift+1 works on any layout.
+//
+// Pure module: shared by useKeybindings, the help overlay and the settings
+// page's shortcut editor.
+
+export const KEYBINDING_SCOPES = ["player", "wall", "timeline"] as const;
+export type KeybindingScope = (typeof KEYBINDING_SCOPES)[number];
+
+export const KEYBINDING_SCOPE_LABELS: Record<KeybindingScope, string> = {
+  player: "Playlist player",
+  wall: "Video wall",
+  timeline: "Timeline editor",
+};
+
+export const KEYBINDING_ACTIONS = [
+  { id: "player.playPause", scope: "player", label: "Play / pause", keys: ["Space", "K"] },
+  { id: "player.next", scope: "player", label: "Next clip", keys: ["N", "Shift+ArrowRight"] },
+  { id: "player.previous", scope: "player", label: "Previous clip", keys: ["P", "Shift+ArrowLeft"] },
+  { id: "player.seekBack", scope: "player", label: "Back 5 seconds", keys: ["ArrowLeft"] },
+  { id: "player.seekForward", scope: "player", label: "Forward 5 seconds", keys: ["ArrowRight"] },
+  { id: "player.mute", scope: "player", label: "Mute / unmute", keys: ["M"] },
+  { id: "player.fullscreen", scope: "player", label: "Fullscreen", keys: ["F"] },
+  { id: "player.rateDislike", scope: "player", label: "Rate Dislike", keys: ["D"] },
+  { id: "player.rateLike", scope: "player", label: "Rate Like", keys: ["L"] },
+  { id: "player.rateLove", scope: "player", label: "Rate Love", keys: ["Shift+L"] },
+  { id: "player.slower", scope: "player", label: "Slower", keys: ["<"] },
+  { id: "player.faster", scope: "player", label: "Faster", keys: [">"] },
+  { id: "player.abRepeat", scope: "player", label: "A-B repeat: set A, set B, clear", keys: ["R"] },
+
+  { id: "wall.pauseAll", scope: "wall", label: "Pause / play all", keys: ["Space"] },
+  { id: "wall.fullscreen", scope: "wall", label: "Fullscreen", keys: ["F"] },
+  { id: "wall.select1", scope: "wall", label: "Select tile 1", keys: ["1"] },
+  { id: "wall.select2", scope: "wall", label: "Select tile 2", keys: ["2"] },
+  { id: "wall.select3", scope: "wall", label: "Select tile 3", keys: ["3"] },
+  { id: "wall.select4", scope: "wall", label: "Select tile 4", keys: ["4"] },
+  { id: "wall.select5", scope: "wall", label: "Select tile 5", keys: ["5"] },
+  { id: "wall.select6", scope: "wall", label: "Select tile 6", keys: ["6"] },
+  { id: "wall.select7", scope: "wall", label: "Select tile 7", keys: ["7"] },
+  { id: "wall.select8", scope: "wall", label: "Select tile 8", keys: ["8"] },
+  { id: "wall.select9", scope: "wall", label: "Select tile 9", keys: ["9"] },
+  { id: "wall.mute", scope: "wall", label: "Mute / unmute selected tile", keys: ["M"] },
+  { id: "wall.swap", scope: "wall", label: "Swap selected tile's clip", keys: ["S"] },
+  { id: "wall.rateDislike", scope: "wall", label: "Rate selected Dislike", keys: ["D"] },
+  { id: "wall.rateLike", scope: "wall", label: "Rate selected Like", keys: ["L"] },
+  { id: "wall.rateLove", scope: "wall", label: "Rate selected Love", keys: ["Shift+L"] },
+
+  { id: "timeline.playPause", scope: "timeline", label: "Play / pause", keys: ["Space"] },
+  { id: "timeline.seekBack", scope: "timeline", label: "Back 5 seconds", keys: ["ArrowLeft"] },
+  { id: "timeline.seekForward", scope: "timeline", label: "Forward 5 seconds", keys: ["ArrowRight"] },
+  { id: "timeline.deleteSelected", scope: "timeline", label: "Delete selected markers", keys: ["Delete", "Backspace"] },
+  { id: "timeline.mergeSelected", scope: "timeline", label: "Merge selected markers", keys: ["M"] },
+  { id: "timeline.clearSelection", scope: "timeline", label: "Clear selection", keys: ["Escape"] },
+] as const satisfies readonly { id: string; scope: KeybindingScope; label: string; keys: readonly string[] }[];
+
+export type KeybindingActionId = (typeof KEYBINDING_ACTIONS)[number]["id"];
+
+// Action id -> keys, from the KEYBOARD_SHORTCUTS setting.
+export type KeybindingOverrides = Partial<Record<KeybindingActionId, string[]>>;
+
+// Always available: toggles the shortcut help overlay.
+export const HELP_KEY = "?";
+
+const MODIFIERS = ["Ctrl", "Alt", "Meta", "Shift"] as const;
+
+const KEY_ALIASES: Record<string, string> = {
+  " ": "Space",
+  Spacebar: "Space",
+  Esc: "Escape",
+  Del: "Delete",
+  Left: "ArrowLeft",
+  Right: "ArrowRight",
+  Up: "ArrowUp",
+  Down: "ArrowDown",
+};
+
+const ACTION_IDS = new Set<string>(KEYBINDING_ACTIONS.map((a) => a.id));
+
+// Canonical form of a written combo: modifiers in a fixed order, single
+// letters upper-cased. Returns null for an empty or modifier-only combo.
+export function normalizeCombo(raw: string): string | null {
+  const parts = raw.split("+").map((p) => p.trim());
+  // "Shift++" and "+" mean the plus key itself.
+  if (raw.endsWith("+")) parts.splice(parts.length - 2, 2, "+");
+  const mods = new Set<string>();
+  let base = "";
+  for (const part of parts) {
+    const mod = MODIFIERS.find((m) => m.toLowerCase() === part.toLowerCase() || (m === "Ctrl" && /^control$/i.test(part)));
+    if (mod) mods.add(mod);
+    else if (part) base = part;
+  }
+  if (!base) return null;
+  base = KEY_ALIASES[base] ?? (base.length === 1 ? base.toUpperCase() : base);
+  return [...MODIFIERS.filter((m) => mods.has(m)), base].join("+");
+}
+
+// The combo a keydown event produces, in normalizeCombo's form. Letters and
+// digits come from the physical key; other printable characters already
+// include Shift ("?" rather than "Shift+/"), so Shift isn't added to them.
+export function comboFromEvent(e: Pick<KeyboardEvent, "key" | "code" | "ctrlKey" | "altKey" | "metaKey" | "shiftKey">): string | null {
+  if (["Control", "Alt", "Meta", "Shift"].includes(e.key)) return null;
+  const physical = /^Key([A-Z])$/.exec(e.code)?.[1] ?? /^Digit(\d)$/.exec(e.code)?.[1];
+  let base: string;
+  let shiftCounts = true;
+  if (physical) base = physical;
+  else if (e.code === "Space" || e.key === " ") base = "Space";
+  else if (e.key.length === 1) {
+    base = e.key.toUpperCase();
+    shiftCounts = false;
+  } else base = KEY_ALIASES[e.key] ?? e.key;
+
+  const mods: string[] = [];
+  if (e.ctrlKey) mods.push("Ctrl");
+  if (e.altKey) mods.push("Alt");
+  if (e.metaKey) mods.push("Meta");
+  if (e.shiftKey && shiftCounts) mods.push("Shift");
+  return [...mods, base].join("+");
+}
+
+// Unknown action ids and unparseable keys are dropped; an empty list
+// unbinds the action.
+export function parseKeybindingOverrides(raw: string | undefined | null): KeybindingOverrides {
+  if (!raw || !raw.trim()) return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return {};
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return {};
+
+  const overrides: KeybindingOverrides = {};
+  for (const [id, value] of Object.entries(parsed as Record<string, unknown>)) {
+    if (!ACTION_IDS.has(id)) continue;
+    const list = Array.isArray(value) ? value : [value];
+    overrides[id as KeybindingActionId] = list
+      .filter((k): k is string => typeof k === "string")
+      .map(normalizeCombo)
+      .filter((k): k is string => !!k);
+  }
+  return overrides;
+}
+
+export type ResolvedKeybinding = {
+  id: KeybindingActionId;
+  label: string;
+  keys: string[];
+};
+
+// The effective keys for every action in a scope, in definition order.
+export function resolveKeybindings(scope: KeybindingScope, overrides: KeybindingOverrides): ResolvedKeybinding[] {
+  return KEYBINDING_ACTIONS.filter((a) => a.scope === scope).map((a) => ({
+    id: a.id,
+    label: a.label,
+    keys: overrides[a.id] ?? a.keys.map((k) => normalizeCombo(k) ?? k),
+  }));
+}
+
+// Combo -> action id for a scope. If two actions share a key the one
+// listed first wins.
+export function keymapFor(bindings: ResolvedKeybinding[]): Map<string, KeybindingActionId> {
+  const map = new Map<string, KeybindingActionId>();
+  for (const binding of bindings) {
+    for (const key of binding.keys) {
+      if (!map.has(key)) map.set(key, binding.id);
+    }
+  }
+  return map;
+}
+
+// Display form: "Shift+ArrowLeft" -> "Shift + ←".
+const KEY_SYMBOLS: Record<string, string> = {
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  Escape: "Esc",
+  Delete: "Del",
+  Backspace: "⌫",
+};
+
+export function formatCombo(combo: string): string {
+  return combo
+    .split("+")
+    .map((part) => KEY_SYMBOLS[part] ?? part)
+    .join(" + ");
+}
+
+// Keys typed into fields (and into Joy's autocompletes and selects) are
+// never shortcuts.
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.tagName === "INPUT" ||
+    target.tagName === "TEXTAREA" ||
+    target.tagName === "SELECT" ||
+    target.isContentEditable ||
+    target.role === "combobox" ||
+    target.role === "listbox" ||
+    target.role === "textbox" ||
+    !!target.closest('[role="combobox"]') ||
+    !!target.closest('[role="listbox"]') ||
+    !!target.closest(".MuiAutocomplete-root")
+  );
+}
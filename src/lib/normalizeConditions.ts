@@ -3,13 +3,28 @@
 // Single source of truth for parsing a Playlist.conditions JSON blob into
 // the normalised shape both the list and per-id playlist API routes return.
 
+import { parseRuleGroup, type RuleGroup } from "@/lib/conditionTree";
+import { parsePlaylistSort, type PlaylistSort } from "@/lib/playlistSort";
+import { parseSceneConditions, type SceneConditions } from "@/lib/sceneConditions";
+import { parseClipConditions, parseDurationBounds, type ClipConditions } from "@/lib/clipLength";
+import { parsePlaylistSelection, type PlaylistSelection } from "@/lib/playlistSelection";
+
 export type ParsedConditions = {
   actorIds: string[];
   tagIds: string[];
   requiredTagIds: string[];
   optionalTagIds: string[];
+  excludedTagIds: string[];
+  excludedActorIds: string[];
   minRating: number | null;
   exactRating: number | null;
+  rules: RuleGroup | null;
+  scene: SceneConditions | null;
+  minDuration: number | null;
+  maxDuration: number | null;
+  clip: ClipConditions | null;
+  selection: PlaylistSelection | null;
+  sort: PlaylistSort | null;
 };
 
 function safeParse(s: string): unknown {
@@ -32,7 +47,15 @@ export function normalizeConditions(raw: unknown): ParsedConditions {
     tagIds: Array.isArray(c?.tagIds) ? c.tagIds.map(String) : [],
     requiredTagIds: Array.isArray(c?.requiredTagIds) ? c.requiredTagIds.map(String) : [],
     optionalTagIds: Array.isArray(c?.optionalTagIds) ? c.optionalTagIds.map(String) : [],
+    excludedTagIds: Array.isArray(c?.excludedTagIds) ? c.excludedTagIds.map(String) : [],
+    excludedActorIds: Array.isArray(c?.excludedActorIds) ? c.excludedActorIds.map(String) : [],
     minRating: typeof c?.minRating === "number" ? c.minRating : null,
     exactRating: typeof c?.exactRating === "number" ? c.exactRating : null,
+    rules: parseRuleGroup(c?.rules),
+    scene: parseSceneConditions(c?.scene),
+    ...parseDurationBounds(c?.minDuration, c?.maxDuration),
+    clip: parseClipConditions(c?.clip),
+    selection: parsePlaylistSelection(c?.selection),
+    sort: parsePlaylistSort(c?.sort),
   };
 }
@@ -0,0 +1,77 @@
+// src/lib/playEventService.ts
+//
+// Records a PlayEvent each time a clip stops playing and keeps the Item's
+// playCount / skipCount counters in step (see playEvents.ts for what counts
+// as a skip).
+import { prisma } from "@/lib/prisma";
+import { getSkipThresholdPercent } from "@/lib/settingsDefinitions";
+import { classifyPlay, type PlayOutcome } from "@/lib/playEvents";
+
+export type PlayReport = {
+  playlistId?: string | null;
+  // Seconds into the clip when it stopped; unknown = the whole clip
+  watchedSeconds?: number | null;
+  // The clip ran to its end (the player's 'ended' event), rather than the
+  // player moving on early
+  ended: boolean;
+};
+
+// Returns null when the item doesn't exist.
+export async function recordPlayEvent(itemId: string, report: PlayReport) {
+  const item = await prisma.item.findUnique({
+    where: { id: itemId },
+    select: { id: true, startTime: true, endTime: true },
+  });
+  if (!item) return null;
+
+  const clipSeconds = Math.max(0, item.endTime - item.startTime);
+  const watched = report.watchedSeconds;
+  const watchedSeconds =
+    watched != null && Number.isFinite(watched) && watched >= 0 ? Math.min(watched, clipSeconds || watched) : clipSeconds;
+
+  const outcome: PlayOutcome = classifyPlay({
+    ended: report.ended,
+    watchedSeconds,
+    clipSeconds,
+    thresholdPercent: report.ended ? 100 : await getSkipThresholdPercent(),
+  });
+
+  // A playlist that has since been deleted would fail the foreign key.
+  let playlistId = report.playlistId || null;
+  if (playlistId) {
+    const playlist = await prisma.playlist.findUnique({ where: { id: playlistId }, select: { id: true } });
+    if (!playlist) playlistId = null;
+  }
+
+  const now = new Date();
+  const [, updated] = await prisma.$transaction([
+    prisma.playEvent.create({
+      data: { itemId, playlistId, outcome, watchedSeconds, createdAt: now },
+    }),
+    prisma.item.update({
+      where: { id: itemId },
+      data:
+        outcome === "completed"
+          ? { playCount: { increment: 1 }, lastPlayedAt: now }
+          : { skipCount: { increment: 1 }, lastSkippedAt: now },
+      select: { id: true, playCount: true, lastPlayedAt: true, skipCount: true, lastSkippedAt: true },
+    }),
+  ]);
+
+  return { outcome, item: updated };
+}
+
+// Optional JSON body of /api/items/[id]/play and /skip. Older callers post
+// no body at all.
+export async function readPlayReport(request: Request): Promise<Omit<PlayReport, "ended">> {
+  try {
+    const body = await request.json();
+    if (!body || typeof body !== "object") return {};
+    return {
+      playlistId: typeof body.playlistId === "string" ? body.playlistId : null,
+      watchedSeconds: typeof body.watchedSeconds === "number" ? body.watchedSeconds : null,
+    };
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,38 @@
+// src/lib/playEvents.ts
+//
+// How a clip stopped playing (`PlayEvent.outcome`):
+// - "completed": it ran to its end, or past SKIP_THRESHOLD_PERCENT of its
+//   length before the player moved on.
+// - "skipped": the player moved on before that.
+// The skip ratio is skips over every time the clip stopped; a clip that has
+// never been played or skipped has a ratio of 0.
+//
+// Pure module: shared by the play event service, the playlist stats route
+// and the smart playlist filters.
+
+export const PLAY_OUTCOMES = ["completed", "skipped"] as const;
+export type PlayOutcome = (typeof PLAY_OUTCOMES)[number];
+
+export const DEFAULT_SKIP_THRESHOLD_PERCENT = 50;
+
+export function classifyPlay(opts: {
+  ended: boolean;
+  watchedSeconds: number;
+  clipSeconds: number;
+  thresholdPercent: number;
+}): PlayOutcome {
+  if (opts.ended) return "completed";
+  // A clip with no known length can't be judged, so leaving it is a play.
+  if (!(opts.clipSeconds > 0)) return "completed";
+  return opts.watchedSeconds / opts.clipSeconds >= opts.thresholdPercent / 100 ? "completed" : "skipped";
+}
+
+export function skipRatio(playCount: number, skipCount: number): number {
+  const total = playCount + skipCount;
+  return total > 0 ? skipCount / total : 0;
+}
+
+// "42%", for stats and tooltips.
+export function formatSkipRatio(ratio: number): string {
+  return `${Math.round(ratio * 100)}%`;
+}
@@ -0,0 +1,114 @@
+// src/lib/playHistory.ts
+//
+// Shapes PlayEvent rows for the history page and the dashboard: sessions
+// (runs of events in the same playlist with no long gap between them) and
+// plays per day over a window of days, with empty days filled in.
+//
+// Pure module: shared by the play history service and the history page.
+import type { PlayOutcome } from "@/lib/playEvents";
+
+export const HISTORY_DAY_CHOICES = [7, 30, 90] as const;
+export const DEFAULT_HISTORY_DAYS = 30;
+const MAX_HISTORY_DAYS = 365;
+
+// A pause longer than this starts a new session.
+export const SESSION_GAP_MINUTES = 30;
+
+export type PlayHistoryEvent = {
+  id: string;
+  outcome: PlayOutcome;
+  watchedSeconds: number;
+  createdAt: string; // ISO
+  item: { id: string; title: string; screenshot: string | null; startTime: number; endTime: number };
+  playlist: { id: string; name: string } | null;
+};
+
+export type PlaySession = {
+  id: string; // The id of its newest event
+  playlist: { id: string; name: string } | null;
+  startedAt: string;
+  endedAt: string;
+  completed: number;
+  skipped: number;
+  watchedSeconds: number;
+  events: PlayHistoryEvent[]; // Newest first
+};
+
+export type PlaysPerDay = { date: string; completed: number; skipped: number };
+
+export function parseHistoryDays(raw: unknown): number {
+  const n = Math.floor(Number(raw));
+  return Number.isFinite(n) && n >= 1 ? Math.min(n, MAX_HISTORY_DAYS) : DEFAULT_HISTORY_DAYS;
+}
+
+// "2026-10-19" in local time, the key of one day's bucket.
+export function dayKey(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+// Midnight at the start of the first day of a `days`-long window ending today.
+export function windowStart(days: number, now = new Date()): Date {
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  start.setDate(start.getDate() - (days - 1));
+  return start;
+}
+
+// Events must be newest first; sessions come back the same way.
+export function groupSessions(events: PlayHistoryEvent[], gapMinutes = SESSION_GAP_MINUTES): PlaySession[] {
+  const gapMs = gapMinutes * 60_000;
+  const sessions: PlaySession[] = [];
+  let current: PlaySession | null = null;
+
+  for (const event of events) {
+    const playlistId = event.playlist?.id ?? null;
+    const startsNew =
+      !current ||
+      (current.playlist?.id ?? null) !== playlistId ||
+      Date.parse(current.startedAt) - Date.parse(event.createdAt) > gapMs;
+
+    if (startsNew) {
+      current = {
+        id: event.id,
+        playlist: event.playlist,
+        startedAt: event.createdAt,
+        endedAt: event.createdAt,
+        completed: 0,
+        skipped: 0,
+        watchedSeconds: 0,
+        events: [],
+      };
+      sessions.push(current);
+    }
+    const session = current as PlaySession;
+    session.events.push(event);
+    session.startedAt = event.createdAt;
+    session.watchedSeconds += event.watchedSeconds;
+    if (event.outcome === "completed") session.completed += 1;
+    else session.skipped += 1;
+  }
+  return sessions;
+}
+
+export function playsPerDay(
+  events: Array<{ outcome: PlayOutcome; createdAt: Date }>,
+  days: number,
+  now = new Date(),
+): PlaysPerDay[] {
+  const buckets = new Map<string, PlaysPerDay>();
+  const day = windowStart(days, now);
+  for (let i = 0; i < days; i++) {
+    const key = dayKey(day);
+    buckets.set(key, { date: key, completed: 0, skipped: 0 });
+    day.setDate(day.getDate() + 1);
+  }
+  for (const event of events) {
+    const bucket = buckets.get(dayKey(event.createdAt));
+    if (!bucket) continue;
+    if (event.outcome === "completed") bucket.completed += 1;
+    else bucket.skipped += 1;
+  }
+  return [...buckets.values()];
+}
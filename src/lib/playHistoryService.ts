@@ -0,0 +1,202 @@
+// src/lib/playHistoryService.ts
+//
+// Reads the PlayEvent log back: recent sessions for the history page
+// (optionally for one item or one playlist) and plays over a window of days
+// for the dashboard. Top performers come from each played scene's
+// performers in Stash.
+import { prisma } from "@/lib/prisma";
+import { stashGraph } from "@/lib/smartPlaylistServer";
+import { sceneIdOf } from "@/lib/shuffleService";
+import type { PlayOutcome } from "@/lib/playEvents";
+import {
+  groupSessions,
+  playsPerDay,
+  windowStart,
+  type PlayHistoryEvent,
+  type PlaySession,
+  type PlaysPerDay,
+} from "@/lib/playHistory";
+
+const TOP_LIMIT = 10;
+// Performers are looked up for at most this many of the most played scenes.
+const MAX_PERFORMER_SCENES = 500;
+
+export type PlayHistoryFilter = { itemId?: string | null; playlistId?: string | null };
+
+export type PlayTotals = { completed: number; skipped: number; watchedSeconds: number };
+
+export type PlayHistoryPage = {
+  sessions: PlaySession[];
+  totals: PlayTotals;
+  // Pass back as `before` for the next (older) page; null at the end
+  nextBefore: string | null;
+};
+
+export type PlayActivity = {
+  days: number;
+  totals: PlayTotals;
+  perDay: PlaysPerDay[];
+  topItems: Array<{ id: string; title: string; plays: number; skips: number }>;
+  topPlaylists: Array<{ id: string; name: string; plays: number }>;
+  topPerformers: Array<{ id: string; name: string; plays: number }>;
+};
+
+function whereFor(filter: PlayHistoryFilter) {
+  return {
+    ...(filter.itemId ? { itemId: filter.itemId } : {}),
+    ...(filter.playlistId ? { playlistId: filter.playlistId } : {}),
+  };
+}
+
+async function totalsFor(where: ReturnType<typeof whereFor> & { createdAt?: { gte: Date } }): Promise<PlayTotals> {
+  const groups = await prisma.playEvent.groupBy({
+    by: ["outcome"],
+    where,
+    _count: { _all: true },
+    _sum: { watchedSeconds: true },
+  });
+  const totals: PlayTotals = { completed: 0, skipped: 0, watchedSeconds: 0 };
+  for (const group of groups) {
+    if (group.outcome === "completed") totals.completed = group._count._all;
+    else totals.skipped += group._count._all;
+    totals.watchedSeconds += group._sum.watchedSeconds ?? 0;
+  }
+  return totals;
+}
+
+// One page of events, newest first, grouped into sessions. A session that
+// runs across the page boundary shows up split in two.
+export async function listPlayHistory(
+  filter: PlayHistoryFilter,
+  opts: { before?: Date | null; limit: number },
+): Promise<PlayHistoryPage> {
+  const where = whereFor(filter);
+  const [rows, totals] = await Promise.all([
+    prisma.playEvent.findMany({
+      where: { ...where, ...(opts.before ? { createdAt: { lt: opts.before } } : {}) },
+      orderBy: { createdAt: "desc" },
+      take: opts.limit,
+      select: {
+        id: true,
+        outcome: true,
+        watchedSeconds: true,
+        createdAt: true,
+        item: { select: { id: true, title: true, screenshot: true, startTime: true, endTime: true } },
+        playlist: { select: { id: true, name: true } },
+      },
+    }),
+    totalsFor(where),
+  ]);
+
+  const events: PlayHistoryEvent[] = rows.map((row) => ({
+    ...row,
+    outcome: row.outcome as PlayOutcome,
+    createdAt: row.createdAt.toISOString(),
+  }));
+
+  return {
+    sessions: groupSessions(events),
+    totals,
+    nextBefore: rows.length === opts.limit ? events[events.length - 1].createdAt : null,
+  };
+}
+
+function topCounts(counts: Map<string, number>, limit = TOP_LIMIT): Array<[string, number]> {
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, limit);
+}
+
+async function topPerformersFor(
+  playsByItem: Map<string, number>,
+  items: Array<{ id: string; sceneId: string | null; stream: string | null }>,
+): Promise<PlayActivity["topPerformers"]> {
+  const playsByScene = new Map<string, number>();
+  for (const item of items) {
+    const sceneId = sceneIdOf(item);
+    if (sceneId) playsByScene.set(sceneId, (playsByScene.get(sceneId) ?? 0) + (playsByItem.get(item.id) ?? 0));
+  }
+  const sceneIds = topCounts(playsByScene, MAX_PERFORMER_SCENES).map(([id]) => id);
+  if (!sceneIds.length) return [];
+
+  const data = await stashGraph<{
+    findScenes: { scenes: Array<{ id: string; performers: Array<{ id: string; name: string }> }> };
+  }>(
+    `query PlayHistoryScenePerformers($ids: [ID!]) {
+      findScenes(ids: $ids, filter: { per_page: -1 }) {
+        scenes { id performers { id name } }
+      }
+    }`,
+    { ids: sceneIds },
+  );
+
+  const plays = new Map<string, number>();
+  const names = new Map<string, string>();
+  for (const scene of data.findScenes.scenes) {
+    const scenePlays = playsByScene.get(String(scene.id)) ?? 0;
+    for (const performer of scene.performers) {
+      const id = String(performer.id);
+      names.set(id, performer.name);
+      plays.set(id, (plays.get(id) ?? 0) + scenePlays);
+    }
+  }
+  return topCounts(plays).map(([id, count]) => ({ id, name: names.get(id) ?? id, plays: count }));
+}
+
+export async function loadPlayActivity(days: number): Promise<PlayActivity> {
+  const since = windowStart(days);
+  const [events, totals] = await Promise.all([
+    prisma.playEvent.findMany({
+      where: { createdAt: { gte: since } },
+      select: { itemId: true, playlistId: true, outcome: true, createdAt: true },
+    }),
+    totalsFor({ createdAt: { gte: since } }),
+  ]);
+
+  const playsByItem = new Map<string, number>();
+  const skipsByItem = new Map<string, number>();
+  const playsByPlaylist = new Map<string, number>();
+  for (const event of events) {
+    if (event.outcome === "completed") {
+      playsByItem.set(event.itemId, (playsByItem.get(event.itemId) ?? 0) + 1);
+      if (event.playlistId) playsByPlaylist.set(event.playlistId, (playsByPlaylist.get(event.playlistId) ?? 0) + 1);
+    } else {
+      skipsByItem.set(event.itemId, (skipsByItem.get(event.itemId) ?? 0) + 1);
+    }
+  }
+
+  const topItemCounts = topCounts(playsByItem);
+  const topPlaylistCounts = topCounts(playsByPlaylist);
+  const [items, playlists] = await Promise.all([
+    prisma.item.findMany({
+      where: { id: { in: [...playsByItem.keys()] } },
+      select: { id: true, title: true, sceneId: true, stream: true },
+    }),
+    prisma.playlist.findMany({
+      where: { id: { in: topPlaylistCounts.map(([id]) => id) } },
+      select: { id: true, name: true },
+    }),
+  ]);
+  const titles = new Map(items.map((i) => [i.id, i.title]));
+  const playlistNames = new Map(playlists.map((p) => [p.id, p.name]));
+
+  // Without Stash the rest of the activity still loads.
+  let topPerformers: PlayActivity["topPerformers"] = [];
+  try {
+    topPerformers = await topPerformersFor(playsByItem, items);
+  } catch (error) {
+    console.warn("[PlayHistory] Could not load performers from Stash:", error);
+  }
+
+  return {
+    days,
+    totals,
+    perDay: playsPerDay(events.map((e) => ({ outcome: e.outcome as PlayOutcome, createdAt: e.createdAt })), days),
+    topItems: topItemCounts.map(([id, plays]) => ({
+      id,
+      title: titles.get(id) ?? id,
+      plays,
+      skips: skipsByItem.get(id) ?? 0,
+    })),
+    topPlaylists: topPlaylistCounts.map(([id, plays]) => ({ id, name: playlistNames.get(id) ?? id, plays })),
+    topPerformers,
+  };
+}
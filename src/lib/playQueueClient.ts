@@ -0,0 +1,31 @@
+// src/lib/playQueueClient.ts
+//
+// Client-side helpers for the play queue, so every "add to queue" button
+// (playlist cards, actor markers, the scene editor) posts the same way and
+// the queue page's SWR cache picks the change up.
+//
+// Usage:
+//   import { addToQueue } from "@/lib/playQueueClient";
+//   await addToQueue({ playlistId }, "next");
+
+import { mutate } from "swr";
+
+export const QUEUE_KEY = "/api/queue";
+
+export type QueueSourceInput =
+  | { playlistId: string }
+  | { itemIds: string[] }
+  | { markerIds: string[] };
+
+// Resolves to the number of entries added; throws with the server's message.
+export async function addToQueue(source: QueueSourceInput, placement: "next" | "end" = "end"): Promise<number> {
+  const res = await fetch(QUEUE_KEY, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...source, placement }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.error || `Failed to add to queue (${res.status})`);
+  await mutate(QUEUE_KEY, data, { revalidate: false });
+  return data.added ?? 0;
+}
@@ -0,0 +1,165 @@
+// src/lib/playQueueService.ts
+//
+// The server-side play queue (`QueueEntry`). Entries are kept densely
+// numbered from 0; entry 0 is the one playing, so "play next" inserts at 1.
+// Whole playlists, items already in the database and raw Stash markers can
+// all be queued; markers are stored as Items first, like any playlist item.
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { buildItemsForMarkers, type BuiltItem } from "@/lib/smartPlaylistServer";
+
+export type QueuePlacement = "next" | "end";
+
+export type QueueSource =
+  | { playlistId: string }
+  | { itemIds: string[] }
+  | { markerIds: string[] };
+
+export async function getQueue() {
+  const entries = await prisma.queueEntry.findMany({
+    orderBy: { position: "asc" },
+    select: {
+      id: true,
+      position: true,
+      item: {
+        select: {
+          id: true,
+          title: true,
+          startTime: true,
+          endTime: true,
+          screenshot: true,
+          stream: true,
+          preview: true,
+          rating: true,
+          playCount: true,
+        },
+      },
+      sourcePlaylist: { select: { id: true, name: true } },
+    },
+  });
+  return entries;
+}
+
+export type QueueEntryWithItem = Awaited<ReturnType<typeof getQueue>>[number];
+
+// Store built markers as Items. Two requests storing the same marker at
+// once (parallel wall tiles, a double click) race on the primary key; the
+// loser falls back to one upsert per row, which leaves existing rows as
+// they are.
+export async function storeBuiltItems(built: BuiltItem[]): Promise<void> {
+  const data = [...new Map(built.map((it) => [it.id, it])).values()].map((it) => ({
+    id: it.id,
+    title: it.title ?? "",
+    startTime: it.startTime,
+    endTime: it.endTime,
+    screenshot: it.screenshot ?? null,
+    stream: it.stream ?? null,
+    preview: it.preview ?? null,
+    sceneId: it.sceneId ?? null,
+  }));
+  if (!data.length) return;
+
+  try {
+    await prisma.item.createMany({ data });
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002")) throw error;
+    for (const row of data) {
+      await prisma.item.upsert({ where: { id: row.id }, create: row, update: {} });
+    }
+  }
+}
+
+// Create Items for markers that aren't stored yet. Existing items are left
+// alone so their timings stay as any playlist saved them.
+async function ensureMarkerItems(markerIds: string[]): Promise<string[]> {
+  const ids = [...new Set(markerIds)];
+  const existing = await prisma.item.findMany({
+    where: { id: { in: ids } },
+    select: { id: true },
+  });
+  const have = new Set(existing.map((i) => i.id));
+  const missing = ids.filter((id) => !have.has(id));
+
+  if (missing.length) {
+    const built = await buildItemsForMarkers(missing);
+    await storeBuiltItems(built);
+    for (const it of built) have.add(it.id);
+  }
+  // Markers Stash no longer knows about are skipped.
+  return ids.filter((id) => have.has(id));
+}
+
+async function resolveSource(source: QueueSource): Promise<{ itemIds: string[]; sourcePlaylistId: string | null }> {
+  if ("playlistId" in source) {
+    const links = await prisma.playlistItem.findMany({
+      where: { playlistId: source.playlistId },
+      orderBy: { itemOrder: "asc" },
+      select: { itemId: true },
+    });
+    return { itemIds: links.map((l) => l.itemId), sourcePlaylistId: source.playlistId };
+  }
+  if ("markerIds" in source) {
+    return { itemIds: await ensureMarkerItems(source.markerIds), sourcePlaylistId: null };
+  }
+  const rows = await prisma.item.findMany({
+    where: { id: { in: source.itemIds } },
+    select: { id: true },
+  });
+  const known = new Set(rows.map((r) => r.id));
+  return { itemIds: source.itemIds.filter((id) => known.has(id)), sourcePlaylistId: null };
+}
+
+// Returns how many entries were added.
+export async function enqueue(source: QueueSource, placement: QueuePlacement): Promise<number> {
+  const { itemIds, sourcePlaylistId } = await resolveSource(source);
+  if (!itemIds.length) return 0;
+
+  await prisma.$transaction(async (tx) => {
+    const count = await tx.queueEntry.count();
+    // Nothing playing yet: "next" is simply the front of the queue.
+    const insertAt = placement === "next" ? Math.min(1, count) : count;
+
+    await tx.queueEntry.updateMany({
+      where: { position: { gte: insertAt } },
+      data: { position: { increment: itemIds.length } },
+    });
+    await tx.queueEntry.createMany({
+      data: itemIds.map((itemId, i) => ({ itemId, sourcePlaylistId, position: insertAt + i })),
+    });
+  });
+  return itemIds.length;
+}
+
+// `entryIds` is the complete new order; entries missing from it keep their
+// relative order after the listed ones.
+export async function reorderQueue(entryIds: string[]): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    const entries = await tx.queueEntry.findMany({ orderBy: { position: "asc" }, select: { id: true } });
+    const listed = new Set(entryIds);
+    const known = new Set(entries.map((e) => e.id));
+    const order = [
+      ...entryIds.filter((id) => known.has(id)),
+      ...entries.map((e) => e.id).filter((id) => !listed.has(id)),
+    ];
+    for (let i = 0; i < order.length; i++) {
+      await tx.queueEntry.update({ where: { id: order[i] }, data: { position: i } });
+    }
+  });
+}
+
+export async function removeFromQueue(entryId: string): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    const entry = await tx.queueEntry.findUnique({ where: { id: entryId }, select: { position: true } });
+    if (!entry) return;
+    await tx.queueEntry.delete({ where: { id: entryId } });
+    await tx.queueEntry.updateMany({
+      where: { position: { gt: entry.position } },
+      data: { position: { decrement: 1 } },
+    });
+  });
+}
+
+export async function clearQueue(): Promise<number> {
+  const res = await prisma.queueEntry.deleteMany({});
+  return res.count;
+}
@@ -0,0 +1,77 @@
+// src/lib/playbackSession.ts
+//
+// Saved play session for a playlist (`PlaybackSession`): the current item,
+// how far into its clip playback got, the play order and what has already
+// been played. Items are stored by id, not by index, so a session still
+// lines up after a smart playlist refresh adds or removes items.
+//
+// Pure module: shared by the player page and the session route.
+
+export type PlaybackSessionState = {
+  itemId: string | null;
+  position: number;         // Seconds into the current clip
+  playOrder: string[];      // Item ids in play order
+  playedItemIds: string[];
+  shuffled: boolean;
+};
+
+function stringArray(raw: unknown): string[] {
+  return Array.isArray(raw) ? raw.filter((v): v is string => typeof v === "string") : [];
+}
+
+export function parsePlaybackSession(raw: unknown): PlaybackSessionState | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  const position = Number(r.position);
+  return {
+    itemId: typeof r.itemId === "string" && r.itemId ? r.itemId : null,
+    position: Number.isFinite(position) && position > 0 ? position : 0,
+    playOrder: stringArray(r.playOrder),
+    playedItemIds: stringArray(r.playedItemIds),
+    shuffled: r.shuffled === true,
+  };
+}
+
+export type RestoredSession = {
+  playOrder: number[];            // Indices into the current items
+  currentIndex: number;           // Index within playOrder
+  playedItemIndices: Set<number>;
+  position: number;
+};
+
+// Maps a saved session back onto the playlist's current items. Items that
+// have since left the playlist are dropped; new ones are appended in
+// playlist order. Returns null when the saved item is gone.
+export function restorePlaybackSession(
+  session: PlaybackSessionState,
+  itemIds: string[],
+): RestoredSession | null {
+  const indexOf = new Map(itemIds.map((id, i) => [id, i]));
+  if (!session.itemId || !indexOf.has(session.itemId)) return null;
+
+  const seen = new Set<number>();
+  const playOrder: number[] = [];
+  for (const id of session.playOrder) {
+    const i = indexOf.get(id);
+    if (i != null && !seen.has(i)) {
+      seen.add(i);
+      playOrder.push(i);
+    }
+  }
+  itemIds.forEach((_, i) => {
+    if (!seen.has(i)) playOrder.push(i);
+  });
+
+  const played = new Set<number>();
+  for (const id of session.playedItemIds) {
+    const i = indexOf.get(id);
+    if (i != null) played.add(i);
+  }
+
+  return {
+    playOrder,
+    currentIndex: playOrder.indexOf(indexOf.get(session.itemId)!),
+    playedItemIndices: played,
+    position: session.position,
+  };
+}
@@ -0,0 +1,190 @@
+// src/lib/playlistBundle.ts
+//
+// A portable JSON export of one or more playlists, for sharing them or
+// moving them to another instance (database backups are all or nothing).
+// A bundle carries its items once, then each playlist's item ids in play
+// order with its smart conditions, options and cover image. Media stays as
+// Stash-relative paths, so it plays on any instance pointed at the same
+// Stash server.
+//
+// On import, items already stored are kept as they are. A playlist whose
+// name is already taken is merged into the existing one, imported under a
+// new name, or skipped.
+//
+// Pure module: shared by the bundle service, the bundle route and the
+// import dialog.
+
+export const PLAYLIST_BUNDLE_FORMAT = "stash-playlist-bundle";
+export const PLAYLIST_BUNDLE_VERSION = 1;
+
+export type BundleItem = {
+  id: string; // Stash marker id
+  title: string;
+  startTime: number;
+  endTime: number;
+  screenshot: string | null;
+  stream: string | null;
+  preview: string | null;
+  rating: number | null;
+  sceneId: string | null;
+};
+
+export type BundleImage = { mimeType: string; data: string }; // base64
+
+export type BundlePlaylist = {
+  name: string;
+  description: string | null;
+  type: "MANUAL" | "SMART";
+  conditions: unknown;
+  refreshSchedule: unknown;
+  playbackOptions: unknown;
+  image: BundleImage | null;
+  items: Array<{ itemId: string; pinned: boolean }>; // In play order
+};
+
+export type PlaylistBundle = {
+  format: typeof PLAYLIST_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  items: BundleItem[];
+  playlists: BundlePlaylist[];
+};
+
+export const IMPORT_CONFLICT_MODES = ["merge", "rename", "skip"] as const;
+export type ImportConflictMode = (typeof IMPORT_CONFLICT_MODES)[number];
+
+export const IMPORT_CONFLICT_LABELS: Record<ImportConflictMode, string> = {
+  merge: "Merge into the existing playlist",
+  rename: "Import under a new name",
+  skip: "Skip it",
+};
+
+export type ImportedPlaylist = {
+  name: string; // As in the bundle
+  id: string | null; // null when skipped
+  importedAs: string | null;
+  action: "created" | "merged" | "renamed" | "skipped";
+  itemsAdded: number;
+};
+
+export type ImportReport = {
+  playlists: ImportedPlaylist[];
+  items: { created: number; existing: number };
+};
+
+export function parseConflictMode(raw: unknown): ImportConflictMode {
+  return IMPORT_CONFLICT_MODES.includes(raw as ImportConflictMode) ? (raw as ImportConflictMode) : "rename";
+}
+
+export function bundleFileName(playlistNames: string[], exportedAt = new Date()): string {
+  const date = exportedAt.toISOString().slice(0, 10);
+  const base =
+    playlistNames.length === 1
+      ? playlistNames[0].replace(/[\\/:*?"<>|\x00-\x1f]+/g, " ").replace(/\s+/g, " ").trim() || "playlist"
+      : `playlists-${playlistNames.length}`;
+  return `${base}-${date}.json`;
+}
+
+// "Name (2)", "Name (3)", … - the first that isn't taken.
+export function uniqueName(name: string, taken: Set<string>): string {
+  if (!taken.has(name)) return name;
+  for (let n = 2; ; n++) {
+    const candidate = `${name} (${n})`;
+    if (!taken.has(candidate)) return candidate;
+  }
+}
+
+function str(value: unknown): string | null {
+  return typeof value === "string" ? value : null;
+}
+
+function num(value: unknown, fallback = 0): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : fallback;
+}
+
+function parseItem(raw: unknown): BundleItem | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  const id = str(r.id) ?? (typeof r.id === "number" ? String(r.id) : null);
+  if (!id) return null;
+  const rating = num(r.rating, NaN); // 1 = Dislike, 2 = Like, 3 = Love
+  return {
+    id,
+    title: str(r.title) ?? "",
+    startTime: num(r.startTime),
+    endTime: num(r.endTime),
+    screenshot: str(r.screenshot),
+    stream: str(r.stream),
+    preview: str(r.preview),
+    rating: [1, 2, 3].includes(rating) ? rating : null,
+    sceneId: str(r.sceneId),
+  };
+}
+
+function parseImage(raw: unknown): BundleImage | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  const mimeType = str(r.mimeType);
+  const data = str(r.data);
+  return mimeType?.startsWith("image/") && data ? { mimeType, data } : null;
+}
+
+function parsePlaylist(raw: unknown): BundlePlaylist | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  const name = str(r.name)?.trim();
+  if (!name) return null;
+  const items = Array.isArray(r.items)
+    ? r.items.flatMap((entry) => {
+        if (!entry || typeof entry !== "object") return [];
+        const e = entry as Record<string, unknown>;
+        const itemId = str(e.itemId);
+        return itemId ? [{ itemId, pinned: e.pinned === true }] : [];
+      })
+    : [];
+  return {
+    name,
+    description: str(r.description),
+    type: r.type === "SMART" ? "SMART" : "MANUAL",
+    conditions: r.conditions ?? null,
+    refreshSchedule: r.refreshSchedule ?? null,
+    playbackOptions: r.playbackOptions ?? null,
+    image: parseImage(r.image),
+    items,
+  };
+}
+
+export function parsePlaylistBundle(raw: unknown): { bundle: PlaylistBundle } | { error: string } {
+  if (!raw || typeof raw !== "object") return { error: "Not a playlist export" };
+  const r = raw as Record<string, unknown>;
+  if (r.format !== PLAYLIST_BUNDLE_FORMAT) return { error: "Not a playlist export" };
+  const version = num(r.version, NaN);
+  if (!(version >= 1)) return { error: "The export has no version" };
+  if (version > PLAYLIST_BUNDLE_VERSION) {
+    return { error: `The export is version ${version}; this app reads up to version ${PLAYLIST_BUNDLE_VERSION}` };
+  }
+
+  // An item listed twice keeps its first entry.
+  const byId = new Map<string, BundleItem>();
+  for (const item of (Array.isArray(r.items) ? r.items : []).map(parseItem)) {
+    if (item && !byId.has(item.id)) byId.set(item.id, item);
+  }
+  const items = [...byId.values()];
+  const known = new Set(byId.keys());
+  const playlists = (Array.isArray(r.playlists) ? r.playlists : [])
+    .map(parsePlaylist)
+    .filter((p): p is BundlePlaylist => !!p)
+    // A playlist can only link items the bundle carries.
+    .map((p) => ({ ...p, items: p.items.filter((e) => known.has(e.itemId)) }));
+  if (!playlists.length) return { error: "The export has no playlists" };
+
+  return {
+    bundle: {
+      format: PLAYLIST_BUNDLE_FORMAT,
+      version,
+      exportedAt: str(r.exportedAt) ?? "",
+      items,
+      playlists,
+    },
+  };
+}
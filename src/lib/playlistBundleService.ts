@@ -0,0 +1,231 @@
+// src/lib/playlistBundleService.ts
+//
+// Builds and imports portable playlist bundles (see playlistBundle.ts).
+// Cover images travel inside the bundle as base64 and are written back to
+// the playlist image directory on import.
+import { readFile, writeFile, mkdir } from "fs/promises";
+import { existsSync } from "fs";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { parseRefreshSchedule } from "@/lib/playlistSchedule";
+import { parsePlaybackOptions } from "@/lib/playlistPlayback";
+import {
+  PLAYLIST_BUNDLE_FORMAT,
+  PLAYLIST_BUNDLE_VERSION,
+  uniqueName,
+  type BundleImage,
+  type BundleItem,
+  type BundlePlaylist,
+  type ImportConflictMode,
+  type ImportReport,
+  type ImportedPlaylist,
+  type PlaylistBundle,
+} from "@/lib/playlistBundle";
+
+// Image storage directory - use /data for Docker persistent storage
+const IMAGES_DIR = process.env.NODE_ENV === "production"
+  ? "/data/playlist-images"
+  : path.join(process.cwd(), "data", "playlist-images");
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+};
+
+async function readImage(filename: string | null): Promise<BundleImage | null> {
+  if (!filename || filename.includes("/") || filename.includes("\\") || filename.includes("..")) return null;
+  try {
+    const data = await readFile(path.join(IMAGES_DIR, filename));
+    const ext = filename.split(".").pop()?.toLowerCase();
+    const mimeType = ext === "png" ? "image/png" : ext === "webp" ? "image/webp" : "image/jpeg";
+    return { mimeType, data: data.toString("base64") };
+  } catch (error) {
+    console.warn(`[PlaylistBundle] Could not read image ${filename}:`, error);
+    return null;
+  }
+}
+
+async function writeImage(playlistId: string, image: BundleImage): Promise<string | null> {
+  const ext = IMAGE_EXTENSIONS[image.mimeType];
+  if (!ext) return null;
+  if (!existsSync(IMAGES_DIR)) await mkdir(IMAGES_DIR, { recursive: true });
+  const filename = `${playlistId}-${uuidv4()}.${ext}`;
+  await writeFile(path.join(IMAGES_DIR, filename), Buffer.from(image.data, "base64"));
+  return filename;
+}
+
+// Playlists come out in the order their ids were given; unknown ids are
+// left out.
+export async function buildPlaylistBundle(playlistIds: string[]): Promise<PlaylistBundle> {
+  const rows = await prisma.playlist.findMany({
+    where: { id: { in: playlistIds } },
+    select: {
+      id: true,
+      name: true,
+      description: true,
+      type: true,
+      image: true,
+      conditions: true,
+      refreshSchedule: true,
+      playbackOptions: true,
+      items: {
+        orderBy: { itemOrder: "asc" },
+        select: {
+          pinned: true,
+          item: {
+            select: {
+              id: true,
+              title: true,
+              startTime: true,
+              endTime: true,
+              screenshot: true,
+              stream: true,
+              preview: true,
+              rating: true,
+              sceneId: true,
+            },
+          },
+        },
+      },
+    },
+  });
+  const byId = new Map(rows.map((row) => [row.id, row]));
+
+  const items = new Map<string, BundleItem>();
+  const playlists: BundlePlaylist[] = [];
+  for (const id of playlistIds) {
+    const row = byId.get(id);
+    if (!row) continue;
+    for (const { item } of row.items) items.set(item.id, item);
+    playlists.push({
+      name: row.name,
+      description: row.description,
+      type: row.type,
+      conditions: row.conditions,
+      refreshSchedule: row.refreshSchedule,
+      playbackOptions: row.playbackOptions,
+      image: await readImage(row.image),
+      items: row.items.map((link) => ({ itemId: link.item.id, pinned: link.pinned })),
+    });
+  }
+
+  return {
+    format: PLAYLIST_BUNDLE_FORMAT,
+    version: PLAYLIST_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    items: [...items.values()],
+    playlists,
+  };
+}
+
+function jsonOrNull(value: unknown) {
+  return value && typeof value === "object" ? (value as Prisma.InputJsonValue) : Prisma.DbNull;
+}
+
+// Adds the links after the playlist's last item, leaving items it already
+// has where they are. Returns how many were added.
+async function appendLinks(
+  tx: Prisma.TransactionClient,
+  playlistId: string,
+  links: BundlePlaylist["items"],
+): Promise<number> {
+  const existing = await tx.playlistItem.findMany({
+    where: { playlistId },
+    select: { itemId: true, itemOrder: true },
+  });
+  const have = new Set(existing.map((l) => l.itemId));
+  let order = existing.reduce((max, l) => Math.max(max, l.itemOrder), -1) + 1;
+
+  const data: Prisma.PlaylistItemCreateManyInput[] = [];
+  for (const link of links) {
+    if (have.has(link.itemId)) continue;
+    have.add(link.itemId);
+    data.push({ playlistId, itemId: link.itemId, itemOrder: order++, pinned: link.pinned });
+  }
+  if (data.length) await tx.playlistItem.createMany({ data });
+  return data.length;
+}
+
+// All rows are written in one transaction, so a failure part-way leaves
+// nothing behind. Cover images are files, written once it has committed.
+export async function importPlaylistBundle(bundle: PlaylistBundle, mode: ImportConflictMode): Promise<ImportReport> {
+  const images: Array<{ playlistId: string; image: BundleImage }> = [];
+  const linkCount = bundle.playlists.reduce((sum, p) => sum + p.items.length, 0);
+
+  const report = await prisma.$transaction(
+    async (tx) => {
+      // Items: the ones already stored keep their local ratings and paths.
+      const ids = bundle.items.map((i) => i.id);
+      const stored = await tx.item.findMany({ where: { id: { in: ids } }, select: { id: true } });
+      const have = new Set(stored.map((i) => i.id));
+      const missing = bundle.items.filter((i) => !have.has(i.id));
+      if (missing.length) await tx.item.createMany({ data: missing });
+
+      const existing = await tx.playlist.findMany({ select: { id: true, name: true, image: true } });
+      const byName = new Map(existing.map((p) => [p.name, p]));
+      const taken = new Set(byName.keys());
+
+      const playlists: ImportedPlaylist[] = [];
+      for (const playlist of bundle.playlists) {
+        const clash = byName.get(playlist.name);
+
+        if (clash && mode === "skip") {
+          playlists.push({ name: playlist.name, id: null, importedAs: null, action: "skipped", itemsAdded: 0 });
+          continue;
+        }
+
+        if (clash && mode === "merge") {
+          // The existing playlist keeps its own conditions and options.
+          const itemsAdded = await appendLinks(tx, clash.id, playlist.items);
+          if (!clash.image && playlist.image) images.push({ playlistId: clash.id, image: playlist.image });
+          playlists.push({ name: playlist.name, id: clash.id, importedAs: clash.name, action: "merged", itemsAdded });
+          continue;
+        }
+
+        const name = uniqueName(playlist.name, taken);
+        taken.add(name);
+        const schedule = parseRefreshSchedule(playlist.refreshSchedule);
+        const created = await tx.playlist.create({
+          data: {
+            name,
+            description: playlist.description,
+            type: playlist.type,
+            conditions: jsonOrNull(playlist.conditions),
+            refreshSchedule: schedule.mode === "global" ? Prisma.DbNull : schedule,
+            playbackOptions: playlist.playbackOptions ? parsePlaybackOptions(playlist.playbackOptions) : Prisma.DbNull,
+          },
+          select: { id: true },
+        });
+        const itemsAdded = await appendLinks(tx, created.id, playlist.items);
+        if (playlist.image) images.push({ playlistId: created.id, image: playlist.image });
+        byName.set(name, { id: created.id, name, image: null });
+        playlists.push({
+          name: playlist.name,
+          id: created.id,
+          importedAs: name,
+          action: name === playlist.name ? "created" : "renamed",
+          itemsAdded,
+        });
+      }
+
+      return { playlists, items: { created: missing.length, existing: have.size } };
+    },
+    // Same allowance as a playlist sync: large bundles need longer.
+    { timeout: bundle.items.length + linkCount > 1000 ? 300000 : 60000 },
+  );
+
+  // A cover that can't be written leaves the playlist without one.
+  for (const { playlistId, image } of images) {
+    try {
+      const filename = await writeImage(playlistId, image);
+      if (filename) await prisma.playlist.update({ where: { id: playlistId }, data: { image: filename } });
+    } catch (error) {
+      console.warn(`[PlaylistBundle] Could not write image for ${playlistId}:`, error);
+    }
+  }
+
+  return report;
+}
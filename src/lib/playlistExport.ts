@@ -0,0 +1,110 @@
+// src/lib/playlistExport.ts
+//
+// Writes a playlist as a file that plays outside the web UI: extended M3U8
+// (VLC, mpv, Kodi) or XSPF. Each clip is its scene's stream, cut to the
+// marker with VLC's start-time / stop-time options, with its title and
+// screenshot as artwork.
+//
+// Pure module: shared by the export route and the playlist card menu.
+
+export const EXPORT_FORMATS = ["m3u8", "xspf"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  m3u8: "M3U8 (VLC, mpv, Kodi)",
+  xspf: "XSPF (VLC)",
+};
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  m3u8: "audio/x-mpegurl; charset=utf-8",
+  xspf: "application/xspf+xml; charset=utf-8",
+};
+
+export type ExportClip = {
+  title: string;
+  url: string; // Full stream URL, with the API key
+  image: string; // Full screenshot URL, or ""
+  startTime: number; // Seconds into the scene
+  endTime: number; // 0 = to the end of the scene
+};
+
+export function parseExportFormat(raw: unknown): ExportFormat | null {
+  return EXPORT_FORMATS.includes(raw as ExportFormat) ? (raw as ExportFormat) : null;
+}
+
+// "My Playlist.m3u8", without characters file systems reject.
+export function exportFileName(playlistName: string, format: ExportFormat): string {
+  const base = playlistName.replace(/[\\/:*?"<>|\x00-\x1f]+/g, " ").replace(/\s+/g, " ").trim() || "playlist";
+  return `${base}.${format}`;
+}
+
+function clipSeconds(clip: ExportClip): number {
+  return clip.endTime > clip.startTime ? clip.endTime - clip.startTime : 0;
+}
+
+// Seconds without float noise: 12.5, 30, 1.234
+function formatSeconds(seconds: number): string {
+  return String(Math.round(Math.max(0, seconds) * 1000) / 1000);
+}
+
+function vlcOptions(clip: ExportClip): string[] {
+  const options: string[] = [];
+  if (clip.startTime > 0) options.push(`start-time=${formatSeconds(clip.startTime)}`);
+  if (clip.endTime > clip.startTime) options.push(`stop-time=${formatSeconds(clip.endTime)}`);
+  return options;
+}
+
+// EXTINF titles end at the line and attribute values at a quote.
+function m3uText(text: string): string {
+  return text.replace(/[\r\n]+/g, " ").trim();
+}
+
+export function buildM3u8(playlistName: string, clips: ExportClip[]): string {
+  const lines = ["#EXTM3U", `#PLAYLIST:${m3uText(playlistName)}`];
+  for (const clip of clips) {
+    const duration = clipSeconds(clip);
+    const logo = clip.image ? ` tvg-logo="${m3uText(clip.image).replace(/"/g, "%22")}"` : "";
+    lines.push("");
+    lines.push(`#EXTINF:${duration > 0 ? Math.round(duration) : -1}${logo},${m3uText(clip.title)}`);
+    for (const option of vlcOptions(clip)) lines.push(`#EXTVLCOPT:${option}`);
+    lines.push(clip.url);
+  }
+  return lines.join("\n") + "\n";
+}
+
+function xml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+export function buildXspf(playlistName: string, clips: ExportClip[]): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<playlist version="1" xmlns="http://xspf.org/ns/0/" xmlns:vlc="http://www.videolan.org/vlc/playlist/ns/0/">',
+    `  <title>${xml(playlistName)}</title>`,
+    "  <trackList>",
+  ];
+  clips.forEach((clip, index) => {
+    const duration = clipSeconds(clip);
+    lines.push("    <track>");
+    lines.push(`      <location>${xml(clip.url)}</location>`);
+    lines.push(`      <title>${xml(clip.title)}</title>`);
+    if (clip.image) lines.push(`      <image>${xml(clip.image)}</image>`);
+    if (duration > 0) lines.push(`      <duration>${Math.round(duration * 1000)}</duration>`);
+    lines.push('      <extension application="http://www.videolan.org/vlc/playlist/0">');
+    lines.push(`        <vlc:id>${index}</vlc:id>`);
+    for (const option of vlcOptions(clip)) lines.push(`        <vlc:option>${xml(option)}</vlc:option>`);
+    lines.push("      </extension>");
+    lines.push("    </track>");
+  });
+  lines.push("  </trackList>", "</playlist>");
+  return lines.join("\n") + "\n";
+}
+
+export function buildPlaylistExport(format: ExportFormat, playlistName: string, clips: ExportClip[]): string {
+  return format === "xspf" ? buildXspf(playlistName, clips) : buildM3u8(playlistName, clips);
+}
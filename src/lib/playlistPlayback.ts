@@ -0,0 +1,128 @@
+// src/lib/playlistPlayback.ts
+//
+// Per-playlist playback preferences (`Playlist.playbackOptions`):
+// - transition: "default" follows the DEFAULT_CLIP_TRANSITION and
+//   DEFAULT_CROSSFADE_SECONDS settings, the other modes override them.
+//   "cut" and "crossfade" preload the next clip in a second player so moving
+//   between items never shows the black gap of a source reload.
+// - modes: playback speed, how many times each clip plays, and whether the
+//   playlist starts over at the end.
+// A-B repeat ranges and sleep timers only last for the session, so they
+// aren't stored; their presets live here with the rest.
+//
+// Pure module: shared by the playback route and the playlist player.
+
+export const TRANSITION_MODES = ["default", "off", "cut", "crossfade"] as const;
+export type TransitionMode = (typeof TRANSITION_MODES)[number];
+export type ResolvedTransitionMode = Exclude<TransitionMode, "default">;
+
+export const TRANSITION_MODE_LABELS: Record<TransitionMode, string> = {
+  default: "Use default setting",
+  off: "No transition",
+  cut: "Gapless cut",
+  crossfade: "Crossfade",
+};
+
+export const FADE_SECONDS_CHOICES = [0.5, 1, 2, 3, 5];
+
+export type PlaylistTransition = {
+  mode: TransitionMode;
+  fadeSeconds?: number; // crossfade only; unset = the setting's duration
+  duckAudio: boolean;   // lower the outgoing clip's volume while fading
+};
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+export const CLIP_PLAYS_CHOICES = [1, 2, 3, 5];
+
+export type PlaybackModes = {
+  rate: number;          // 0.25-4, 1 = normal speed
+  clipPlays: number;     // times each clip plays before moving on, 1-10
+  loopPlaylist: boolean; // start over after the last clip
+};
+
+export type PlaylistPlaybackOptions = {
+  transition: PlaylistTransition;
+  modes: PlaybackModes;
+};
+
+export type SleepTimer =
+  | { kind: "minutes"; amount: number }
+  | { kind: "clips"; amount: number };
+
+export const SLEEP_TIMER_CHOICES: SleepTimer[] = [
+  { kind: "minutes", amount: 15 },
+  { kind: "minutes", amount: 30 },
+  { kind: "minutes", amount: 60 },
+  { kind: "clips", amount: 1 },
+  { kind: "clips", amount: 5 },
+  { kind: "clips", amount: 10 },
+];
+
+export function sleepTimerLabel(timer: SleepTimer): string {
+  if (timer.kind === "minutes") return `After ${timer.amount} minutes`;
+  return timer.amount === 1 ? "After this clip" : `After ${timer.amount} clips`;
+}
+
+export type ResolvedTransition = {
+  mode: ResolvedTransitionMode;
+  fadeSeconds: number;
+  duckAudio: boolean;
+};
+
+const DEFAULT_FADE_SECONDS = 2;
+
+function fadeSecondsFrom(raw: unknown): number | undefined {
+  const n = Number(raw);
+  return raw != null && raw !== "" && Number.isFinite(n) ? Math.max(0.5, Math.min(10, n)) : undefined;
+}
+
+function clampNumber(raw: unknown, min: number, max: number, fallback: number): number {
+  const n = Number(raw);
+  return raw != null && Number.isFinite(n) ? Math.max(min, Math.min(max, n)) : fallback;
+}
+
+function sectionOf(raw: Record<string, unknown>, key: string): Record<string, unknown> {
+  const section = raw[key];
+  return section && typeof section === "object" ? (section as Record<string, unknown>) : {};
+}
+
+// A missing or malformed column value follows the settings and plays every
+// clip once at normal speed, which is how every playlist behaved before.
+export function parsePlaybackOptions(raw: unknown): PlaylistPlaybackOptions {
+  const r = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const t = sectionOf(r, "transition");
+  const m = sectionOf(r, "modes");
+  const mode = TRANSITION_MODES.includes(t.mode as TransitionMode) ? (t.mode as TransitionMode) : "default";
+  const fadeSeconds = fadeSecondsFrom(t.fadeSeconds);
+  return {
+    transition: {
+      mode,
+      ...(fadeSeconds != null ? { fadeSeconds } : {}),
+      duckAudio: t.duckAudio !== false,
+    },
+    modes: {
+      rate: clampNumber(m.rate, 0.25, 4, 1),
+      clipPlays: Math.floor(clampNumber(m.clipPlays, 1, 10, 1)),
+      loopPlaylist: m.loopPlaylist === true,
+    },
+  };
+}
+
+// The transition to actually play with, given the app settings.
+export function resolveTransition(
+  transition: PlaylistTransition,
+  settings: Record<string, string | undefined>,
+): ResolvedTransition {
+  const fromSetting = settings.DEFAULT_CLIP_TRANSITION as ResolvedTransitionMode | undefined;
+  const mode: ResolvedTransitionMode =
+    transition.mode !== "default"
+      ? transition.mode
+      : fromSetting === "cut" || fromSetting === "crossfade"
+        ? fromSetting
+        : "off";
+  return {
+    mode,
+    fadeSeconds: transition.fadeSeconds ?? fadeSecondsFrom(settings.DEFAULT_CROSSFADE_SECONDS) ?? DEFAULT_FADE_SECONDS,
+    duckAudio: transition.duckAudio,
+  };
+}
@@ -0,0 +1,81 @@
+// src/lib/playlistSchedule.ts
+//
+// Per-playlist refresh schedule (`Playlist.refreshSchedule`). "global" keeps
+// a playlist on the SMART_PLAYLIST_REFRESH_* schedule; every other mode is
+// handled by the per-playlist jobs in smartPlaylistRefreshService. Hours and
+// days are UTC, matching the global cron.
+//
+// Pure module: shared by the playlist page and the scheduler.
+
+export const REFRESH_SCHEDULE_MODES = [
+  "global",
+  "never",
+  "hourly",
+  "daily",
+  "weekly",
+  "stashChange",
+] as const;
+
+export type RefreshScheduleMode = (typeof REFRESH_SCHEDULE_MODES)[number];
+
+export type PlaylistRefreshSchedule = {
+  mode: RefreshScheduleMode;
+  hour?: number; // 0-23, daily and weekly
+  day?: number;  // 0 = Sunday, weekly
+};
+
+export const REFRESH_SCHEDULE_LABELS: Record<RefreshScheduleMode, string> = {
+  global: "Global schedule",
+  never: "Never",
+  hourly: "Hourly",
+  daily: "Daily",
+  weekly: "Weekly",
+  stashChange: "When Stash changes",
+};
+
+export const WEEKDAY_LABELS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+function clampInt(raw: unknown, min: number, max: number, fallback: number): number {
+  const n = Number(raw);
+  return Number.isFinite(n) ? Math.max(min, Math.min(max, Math.floor(n))) : fallback;
+}
+
+// Anything unrecognised (including a missing column value) follows the
+// global schedule, which is how every playlist behaved before.
+export function parseRefreshSchedule(raw: unknown): PlaylistRefreshSchedule {
+  if (!raw || typeof raw !== "object") return { mode: "global" };
+  const r = raw as Record<string, unknown>;
+  const mode = REFRESH_SCHEDULE_MODES.includes(r.mode as RefreshScheduleMode)
+    ? (r.mode as RefreshScheduleMode)
+    : "global";
+
+  if (mode === "daily") return { mode, hour: clampInt(r.hour, 0, 23, 3) };
+  if (mode === "weekly") return { mode, hour: clampInt(r.hour, 0, 23, 3), day: clampInt(r.day, 0, 6, 0) };
+  return { mode };
+}
+
+// Whether a time-based schedule fires in the UTC hour containing `at`.
+export function isScheduleDue(schedule: PlaylistRefreshSchedule, at: Date): boolean {
+  switch (schedule.mode) {
+    case "hourly":
+      return true;
+    case "daily":
+      return at.getUTCHours() === schedule.hour;
+    case "weekly":
+      return at.getUTCHours() === schedule.hour && at.getUTCDay() === schedule.day;
+    default:
+      return false;
+  }
+}
+
+export function describeRefreshSchedule(schedule: PlaylistRefreshSchedule): string {
+  const hh = `${String(schedule.hour ?? 0).padStart(2, "0")}:00 UTC`;
+  switch (schedule.mode) {
+    case "daily":
+      return `Daily at ${hh}`;
+    case "weekly":
+      return `${WEEKDAY_LABELS[schedule.day ?? 0]}s at ${hh}`;
+    default:
+      return REFRESH_SCHEDULE_LABELS[schedule.mode];
+  }
+}
@@ -0,0 +1,149 @@
+// src/lib/playlistSelection.ts
+//
+// Limit + selection strategy for smart playlists (`conditions.selection`):
+// "top 50 by rating", "random 30", "at most 2 per scene". Selection decides
+// WHICH matching markers make the playlist; `conditions.sort` still decides
+// their order, so picked markers keep the order they arrived in.
+//
+// Pure module: shared by the rule builder UI and smartPlaylistServer.
+
+import { seededHash } from "@/lib/seededRandom";
+
+export const SELECTION_STRATEGIES = [
+  "highestRated",
+  "leastPlayed",
+  "recentlyAdded",
+  "weightedRandom",
+  "perScene",
+  "perPerformer",
+] as const;
+
+export type SelectionStrategy = (typeof SELECTION_STRATEGIES)[number];
+
+export type PlaylistSelection = {
+  strategy: SelectionStrategy;
+  limit?: number | null;      // Max markers overall; null = no overall cap
+  perGroupMax?: number;       // perScene / perPerformer only
+  seed?: number;              // weightedRandom only; re-rolled on scheduled refresh
+};
+
+export const SELECTION_STRATEGY_LABELS: Record<SelectionStrategy, string> = {
+  highestRated: "Highest rated",
+  leastPlayed: "Least played",
+  recentlyAdded: "Most recently added",
+  weightedRandom: "Random, weighted by rating",
+  perScene: "At most N per scene",
+  perPerformer: "At most N per performer",
+};
+
+// Ratings run 1 = Dislike, 2 = Like, 3 = Love, so an unrated marker sits
+// between Dislike and Like. "Highest rated" ranks by this weight and
+// "weighted random" draws with it: a disliked marker comes up a quarter as
+// often as an unrated one.
+export const RATING_SELECTION_WEIGHTS = { unrated: 1, 1: 0.25, 2: 2, 3: 3 } as const;
+
+export function ratingSelectionWeight(rating: number | null | undefined): number {
+  if (rating === 1 || rating === 2 || rating === 3) return RATING_SELECTION_WEIGHTS[rating];
+  return RATING_SELECTION_WEIGHTS.unrated;
+}
+
+function positiveInt(raw: unknown): number | null {
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= 1 ? Math.floor(n) : null;
+}
+
+// A selection needs an overall limit, except the per-group strategies whose
+// per-group cap already bounds the result.
+export function parsePlaylistSelection(raw: unknown): PlaylistSelection | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  if (!SELECTION_STRATEGIES.includes(r.strategy as SelectionStrategy)) return null;
+  const strategy = r.strategy as SelectionStrategy;
+  const limit = positiveInt(r.limit);
+
+  if (strategy === "perScene" || strategy === "perPerformer") {
+    return { strategy, limit, perGroupMax: positiveInt(r.perGroupMax) ?? 1 };
+  }
+  if (limit == null) return null;
+  if (strategy === "weightedRandom") {
+    const seed = Number(r.seed);
+    return { strategy, limit, seed: Number.isFinite(seed) ? Math.floor(seed) : 0 };
+  }
+  return { strategy, limit };
+}
+
+export function selectionNeedsSeed(s: PlaylistSelection | null): boolean {
+  return s?.strategy === "weightedRandom";
+}
+
+export type SelectionKeys = {
+  id: string;
+  sceneId?: string | null;
+  performerIds?: string[];
+  rating?: number | null;     // Local 1-3 scale; null = unrated
+  playCount?: number | null;
+  createdAt?: number | null;  // epoch ms, from Stash
+};
+
+// Indices of the `take` items with the largest score; ties keep input order.
+function topBy<T>(items: T[], take: number, score: (item: T, i: number) => number): Set<number> {
+  const ranked = items
+    .map((item, i) => ({ i, s: score(item, i) }))
+    .sort((a, b) => b.s - a.s || a.i - b.i);
+  return new Set(ranked.slice(0, take).map((r) => r.i));
+}
+
+// Returns the chosen items in their original order.
+export function selectByPlaylistSelection<T>(
+  items: T[],
+  keysOf: (item: T) => SelectionKeys,
+  selection: PlaylistSelection | null,
+): T[] {
+  if (!selection) return items;
+  const keys = items.map(keysOf);
+  const limit = selection.limit ?? items.length;
+
+  let chosen: Set<number>;
+  switch (selection.strategy) {
+    case "highestRated":
+      chosen = topBy(items, limit, (_, i) => ratingSelectionWeight(keys[i].rating));
+      break;
+    case "leastPlayed":
+      chosen = topBy(items, limit, (_, i) => -(keys[i].playCount ?? 0));
+      break;
+    case "recentlyAdded":
+      chosen = topBy(items, limit, (_, i) => keys[i].createdAt ?? 0);
+      break;
+    case "weightedRandom": {
+      // Efraimidis-Spirakis: key u^(1/w) with u uniform in (0,1), keep the
+      // largest, weighted by ratingSelectionWeight.
+      const seed = selection.seed ?? 0;
+      chosen = topBy(items, limit, (_, i) => {
+        const u = (seededHash(seed, keys[i].id) + 1) / 4294967297;
+        const w = ratingSelectionWeight(keys[i].rating);
+        return Math.pow(u, 1 / w);
+      });
+      break;
+    }
+    case "perScene":
+    case "perPerformer": {
+      // Walk in order, keeping a marker while every group it belongs to is
+      // under the cap. Markers with no performers are never capped per performer.
+      const max = selection.perGroupMax ?? 1;
+      const counts = new Map<string, number>();
+      chosen = new Set<number>();
+      for (let i = 0; i < items.length && chosen.size < limit; i++) {
+        const groups =
+          selection.strategy === "perScene"
+            ? (keys[i].sceneId ? [keys[i].sceneId as string] : [])
+            : (keys[i].performerIds ?? []);
+        if (groups.some((g) => (counts.get(g) ?? 0) >= max)) continue;
+        for (const g of groups) counts.set(g, (counts.get(g) ?? 0) + 1);
+        chosen.add(i);
+      }
+      break;
+    }
+  }
+
+  return items.filter((_, i) => chosen.has(i));
+}
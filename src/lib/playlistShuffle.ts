@@ -0,0 +1,113 @@
+// src/lib/playlistShuffle.ts
+//
+// Seeded shuffles for playback order. The same seed and items always give
+// the same order, so a shuffled playlist can be shared as a link
+// (`?shuffle=true&seed=123`). Modes bias the order; `spread` keeps clips
+// from the same scene or performer from playing back to back.
+//
+// Pure module: shared by shuffleService and the client-side fallbacks
+// (PlaylistDetail without a parent shuffle, the wall when the API fails).
+
+import { seededHash } from "@/lib/seededRandom";
+import { ratingSelectionWeight } from "@/lib/playlistSelection";
+
+export const SHUFFLE_MODES = ["random", "rated", "leastPlayed", "unplayedFirst"] as const;
+export type ShuffleMode = (typeof SHUFFLE_MODES)[number];
+
+export const SHUFFLE_SPREADS = ["none", "scene", "performer"] as const;
+export type ShuffleSpread = (typeof SHUFFLE_SPREADS)[number];
+
+export type ShuffleOptions = {
+  mode: ShuffleMode;
+  spread: ShuffleSpread;
+  seed: number;
+};
+
+export const SHUFFLE_MODE_LABELS: Record<ShuffleMode, string> = {
+  random: "Random",
+  rated: "Favour higher rated",
+  leastPlayed: "Favour less played",
+  unplayedFirst: "Never played first",
+};
+
+export const SHUFFLE_SPREAD_LABELS: Record<ShuffleSpread, string> = {
+  none: "Allow repeats",
+  scene: "Spread out scenes",
+  performer: "Spread out performers",
+};
+
+export type ShuffleKeys = {
+  id: string;
+  sceneId?: string | null;
+  performerIds?: string[];
+  rating?: number | null;     // Local 1-3 scale; null = unrated
+  playCount?: number | null;
+};
+
+// Unknown values fall back to a plain random shuffle; a missing seed is 0.
+export function parseShuffleOptions(raw: {
+  mode?: unknown;
+  spread?: unknown;
+  seed?: unknown;
+}): ShuffleOptions {
+  const seed = Number(raw.seed);
+  return {
+    mode: SHUFFLE_MODES.includes(raw.mode as ShuffleMode) ? (raw.mode as ShuffleMode) : "random",
+    spread: SHUFFLE_SPREADS.includes(raw.spread as ShuffleSpread) ? (raw.spread as ShuffleSpread) : "none",
+    seed: Number.isFinite(seed) ? Math.floor(seed) >>> 0 : 0,
+  };
+}
+
+// Uniform in (0, 1), fixed per seed and item.
+function unit(seed: number, id: string): number {
+  return (seededHash(seed, id) + 1) / 4294967297;
+}
+
+// Sort key per item; larger plays earlier. The weighted modes use
+// Efraimidis-Spirakis keys u^(1/w), so heavier items tend to come first
+// without ever being guaranteed to. "rated" weighs items as the playlist
+// selection does, so a dislike comes up later than an unrated clip.
+function scoreOf(keys: ShuffleKeys, options: ShuffleOptions): number {
+  const u = unit(options.seed, keys.id);
+  switch (options.mode) {
+    case "rated":
+      return Math.pow(u, 1 / ratingSelectionWeight(keys.rating));
+    case "leastPlayed":
+      return Math.pow(u, 1 + (keys.playCount ?? 0));
+    case "unplayedFirst":
+      return (keys.playCount ?? 0) === 0 ? 1 + u : u;
+    default:
+      return u;
+  }
+}
+
+function groupsOf(keys: ShuffleKeys, spread: ShuffleSpread): string[] {
+  if (spread === "scene") return keys.sceneId ? [keys.sceneId] : [];
+  if (spread === "performer") return keys.performerIds ?? [];
+  return [];
+}
+
+// Greedy pass: take the earliest remaining item that shares no scene or
+// performer with the one before it. When every remaining item clashes the
+// earliest is played anyway, so nothing is dropped.
+function spreadOut(order: number[], items: ShuffleKeys[], spread: ShuffleSpread): number[] {
+  const remaining = [...order];
+  const result: number[] = [];
+  let previous = new Set<string>();
+
+  while (remaining.length) {
+    let pick = remaining.findIndex((i) => !groupsOf(items[i], spread).some((g) => previous.has(g)));
+    if (pick === -1) pick = 0;
+    const [next] = remaining.splice(pick, 1);
+    result.push(next);
+    previous = new Set(groupsOf(items[next], spread));
+  }
+  return result;
+}
+
+// Indices into `items` in play order.
+export function shuffleOrder(items: ShuffleKeys[], options: ShuffleOptions): number[] {
+  const scores = items.map((k) => scoreOf(k, options));
+  const order = items.map((_, i) => i).sort((a, b) => scores[b] - scores[a] || a - b);
+  return options.spread === "none" ? order : spreadOut(order, items, options.spread);
+}
@@ -0,0 +1,122 @@
+// src/lib/playlistSort.ts
+//
+// Sort order for smart playlists (`conditions.sort`). Applied every time
+// the marker list is built, so the order survives refreshes; the seeded
+// random mode ranks each marker by a hash of (seed, marker ID), so markers
+// keep their relative places when others are added or removed.
+//
+// Pure module: shared by the rule builder UI and smartPlaylistServer.
+
+import { seededHash } from "@/lib/seededRandom";
+
+export const PLAYLIST_SORT_FIELDS = [
+  "sceneDate",
+  "sceneTitle",
+  "markerSeconds",
+  "rating",
+  "playCount",
+  "lastPlayed",
+  "duration",
+  "random",
+] as const;
+
+export type PlaylistSortField = (typeof PLAYLIST_SORT_FIELDS)[number];
+
+export type PlaylistSort = {
+  by: PlaylistSortField;
+  direction?: "asc" | "desc";
+  seed?: number; // random only
+};
+
+export const PLAYLIST_SORT_LABELS: Record<PlaylistSortField, string> = {
+  sceneDate: "Scene date",
+  sceneTitle: "Scene title",
+  markerSeconds: "Marker position",
+  rating: "Rating",
+  playCount: "Play count",
+  lastPlayed: "Last played",
+  duration: "Clip duration",
+  random: "Random (seeded)",
+};
+
+export function parsePlaylistSort(raw: unknown): PlaylistSort | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  if (!PLAYLIST_SORT_FIELDS.includes(r.by as PlaylistSortField)) return null;
+  const by = r.by as PlaylistSortField;
+  const direction = r.direction === "desc" ? "desc" : "asc";
+  if (by === "random") {
+    const seed = Number(r.seed);
+    return { by, direction, seed: Number.isFinite(seed) ? Math.floor(seed) : 0 };
+  }
+  return { by, direction };
+}
+
+// The values a marker can be sorted on; missing values always sort last.
+export type SortKeys = {
+  id: string;
+  sceneDate?: string | null;     // YYYY-MM-DD from Stash
+  sceneTitle?: string | null;
+  seconds: number;
+  duration?: number | null;
+  rating?: number | null;
+  playCount?: number | null;
+  lastPlayedAt?: number | null;  // epoch ms
+};
+
+function primaryValue(k: SortKeys, sort: PlaylistSort): string | number | null {
+  switch (sort.by) {
+    case "sceneDate":
+      return k.sceneDate || null;
+    case "sceneTitle":
+      return k.sceneTitle ? k.sceneTitle.toLowerCase() : null;
+    case "markerSeconds":
+      return k.seconds;
+    case "rating":
+      return k.rating ?? null;
+    case "playCount":
+      return k.playCount ?? 0;
+    case "lastPlayed":
+      return k.lastPlayedAt ?? null;
+    case "duration":
+      return k.duration ?? null;
+    case "random":
+      return seededHash(sort.seed ?? 0, k.id);
+  }
+}
+
+function compareValues(a: string | number, b: string | number): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+// Returns a new array; ties fall back to scene title, marker position and
+// finally ID so the same input always yields the same order.
+export function sortByPlaylistSort<T>(
+  items: T[],
+  keysOf: (item: T) => SortKeys,
+  sort: PlaylistSort | null,
+): T[] {
+  if (!sort) return items;
+  const dir = sort.direction === "desc" ? -1 : 1;
+
+  const keyed = items.map((item) => {
+    const k = keysOf(item);
+    return { item, k, v: primaryValue(k, sort) };
+  });
+
+  keyed.sort((a, b) => {
+    if (a.v === null && b.v !== null) return 1;
+    if (b.v === null && a.v !== null) return -1;
+    if (a.v !== null && b.v !== null) {
+      const c = compareValues(a.v, b.v);
+      if (c !== 0) return c * dir;
+    }
+    const t = (a.k.sceneTitle ?? "").localeCompare(b.k.sceneTitle ?? "");
+    if (t !== 0) return t;
+    if (a.k.seconds !== b.k.seconds) return a.k.seconds - b.k.seconds;
+    return a.k.id.localeCompare(b.k.id);
+  });
+
+  return keyed.map((x) => x.item);
+}
@@ -0,0 +1,470 @@
+// src/lib/playlistSyncService.ts
+//
+// Writes a playlist's items to the database. Shared by the items route
+// (editor saves and refresh button), the smart-playlist scheduler and the
+// template generator, so all of them sync the same way and run in-process.
+import { prisma } from "@/lib/prisma";
+import { buildPlaylistItems, type SmartPlaylistConditions } from "@/lib/smartPlaylistServer";
+
+export type IncomingItem = {
+  id: string;
+  title?: string;
+  startTime?: number;
+  endTime?: number;
+  screenshot?: string | null;
+  stream?: string | null;
+  preview?: string | null;
+  rating?: number | null;
+  sceneId?: string | null;
+  itemOrder?: number;
+};
+
+function pickDefined<T extends Record<string, any>>(obj: T) {
+  const out: Partial<T> = {};
+  for (const [k, v] of Object.entries(obj)) {
+    if (v !== undefined) (out as any)[k] = v; // keep nulls to intentionally clear
+  }
+  return out;
+}
+
+/**
+ * Normalize any array of items coming either from the editor or the builder.
+ * IMPORTANT: Only include optional media fields if they actually exist on the payload.
+ * - absent  => undefined  (DB untouched)
+ * - null    => clear DB column
+ * - string  => set DB column
+ */
+export function normalizeIncoming(items: any[]): IncomingItem[] {
+  const seen = new Set<string>();
+  const incoming: IncomingItem[] = [];
+
+  for (let i = 0; i < items.length; i++) {
+    const raw = items[i]?.item ?? items[i];
+    if (!raw || typeof raw.id !== "string" || !raw.id.trim()) continue;
+
+    if (seen.has(raw.id)) continue;
+    seen.add(raw.id);
+
+    const start = raw.startTime ?? raw.seconds ?? raw.start ?? raw.start_time;
+    const end = raw.endTime ?? raw.end ?? raw.end_time;
+    if (start == null || end == null) continue;
+
+    incoming.push({
+      id: raw.id,
+      title: raw.title ?? "",
+      startTime: typeof start === "number" ? start : Number(start),
+      endTime: typeof end === "number" ? end : Number(end),
+
+      screenshot: Object.prototype.hasOwnProperty.call(raw, "screenshot")
+        ? (raw.screenshot as string | null | undefined) ?? null
+        : undefined,
+      stream: Object.prototype.hasOwnProperty.call(raw, "stream")
+        ? (raw.stream as string | null | undefined) ?? null
+        : undefined,
+      preview: Object.prototype.hasOwnProperty.call(raw, "preview")
+        ? (raw.preview as string | null | undefined) ?? null
+        : undefined,
+      rating: Object.prototype.hasOwnProperty.call(raw, "rating")
+        ? (raw.rating as number | null | undefined) ?? null
+        : undefined,
+      sceneId: Object.prototype.hasOwnProperty.call(raw, "sceneId")
+        ? (raw.sceneId as string | null | undefined) ?? null
+        : undefined,
+
+      itemOrder: typeof items[i]?.order === "number" ? items[i].order :
+                 typeof raw.itemOrder === "number" ? raw.itemOrder : undefined,
+    });
+  }
+  return incoming;
+}
+
+// keepPinned leaves pinned links in place even when `incoming` no longer
+// contains them; they move to the end of the playlist.
+export async function syncItems(
+  playlistId: string,
+  incoming: IncomingItem[],
+  opts: { preserveTimings?: boolean; keepPinned?: boolean } = {}
+) {
+  const preserveTimings = !!opts.preserveTimings;
+
+  // Use longer timeout for large playlists (5 minutes)
+  const timeout = incoming.length > 1000 ? 300000 : 60000;
+
+  return prisma.$transaction(async (tx) => {
+    const existingLinks = await tx.playlistItem.findMany({
+      where: { playlistId },
+      select: { id: true, itemId: true, itemOrder: true, pinned: true },
+    });
+    const existingByItemId = new Map(existingLinks.map((e) => [e.itemId, e]));
+    const incomingIds = incoming.map((i) => i.id);
+
+    const existingItems = await tx.item.findMany({
+      where: { id: { in: incomingIds } },
+      select: { id: true },
+    });
+    const existingItemIds = new Set(existingItems.map((x) => x.id));
+
+    // Separate into new items (need create) and existing items (need update)
+    const newItems: IncomingItem[] = [];
+    const updateItems: IncomingItem[] = [];
+
+    for (const it of incoming) {
+      if (existingItemIds.has(it.id)) {
+        updateItems.push(it);
+      } else {
+        newItems.push(it);
+      }
+    }
+
+    // Bulk create new items in batches (SQLite has limits on single createMany)
+    // Note: skipDuplicates not supported in SQLite, but newItems already filtered to non-existing
+    const CREATE_BATCH_SIZE = 50;
+    for (let i = 0; i < newItems.length; i += CREATE_BATCH_SIZE) {
+      const batch = newItems.slice(i, i + CREATE_BATCH_SIZE);
+      await tx.item.createMany({
+        data: batch.map((it) => ({
+          id: it.id,
+          title: it.title ?? "",
+          startTime: it.startTime ?? 0,
+          endTime: it.endTime ?? 0,
+          screenshot: it.screenshot ?? null,
+          stream: it.stream ?? null,
+          preview: it.preview ?? null,
+          rating: it.rating ?? null,
+          sceneId: it.sceneId ?? null,
+        })),
+      });
+    }
+
+    // Update existing items in batches (parallel within batch, sequential between batches)
+    const BATCH_SIZE = 100;
+    let updatedCount = 0;
+    for (let i = 0; i < updateItems.length; i += BATCH_SIZE) {
+      const batch = updateItems.slice(i, i + BATCH_SIZE);
+      await Promise.all(
+        batch.map((it) => {
+          const shouldWriteTimings = !preserveTimings;
+          const updateData = pickDefined({
+            title: it.title,
+            startTime: shouldWriteTimings ? it.startTime : undefined,
+            endTime: shouldWriteTimings ? it.endTime : undefined,
+            screenshot: it.screenshot,
+            stream: it.stream,
+            preview: it.preview,
+            rating: it.rating,
+            sceneId: it.sceneId,
+          });
+          return tx.item.update({
+            where: { id: it.id },
+            data: updateData,
+          });
+        })
+      );
+      updatedCount += batch.length;
+    }
+
+    // Prepare playlist links - separate new links from order updates
+    const newLinks: { itemId: string; itemOrder: number }[] = [];
+    const orderUpdates: { linkId: string; itemOrder: number }[] = [];
+
+    for (let index = 0; index < incoming.length; index++) {
+      const it = incoming[index];
+      const desiredOrder = typeof it.itemOrder === "number" ? it.itemOrder : index;
+      const link = existingByItemId.get(it.id);
+
+      if (link) {
+        if (link.itemOrder !== desiredOrder) {
+          orderUpdates.push({ linkId: link.id, itemOrder: desiredOrder });
+        }
+      } else {
+        newLinks.push({ itemId: it.id, itemOrder: desiredOrder });
+      }
+    }
+
+    const incomingSet = new Set(incomingIds);
+    const keptPinned = opts.keepPinned
+      ? existingLinks.filter((e) => e.pinned && !incomingSet.has(e.itemId))
+      : [];
+    keptPinned.forEach((link, k) => {
+      const desiredOrder = incoming.length + k;
+      if (link.itemOrder !== desiredOrder) {
+        orderUpdates.push({ linkId: link.id, itemOrder: desiredOrder });
+      }
+    });
+
+    // Bulk create new playlist links in batches
+    for (let i = 0; i < newLinks.length; i += CREATE_BATCH_SIZE) {
+      const batch = newLinks.slice(i, i + CREATE_BATCH_SIZE);
+      await tx.playlistItem.createMany({
+        data: batch.map((l) => ({
+          playlistId,
+          itemId: l.itemId,
+          itemOrder: l.itemOrder,
+        })),
+      });
+    }
+
+    // Update link orders in batches
+    for (let i = 0; i < orderUpdates.length; i += BATCH_SIZE) {
+      const batch = orderUpdates.slice(i, i + BATCH_SIZE);
+      await Promise.all(
+        batch.map((u) =>
+          tx.playlistItem.update({
+            where: { id: u.linkId },
+            data: { itemOrder: u.itemOrder },
+          })
+        )
+      );
+    }
+
+    // Prune removed links
+    const keptIds = new Set(keptPinned.map((e) => e.id));
+    const toDelete = existingLinks
+      .filter((e) => !incomingSet.has(e.itemId) && !keptIds.has(e.id))
+      .map((e) => e.id);
+    let deleted = 0;
+    if (toDelete.length) {
+      const res = await tx.playlistItem.deleteMany({
+        where: { id: { in: toDelete } },
+      });
+      deleted = res.count;
+    }
+
+    return {
+      upsertedItems: newItems.length + updatedCount,
+      linkedCreated: newLinks.length,
+      linkedUpdated: orderUpdates.length,
+      deleted,
+    };
+  }, { timeout });
+}
+
+export type SyncResult = Awaited<ReturnType<typeof syncItems>>;
+
+export type SmartRefreshResult = SyncResult & {
+  message: string;
+  totalLinkedNow: number;
+  truncated: boolean;      // Stash had more candidates than the fetch cap
+  totalAvailable: number;  // Candidates Stash reported
+};
+
+// Rebuild a smart playlist from its rules and sync the result. Throws on
+// failure; callers decide whether that is an HTTP error or a log entry.
+//
+// - preserveTimings keeps start/end times already stored on existing items
+//   (the default for a refresh; a regenerate overwrites them).
+// - allowEmpty syncs an empty result as-is. Without it, a rating-filtered
+//   playlist that matches nothing is left untouched, so markers that simply
+//   haven't been rated yet don't wipe it.
+// - reroll draws a new random selection (see buildPlaylistItems).
+// - trigger is what the playlist's refresh history records as the cause.
+//
+// Pinned links are never removed by a refresh.
+export async function refreshSmartPlaylist(
+  playlistId: string,
+  opts: { preserveTimings?: boolean; allowEmpty?: boolean; reroll?: boolean; trigger?: string } = {},
+): Promise<SmartRefreshResult> {
+  const startTime = Date.now();
+  const trigger = opts.trigger ?? "manual";
+  try {
+    const result = await rebuildSmartPlaylist(playlistId, opts);
+    await recordPlaylistRefresh(playlistId, {
+      trigger,
+      success: true,
+      added: result.linkedCreated,
+      removed: result.deleted,
+      total: result.totalLinkedNow,
+      duration: Date.now() - startTime,
+    });
+    return result;
+  } catch (error) {
+    await recordPlaylistRefresh(playlistId, {
+      trigger,
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      duration: Date.now() - startTime,
+    });
+    throw error;
+  }
+}
+
+export type DiffItem = {
+  id: string;
+  title: string;
+  startTime: number;
+  endTime: number;
+  screenshot?: string | null;
+};
+
+export type RetimedItem = DiffItem & {
+  previousStartTime: number;
+  previousEndTime: number;
+};
+
+export type RefreshDiff = {
+  message: string;
+  added: DiffItem[];
+  removed: DiffItem[];
+  retimed: RetimedItem[];  // Existing items whose rules now give different start/end times
+  pinned: DiffItem[];      // No longer matched, but kept because they are pinned
+  unchanged: number;
+  total: number;           // Item count after applying the refresh
+  truncated: boolean;
+  totalAvailable: number;
+};
+
+// What refreshSmartPlaylist would change, without writing anything.
+// `conditions` diffs unsaved rules from the editor against the stored items.
+// `retimed` lists timing changes whatever preserveTimings says, so the caller
+// can decide whether to apply them (a regenerate) or keep the stored times.
+export async function diffSmartPlaylist(
+  playlistId: string,
+  opts: { allowEmpty?: boolean; conditions?: SmartPlaylistConditions } = {},
+): Promise<RefreshDiff> {
+  const built = await buildPlaylistItems(playlistId, { conditions: opts.conditions });
+  const incoming = normalizeIncoming(built.items ?? []);
+  const truncation = { truncated: built.truncated, totalAvailable: built.total };
+
+  const links = await prisma.playlistItem.findMany({
+    where: { playlistId },
+    orderBy: { itemOrder: "asc" },
+    select: {
+      pinned: true,
+      item: { select: { id: true, title: true, startTime: true, endTime: true, screenshot: true } },
+    },
+  });
+
+  if (incoming.length === 0 && !opts.allowEmpty && (await keepsItemsWhenEmpty(playlistId, opts.conditions))) {
+    return {
+      message: "No items match rating filter - playlist unchanged",
+      added: [],
+      removed: [],
+      retimed: [],
+      pinned: [],
+      unchanged: links.length,
+      total: links.length,
+      ...truncation,
+    };
+  }
+
+  const linked = new Map(links.map((l) => [l.item.id, l.item]));
+  const incomingIds = new Set(incoming.map((it) => it.id));
+  const toDiffItem = (it: IncomingItem): DiffItem => ({
+    id: it.id,
+    title: it.title ?? "",
+    startTime: it.startTime ?? 0,
+    endTime: it.endTime ?? 0,
+    screenshot: it.screenshot,
+  });
+
+  const added: DiffItem[] = [];
+  const retimed: RetimedItem[] = [];
+  let unchanged = 0;
+  for (const it of incoming) {
+    const current = linked.get(it.id);
+    if (!current) {
+      added.push(toDiffItem(it));
+    } else if (current.startTime !== it.startTime || current.endTime !== it.endTime) {
+      retimed.push({ ...toDiffItem(it), previousStartTime: current.startTime, previousEndTime: current.endTime });
+    } else {
+      unchanged++;
+    }
+  }
+
+  const removed: DiffItem[] = [];
+  const pinned: DiffItem[] = [];
+  for (const link of links) {
+    if (incomingIds.has(link.item.id)) continue;
+    (link.pinned ? pinned : removed).push(link.item);
+  }
+
+  return {
+    message: "Dry run - nothing was changed",
+    added,
+    removed,
+    retimed,
+    pinned,
+    unchanged,
+    total: incoming.length + pinned.length,
+    ...truncation,
+  };
+}
+
+// How many refreshes each playlist's history keeps.
+const PLAYLIST_REFRESH_HISTORY = 50;
+
+// Best-effort: a failure to write history must not fail the refresh itself.
+async function recordPlaylistRefresh(
+  playlistId: string,
+  entry: { trigger: string; success: boolean; added?: number; removed?: number; total?: number; error?: string; duration: number },
+) {
+  try {
+    await prisma.playlistRefresh.create({ data: { playlistId, ...entry } });
+    const stale = await prisma.playlistRefresh.findMany({
+      where: { playlistId },
+      orderBy: { createdAt: "desc" },
+      skip: PLAYLIST_REFRESH_HISTORY,
+      select: { id: true },
+    });
+    if (stale.length) {
+      await prisma.playlistRefresh.deleteMany({ where: { id: { in: stale.map((r) => r.id) } } });
+    }
+  } catch (error) {
+    console.error(`[PlaylistSync] Failed to record refresh history for ${playlistId}:`, error);
+  }
+}
+
+async function rebuildSmartPlaylist(
+  playlistId: string,
+  opts: { preserveTimings?: boolean; allowEmpty?: boolean; reroll?: boolean },
+): Promise<SmartRefreshResult> {
+  const built = await buildPlaylistItems(playlistId, { reroll: opts.reroll });
+  const incoming = normalizeIncoming(built.items ?? []);
+  const truncation = { truncated: built.truncated, totalAvailable: built.total };
+
+  console.log(`[PlaylistSync] Refreshing playlist ${playlistId}: ${incoming.length} items from Stash`);
+  if (built.truncated) {
+    console.warn(
+      `[PlaylistSync] Playlist ${playlistId} truncated: Stash reported ${built.total} candidate markers, over the cap`
+    );
+  }
+
+  if (incoming.length === 0 && !opts.allowEmpty && (await keepsItemsWhenEmpty(playlistId))) {
+    const totalLinkedNow = await prisma.playlistItem.count({ where: { playlistId } });
+    return {
+      message: "No items match rating filter - playlist unchanged",
+      upsertedItems: 0,
+      linkedCreated: 0,
+      linkedUpdated: 0,
+      deleted: 0,
+      totalLinkedNow,
+      ...truncation,
+    };
+  }
+
+  const result = await syncItems(playlistId, incoming, {
+    preserveTimings: !!opts.preserveTimings,
+    keepPinned: true,
+  });
+  const totalLinkedNow = await prisma.playlistItem.count({ where: { playlistId } });
+  return {
+    message: opts.preserveTimings ? "Refreshed from rules" : "Regenerated from rules",
+    ...result,
+    totalLinkedNow,
+    ...truncation,
+  };
+}
+
+// Whether an empty match should leave the playlist untouched: true for a
+// smart playlist with a rating filter, whose markers may just not be rated yet.
+async function keepsItemsWhenEmpty(playlistId: string, override?: SmartPlaylistConditions): Promise<boolean> {
+  const playlist = await prisma.playlist.findUnique({
+    where: { id: playlistId },
+    select: { type: true, conditions: true },
+  });
+  if (playlist?.type !== "SMART") return false;
+
+  const conditions = (override ?? playlist.conditions ?? {}) as { minRating?: number; exactRating?: number };
+  return !!((conditions.minRating && [1, 2, 3].includes(conditions.minRating))
+    || (conditions.exactRating && [1, 2, 3].includes(conditions.exactRating)));
+}
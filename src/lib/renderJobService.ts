@@ -0,0 +1,334 @@
+// src/lib/renderJobService.ts
+import prisma from "@/lib/prisma";
+import { spawn, type ChildProcess } from "child_process";
+import { promises as fs } from "fs";
+import path from "path";
+import { getDefaultClipSettings, getRenderSettings, getStashMediaSettings } from "@/lib/settingsDefinitions";
+import { makeStashUrl } from "@/lib/urlUtils";
+import { sceneIdOf } from "@/lib/shuffleService";
+import {
+  clipFileName,
+  clipSeconds,
+  compilationFileName,
+  concatArgs,
+  concatList,
+  cutArgs,
+  isActiveStatus,
+  jobFolderName,
+  parseRenderClips,
+  progressSecondsFrom,
+  redactApiKey,
+  type RenderClip,
+  type RenderJob,
+  type RenderJobStatus,
+  type RenderMode,
+} from "@/lib/renderJobs";
+
+const DEFAULT_OUTPUT_DIR = process.env.NODE_ENV === "production" ? "/data/renders" : "./renders";
+
+// Progress is written to the database at most this often per job.
+const PROGRESS_WRITE_MS = 1000;
+
+// ffmpeg's stderr is kept this long for the error message of a failed run.
+const STDERR_TAIL_CHARS = 2000;
+
+type RenderJobRow = NonNullable<Awaited<ReturnType<typeof prisma.renderJob.findUnique>>>;
+
+export class RenderCancelledError extends Error {
+  constructor() {
+    super("Render cancelled");
+    this.name = "RenderCancelledError";
+  }
+}
+
+function toRenderJob(row: RenderJobRow): RenderJob {
+  return {
+    id: row.id,
+    name: row.name,
+    status: row.status as RenderJobStatus,
+    mode: row.mode as RenderMode,
+    concat: row.concat,
+    playlistId: row.playlistId,
+    clipCount: Array.isArray(row.clips) ? row.clips.length : 0,
+    outputDir: row.outputDir,
+    outputs: Array.isArray(row.outputs) ? (row.outputs as string[]) : [],
+    progress: row.progress,
+    error: row.error,
+    createdAt: row.createdAt.toISOString(),
+    startedAt: row.startedAt?.toISOString() ?? null,
+    finishedAt: row.finishedAt?.toISOString() ?? null,
+  };
+}
+
+export class RenderJobService {
+  private static instance: RenderJobService;
+  private processing = false;
+  private currentJobId: string | null = null;
+  private currentProcess: ChildProcess | null = null;
+  private cancelRequested = false;
+
+  private constructor() {}
+
+  static getInstance(): RenderJobService {
+    if (!RenderJobService.instance) {
+      RenderJobService.instance = new RenderJobService();
+    }
+    return RenderJobService.instance;
+  }
+
+  // A job left "running" by a restart has lost its ffmpeg process; mark it
+  // failed, then pick up whatever is still queued.
+  async initialize() {
+    const { count } = await prisma.renderJob.updateMany({
+      where: { status: "running" },
+      data: { status: "failed", error: "Interrupted by a server restart", finishedAt: new Date() },
+    });
+    if (count > 0) console.log(`🎞️ Marked ${count} interrupted render job(s) as failed`);
+    void this.processQueue();
+  }
+
+  async listJobs(limit = 100): Promise<RenderJob[]> {
+    const rows = await prisma.renderJob.findMany({ orderBy: { createdAt: "desc" }, take: limit });
+    return rows.map(toRenderJob);
+  }
+
+  async getJob(id: string): Promise<RenderJob | null> {
+    const row = await prisma.renderJob.findUnique({ where: { id } });
+    return row ? toRenderJob(row) : null;
+  }
+
+  // Clips for a whole playlist, in play order. Items without a scene id
+  // can't be cut from a scene stream and are left out.
+  async clipsForPlaylist(playlistId: string): Promise<{ name: string; clips: RenderClip[] } | null> {
+    const playlist = await prisma.playlist.findUnique({
+      where: { id: playlistId },
+      select: {
+        name: true,
+        items: {
+          orderBy: { itemOrder: "asc" },
+          select: { item: { select: { id: true, title: true, sceneId: true, stream: true, startTime: true, endTime: true } } },
+        },
+      },
+    });
+    if (!playlist) return null;
+
+    const { fallbackLength } = await getDefaultClipSettings();
+    const clips = parseRenderClips(
+      playlist.items.map(({ item }) => ({
+        id: item.id,
+        title: item.title,
+        sceneId: sceneIdOf(item),
+        startTime: item.startTime,
+        endTime: item.endTime,
+      })),
+      fallbackLength,
+    );
+    return { name: playlist.name, clips };
+  }
+
+  async enqueue(input: {
+    name: string;
+    mode: RenderMode;
+    concat: boolean;
+    clips: RenderClip[];
+    playlistId?: string | null;
+  }): Promise<RenderJob> {
+    const settings = await getRenderSettings();
+    const row = await prisma.renderJob.create({
+      data: {
+        name: input.name,
+        status: "queued",
+        mode: input.mode,
+        concat: input.concat && input.clips.length > 1,
+        playlistId: input.playlistId ?? null,
+        clips: input.clips,
+        outputDir: "",
+      },
+    });
+    // The folder name includes the id, so it's set once the row exists.
+    const outputDir = path.resolve(settings.outputDir || DEFAULT_OUTPUT_DIR, jobFolderName(row.name, row.id));
+    const job = await prisma.renderJob.update({ where: { id: row.id }, data: { outputDir } });
+
+    void this.processQueue();
+    return toRenderJob(job);
+  }
+
+  // A queued job is simply marked cancelled; a running one has its ffmpeg
+  // process stopped and is marked cancelled by the queue once it exits.
+  async cancel(id: string): Promise<RenderJob | null> {
+    const row = await prisma.renderJob.findUnique({ where: { id } });
+    if (!row) return null;
+
+    if (row.status === "queued") {
+      const { count } = await prisma.renderJob.updateMany({
+        where: { id, status: "queued" },
+        data: { status: "cancelled", finishedAt: new Date() },
+      });
+      if (count > 0) return this.getJob(id);
+      // The queue claimed it in the meantime; stop it like a running job.
+    }
+    if (this.currentJobId === id) {
+      this.cancelRequested = true;
+      this.currentProcess?.kill("SIGTERM");
+    }
+    return this.getJob(id);
+  }
+
+  // Removes a finished job's record; the rendered files are left on disk.
+  async remove(id: string): Promise<boolean> {
+    const row = await prisma.renderJob.findUnique({ where: { id }, select: { status: true } });
+    if (!row) return false;
+    if (isActiveStatus(row.status as RenderJobStatus)) {
+      throw new Error("Cancel the job before removing it");
+    }
+    await prisma.renderJob.delete({ where: { id } });
+    return true;
+  }
+
+  // Runs queued jobs one at a time, oldest first. While rendering is turned
+  // off, queued jobs stay queued until it's turned back on.
+  private async processQueue() {
+    if (this.processing) return;
+    this.processing = true;
+    try {
+      for (;;) {
+        const { enabled } = await getRenderSettings();
+        if (!enabled) break;
+        const next = await prisma.renderJob.findFirst({ where: { status: "queued" }, orderBy: { createdAt: "asc" } });
+        if (!next) break;
+        await this.runJob(next);
+      }
+    } catch (error) {
+      console.error("❌ Render queue stopped:", error);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async runJob(row: RenderJobRow) {
+    this.currentJobId = row.id;
+    this.cancelRequested = false;
+
+    // Claimed only if it's still queued: it may have been cancelled since it was picked.
+    const { count } = await prisma.renderJob.updateMany({
+      where: { id: row.id, status: "queued" },
+      data: { status: "running", startedAt: new Date(), progress: 0, error: null },
+    });
+    if (count === 0) {
+      this.currentJobId = null;
+      return;
+    }
+
+    const outputs: string[] = [];
+    console.log(`🎞️ Rendering "${row.name}"...`);
+
+    try {
+      const { ffmpegPath } = await getRenderSettings();
+      const { stashServer, apiKey } = await getStashMediaSettings();
+      if (!stashServer) throw new Error("Stash server is not configured");
+
+      const { fallbackLength } = await getDefaultClipSettings();
+      const clips = parseRenderClips(row.clips, fallbackLength);
+      if (!clips.length) throw new Error("The job has no clips");
+      await fs.mkdir(row.outputDir, { recursive: true });
+
+      const totalSeconds = clips.reduce((sum, clip) => sum + clipSeconds(clip), 0) || 1;
+      let doneSeconds = 0;
+      let lastWrite = 0;
+      const reportProgress = (seconds: number) => {
+        const now = Date.now();
+        if (now - lastWrite < PROGRESS_WRITE_MS) return;
+        lastWrite = now;
+        // The join is a stream copy and quick, so cutting counts for all but the last few percent.
+        const share = row.concat ? 0.95 : 1;
+        const progress = Math.min(1, ((doneSeconds + seconds) / totalSeconds) * share);
+        prisma.renderJob.update({ where: { id: row.id }, data: { progress } }).catch(() => {});
+      };
+
+      const parts: string[] = [];
+      for (const [index, clip] of clips.entries()) {
+        const fileName = clipFileName(clip, index);
+        const outputPath = path.join(row.outputDir, fileName);
+        const inputUrl = makeStashUrl(`/scene/${clip.sceneId}/stream`, stashServer);
+        await this.runFfmpeg(
+          ffmpegPath,
+          cutArgs(inputUrl, clip, row.mode as RenderMode, outputPath, apiKey),
+          reportProgress,
+        );
+        doneSeconds += clipSeconds(clip);
+        parts.push(outputPath);
+        if (!row.concat) {
+          outputs.push(fileName);
+          await prisma.renderJob.update({ where: { id: row.id }, data: { outputs } });
+        }
+      }
+
+      if (row.concat) {
+        const listPath = path.join(row.outputDir, "concat.txt");
+        const fileName = compilationFileName(row.name);
+        await fs.writeFile(listPath, concatList(parts));
+        await this.runFfmpeg(ffmpegPath, concatArgs(listPath, path.join(row.outputDir, fileName)), () => {});
+        await Promise.all([listPath, ...parts].map((p) => fs.rm(p, { force: true })));
+        outputs.push(fileName);
+      }
+
+      await prisma.renderJob.update({
+        where: { id: row.id },
+        data: { status: "completed", progress: 1, outputs, finishedAt: new Date() },
+      });
+      console.log(`✅ Rendered "${row.name}" to ${row.outputDir}`);
+    } catch (error) {
+      const cancelled = error instanceof RenderCancelledError;
+      if (!cancelled) console.error(`❌ Render "${row.name}" failed:`, error);
+      await prisma.renderJob.update({
+        where: { id: row.id },
+        data: {
+          status: cancelled ? "cancelled" : "failed",
+          error: cancelled ? null : redactApiKey(error instanceof Error ? error.message : "Unknown error"),
+          outputs,
+          finishedAt: new Date(),
+        },
+      });
+    } finally {
+      this.currentJobId = null;
+      this.currentProcess = null;
+      this.cancelRequested = false;
+    }
+  }
+
+  private runFfmpeg(ffmpegPath: string, args: string[], onProgress: (seconds: number) => void): Promise<void> {
+    if (this.cancelRequested) return Promise.reject(new RenderCancelledError());
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(ffmpegPath, args, { stdio: ["ignore", "pipe", "pipe"] });
+      this.currentProcess = child;
+      let stderr = "";
+      let pending = "";
+
+      child.stdout?.on("data", (chunk: Buffer) => {
+        pending += chunk.toString();
+        const lines = pending.split("\n");
+        pending = lines.pop() ?? "";
+        for (const line of lines) {
+          const seconds = progressSecondsFrom(line.trim());
+          if (seconds != null) onProgress(seconds);
+        }
+      });
+      child.stderr?.on("data", (chunk: Buffer) => {
+        stderr = (stderr + chunk.toString()).slice(-STDERR_TAIL_CHARS);
+      });
+      child.on("error", (error) => {
+        this.currentProcess = null;
+        reject(new Error(`Could not run ${ffmpegPath}: ${error.message}`));
+      });
+      child.on("close", (code) => {
+        this.currentProcess = null;
+        if (this.cancelRequested) reject(new RenderCancelledError());
+        else if (code === 0) resolve();
+        else reject(new Error(stderr.trim().split("\n").pop() || `ffmpeg exited with code ${code}`));
+      });
+    });
+  }
+}
+
+export const renderJobService = RenderJobService.getInstance();
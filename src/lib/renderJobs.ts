@@ -0,0 +1,153 @@
+// src/lib/renderJobs.ts
+//
+// Server-side clip rendering: what a job is and the ffmpeg arguments it
+// runs. A job cuts each clip from its scene's stream, either copying the
+// streams (fast, cuts land on keyframes) or re-encoding to H.264/AAC
+// (slower, frame-accurate). With `concat` the cut clips are then joined
+// into one compilation file and the parts removed.
+//
+// Pure module: shared by the render job service, the jobs routes and the
+// jobs page.
+import { generateOutputFilename, sanitizeFilename } from "@/lib/ffmpegUtils";
+import { clipEnd } from "@/lib/clipLength";
+
+export const RENDER_JOB_STATUSES = ["queued", "running", "completed", "failed", "cancelled"] as const;
+export type RenderJobStatus = (typeof RENDER_JOB_STATUSES)[number];
+
+export const RENDER_MODES = ["copy", "reencode"] as const;
+export type RenderMode = (typeof RENDER_MODES)[number];
+
+export const RENDER_MODE_LABELS: Record<RenderMode, string> = {
+  copy: "Copy streams (fast)",
+  reencode: "Re-encode H.264 (exact cuts)",
+};
+
+export type RenderClip = {
+  id: string; // Marker id
+  title: string;
+  sceneId: string;
+  startTime: number;
+  endTime: number;
+};
+
+export type RenderJob = {
+  id: string;
+  name: string;
+  status: RenderJobStatus;
+  mode: RenderMode;
+  concat: boolean;
+  playlistId: string | null;
+  clipCount: number;
+  outputDir: string;
+  outputs: string[];
+  progress: number;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+};
+
+export function isActiveStatus(status: RenderJobStatus): boolean {
+  return status === "queued" || status === "running";
+}
+
+export function parseRenderMode(raw: unknown): RenderMode {
+  return RENDER_MODES.includes(raw as RenderMode) ? (raw as RenderMode) : "copy";
+}
+
+// A clip without a usable end is cut `fallbackLength` long, as the player
+// and the editor exports play it.
+export function parseRenderClips(raw: unknown, fallbackLength: number): RenderClip[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((entry) => {
+    if (!entry || typeof entry !== "object") return [];
+    const r = entry as Record<string, unknown>;
+    const id = r.id != null ? String(r.id) : "";
+    const sceneId = r.sceneId != null ? String(r.sceneId) : "";
+    const startTime = Number(r.startTime);
+    if (!id || !sceneId || !Number.isFinite(startTime) || startTime < 0) return [];
+    const endTime = Number(r.endTime);
+    return [
+      {
+        id,
+        title: typeof r.title === "string" ? r.title : "",
+        sceneId,
+        startTime,
+        endTime: clipEnd(startTime, Number.isFinite(endTime) ? endTime : null, fallbackLength),
+      },
+    ];
+  });
+}
+
+export function clipSeconds(clip: RenderClip): number {
+  return Math.max(0, clip.endTime - clip.startTime);
+}
+
+// "003_Title_12-30.mp4": numbered so the files sort in play order.
+export function clipFileName(clip: RenderClip, index: number): string {
+  const name = generateOutputFilename({ ...clip, streamUrl: "" });
+  return `${String(index + 1).padStart(3, "0")}_${name}`;
+}
+
+export function compilationFileName(jobName: string): string {
+  return `${sanitizeFilename(jobName)}.mp4`;
+}
+
+// One folder per job, so jobs with the same name don't overwrite each other.
+export function jobFolderName(jobName: string, jobId: string): string {
+  return `${sanitizeFilename(jobName)}-${jobId.slice(0, 8)}`;
+}
+
+// `-progress pipe:1` writes key=value lines; out_time_us (or out_time_ms,
+// which despite its name is also microseconds) is how far the output got.
+export function progressSecondsFrom(line: string): number | null {
+  const match = line.match(/^out_time_(?:us|ms)=(\d+)/);
+  return match ? Number(match[1]) / 1_000_000 : null;
+}
+
+// Belt and braces for stored errors: drop any api_key query value.
+export function redactApiKey(text: string): string {
+  return text.replace(/(api_?key[=:]\s*)[^&\s"']+/gi, "$1***");
+}
+
+const PROGRESS_ARGS = ["-hide_banner", "-nostats", "-loglevel", "error", "-progress", "pipe:1"];
+
+// -ss before -i seeks in the input before decoding; -t is then the length.
+// The Stash API key goes in a request header rather than the URL, so
+// ffmpeg's error output (which echoes the input URL) doesn't carry it.
+export function cutArgs(
+  inputUrl: string,
+  clip: RenderClip,
+  mode: RenderMode,
+  outputPath: string,
+  apiKey?: string,
+): string[] {
+  const codec =
+    mode === "reencode"
+      ? ["-c:v", "libx264", "-preset", "veryfast", "-crf", "20", "-c:a", "aac", "-b:a", "160k"]
+      : ["-c", "copy", "-avoid_negative_ts", "make_zero"];
+  return [
+    ...PROGRESS_ARGS,
+    "-y",
+    ...(apiKey ? ["-headers", `ApiKey: ${apiKey}\r\n`] : []),
+    "-ss",
+    String(clip.startTime),
+    "-i",
+    inputUrl,
+    "-t",
+    String(clipSeconds(clip)),
+    ...codec,
+    "-movflags",
+    "+faststart",
+    outputPath,
+  ];
+}
+
+// The concat demuxer's list file: one `file '…'` line per part.
+export function concatList(partPaths: string[]): string {
+  return partPaths.map((p) => `file '${p.replace(/'/g, "'\\''")}'`).join("\n") + "\n";
+}
+
+export function concatArgs(listPath: string, outputPath: string): string[] {
+  return [...PROGRESS_ARGS, "-y", "-f", "concat", "-safe", "0", "-i", listPath, "-c", "copy", "-movflags", "+faststart", outputPath];
+}
@@ -0,0 +1,125 @@
+// src/lib/sceneConditions.ts
+//
+// Scene-level criteria for smart playlists (`conditions.scene`): studio,
+// scene date, Stash scene rating, scene tags, resolution and the organised
+// flag. Unlike marker tags and performers these are matched by Stash itself,
+// through the `scene_filter` part of findSceneMarkers.
+//
+// Pure module: shared by the rule builder UI and smartPlaylistServer.
+
+// Stash's ResolutionEnum, smallest first. Stash buckets heights into these
+// contiguous ranges, so "at least X" is "GREATER_THAN the bucket below X".
+const STASH_RESOLUTIONS = [
+  "VERY_LOW",
+  "LOW",
+  "R360P",
+  "STANDARD",
+  "WEB_HD",
+  "STANDARD_HD",
+  "FULL_HD",
+  "QUAD_HD",
+  "VR_HD",
+  "FOUR_K",
+  "FIVE_K",
+  "SIX_K",
+  "SEVEN_K",
+  "EIGHT_K",
+  "HUGE",
+] as const;
+
+export type StashResolution = (typeof STASH_RESOLUTIONS)[number];
+
+// The minimums offered in the rule builder.
+export const MIN_RESOLUTION_OPTIONS: Array<{ value: StashResolution; label: string }> = [
+  { value: "STANDARD", label: "480p" },
+  { value: "STANDARD_HD", label: "720p" },
+  { value: "FULL_HD", label: "1080p" },
+  { value: "QUAD_HD", label: "1440p" },
+  { value: "FOUR_K", label: "4K" },
+  { value: "EIGHT_K", label: "8K" },
+];
+
+export type SceneConditions = {
+  studioIds?: string[];           // Scene is from ANY of these studios
+  tagIds?: string[];              // Scene (not marker) has ALL of these tags
+  dateFrom?: string | null;       // YYYY-MM-DD, inclusive
+  dateTo?: string | null;         // YYYY-MM-DD, inclusive
+  minRating?: number | null;      // Stash scene rating in stars (1-5)
+  minResolution?: StashResolution | null;
+  organized?: boolean | null;     // null = either
+};
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function ids(raw: unknown): string[] {
+  return Array.isArray(raw) ? Array.from(new Set(raw.map(String).filter(Boolean))) : [];
+}
+
+// Sanitise stored scene conditions. Returns null when nothing is set, so
+// "no scene criteria" has a single representation.
+export function parseSceneConditions(raw: unknown): SceneConditions | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+
+  const studioIds = ids(r.studioIds);
+  const tagIds = ids(r.tagIds);
+  const dateFrom = typeof r.dateFrom === "string" && DATE_RE.test(r.dateFrom) ? r.dateFrom : null;
+  const dateTo = typeof r.dateTo === "string" && DATE_RE.test(r.dateTo) ? r.dateTo : null;
+  const rating = Number(r.minRating);
+  const minRating = Number.isFinite(rating) && rating >= 1 ? Math.min(5, Math.floor(rating)) : null;
+  const minResolution = STASH_RESOLUTIONS.includes(r.minResolution as StashResolution)
+    ? (r.minResolution as StashResolution)
+    : null;
+  const organized = typeof r.organized === "boolean" ? r.organized : null;
+
+  const parsed: SceneConditions = { studioIds, tagIds, dateFrom, dateTo, minRating, minResolution, organized };
+  return hasSceneConditions(parsed) ? parsed : null;
+}
+
+export function hasSceneConditions(s: SceneConditions | null | undefined): boolean {
+  if (!s) return false;
+  return (
+    (s.studioIds?.length ?? 0) > 0 ||
+    (s.tagIds?.length ?? 0) > 0 ||
+    !!s.dateFrom ||
+    !!s.dateTo ||
+    s.minRating != null ||
+    s.minResolution != null ||
+    s.organized != null
+  );
+}
+
+// Translate into a Stash SceneFilterType. Every criterion maps exactly, so
+// no client-side re-check is needed afterwards.
+export function toStashSceneFilter(s: SceneConditions): Record<string, unknown> {
+  const filter: Record<string, unknown> = {};
+
+  if (s.studioIds?.length) {
+    filter.studios = { value: s.studioIds, modifier: "INCLUDES", depth: 0 };
+  }
+  if (s.tagIds?.length) {
+    filter.tags = { value: s.tagIds, modifier: "INCLUDES_ALL", depth: 0 };
+  }
+  if (s.dateFrom || s.dateTo) {
+    // BETWEEN is inclusive at both ends; an open end gets a sentinel date.
+    filter.date = {
+      value: s.dateFrom ?? "0001-01-01",
+      value2: s.dateTo ?? "9999-12-31",
+      modifier: "BETWEEN",
+    };
+  }
+  if (s.minRating != null) {
+    filter.rating100 = { value: s.minRating * 20 - 1, modifier: "GREATER_THAN" };
+  }
+  if (s.minResolution) {
+    const idx = STASH_RESOLUTIONS.indexOf(s.minResolution);
+    if (idx > 0) {
+      filter.resolution = { value: STASH_RESOLUTIONS[idx - 1], modifier: "GREATER_THAN" };
+    }
+  }
+  if (s.organized != null) {
+    filter.organized = s.organized;
+  }
+
+  return filter;
+}
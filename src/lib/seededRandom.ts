@@ -0,0 +1,25 @@
+// src/lib/seededRandom.ts
+//
+// Deterministic randomness for anything that must come out the same way
+// twice (seeded playlist orders). Not for security.
+
+// 32-bit FNV-1a over the key, mixed with the seed and finished with a
+// murmur3-style avalanche so nearby keys land far apart.
+export function seededHash(seed: number, key: string): number {
+  let h = (0x811c9dc5 ^ (seed >>> 0)) >>> 0;
+  for (let i = 0; i < key.length; i++) {
+    h ^= key.charCodeAt(i);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b) >>> 0;
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35) >>> 0;
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+// A fresh seed for callers that want a new random order.
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x7fffffff);
+}
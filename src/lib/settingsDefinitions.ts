@@ -22,6 +22,7 @@ export const SETTING_CATEGORIES = {
   SMART_PLAYLIST_REFRESH: 'Smart Playlist Refresh',
   ACTOR_PLAYLIST_GENERATION: 'Template Generation',
   ACTOR_MARKER_COUNT: 'Actor Marker Counts',
+  CLIP_RENDERING: 'Clip Rendering',
   BACKUP: 'Database Backup',
   MAINTENANCE: 'Database Maintenance',
 } as const;
@@ -109,6 +110,85 @@ export const SETTINGS_DEFINITIONS: SettingDefinition[] = [
       return null;
     },
   },
+  {
+    key: 'DEFAULT_CLIP_FALLBACK_LENGTH',
+    defaultValue: '30',
+    type: 'number',
+    category: SETTING_CATEGORIES.PLAYBACK,
+    label: 'Fallback Clip Length',
+    description: 'Length in seconds to use for markers that have no end time in Stash.',
+    required: false,
+    validation: (value) => {
+      const num = parseInt(value);
+      if (isNaN(num)) return 'Must be a number';
+      if (num < 1) return 'Must be at least 1 second';
+      if (num > 600) return 'Maximum 600 seconds (10 minutes)';
+      return null;
+    },
+  },
+  {
+    key: 'DEFAULT_CLIP_TRANSITION',
+    defaultValue: 'off',
+    type: 'select',
+    category: SETTING_CATEGORIES.PLAYBACK,
+    label: 'Clip Transition',
+    description: 'How the playlist player moves between clips. "cut" and "crossfade" preload the next clip so there is no black gap. Playlists can override this.',
+    required: false,
+    options: ['off', 'cut', 'crossfade'],
+  },
+  {
+    key: 'DEFAULT_CROSSFADE_SECONDS',
+    defaultValue: '2',
+    type: 'number',
+    category: SETTING_CATEGORIES.PLAYBACK,
+    label: 'Crossfade Duration',
+    description: 'Seconds the outgoing and incoming clips overlap when the clip transition is "crossfade".',
+    required: false,
+    validation: (value) => {
+      const num = Number(value);
+      if (isNaN(num)) return 'Must be a number';
+      if (num < 0.5) return 'Must be at least 0.5 seconds';
+      if (num > 10) return 'Maximum 10 seconds';
+      return null;
+    },
+  },
+  {
+    key: 'SKIP_THRESHOLD_PERCENT',
+    defaultValue: '50',
+    type: 'number',
+    category: SETTING_CATEGORIES.PLAYBACK,
+    label: 'Skip Threshold (%)',
+    description: 'A clip left before this share of its length has played counts as skipped rather than played.',
+    required: false,
+    validation: (value) => {
+      const num = Number(value);
+      if (isNaN(num)) return 'Must be a number';
+      if (num < 1) return 'Must be at least 1%';
+      if (num > 100) return 'Maximum 100%';
+      return null;
+    },
+  },
+  {
+    key: 'KEYBOARD_SHORTCUTS',
+    defaultValue: '{}',
+    type: 'json',
+    category: SETTING_CATEGORIES.PLAYBACK,
+    label: 'Keyboard Shortcuts',
+    description: 'Keys for the playlist player, video wall and timeline editor. Press ? on those pages to see the current shortcuts.',
+    required: false,
+    validation: (value) => {
+      if (!value.trim()) return null;
+      try {
+        const parsed = JSON.parse(value);
+        if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+          return 'Must be a valid JSON object';
+        }
+        return null;
+      } catch {
+        return 'Invalid JSON format';
+      }
+    },
+  },
   {
     key: 'BACKUP_ENABLED',
     defaultValue: 'true',
@@ -187,7 +267,7 @@ export const SETTINGS_DEFINITIONS: SettingDefinition[] = [
     type: 'select',
     category: SETTING_CATEGORIES.SMART_PLAYLIST_REFRESH,
     label: 'Enable Automatic Refresh',
-    description: 'Automatically refresh smart playlists on a schedule to sync with new content in Stash',
+    description: 'Automatically refresh smart playlists on a schedule to sync with new content in Stash. Playlists given their own schedule on the playlist page are refreshed on that instead.',
     required: false,
     options: ['true', 'false'],
   },
@@ -301,6 +381,16 @@ export const SETTINGS_DEFINITIONS: SettingDefinition[] = [
       return null;
     },
   },
+  {
+    key: 'RENDER_JOBS_ENABLED',
+    defaultValue: 'false',
+    type: 'select',
+    category: SETTING_CATEGORIES.CLIP_RENDERING,
+    label: 'Enable Server Rendering',
+    description: 'Let the server run ffmpeg itself to cut markers and playlists into files, shown on the Jobs page. Needs ffmpeg installed where the app runs (on the PATH, or set the FFMPEG_PATH environment variable). Files go to /data/renders (Docker) or ./renders, or the RENDER_OUTPUT_DIR environment variable.',
+    required: false,
+    options: ['true', 'false'],
+  },
 ];
 
 // Helper to get setting definition by key
@@ -337,7 +427,7 @@ export async function getDefaultClipSettings() {
   
   try {
     const settings = await prisma.settings.findMany({
-      where: { key: { in: ['DEFAULT_CLIP_BEFORE', 'DEFAULT_CLIP_AFTER'] } },
+      where: { key: { in: ['DEFAULT_CLIP_BEFORE', 'DEFAULT_CLIP_AFTER', 'DEFAULT_CLIP_FALLBACK_LENGTH'] } },
       select: { key: true, value: true },
     });
     
@@ -346,6 +436,70 @@ export async function getDefaultClipSettings() {
     return {
       before: Math.max(0, Number(settingsMap.DEFAULT_CLIP_BEFORE ?? '0')),
       after: Math.max(0, Number(settingsMap.DEFAULT_CLIP_AFTER ?? '0')),
+      fallbackLength: Math.max(1, Number(settingsMap.DEFAULT_CLIP_FALLBACK_LENGTH ?? '30') || 30),
+    };
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Helper to get the share of a clip (0-100) that has to play before
+// leaving it counts as a play rather than a skip
+export async function getSkipThresholdPercent(): Promise<number> {
+  const { PrismaClient } = await import("@prisma/client");
+  const prisma = new PrismaClient();
+
+  try {
+    const setting = await prisma.settings.findUnique({
+      where: { key: 'SKIP_THRESHOLD_PERCENT' },
+      select: { value: true },
+    });
+    const num = Number(setting?.value ?? '50');
+    return Number.isFinite(num) ? Math.max(1, Math.min(100, num)) : 50;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Helper to get the Stash server URL and API key, for building media URLs
+// with makeStashUrl on the server. The environment wins, as for GraphQL.
+export async function getStashMediaSettings(): Promise<{ stashServer: string; apiKey: string }> {
+  const { PrismaClient } = await import("@prisma/client");
+  const prisma = new PrismaClient();
+
+  try {
+    const rows = await prisma.settings.findMany({
+      where: { key: { in: ['STASH_SERVER', 'STASH_API'] } },
+      select: { key: true, value: true },
+    });
+    const map = Object.fromEntries(rows.map((r) => [r.key, r.value ?? '']));
+    return {
+      stashServer: (process.env.STASH_SERVER || map.STASH_SERVER || '').trim(),
+      apiKey: (process.env.STASH_API || map.STASH_API || '').trim(),
+    };
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Helper to get the server rendering settings. The ffmpeg executable and
+// the output folder only come from the FFMPEG_PATH and RENDER_OUTPUT_DIR
+// environment variables: the settings API is unauthenticated, so stored
+// settings would let anyone choose what runs and where it writes.
+export async function getRenderSettings(): Promise<{ enabled: boolean; outputDir: string; ffmpegPath: string }> {
+  const { PrismaClient } = await import("@prisma/client");
+  const prisma = new PrismaClient();
+
+  try {
+    const rows = await prisma.settings.findMany({
+      where: { key: 'RENDER_JOBS_ENABLED' },
+      select: { key: true, value: true },
+    });
+    const map = Object.fromEntries(rows.map((r) => [r.key, r.value]));
+    return {
+      enabled: map.RENDER_JOBS_ENABLED === 'true',
+      outputDir: (process.env.RENDER_OUTPUT_DIR || '').trim(),
+      ffmpegPath: (process.env.FFMPEG_PATH || '').trim() || 'ffmpeg',
     };
   } finally {
     await prisma.$disconnect();
@@ -0,0 +1,70 @@
+// src/lib/shuffleService.ts
+//
+// Server-side shuffle of a playlist's items (see playlistShuffle.ts). Fills
+// in the local rating/play counts and, for the performer spread, each
+// scene's performers from Stash.
+import { prisma } from "@/lib/prisma";
+import { stashGraph } from "@/lib/smartPlaylistServer";
+import { shuffleOrder, type ShuffleKeys, type ShuffleOptions } from "@/lib/playlistShuffle";
+
+export type ShuffleResult = ShuffleOptions & {
+  order: string[]; // Item ids in play order
+};
+
+// Items saved before sceneId was stored still carry it in the stream path.
+export function sceneIdOf(item: { sceneId: string | null; stream: string | null }): string | null {
+  if (item.sceneId) return item.sceneId;
+  const match = item.stream?.match(/\/scene\/([^/]+)\/stream/);
+  return match ? match[1] : null;
+}
+
+async function fetchScenePerformers(sceneIds: string[]): Promise<Map<string, string[]>> {
+  const result = new Map<string, string[]>();
+  if (!sceneIds.length) return result;
+
+  const data = await stashGraph<{
+    findScenes: { scenes: Array<{ id: string; performers: Array<{ id: string }> }> };
+  }>(
+    `query ShuffleScenePerformers($ids: [ID!]) {
+      findScenes(ids: $ids, filter: { per_page: -1 }) {
+        scenes { id performers { id } }
+      }
+    }`,
+    { ids: sceneIds }
+  );
+  for (const scene of data.findScenes.scenes) {
+    result.set(String(scene.id), scene.performers.map((p) => String(p.id)));
+  }
+  return result;
+}
+
+export async function shufflePlaylist(playlistId: string, options: ShuffleOptions): Promise<ShuffleResult> {
+  const links = await prisma.playlistItem.findMany({
+    where: { playlistId },
+    orderBy: { itemOrder: "asc" },
+    select: {
+      item: { select: { id: true, sceneId: true, stream: true, rating: true, playCount: true } },
+    },
+  });
+
+  const keys: ShuffleKeys[] = links.map(({ item }) => ({
+    id: item.id,
+    sceneId: sceneIdOf(item),
+    rating: item.rating,
+    playCount: item.playCount,
+  }));
+
+  if (options.spread === "performer") {
+    // Without Stash the order is still valid, just not spread by performer.
+    try {
+      const sceneIds = [...new Set(keys.map((k) => k.sceneId).filter((v): v is string => !!v))];
+      const performers = await fetchScenePerformers(sceneIds);
+      for (const k of keys) k.performerIds = k.sceneId ? performers.get(k.sceneId) ?? [] : [];
+    } catch (error) {
+      console.warn(`[Shuffle] Could not load performers for playlist ${playlistId}:`, error);
+    }
+  }
+
+  const order = shuffleOrder(keys, options).map((i) => keys[i].id);
+  return { ...options, order };
+}
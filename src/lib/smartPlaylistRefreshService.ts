@@ -2,6 +2,9 @@
 
 import * as cron from 'node-cron';
 import { PrismaClient } from '@prisma/client';
+import { refreshSmartPlaylist } from '@/lib/playlistSyncService';
+import { stashGraph } from '@/lib/smartPlaylistServer';
+import { isScheduleDue, parseRefreshSchedule, type PlaylistRefreshSchedule } from '@/lib/playlistSchedule';
 
 export interface RefreshStatus {
   lastRefresh?: Date;
@@ -17,12 +20,49 @@ export interface RefreshResult {
   success: boolean;
   refreshedPlaylists: number;
   errors: string[];
+  // Playlists that refreshed but hit the marker fetch cap, so are incomplete
+  warnings: string[];
   duration: number;
 }
 
+// One entry of RefreshLog.errors for a smart playlist refresh. playlistId is
+// null for failures that aren't tied to a playlist. Logs written before
+// these records existed hold plain strings instead.
+export type RefreshErrorRecord = {
+  playlistId: string | null;
+  playlistName: string | null;
+  error: string;
+};
+
 let cronJob: cron.ScheduledTask | null = null;
+// Per-playlist schedules: an hourly tick for hourly/daily/weekly playlists
+// and a poll that watches Stash for changes.
+let playlistScheduleJob: cron.ScheduledTask | null = null;
+let stashWatchJob: cron.ScheduledTask | null = null;
+let lastStashFingerprint: string | null = null;
 let isRefreshRunning = false;
 
+// Every run (manual, scheduled, stash-change) queues behind the one in
+// progress instead of being dropped: a schedule only fires in its own hour,
+// so a dropped run would skip that playlist for the whole period.
+let refreshChain: Promise<unknown> = Promise.resolve();
+function enqueueRefresh<T>(job: () => Promise<T>): Promise<T> {
+  const run = refreshChain.then(job, job);
+  refreshChain = run.catch(() => undefined);
+  return run;
+}
+// A manual refresh-all already waiting covers a second click.
+let manualRefreshPending = false;
+
+// One playlist's refresh from the API (editor save, refresh button), queued
+// like the others so it never writes the same playlist as a scheduled run.
+export function enqueuePlaylistRefresh(
+  playlistId: string,
+  opts: Parameters<typeof refreshSmartPlaylist>[1],
+): ReturnType<typeof refreshSmartPlaylist> {
+  return enqueueRefresh(() => refreshSmartPlaylist(playlistId, opts));
+}
+
 // Get refresh settings from database
 async function getRefreshSettings() {
   const prisma = new PrismaClient();
@@ -54,61 +94,86 @@ async function getRefreshSettings() {
   }
 }
 
-// Refresh all smart playlists
+// Refresh all smart playlists. A manual refresh covers every one; the global
+// schedule only those that haven't been given a schedule of their own.
 export async function refreshAllSmartPlaylists(refreshType: 'manual' | 'scheduled' = 'manual'): Promise<RefreshResult> {
-  if (isRefreshRunning) {
+  if (refreshType === 'scheduled') {
+    return enqueueRefresh(() => refreshSmartPlaylists('scheduled', (schedule) => schedule.mode === 'global'));
+  }
+
+  if (manualRefreshPending) {
     return {
       success: false,
       refreshedPlaylists: 0,
       errors: ['Refresh is already running'],
+      warnings: [],
       duration: 0,
     };
   }
+  manualRefreshPending = true;
+  try {
+    return await enqueueRefresh(() => refreshSmartPlaylists('manual', () => true));
+  } finally {
+    manualRefreshPending = false;
+  }
+}
 
+// Refresh the smart playlists whose schedule passes `include`, one at a
+// time, recording the run in RefreshLog. Non-manual runs with nothing to do
+// return without logging, so the hourly tick doesn't flood the history.
+// Callers go through enqueueRefresh, so runs never overlap.
+async function refreshSmartPlaylists(
+  refreshType: 'manual' | 'scheduled' | 'stash-change',
+  include: (schedule: PlaylistRefreshSchedule) => boolean,
+): Promise<RefreshResult> {
   isRefreshRunning = true;
   const startTime = Date.now();
   const errors: string[] = [];
+  const errorRecords: RefreshErrorRecord[] = [];
+  const warnings: string[] = [];
   let refreshedCount = 0;
 
   try {
     const prisma = new PrismaClient();
     
     try {
-      // Get all smart playlists
-      const smartPlaylists = await prisma.playlist.findMany({
-        where: { type: 'SMART' },
-        select: { id: true, name: true },
-      });
+      // Get the smart playlists this run covers
+      const smartPlaylists = (
+        await prisma.playlist.findMany({
+          where: { type: 'SMART' },
+          select: { id: true, name: true, refreshSchedule: true },
+        })
+      ).filter((p) => include(parseRefreshSchedule(p.refreshSchedule)));
+
+      if (smartPlaylists.length === 0 && refreshType !== 'manual') {
+        return { success: true, refreshedPlaylists: 0, errors: [], warnings: [], duration: Date.now() - startTime };
+      }
 
       console.log(`[SmartPlaylistRefresh] ${refreshType} refresh started - Found ${smartPlaylists.length} smart playlists to refresh`);
 
-      // Refresh each playlist
+      // Refresh each playlist in-process, one at a time
       for (const playlist of smartPlaylists) {
         try {
-          // Call the refresh API endpoint internally
-          const response = await fetch(`${process.env.NEXTAUTH_URL || 'http://localhost:3000'}/api/playlists/${playlist.id}/items`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ refresh: true }),
+          const result = await refreshSmartPlaylist(playlist.id, {
+            preserveTimings: true,
+            // Automatic runs draw a fresh random selection; manual ones keep it
+            reroll: refreshType !== 'manual',
+            trigger: refreshType,
           });
-
-          if (response.ok) {
-            refreshedCount++;
-            console.log(`[SmartPlaylistRefresh] Successfully refreshed playlist: ${playlist.name}`);
-          } else {
-            const errorText = await response.text();
-            const error = `Failed to refresh playlist "${playlist.name}": ${response.status} ${errorText}`;
-            errors.push(error);
-            console.error(`[SmartPlaylistRefresh] ${error}`);
+          refreshedCount++;
+          console.log(`[SmartPlaylistRefresh] Successfully refreshed playlist: ${playlist.name}`);
+          if (result.truncated) {
+            const warning = `Playlist "${playlist.name}" is incomplete: Stash reported ${result.totalAvailable} candidate markers, over the fetch cap`;
+            warnings.push(warning);
+            console.warn(`[SmartPlaylistRefresh] ${warning}`);
           }
         } catch (error) {
-          const errorMsg = `Error refreshing playlist "${playlist.name}": ${error}`;
+          const message = error instanceof Error ? error.message : String(error);
+          const errorMsg = `Error refreshing playlist "${playlist.name}": ${message}`;
           errors.push(errorMsg);
+          errorRecords.push({ playlistId: playlist.id, playlistName: playlist.name, error: message });
           console.error(`[SmartPlaylistRefresh] ${errorMsg}`);
         }
-
-        // Small delay between refreshes to avoid overwhelming the system
-        await new Promise(resolve => setTimeout(resolve, 100));
       }
 
       const duration = Date.now() - startTime;
@@ -120,17 +185,18 @@ export async function refreshAllSmartPlaylists(refreshType: 'manual' | 'schedule
           refreshType,
           success,
           refreshedPlaylists: refreshedCount,
-          errors: errors.length > 0 ? errors : undefined,
+          errors: errorRecords.length > 0 ? errorRecords : undefined,
           duration,
         },
       });
 
-      console.log(`[SmartPlaylistRefresh] ${refreshType} refresh completed in ${duration}ms. Refreshed: ${refreshedCount}, Errors: ${errors.length}`);
+      console.log(`[SmartPlaylistRefresh] ${refreshType} refresh completed in ${duration}ms. Refreshed: ${refreshedCount}, Errors: ${errors.length}, Incomplete: ${warnings.length}`);
 
       return {
         success,
         refreshedPlaylists: refreshedCount,
         errors,
+        warnings,
         duration,
       };
     } finally {
@@ -149,7 +215,7 @@ export async function refreshAllSmartPlaylists(refreshType: 'manual' | 'schedule
           refreshType,
           success: false,
           refreshedPlaylists: refreshedCount,
-          errors: [errorMsg],
+          errors: [...errorRecords, { playlistId: null, playlistName: null, error: errorMsg }],
           duration,
         },
       });
@@ -162,6 +228,7 @@ export async function refreshAllSmartPlaylists(refreshType: 'manual' | 'schedule
       success: false,
       refreshedPlaylists: refreshedCount,
       errors: [errorMsg],
+      warnings,
       duration,
     };
   } finally {
@@ -247,18 +314,85 @@ function getNextRunTime(cronExpression: string): Date | null {
   }
 }
 
+// Stash's most recently updated marker and scene, plus their counts. Any
+// edit, addition or deletion in Stash changes it.
+async function getStashFingerprint(): Promise<string> {
+  const data = await stashGraph<Record<string, unknown>>(`
+    query StashChangeFingerprint {
+      findSceneMarkers(filter: { per_page: 1, sort: "updated_at", direction: DESC }) {
+        count
+        scene_markers { id updated_at }
+      }
+      findScenes(filter: { per_page: 1, sort: "updated_at", direction: DESC }) {
+        count
+        scenes { id updated_at }
+      }
+    }
+  `, {});
+  return JSON.stringify(data);
+}
+
+// Polled every few minutes; refreshes "on Stash change" playlists when the
+// fingerprint moves. The first poll only records a baseline.
+async function checkForStashChanges(): Promise<void> {
+  const prisma = new PrismaClient();
+  let watching: boolean;
+  try {
+    const playlists = await prisma.playlist.findMany({
+      where: { type: 'SMART' },
+      select: { refreshSchedule: true },
+    });
+    watching = playlists.some((p) => parseRefreshSchedule(p.refreshSchedule).mode === 'stashChange');
+  } finally {
+    await prisma.$disconnect();
+  }
+
+  if (!watching) {
+    lastStashFingerprint = null;
+    return;
+  }
+
+  const fingerprint = await getStashFingerprint();
+  if (lastStashFingerprint === null || lastStashFingerprint === fingerprint) {
+    lastStashFingerprint = fingerprint;
+    return;
+  }
+  lastStashFingerprint = fingerprint;
+
+  console.log('[SmartPlaylistRefresh] Stash changed, refreshing watching playlists...');
+  await enqueueRefresh(() => refreshSmartPlaylists('stash-change', (s) => s.mode === 'stashChange'));
+}
+
+// Per-playlist jobs run whether or not the global schedule is enabled.
+function startPlaylistScheduleJobs(): void {
+  playlistScheduleJob = cron.schedule('0 * * * *', async () => {
+    const now = new Date();
+    await enqueueRefresh(() => refreshSmartPlaylists('scheduled', (s) => isScheduleDue(s, now)));
+  }, {
+    timezone: 'UTC'
+  });
+
+  stashWatchJob = cron.schedule('*/10 * * * *', async () => {
+    try {
+      await checkForStashChanges();
+    } catch (error) {
+      console.error('[SmartPlaylistRefresh] Stash change check failed:', error);
+    }
+  }, {
+    timezone: 'UTC'
+  });
+}
+
 // Start the refresh scheduler
 export async function startRefreshScheduler(): Promise<void> {
-  // Stop existing job if running
-  if (cronJob) {
-    cronJob.destroy();
-    cronJob = null;
-  }
+  // Stop existing jobs if running
+  stopRefreshScheduler();
+  startPlaylistScheduleJobs();
 
   const settings = await getRefreshSettings();
   
   if (!settings.enabled) {
-    console.log('[SmartPlaylistRefresh] Scheduler disabled');
+    console.log('[SmartPlaylistRefresh] Global scheduler disabled; per-playlist schedules still active');
     return;
   }
 
@@ -288,6 +422,10 @@ export function stopRefreshScheduler(): void {
     cronJob = null;
     console.log('[SmartPlaylistRefresh] Scheduler stopped');
   }
+  playlistScheduleJob?.destroy();
+  playlistScheduleJob = null;
+  stashWatchJob?.destroy();
+  stashWatchJob = null;
 }
 
 // Restart the scheduler (useful when settings change)
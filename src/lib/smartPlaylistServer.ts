@@ -1,6 +1,32 @@
 // filepath: src/lib/smartPlaylistServer.ts
 import prisma from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
 import { getDefaultClipSettings } from "@/lib/settingsDefinitions";
+import {
+  evaluateRuleNode,
+  parseRuleGroup,
+  positiveCover,
+  pruneRuleGroup,
+  requiredLeaves,
+  type RuleGroup,
+} from "@/lib/conditionTree";
+import { parsePlaylistSort, sortByPlaylistSort, type PlaylistSort } from "@/lib/playlistSort";
+import { parseSceneConditions, toStashSceneFilter, type SceneConditions } from "@/lib/sceneConditions";
+import {
+  clipWindow,
+  markerDuration,
+  parseClipConditions,
+  parseDurationBounds,
+  type ClipConditions,
+} from "@/lib/clipLength";
+import {
+  parsePlaylistSelection,
+  selectByPlaylistSelection,
+  selectionNeedsSeed,
+  type PlaylistSelection,
+} from "@/lib/playlistSelection";
+import { randomSeed } from "@/lib/seededRandom";
+import { skipRatio } from "@/lib/playEvents";
 
 type StashConfig = { url: string; apiKey?: string };
 
@@ -112,19 +138,49 @@ export async function stashGraph<T>(
 
 // ---------- SMART PLAYLIST BUILDER ----------
 
+// Stash is paged through rather than asked for everything at once: large
+// libraries used to time out or come back silently truncated.
+const MARKER_PAGE_SIZE = 500;
+const MARKER_PAGE_CONCURRENCY = 3;
+export const DEFAULT_MAX_MARKERS = 10000;
+
 export type SmartPlaylistConditions = {
   actorIds?: string[];
   tagIds?: string[];           // Legacy format (treated as requiredTagIds for backward compat)
   requiredTagIds?: string[];   // ALL must match (INCLUDES_ALL)
   optionalTagIds?: string[];   // ANY must match (INCLUDES)
+  excludedTagIds?: string[];   // NONE may match (EXCLUDES)
+  excludedActorIds?: string[]; // Skip scenes featuring any of these performers
   minRating?: number | null;
   exactRating?: number | null;
   // Play-count filter (local Item.playCount): "atLeast" keeps markers played
   // >= value; "atMost" keeps markers played <= value (incl. never-played).
   playCountMode?: 'atLeast' | 'atMost' | null;
   playCountValue?: number | null;
-  perPage?: number;
-  clip?: { before?: number; after?: number };
+  // Skip filters (local Item.skipCount / playCount, see playEvents.ts), same
+  // modes: skips counted, or skips as a percentage (0-100) of every time the
+  // marker stopped playing. A marker never played or skipped has 0 of both.
+  skipCountMode?: 'atLeast' | 'atMost' | null;
+  skipCountValue?: number | null;
+  skipRatioMode?: 'atLeast' | 'atMost' | null;
+  skipRatioValue?: number | null;
+  // Nested AND/OR/NOT groups (see conditionTree.ts), ANDed with the flat
+  // actor/tag fields above.
+  rules?: RuleGroup | null;
+  // Scene-level criteria (studio, date, rating, tags, resolution,
+  // organised), matched by Stash via scene_filter; see sceneConditions.ts.
+  scene?: SceneConditions | null;
+  sort?: PlaylistSort | null;  // Item order, re-applied on every refresh (see playlistSort.ts)
+  // Limit + strategy picking which matches make the playlist (see
+  // playlistSelection.ts). Applied when items are built, after sorting.
+  selection?: PlaylistSelection | null;
+  maxMarkers?: number;         // Cap on markers pulled from Stash (default DEFAULT_MAX_MARKERS)
+  perPage?: number;            // Legacy name for maxMarkers
+  // Marker duration bounds in seconds; markers with no end time count as
+  // DEFAULT_CLIP_FALLBACK_LENGTH long.
+  minDuration?: number | null;
+  maxDuration?: number | null;
+  clip?: ClipConditions | null; // Padding and fixed-length mode (see clipLength.ts)
 };
 
 // Marker shape returned by fetchFilteredStashMarkers — includes everything
@@ -134,18 +190,21 @@ export type StashMarker = {
   title?: string | null;
   seconds: number;
   end_seconds?: number | null;
+  created_at?: string | null;
   screenshot?: string | null;
   stream?: string | null;
   preview?: string | null;
   scene: {
     id: string;
     title?: string | null;
+    date?: string | null;
     performers?: Array<{ id: string; name: string }>;
   } | null;
   tags?: Array<{ id: string; name: string }>;
+  primary_tag?: { id: string; name: string } | null;
 };
 
-type BuiltItem = {
+export type BuiltItem = {
   id: string;
   title?: string;
   startTime: number;
@@ -180,6 +239,12 @@ function normalizeConditions(conditions: SmartPlaylistConditions) {
   const optionalTagIds = Array.isArray(conditions.optionalTagIds)
     ? conditions.optionalTagIds.map(String)
     : [];
+  const excludedTagIds = Array.isArray(conditions.excludedTagIds)
+    ? conditions.excludedTagIds.map(String)
+    : [];
+  const excludedActorIds = Array.isArray(conditions.excludedActorIds)
+    ? conditions.excludedActorIds.map(String)
+    : [];
   const minRating = remapLegacyRating(conditions.minRating as any);
   const exactRating = remapLegacyRating(conditions.exactRating as any);
 
@@ -190,44 +255,126 @@ function normalizeConditions(conditions: SmartPlaylistConditions) {
   const playCountMode =
     (rawMode === 'atLeast' || rawMode === 'atMost') && playCountValue != null ? rawMode : null;
 
-  const perPage = Math.max(1, Number(conditions.perPage ?? 10000));
+  const rawSkipCount = Number(conditions.skipCountValue);
+  const skipCountValue = Number.isFinite(rawSkipCount) && rawSkipCount >= 0 ? Math.floor(rawSkipCount) : null;
+  const skipCountMode =
+    (conditions.skipCountMode === 'atLeast' || conditions.skipCountMode === 'atMost') && skipCountValue != null
+      ? conditions.skipCountMode
+      : null;
+  const rawSkipRatio = Number(conditions.skipRatioValue);
+  const skipRatioValue =
+    conditions.skipRatioValue != null && Number.isFinite(rawSkipRatio) ? Math.max(0, Math.min(100, rawSkipRatio)) : null;
+  const skipRatioMode =
+    (conditions.skipRatioMode === 'atLeast' || conditions.skipRatioMode === 'atMost') && skipRatioValue != null
+      ? conditions.skipRatioMode
+      : null;
+
+  const rules = pruneRuleGroup(parseRuleGroup(conditions.rules));
+  const scene = parseSceneConditions(conditions.scene);
+  const { minDuration, maxDuration } = parseDurationBounds(conditions.minDuration, conditions.maxDuration);
+  const sort = parsePlaylistSort(conditions.sort);
+
+  const rawMax = Number(conditions.maxMarkers ?? conditions.perPage ?? DEFAULT_MAX_MARKERS);
+  const maxMarkers = Number.isFinite(rawMax) ? Math.max(1, Math.floor(rawMax)) : DEFAULT_MAX_MARKERS;
   return {
     actorIds,
     requiredTagIds,
     optionalTagIds,
+    excludedTagIds,
+    excludedActorIds,
     minRating,
     exactRating,
     playCountMode,
     playCountValue: playCountMode ? playCountValue : null,
-    perPage,
+    skipCountMode,
+    skipCountValue: skipCountMode ? skipCountValue : null,
+    skipRatioMode,
+    skipRatioValue: skipRatioMode ? skipRatioValue : null,
+    rules,
+    scene,
+    minDuration,
+    maxDuration,
+    sort,
+    maxMarkers,
   };
 }
 
 type NormalizedConditions = ReturnType<typeof normalizeConditions>;
 
+function hasSkipFilter(n: NormalizedConditions): boolean {
+  return n.skipCountMode != null || n.skipRatioMode != null;
+}
+
+// Skip count / ratio filters against one marker's local counters.
+function matchesSkipFilters(counts: { playCount: number; skipCount: number }, n: NormalizedConditions): boolean {
+  const compare = (mode: 'atLeast' | 'atMost' | null, actual: number, value: number | null) =>
+    mode == null || value == null || (mode === 'atLeast' ? actual >= value : actual <= value);
+  return (
+    compare(n.skipCountMode, counts.skipCount, n.skipCountValue) &&
+    compare(n.skipRatioMode, skipRatio(counts.playCount, counts.skipCount) * 100, n.skipRatioValue)
+  );
+}
+
+// Normalised exclusion lists, so the preview endpoint can echo back exactly
+// what the refresh path will exclude.
+export function getExclusions(conditions: SmartPlaylistConditions) {
+  const { excludedTagIds, excludedActorIds } = normalizeConditions(conditions);
+  return { excludedTagIds, excludedActorIds };
+}
+
 // Build the Stash GraphQL query string and variable map dynamically.
 // Only includes filter clauses for arrays that are non-empty — sending
 // INCLUDES_ALL: [] to Stash returns only entities with NO matching
 // tags/performers, which is the opposite of "no constraint".
+//
+// Rule groups are only partially expressible in one Stash filter, so they
+// contribute a superset here (leaves every match must have, or a set every
+// match has one of) and are evaluated exactly afterwards.
 function buildStashMarkerQuery(
-  n: Pick<NormalizedConditions, "actorIds" | "requiredTagIds" | "optionalTagIds" | "perPage">,
-): { query: string; vars: Record<string, any>; needsOptionalTagFilter: boolean } {
-  const { actorIds, requiredTagIds, optionalTagIds, perPage } = n;
+  n: Pick<
+    NormalizedConditions,
+    "actorIds" | "requiredTagIds" | "optionalTagIds" | "excludedTagIds" | "excludedActorIds" | "rules" | "scene"
+  >,
+): {
+  query: string;
+  vars: Record<string, any>;
+  needsOptionalTagFilter: boolean;
+  needsExclusionFilter: boolean;
+} {
+  const { optionalTagIds, excludedTagIds, excludedActorIds, rules, scene } = n;
+
+  const ruleRequired = requiredLeaves(rules);
+  const actorIds = Array.from(new Set([...n.actorIds, ...ruleRequired.actorIds]));
+  const requiredTagIds = Array.from(new Set([...n.requiredTagIds, ...ruleRequired.tagIds]));
+  const ruleCover = rules ? positiveCover(rules) : null;
 
   const filterParts: string[] = [];
-  const varDecls: string[] = ["$perPage: Int"];
-  const vars: Record<string, any> = { perPage };
+  // $page / $perPage are filled in per request by fetchMarkerPages.
+  const varDecls: string[] = ["$page: Int", "$perPage: Int"];
+  const vars: Record<string, any> = {};
+  let excludedActorsPushed = false;
+  let excludedTagsPushed = false;
 
   if (actorIds.length) {
     filterParts.push(`performers: { modifier: INCLUDES_ALL, value: $actorIds }`);
     varDecls.push("$actorIds: [ID!]");
     vars.actorIds = actorIds;
+  } else if (ruleCover && ruleCover.actorIds.length && !ruleCover.tagIds.length) {
+    filterParts.push(`performers: { modifier: INCLUDES, value: $coverActorIds }`);
+    varDecls.push("$coverActorIds: [ID!]");
+    vars.coverActorIds = ruleCover.actorIds;
+  } else if (excludedActorIds.length) {
+    filterParts.push(`performers: { modifier: EXCLUDES, value: $excludedActorIds }`);
+    varDecls.push("$excludedActorIds: [ID!]");
+    vars.excludedActorIds = excludedActorIds;
+    excludedActorsPushed = true;
   }
 
   // Tag filtering logic:
   // - If only required tags: use INCLUDES_ALL
   // - If only optional tags: use INCLUDES
   // - If both: use INCLUDES_ALL for required, filter optional client-side
+  // - If neither: narrow by the rule groups' tag cover, if they have one
   const needsOptionalTagFilter = requiredTagIds.length > 0 && optionalTagIds.length > 0;
 
   if (requiredTagIds.length && !optionalTagIds.length) {
@@ -242,6 +389,28 @@ function buildStashMarkerQuery(
     filterParts.push(`tags: { modifier: INCLUDES_ALL, value: $requiredTagIds }`);
     varDecls.push("$requiredTagIds: [ID!]");
     vars.requiredTagIds = requiredTagIds;
+  } else if (ruleCover && ruleCover.tagIds.length && !ruleCover.actorIds.length) {
+    filterParts.push(`tags: { modifier: INCLUDES, value: $coverTagIds }`);
+    varDecls.push("$coverTagIds: [ID!]");
+    vars.coverTagIds = ruleCover.tagIds;
+  } else if (excludedTagIds.length) {
+    filterParts.push(`tags: { modifier: EXCLUDES, value: $excludedTagIds }`);
+    varDecls.push("$excludedTagIds: [ID!]");
+    vars.excludedTagIds = excludedTagIds;
+    excludedTagsPushed = true;
+  }
+
+  // Stash takes one criterion per field, so exclusions only ride along
+  // when their field is otherwise unused; anything left over is dropped
+  // client-side by applyExclusions.
+  const needsExclusionFilter =
+    (excludedActorIds.length > 0 && !excludedActorsPushed) ||
+    (excludedTagIds.length > 0 && !excludedTagsPushed);
+
+  if (scene) {
+    filterParts.push(`scene_filter: $sceneFilter`);
+    varDecls.push("$sceneFilter: SceneFilterType");
+    vars.sceneFilter = toStashSceneFilter(scene);
   }
 
   const sceneMarkerFilter =
@@ -250,7 +419,7 @@ function buildStashMarkerQuery(
   const query = `
     query BuildMarkers(${varDecls.join(", ")}) {
       findSceneMarkers(
-        filter: { per_page: $perPage }
+        filter: { page: $page, per_page: $perPage, sort: "created_at", direction: ASC }
         ${sceneMarkerFilter}
       ) {
         count
@@ -259,21 +428,71 @@ function buildStashMarkerQuery(
           title
           seconds
           end_seconds
+          created_at
           screenshot
           stream
           preview
           scene {
             id
             title
+            date
             performers { id name }
           }
+          primary_tag { id name }
           tags { id name }
         }
       }
     }
   `;
 
-  return { query, vars, needsOptionalTagFilter };
+  return { query, vars, needsOptionalTagFilter, needsExclusionFilter };
+}
+
+// Page through findSceneMarkers using the `count` from the first page, a
+// few pages at a time, stopping at `maxMarkers`. `total` is what Stash
+// reported, so callers can tell when the result was cut short.
+async function fetchMarkerPages(
+  query: string,
+  vars: Record<string, unknown>,
+  maxMarkers: number,
+): Promise<{ markers: RawStashMarker[]; total: number }> {
+  type Q = {
+    findSceneMarkers: {
+      count: number;
+      scene_markers: RawStashMarker[];
+    };
+  };
+
+  const perPage = Math.min(MARKER_PAGE_SIZE, maxMarkers);
+  const fetchPage = async (page: number) => {
+    const data = await stashGraph<Q>(query, { ...vars, page, perPage });
+    return data.findSceneMarkers ?? { count: 0, scene_markers: [] };
+  };
+
+  const first = await fetchPage(1);
+  const total = Number(first.count) || 0;
+  const pageCount = Math.ceil(Math.min(total, maxMarkers) / perPage);
+
+  const pages: RawStashMarker[][] = [first.scene_markers ?? []];
+  for (let start = 2; start <= pageCount; start += MARKER_PAGE_CONCURRENCY) {
+    const batch: number[] = [];
+    for (let page = start; page < start + MARKER_PAGE_CONCURRENCY && page <= pageCount; page++) {
+      batch.push(page);
+    }
+    const results = await Promise.all(batch.map(fetchPage));
+    for (const r of results) pages.push(r.scene_markers ?? []);
+  }
+
+  // Markers created mid-refresh can shift page boundaries; de-dupe by ID.
+  const seen = new Set<string>();
+  const markers: RawStashMarker[] = [];
+  for (const m of pages.flat()) {
+    if (seen.has(m.id)) continue;
+    seen.add(m.id);
+    markers.push(m);
+  }
+
+  return { markers: markers.slice(0, maxMarkers), total };
 }
 
 type RawStashMarker = {
@@ -281,17 +500,48 @@ type RawStashMarker = {
   title?: string | null;
   seconds: number;
   end_seconds?: number | null;
+  created_at?: string | null;
   screenshot?: string | null;
   stream?: string | null;
   preview?: string | null;
   scene: {
     id: string;
     title?: string | null;
+    date?: string | null;
     performers?: Array<{ id: string; name: string }>;
   } | null;
   tags?: Array<{ id: string; name: string }>;
+  primary_tag?: { id: string; name: string } | null;
 };
 
+// ID sets a marker is matched on. A marker's primary tag counts as one of
+// its tags, as it does in Stash's own tag filter.
+function markerActorIds(m: RawStashMarker): Set<string> {
+  return new Set((m.scene?.performers ?? []).map((p) => String(p.id)));
+}
+
+function markerTagIds(m: RawStashMarker): Set<string> {
+  return new Set(
+    [...(m.tags ?? []), ...(m.primary_tag ? [m.primary_tag] : [])].map((t) => String(t.id)),
+  );
+}
+
+// Drop markers carrying an excluded tag or featuring an excluded performer.
+function applyExclusions(
+  markers: RawStashMarker[],
+  n: Pick<NormalizedConditions, "excludedTagIds" | "excludedActorIds">,
+): RawStashMarker[] {
+  if (!n.excludedTagIds.length && !n.excludedActorIds.length) return markers;
+  return markers.filter((m) => {
+    const tagIds = markerTagIds(m);
+    const actorIds = markerActorIds(m);
+    return (
+      !n.excludedTagIds.some((id) => tagIds.has(id)) &&
+      !n.excludedActorIds.some((id) => actorIds.has(id))
+    );
+  });
+}
+
 // Rating-only optimization: fetch marker details for a known set of marker IDs
 // by querying their scenes from Stash (batched via aliased findScene queries).
 // Avoids pulling 10000 unrelated markers when we already know which ones we want.
@@ -323,12 +573,15 @@ async function fetchMarkersByItemIds(
         `s${idx}: findScene(id: ${JSON.stringify(id)}) {
           id
           title
+          date
           performers { id name }
           scene_markers {
             id
             title
             seconds
             end_seconds
+            created_at
+            primary_tag { id name }
             tags { id name }
           }
         }`,
@@ -347,15 +600,18 @@ async function fetchMarkersByItemIds(
           title: m.title,
           seconds: Number(m.seconds),
           end_seconds: m.end_seconds == null ? null : Number(m.end_seconds),
+          created_at: m.created_at ?? null,
           screenshot: null,
           stream: null,
           preview: null,
           scene: {
             id: scene.id,
             title: scene.title,
+            date: scene.date ?? null,
             performers: scene.performers ?? [],
           },
           tags: m.tags ?? [],
+          primary_tag: m.primary_tag ?? null,
         });
       }
     }
@@ -364,21 +620,116 @@ async function fetchMarkersByItemIds(
   return collected;
 }
 
+// Order markers by `conditions.sort`. Rating and play stats come from the
+// local Item table; markers never synced have no row and sort as unrated,
+// unplayed.
+async function applySort(
+  markers: RawStashMarker[],
+  sort: PlaylistSort | null,
+): Promise<RawStashMarker[]> {
+  if (!sort || markers.length === 0) return markers;
+
+  const needsLocal = sort.by === "rating" || sort.by === "playCount" || sort.by === "lastPlayed";
+  const local = new Map<string, { rating: number | null; playCount: number; lastPlayedAt: Date | null }>();
+  if (needsLocal) {
+    const rows = await prisma.item.findMany({
+      where: { id: { in: markers.map((m) => m.id) } },
+      select: { id: true, rating: true, playCount: true, lastPlayedAt: true },
+    });
+    for (const r of rows) local.set(r.id, r);
+  }
+
+  return sortByPlaylistSort(
+    markers,
+    (m) => {
+      const row = local.get(m.id);
+      return {
+        id: m.id,
+        sceneDate: m.scene?.date ?? null,
+        sceneTitle: m.scene?.title ?? null,
+        seconds: Number(m.seconds) || 0,
+        duration: m.end_seconds == null ? null : Number(m.end_seconds) - Number(m.seconds),
+        rating: row?.rating ?? null,
+        playCount: row?.playCount ?? 0,
+        lastPlayedAt: row?.lastPlayedAt ? row.lastPlayedAt.getTime() : null,
+      };
+    },
+    sort,
+  );
+}
+
+// Pick the markers `conditions.selection` keeps, preserving their order.
+// Exported so the editor preview shows the same subset a refresh would.
+export async function applySelection<M extends StashMarker>(
+  markers: M[],
+  conditions: SmartPlaylistConditions,
+): Promise<M[]> {
+  const selection = parsePlaylistSelection(conditions.selection);
+  if (!selection || markers.length === 0) return markers;
+
+  const needsLocal =
+    selection.strategy === "highestRated" ||
+    selection.strategy === "leastPlayed" ||
+    selection.strategy === "weightedRandom";
+  const local = new Map<string, { rating: number | null; playCount: number }>();
+  if (needsLocal) {
+    const rows = await prisma.item.findMany({
+      where: { id: { in: markers.map((m) => m.id) } },
+      select: { id: true, rating: true, playCount: true },
+    });
+    for (const r of rows) local.set(r.id, r);
+  }
+
+  return selectByPlaylistSelection(
+    markers,
+    (m) => {
+      const row = local.get(m.id);
+      const created = m.created_at ? Date.parse(m.created_at) : NaN;
+      return {
+        id: m.id,
+        sceneId: m.scene?.id ?? null,
+        performerIds: (m.scene?.performers ?? []).map((p) => String(p.id)),
+        rating: row?.rating ?? null,
+        playCount: row?.playCount ?? 0,
+        createdAt: Number.isFinite(created) ? created : null,
+      };
+    },
+    selection,
+  );
+}
+
+// Result of fetchFilteredStashMarkers. `total` is how many candidate markers
+// existed before the maxMarkers cap; `truncated` is set when some of them
+// were never looked at, so callers must not present the result as complete.
+export type FilteredMarkers = {
+  markers: StashMarker[];
+  total: number;
+  truncated: boolean;
+};
+
 // Single source of truth: returns Stash markers matching `conditions`, with
-// optional-tag and rating filters applied. Used by both the refresh path
-// (via buildItemsForPlaylist) and the editor preview endpoint, guaranteeing
+// optional-tag, exclusion and rating filters applied. Used by both the refresh path
+// (via buildPlaylistItems) and the editor preview endpoint, guaranteeing
 // they return the same result for the same input.
 export async function fetchFilteredStashMarkers(
   conditions: SmartPlaylistConditions,
-): Promise<StashMarker[]> {
+): Promise<FilteredMarkers> {
   const n = normalizeConditions(conditions);
-  const { actorIds, requiredTagIds, optionalTagIds, minRating, exactRating, playCountMode, playCountValue } = n;
+  const {
+    actorIds, requiredTagIds, optionalTagIds, minRating, exactRating, playCountMode, playCountValue, rules, scene, maxMarkers,
+  } = n;
 
   const hasExactRating = !!exactRating && [1, 2, 3].includes(exactRating);
   const hasMinRating = !!minRating && [1, 2, 3].includes(minRating);
   const hasRatingFilter = hasExactRating || hasMinRating;
   const hasPlayCountFilter = playCountMode != null && playCountValue != null;
-  const hasStructuralFilter = actorIds.length > 0 || requiredTagIds.length > 0 || optionalTagIds.length > 0;
+  const hasSkipFilters = hasSkipFilter(n);
+  const hasStructuralFilter =
+    actorIds.length > 0 || requiredTagIds.length > 0 || optionalTagIds.length > 0 || rules !== null || scene !== null;
+  // "Everything except tag X" is a filter of its own: Stash is queried with
+  // the EXCLUDES criteria alone.
+  const hasExclusions = n.excludedTagIds.length > 0 || n.excludedActorIds.length > 0;
+  const hasLocalFilter = hasRatingFilter || hasPlayCountFilter || hasSkipFilters;
 
   // The local Item where-clause for rating / play count, reused by both paths.
   const ratingWhere = hasExactRating ? { equals: exactRating! } : hasMinRating ? { gte: minRating! } : undefined;
@@ -389,14 +740,15 @@ export async function fetchFilteredStashMarkers(
     : undefined;
 
   // No filters at all → nothing to do
-  if (!hasStructuralFilter && !hasRatingFilter && !hasPlayCountFilter) {
-    return [];
+  if (!hasStructuralFilter && !hasExclusions && !hasLocalFilter) {
+    return { markers: [], total: 0, truncated: false };
   }
 
   let markers: RawStashMarker[];
+  let total: number;
 
-  if (!hasStructuralFilter) {
-    // Local-only path (rating and/or play count, no actor/tag filter): query
+  if (!hasStructuralFilter && hasLocalFilter) {
+    // Local-only path (rating, play count and/or skips, no actor/tag/scene filter): query
     // the Item table directly, then fetch only those markers from Stash. This
     // only sees markers that already exist as Items — a never-synced marker
     // has no Item row, so "at most N" here can't include markers the app has
@@ -404,23 +756,23 @@ export async function fetchFilteredStashMarkers(
     const where: Record<string, unknown> = {};
     if (ratingWhere) where.rating = ratingWhere;
     if (playCountWhere) where.playCount = playCountWhere;
-    const localItems = await prisma.item.findMany({ where, select: { id: true } });
-    if (localItems.length === 0) return [];
-    markers = await fetchMarkersByItemIds(localItems.map((i) => i.id));
+    const localItems = (
+      await prisma.item.findMany({
+        where,
+        select: { id: true, playCount: true, skipCount: true },
+        orderBy: { id: 'asc' },
+      })
+    ).filter((i) => matchesSkipFilters(i, n));
+    if (localItems.length === 0) return { markers: [], total: 0, truncated: false };
+    total = localItems.length;
+    const ids = localItems.slice(0, maxMarkers).map((i) => i.id);
+    markers = applyExclusions(await fetchMarkersByItemIds(ids), n);
   } else {
     // Structural-filter path: query Stash with the dynamically-built filter
     // clauses, then apply optional-tag and rating filters after the fact.
-    const { query, vars, needsOptionalTagFilter } = buildStashMarkerQuery(n);
-
-    type Q = {
-      findSceneMarkers: {
-        count: number;
-        scene_markers: RawStashMarker[];
-      };
-    };
+    const { query, vars, needsOptionalTagFilter, needsExclusionFilter } = buildStashMarkerQuery(n);
 
-    const data = await stashGraph<Q>(query, vars);
-    markers = data.findSceneMarkers?.scene_markers ?? [];
+    ({ markers, total } = await fetchMarkerPages(query, vars, maxMarkers));
 
     // Apply optional-tag client-side filter when both required and optional
     // tags exist (Stash can't combine INCLUDES_ALL + INCLUDES in one query).
@@ -432,6 +784,18 @@ export async function fetchFilteredStashMarkers(
       });
     }
 
+    // Evaluate rule groups exactly; the query above only narrowed by them.
+    if (rules) {
+      markers = markers.filter((m) =>
+        evaluateRuleNode(rules, { actorIds: markerActorIds(m), tagIds: markerTagIds(m) }),
+      );
+    }
+
+    // Exclusions Stash couldn't take in the same query.
+    if (needsExclusionFilter) {
+      markers = applyExclusions(markers, n);
+    }
+
     // Apply rating filter against the local Item table. Items not in the
     // Item table (never synced to a playlist) cannot have ratings here,
     // so they're correctly excluded.
@@ -468,11 +832,33 @@ export async function fetchFilteredStashMarkers(
         markers = markers.filter((m) => !overSet.has(m.id));
       }
     }
+
+    // Apply skip filters against the local Item table. A marker with no Item
+    // row has never been played or skipped.
+    if (hasSkipFilters) {
+      const counted = await prisma.item.findMany({
+        where: { id: { in: markers.map((m) => m.id) } },
+        select: { id: true, playCount: true, skipCount: true },
+      });
+      const countsById = new Map(counted.map((r) => [r.id, r]));
+      markers = markers.filter((m) => matchesSkipFilters(countsById.get(m.id) ?? { playCount: 0, skipCount: 0 }, n));
+    }
   }
 
+  // Duration bounds: Stash's marker filter has no duration criterion.
+  if (n.minDuration != null || n.maxDuration != null) {
+    const { fallbackLength } = await getDefaultClipSettings();
+    markers = markers.filter((m) => {
+      const d = markerDuration(Number(m.seconds), m.end_seconds == null ? null : Number(m.end_seconds), fallbackLength);
+      return (n.minDuration == null || d >= n.minDuration) && (n.maxDuration == null || d <= n.maxDuration);
+    });
+  }
+
+  markers = await applySort(markers, n.sort);
+
   // Construct relative paths for screenshot/stream/preview that the editor
   // and BuiltItem mapping expect, normalising once at the boundary.
-  return markers.map((m) => {
+  const normalised = markers.map((m) => {
     const sceneId = m.scene?.id ?? undefined;
     const markerId = m.id;
     return {
@@ -484,6 +870,8 @@ export async function fetchFilteredStashMarkers(
         : (m.preview ?? null),
     };
   });
+
+  return { markers: normalised, total, truncated: total > maxMarkers };
 }
 
 // Compute a sensible title from scene+marker titles, deduplicating overlap.
@@ -505,51 +893,117 @@ function dedupedTitle(sceneTitleRaw: string, markerTitleRaw: string): string {
   return title;
 }
 
+export type BuiltPlaylist = {
+  items: BuiltItem[];
+  total: number;
+  truncated: boolean;
+};
+
 // Load conditions from DB, fetch matching markers, map to BuiltItem
-// shape ready for syncItems. Signature unchanged from before so existing
-// callers (refresh route, actor-playlist builders, scheduled refresh)
-// do not need to change.
-export async function buildItemsForPlaylist(
+// shape ready for syncItems (playlistSyncService), along with the truncation info from
+// fetchFilteredStashMarkers.
+//
+// `reroll` draws a new seed for a random selection and saves it, so the
+// playlist changes on scheduled refreshes but stays put between them.
+// `conditions` builds from unsaved rules instead (the editor's dry run);
+// nothing is written in that case.
+export async function buildPlaylistItems(
   playlistId: string,
-): Promise<BuiltItem[]> {
+  opts: { reroll?: boolean; conditions?: SmartPlaylistConditions } = {},
+): Promise<BuiltPlaylist> {
   const playlist = await prisma.playlist.findUnique({
     where: { id: playlistId },
     select: { type: true, conditions: true },
   });
   if (!playlist) throw new Error("Playlist not found");
 
-  const conditions: SmartPlaylistConditions = (playlist.conditions as any) || {};
+  let conditions: SmartPlaylistConditions = opts.conditions ?? ((playlist.conditions as any) || {});
+
+  const selection = parsePlaylistSelection(conditions.selection);
+  if (opts.reroll && !opts.conditions && selectionNeedsSeed(selection)) {
+    conditions = { ...conditions, selection: { ...selection!, seed: randomSeed() } };
+    await prisma.playlist.update({
+      where: { id: playlistId },
+      data: { conditions: conditions as Prisma.InputJsonValue },
+    });
+  }
 
   // Resolve clip offsets (per-playlist override or DB default)
   const defaultClipSettings = await getDefaultClipSettings();
-  const before = Math.max(0, Number(conditions.clip?.before ?? defaultClipSettings.before));
-  const after = Math.max(0, Number(conditions.clip?.after ?? defaultClipSettings.after));
+  const clip = parseClipConditions(conditions.clip);
+  const before = clip?.before ?? defaultClipSettings.before;
+  const after = clip?.after ?? defaultClipSettings.after;
+
+  const filtered = await fetchFilteredStashMarkers(conditions);
+  const { total, truncated } = filtered;
+  const markers = await applySelection(filtered.markers, conditions);
+
+  const window = {
+    before,
+    after,
+    fallbackLength: defaultClipSettings.fallbackLength,
+    fixedLength: clip?.fixedLength,
+    fixedMode: clip?.fixedMode,
+  };
+  const items = markers.map((m, idx) => toBuiltItem(m, window, idx));
 
-  const markers = await fetchFilteredStashMarkers(conditions);
+  return { items, total, truncated };
+}
 
-  return markers.map((m, idx) => {
-    const markerStart = m.seconds;
-    const markerEnd = m.end_seconds ?? (markerStart + 30);
-    const start = Math.max(0, Math.floor(markerStart - before));
-    const end = Math.max(start + 1, Math.floor(markerEnd + after));
+function toBuiltItem(m: StashMarker, window: Parameters<typeof clipWindow>[2], itemOrder: number): BuiltItem {
+  const { start, end } = clipWindow(m.seconds, m.end_seconds, window);
 
-    const sceneId = m.scene?.id ?? undefined;
-    const markerId = m.id;
-    const title = dedupedTitle(m.scene?.title ?? "", m.title ?? "");
+  const sceneId = m.scene?.id ?? undefined;
+  const markerId = m.id;
+  const title = dedupedTitle(m.scene?.title ?? "", m.title ?? "");
 
-    return {
-      id: m.id,
-      title,
-      startTime: start,
-      endTime: end,
-      screenshot: m.screenshot ?? (sceneId ? `/scene/${sceneId}/screenshot` : undefined),
-      stream: m.stream ?? (sceneId ? `/scene/${sceneId}/stream` : undefined),
-      preview: m.preview ?? (sceneId && markerId
-        ? `/scene/${sceneId}/scene_marker/${markerId}/preview`
-        : undefined),
-      sceneId,
-      markerId,
-      itemOrder: idx,
-    };
-  });
+  return {
+    id: m.id,
+    title,
+    startTime: start,
+    endTime: end,
+    screenshot: m.screenshot ?? (sceneId ? `/scene/${sceneId}/screenshot` : undefined),
+    stream: m.stream ?? (sceneId ? `/scene/${sceneId}/stream` : undefined),
+    preview: m.preview ?? (sceneId && markerId
+      ? `/scene/${sceneId}/scene_marker/${markerId}/preview`
+      : undefined),
+    sceneId,
+    markerId,
+    itemOrder,
+  };
+}
+
+// Specific markers by id, mapped like a playlist build with the default clip
+// settings. Used to queue markers picked outside any playlist.
+export async function buildItemsForMarkers(markerIds: string[]): Promise<BuiltItem[]> {
+  if (!markerIds.length) return [];
+  const data = await stashGraph<{ findSceneMarkers: { scene_markers: StashMarker[] } }>(
+    `query MarkersById($ids: [ID!]) {
+      findSceneMarkers(ids: $ids, filter: { per_page: -1 }) {
+        scene_markers {
+          id
+          title
+          seconds
+          end_seconds
+          scene { id title }
+        }
+      }
+    }`,
+    { ids: markerIds }
+  );
+
+  const defaults = await getDefaultClipSettings();
+  const byId = new Map(data.findSceneMarkers.scene_markers.map((m) => [String(m.id), m]));
+  return markerIds
+    .map((id) => byId.get(id))
+    .filter((m): m is StashMarker => !!m)
+    .map((m, idx) => toBuiltItem({ ...m, id: String(m.id) }, defaults, idx));
+}
+
+// Markers matching ad-hoc conditions, mapped like a playlist build with the
+// default clip settings. Used by video wall tiles that follow a tag filter.
+export async function buildItemsForConditions(conditions: SmartPlaylistConditions): Promise<BuiltItem[]> {
+  const { markers } = await fetchFilteredStashMarkers(conditions);
+  const defaults = await getDefaultClipSettings();
+  return markers.map((m, idx) => toBuiltItem(m, defaults, idx));
 }
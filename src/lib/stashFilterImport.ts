@@ -0,0 +1,261 @@
+// src/lib/stashFilterImport.ts
+//
+// Turns a Stash saved scene-marker filter into smart playlist conditions.
+// Saved filters keep `object_filter` as the Stash UI writes it, so a
+// criterion's value is either the plain GraphQL input (`["12", "40"]`,
+// `30`) or the UI's wrapped form (`{ items: [{ id, label }], excluded,
+// depth }`, `{ value, value2 }`); both are read.
+//
+// Every criterion gets a line in the mapping report: mapped as-is, mapped
+// with a difference ("partial"), or left out because conditions can't
+// express it yet ("unsupported").
+//
+// Pure module: shared by the Stash import service and the import dialog.
+import type { RuleGroup } from "@/lib/conditionTree";
+import type { SceneConditions } from "@/lib/sceneConditions";
+import type { PlaylistSort } from "@/lib/playlistSort";
+import type { SmartPlaylistConditions } from "@/lib/smartPlaylistServer";
+
+export type StashSavedFilter = {
+  id: string;
+  name: string;
+  find_filter?: { q?: string | null; sort?: string | null; direction?: string | null } | null;
+  object_filter?: Record<string, unknown> | null;
+};
+
+export type MappingStatus = "mapped" | "partial" | "unsupported";
+
+export type MappingNote = { criterion: string; status: MappingStatus; detail: string };
+
+export type StashImportSource = "filter" | "group";
+
+export type StashImportReport = {
+  source: StashImportSource;
+  sourceName: string;
+  playlist: { id: string; name: string; type: "SMART" | "MANUAL" };
+  itemCount: number;
+  notes: MappingNote[];
+};
+
+export const MAPPING_STATUS_LABELS: Record<MappingStatus, string> = {
+  mapped: "Mapped",
+  partial: "Mapped with differences",
+  unsupported: "Not imported",
+};
+
+type Criterion = { modifier: string; ids: string[]; excluded: string[]; depth: number; value: unknown; value2: unknown };
+
+function idsOf(raw: unknown): string[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map((v) => (v && typeof v === "object" ? (v as Record<string, unknown>).id : v))
+    .filter((v) => v != null && String(v).trim())
+    .map(String);
+}
+
+function readCriterion(raw: unknown): Criterion | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const r = raw as Record<string, unknown>;
+  const modifier = typeof r.modifier === "string" ? r.modifier : "EQUALS";
+  const v = r.value;
+
+  // The UI's wrapped forms
+  if (v && typeof v === "object" && !Array.isArray(v)) {
+    const w = v as Record<string, unknown>;
+    if ("items" in w || "excluded" in w) {
+      return {
+        modifier,
+        ids: idsOf(w.items),
+        excluded: idsOf(w.excluded),
+        depth: Number(w.depth ?? r.depth ?? 0) || 0,
+        value: null,
+        value2: null,
+      };
+    }
+    if ("value" in w) {
+      return { modifier, ids: [], excluded: [], depth: 0, value: w.value, value2: w.value2 ?? null };
+    }
+  }
+
+  return {
+    modifier,
+    ids: idsOf(v),
+    excluded: idsOf(r.excludes),
+    depth: Number(r.depth ?? 0) || 0,
+    value: Array.isArray(v) ? null : v,
+    value2: r.value2 ?? null,
+  };
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function shiftDay(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function count(n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? "" : "s"}`;
+}
+
+// Stash marker sorts that have a playlist equivalent. "random_<seed>" keeps its seed.
+function mapSort(sort: string, direction: string | null | undefined): PlaylistSort | null {
+  const dir = direction?.toUpperCase() === "DESC" ? "desc" : "asc";
+  if (sort === "seconds") return { by: "markerSeconds", direction: dir };
+  const random = sort.match(/^random(?:_(\d+))?$/);
+  if (random) return { by: "random", direction: "asc", seed: random[1] ? Number(random[1]) : 0 };
+  return null;
+}
+
+export function mapSavedMarkerFilter(filter: StashSavedFilter): {
+  conditions: SmartPlaylistConditions;
+  notes: MappingNote[];
+} {
+  const conditions: SmartPlaylistConditions = {};
+  const scene: SceneConditions = {};
+  const rules: RuleGroup = { kind: "group", op: "and", children: [] };
+  const notes: MappingNote[] = [];
+  const note = (criterion: string, status: MappingStatus, detail: string) => notes.push({ criterion, status, detail });
+
+  const objectFilter = filter.object_filter ?? {};
+  for (const [key, raw] of Object.entries(objectFilter)) {
+    if (key === "scene_filter") continue; // Below
+    const c = readCriterion(raw);
+    if (!c) {
+      note(key, "unsupported", "Unrecognised value");
+      continue;
+    }
+
+    switch (key) {
+      case "tags": {
+        const depthNote = c.depth !== 0 ? "; sub-tags are not included" : "";
+        const status: MappingStatus = c.depth !== 0 ? "partial" : "mapped";
+        if (c.modifier === "INCLUDES_ALL") conditions.requiredTagIds = c.ids;
+        else if (c.modifier === "INCLUDES") conditions.optionalTagIds = c.ids;
+        else if (c.modifier === "EXCLUDES") conditions.excludedTagIds = c.ids;
+        else {
+          note("Marker tags", "unsupported", `Modifier ${c.modifier}`);
+          break;
+        }
+        if (c.excluded.length) conditions.excludedTagIds = [...(conditions.excludedTagIds ?? []), ...c.excluded];
+        note("Marker tags", status, `${count(c.ids.length + c.excluded.length, "tag")}${depthNote}`);
+        break;
+      }
+      case "performers": {
+        if (c.modifier === "INCLUDES_ALL" || (c.modifier === "INCLUDES" && c.ids.length === 1)) {
+          conditions.actorIds = c.ids;
+        } else if (c.modifier === "INCLUDES") {
+          rules.children.push({ kind: "group", op: "or", children: c.ids.map((id) => ({ kind: "actor", id })) });
+        } else if (c.modifier === "EXCLUDES") {
+          conditions.excludedActorIds = c.ids;
+        } else {
+          note("Performers", "unsupported", `Modifier ${c.modifier}`);
+          break;
+        }
+        if (c.excluded.length) conditions.excludedActorIds = [...(conditions.excludedActorIds ?? []), ...c.excluded];
+        note("Performers", "mapped", count(c.ids.length + c.excluded.length, "performer"));
+        break;
+      }
+      case "scene_tags": {
+        if (c.modifier === "INCLUDES_ALL" || (c.modifier === "INCLUDES" && c.ids.length === 1)) {
+          scene.tagIds = c.ids;
+          const partial = c.depth !== 0 || c.excluded.length > 0;
+          note(
+            "Scene tags",
+            partial ? "partial" : "mapped",
+            partial ? "Sub-tags and excluded scene tags are not included" : count(c.ids.length, "tag"),
+          );
+        } else {
+          note("Scene tags", "unsupported", `Modifier ${c.modifier}; only "includes all" is supported`);
+        }
+        break;
+      }
+      case "scene_date": {
+        const from = typeof c.value === "string" && DATE_RE.test(c.value) ? c.value : null;
+        const to = typeof c.value2 === "string" && DATE_RE.test(c.value2) ? c.value2 : null;
+        if (from && c.modifier === "EQUALS") [scene.dateFrom, scene.dateTo] = [from, from];
+        else if (from && c.modifier === "GREATER_THAN") scene.dateFrom = shiftDay(from, 1);
+        else if (from && c.modifier === "LESS_THAN") scene.dateTo = shiftDay(from, -1);
+        else if (from && to && c.modifier === "BETWEEN") [scene.dateFrom, scene.dateTo] = [from, to];
+        else {
+          note("Scene date", "unsupported", `Modifier ${c.modifier}`);
+          break;
+        }
+        note("Scene date", "mapped", [scene.dateFrom, scene.dateTo].map((d) => d ?? "…").join(" to "));
+        break;
+      }
+      case "duration": {
+        const value = Number(c.value);
+        const value2 = Number(c.value2);
+        if (!Number.isFinite(value)) {
+          note("Duration", "unsupported", "No value");
+        } else if (c.modifier === "GREATER_THAN") {
+          conditions.minDuration = value;
+        } else if (c.modifier === "LESS_THAN") {
+          conditions.maxDuration = value;
+        } else if (c.modifier === "BETWEEN" && Number.isFinite(value2)) {
+          [conditions.minDuration, conditions.maxDuration] = [value, value2];
+        } else {
+          note("Duration", "unsupported", `Modifier ${c.modifier}`);
+          break;
+        }
+        if (Number.isFinite(value)) {
+          // Bounds are inclusive here and strict in Stash, and markers with no
+          // end count as the default clip length.
+          note("Duration", "partial", "Bounds are inclusive; markers without an end use the default clip length");
+        }
+        break;
+      }
+      default:
+        note(key, "unsupported", "No matching playlist condition");
+    }
+  }
+
+  const sceneFilter = objectFilter.scene_filter;
+  if (sceneFilter && typeof sceneFilter === "object") {
+    for (const [key, raw] of Object.entries(sceneFilter as Record<string, unknown>)) {
+      const c = readCriterion(raw);
+      if (key === "studios" && c && c.modifier === "INCLUDES") {
+        scene.studioIds = c.ids;
+        note("Scene studio", c.depth !== 0 ? "partial" : "mapped", c.depth !== 0 ? "Child studios are not included" : count(c.ids.length, "studio"));
+      } else if (key === "rating100" && c && c.modifier === "GREATER_THAN" && Number.isFinite(Number(c.value))) {
+        // Whole stars only: "greater than 50" becomes 3 stars and up. That's
+        // exact when the bound sits on the star below, whether written as the
+        // UI does ("greater than 80") or as scene conditions query it (99).
+        const bound = Number(c.value);
+        scene.minRating = Math.min(5, Math.floor(bound / 20) + 1);
+        const exact = bound === (scene.minRating - 1) * 20 || bound === scene.minRating * 20 - 1;
+        note("Scene rating", exact ? "mapped" : "partial", `${scene.minRating}+ stars`);
+      } else if (key === "organized" && c && typeof c.value === "boolean") {
+        scene.organized = c.value;
+        note("Scene organised", "mapped", c.value ? "Organised" : "Not organised");
+      } else {
+        note(`scene_filter.${key}`, "unsupported", "No matching playlist condition");
+      }
+    }
+  }
+
+  const q = filter.find_filter?.q?.trim();
+  if (q) note("Search text", "unsupported", `"${q}" (text search isn't a playlist condition)`);
+
+  const sort = filter.find_filter?.sort;
+  if (sort) {
+    const mapped = mapSort(sort, filter.find_filter?.direction);
+    if (mapped) {
+      conditions.sort = mapped;
+      note("Sort", "mapped", sort);
+    } else {
+      note("Sort", "unsupported", `Sort by ${sort}`);
+    }
+  }
+
+  if (rules.children.length) conditions.rules = rules;
+  if (Object.keys(scene).length) conditions.scene = scene;
+  return { conditions, notes };
+}
+
+// Unsupported criteria are dropped, so the playlist may match more than the filter did.
+export function hasUnsupported(notes: MappingNote[]): boolean {
+  return notes.some((n) => n.status === "unsupported");
+}
@@ -0,0 +1,155 @@
+// src/lib/stashImportService.ts
+//
+// Creates playlists from what's already curated in Stash: a saved
+// scene-marker filter becomes a smart playlist (see stashFilterImport.ts),
+// a group's scenes' markers a manual playlist in the group's scene order.
+import { prisma } from "@/lib/prisma";
+import { buildItemsForMarkers, stashGraph } from "@/lib/smartPlaylistServer";
+import { normalizeIncoming, refreshSmartPlaylist, syncItems } from "@/lib/playlistSyncService";
+import { uniqueName } from "@/lib/playlistBundle";
+import {
+  mapSavedMarkerFilter,
+  type MappingNote,
+  type StashImportReport,
+  type StashSavedFilter,
+} from "@/lib/stashFilterImport";
+
+export type StashImportSources = {
+  filters: StashSavedFilter[];
+  groups: Array<{ id: string; name: string; sceneCount: number }>;
+};
+
+export async function listStashImportSources(): Promise<StashImportSources> {
+  const data = await stashGraph<{
+    findSavedFilters: StashSavedFilter[];
+    findGroups: { groups: Array<{ id: string; name: string; scene_count: number }> };
+  }>(
+    `query StashImportSources {
+      findSavedFilters(mode: SCENE_MARKERS) {
+        id
+        name
+        find_filter { q sort direction }
+        object_filter
+      }
+      findGroups(filter: { per_page: -1, sort: "name", direction: ASC }) {
+        groups { id name scene_count }
+      }
+    }`,
+  );
+  return {
+    filters: data.findSavedFilters.map((f) => ({ ...f, id: String(f.id) })),
+    groups: data.findGroups.groups.map((g) => ({ id: String(g.id), name: g.name, sceneCount: g.scene_count })),
+  };
+}
+
+async function freeName(name: string): Promise<string> {
+  const existing = await prisma.playlist.findMany({ select: { name: true } });
+  return uniqueName(name, new Set(existing.map((p) => p.name)));
+}
+
+export async function importSavedFilter(filterId: string): Promise<StashImportReport | null> {
+  const data = await stashGraph<{ findSavedFilter: StashSavedFilter | null }>(
+    `query StashImportFilter($id: ID!) {
+      findSavedFilter(id: $id) {
+        id
+        name
+        find_filter { q sort direction }
+        object_filter
+      }
+    }`,
+    { id: filterId },
+  );
+  const filter = data.findSavedFilter;
+  if (!filter) return null;
+
+  const { conditions, notes } = mapSavedMarkerFilter(filter);
+  const name = await freeName(filter.name || `Stash filter ${filterId}`);
+  const playlist = await prisma.playlist.create({
+    data: { name, description: `Imported from the Stash saved filter "${filter.name}"`, type: "SMART", conditions },
+    select: { id: true },
+  });
+
+  // An empty build is kept, so the playlist shows what the filter matches now.
+  let itemCount = 0;
+  try {
+    const result = await refreshSmartPlaylist(playlist.id, { allowEmpty: true, trigger: "import" });
+    itemCount = result.totalLinkedNow;
+  } catch (error) {
+    console.warn(`[StashImport] First refresh of "${name}" failed:`, error);
+    notes.push({
+      criterion: "First refresh",
+      status: "unsupported",
+      detail: error instanceof Error ? error.message : "Refresh failed; try refreshing the playlist",
+    });
+  }
+
+  return { source: "filter", sourceName: filter.name, playlist: { id: playlist.id, name, type: "SMART" }, itemCount, notes };
+}
+
+type GroupScene = {
+  id: string;
+  groups: Array<{ group: { id: string }; scene_index: number | null }>;
+  scene_markers: Array<{ id: string; seconds: number }>;
+};
+
+export async function importGroup(groupId: string): Promise<StashImportReport | null> {
+  const data = await stashGraph<{ findGroup: { id: string; name: string; scenes: GroupScene[] } | null }>(
+    `query StashImportGroup($id: ID!) {
+      findGroup(id: $id) {
+        id
+        name
+        scenes {
+          id
+          groups { group { id } scene_index }
+          scene_markers { id seconds }
+        }
+      }
+    }`,
+    { id: groupId },
+  );
+  const group = data.findGroup;
+  if (!group) return null;
+
+  // Scenes in the group's order (unnumbered ones last), markers in time order.
+  const indexOf = (scene: GroupScene) =>
+    scene.groups.find((g) => String(g.group.id) === String(group.id))?.scene_index ?? Number.MAX_SAFE_INTEGER;
+  const scenes = [...group.scenes].sort((a, b) => indexOf(a) - indexOf(b));
+  const markerIds = scenes.flatMap((scene) =>
+    [...scene.scene_markers].sort((a, b) => a.seconds - b.seconds).map((m) => String(m.id)),
+  );
+
+  const notes: MappingNote[] = [
+    { criterion: "Scenes", status: "mapped", detail: `${scenes.length} scene${scenes.length === 1 ? "" : "s"} in group order` },
+  ];
+  const withoutMarkers = scenes.filter((s) => s.scene_markers.length === 0).length;
+  if (withoutMarkers > 0) {
+    notes.push({
+      criterion: "Scenes without markers",
+      status: "unsupported",
+      detail: `${withoutMarkers} scene${withoutMarkers === 1 ? " has" : "s have"} no markers, so nothing was added for ${withoutMarkers === 1 ? "it" : "them"}`,
+    });
+  }
+  notes.push({
+    criterion: "Group membership",
+    status: "partial",
+    detail: "Copied once; scenes added to the group later aren't picked up",
+  });
+
+  // Built before the playlist exists, so a Stash failure leaves nothing behind.
+  const items = await buildItemsForMarkers(markerIds);
+
+  const name = await freeName(group.name || `Stash group ${groupId}`);
+  const playlist = await prisma.playlist.create({
+    data: { name, description: `Imported from the Stash group "${group.name}"`, type: "MANUAL" },
+    select: { id: true },
+  });
+  if (items.length) await syncItems(playlist.id, normalizeIncoming(items));
+
+  return {
+    source: "group",
+    sourceName: group.name,
+    playlist: { id: playlist.id, name, type: "MANUAL" },
+    itemCount: items.length,
+    notes,
+  };
+}
@@ -0,0 +1,144 @@
+// src/lib/videoWallLayout.ts
+//
+// Video wall setups: a layout plus one rule per tile.
+// - layout: how many tiles there are and where they sit on the CSS grid.
+//   "pip" floats its second tile over the corner of the first.
+// - source: where a tile draws its clips from. "playlist" is the wall's
+//   own playlist; "otherPlaylist" another one; "tags" every marker with
+//   all (or any) of a fixed set of tags.
+// - advanceAfter: move the tile on after this many seconds instead of
+//   waiting for the clip to end; null plays each clip through.
+// Saved setups (`WallConfig`) open at /playlists/:id/wall?config=:configId;
+// an unsaved layout can be picked with ?layout=.
+//
+// Pure module: shared by the wall config routes, the wall page and its
+// tile settings dialog.
+
+export const WALL_LAYOUTS = ["2x2", "1+3", "3x3", "2x1", "pip"] as const;
+export type WallLayout = (typeof WALL_LAYOUTS)[number];
+
+export const WALL_LAYOUT_LABELS: Record<WallLayout, string> = {
+  "2x2": "2 × 2 grid",
+  "1+3": "One large, three small",
+  "3x3": "3 × 3 grid",
+  "2x1": "Side by side",
+  pip: "Picture in picture",
+};
+
+export type WallLayoutSpec = {
+  columns: string;         // grid-template-columns
+  rows: string;            // grid-template-rows
+  areas: string[];         // grid-area of each tile, in tile order
+  overlay?: number;        // tile drawn above the others (pip)
+};
+
+export const WALL_LAYOUT_SPECS: Record<WallLayout, WallLayoutSpec> = {
+  "2x2": {
+    columns: "1fr 1fr",
+    rows: "1fr 1fr",
+    areas: ["1 / 1", "1 / 2", "2 / 1", "2 / 2"],
+  },
+  "1+3": {
+    columns: "3fr 1fr",
+    rows: "1fr 1fr 1fr",
+    areas: ["1 / 1 / 4 / 2", "1 / 2", "2 / 2", "3 / 2"],
+  },
+  "3x3": {
+    columns: "1fr 1fr 1fr",
+    rows: "1fr 1fr 1fr",
+    areas: ["1 / 1", "1 / 2", "1 / 3", "2 / 1", "2 / 2", "2 / 3", "3 / 1", "3 / 2", "3 / 3"],
+  },
+  "2x1": {
+    columns: "1fr 1fr",
+    rows: "1fr",
+    areas: ["1 / 1", "1 / 2"],
+  },
+  pip: {
+    columns: "repeat(4, 1fr)",
+    rows: "repeat(4, 1fr)",
+    areas: ["1 / 1 / 5 / 5", "4 / 4 / 5 / 5"],
+    overlay: 1,
+  },
+};
+
+export const tileCount = (layout: WallLayout) => WALL_LAYOUT_SPECS[layout].areas.length;
+
+export type TagFilterMatch = "all" | "any";
+
+export type WallTileSource =
+  | { kind: "playlist" }
+  | { kind: "otherPlaylist"; playlistId: string }
+  | { kind: "tags"; tags: Array<{ id: string; name: string }>; match: TagFilterMatch };
+
+export type WallTile = {
+  source: WallTileSource;
+  advanceAfter: number | null; // seconds, 3-600; null = play each clip through
+};
+
+export type WallSetup = {
+  layout: WallLayout;
+  tiles: WallTile[];
+};
+
+export const ADVANCE_AFTER_CHOICES: Array<number | null> = [null, 10, 20, 30, 60, 120];
+
+export function advanceAfterLabel(seconds: number | null): string {
+  if (seconds == null) return "Whole clip";
+  return seconds < 60 ? `${seconds} seconds` : `${seconds / 60} min`;
+}
+
+export const DEFAULT_WALL_TILE: WallTile = { source: { kind: "playlist" }, advanceAfter: null };
+
+function parseSource(raw: unknown): WallTileSource {
+  const r = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  if (r.kind === "otherPlaylist" && typeof r.playlistId === "string" && r.playlistId) {
+    return { kind: "otherPlaylist", playlistId: r.playlistId };
+  }
+  if (r.kind === "tags" && Array.isArray(r.tags)) {
+    const tags = r.tags
+      .filter((t): t is { id: unknown; name?: unknown } => !!t && typeof t === "object")
+      .filter((t) => t.id != null && t.id !== "")
+      .map((t) => ({ id: String(t.id), name: typeof t.name === "string" ? t.name : String(t.id) }));
+    if (tags.length) return { kind: "tags", tags, match: r.match === "any" ? "any" : "all" };
+  }
+  return { kind: "playlist" };
+}
+
+function parseTile(raw: unknown): WallTile {
+  const r = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const seconds = Number(r.advanceAfter);
+  return {
+    source: parseSource(r.source),
+    advanceAfter: r.advanceAfter != null && Number.isFinite(seconds) ? Math.round(Math.max(3, Math.min(600, seconds))) : null,
+  };
+}
+
+export function parseWallLayout(raw: unknown): WallLayout {
+  return WALL_LAYOUTS.includes(raw as WallLayout) ? (raw as WallLayout) : "2x2";
+}
+
+// Always one tile per layout slot: extra tiles are dropped and missing ones
+// play the wall's own playlist, so switching layouts keeps what it can.
+export function parseWallSetup(layoutRaw: unknown, tilesRaw: unknown): WallSetup {
+  const layout = parseWallLayout(layoutRaw);
+  const given = Array.isArray(tilesRaw) ? tilesRaw : [];
+  const tiles = Array.from({ length: tileCount(layout) }, (_, i) => (i < given.length ? parseTile(given[i]) : DEFAULT_WALL_TILE));
+  return { layout, tiles };
+}
+
+export function withLayout(setup: WallSetup, layout: WallLayout): WallSetup {
+  return parseWallSetup(layout, setup.tiles);
+}
+
+// Tiles with the same key draw from one shared queue, so they never show
+// the same clip side by side.
+export function sourceKey(source: WallTileSource): string {
+  switch (source.kind) {
+    case "playlist":
+      return "playlist";
+    case "otherPlaylist":
+      return `playlist:${source.playlistId}`;
+    case "tags":
+      return `tags:${source.match}:${source.tags.map((t) => t.id).sort().join(",")}`;
+  }
+}